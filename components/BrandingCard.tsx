@@ -139,7 +139,9 @@ export default function ChatAssistant(props: ChatAssistantProps) {
 
     const { reply, refinedIdea, nextStage, plan } = await sendToAssistant(
       [...current.messages, userMsg],
-      current.currentStage
+      current.currentStage,
+      undefined,
+      current.id
     );
     setLoading(false);
 
@@ -55,6 +55,24 @@ export default function SummaryPanel({ idea, onAdvanceStage }) {
         </div>
       )}
 
+      {idea.usage && (
+        <div>
+          <strong>Model Usage:</strong>
+          <div className="pl-2 space-y-1 mt-1">
+            <div>
+              <strong>Last build:</strong> {idea.usage.buildTokens.toLocaleString()} tokens,{" "}
+              {idea.usage.estimated ? "~" : ""}${idea.usage.buildCostUsd.toFixed(2)}
+            </div>
+            {idea.usage.ideaCostUsd !== undefined && (
+              <div>
+                <strong>Idea total:</strong> ${idea.usage.ideaCostUsd.toFixed(2)}
+                {idea.usage.budgetUsd ? ` of $${idea.usage.budgetUsd.toFixed(2)} budget` : ""}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       <button
         onClick={onAdvanceStage}
         className="text-xs text-blue-500 underline mt-2"
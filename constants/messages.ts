@@ -19,6 +19,8 @@ export const STAGE_ORDER: StageType[] = [
   "ideation",
   "validation",
   "branding",
+  "features",
+  "stack",
   "mvp",
   "generatePlan",
 ];
@@ -7,6 +7,7 @@ import { initializeIdea, updateIdea as rawUpdateIdea } from "./useIdeaLifecycle"
 import { useSendHandler } from "./useSendHandler";
 import { useStageTransition } from "./useStageTransition";
 import { useDeploymentHandler } from "./useDeploymentHandler";
+import { useRegenerateHandler } from "./useRegenerateHandler";
 
 export default function useChatStages(onReady?: () => void) {
   const [ideas, setIdeas] = useState<any[]>([]);
@@ -97,12 +98,15 @@ export default function useChatStages(onReady?: () => void) {
     setDeployLogs,
   });
 
+  const handleRegenerate = useRegenerateHandler({ ideas, updateIdea });
+
   const handleSend = useSendHandler({
     ideas,
     activeIdea,
     updateIdea,
     handleAdvanceStage,
     handleConfirmBuild,
+    handleRegenerate,
     messageEndRef,
     panelRef,
     setLoading,
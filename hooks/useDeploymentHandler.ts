@@ -1,4 +1,4 @@
-import { getMvpStream } from "../lib/api";
+import { getMvpStream, ideaUsageFromEvent } from "../lib/api";
 import sanitizeMessages from "../utils/sanitizeMessages";
 import type { Dispatch, SetStateAction } from "react";
 
@@ -23,7 +23,7 @@ export function useDeploymentHandler({
     }));
   };
 
-  const handleConfirmBuild = async (id: string) => {
+  const handleConfirmBuild = async (id: string, opts: { bypassCache?: boolean } = {}) => {
     const idea = ideas.find((i) => i.id === id);
     if (!idea || !idea.takeaways?.branding || !idea.messages?.length) {
       updateIdea(id, {
@@ -46,32 +46,11 @@ export function useDeploymentHandler({
     updateIdea(id, { messages: messageAccumulator });
 
     let firstLogSeen = false;
+    // Kept so a failed build can be resumed from its checkpoint
+    let buildId: string | undefined;
 
-    const appendLog = (line: string) => {
-      let parsed: any = null;
-
-      try {
-        parsed = JSON.parse(line);
-      } catch {
-        // not JSON — treat as plain string
-      }
-
-      let displayText: string | null = null;
-
-      if (parsed) {
-        if (parsed.message) {
-          displayText = parsed.message;
-        } else if (parsed.pagesUrl) {
-          displayText = `🌍 Site: ${parsed.pagesUrl}`;
-        } else if (parsed.repoUrl) {
-          displayText = `📁 Repo: ${parsed.repoUrl}`;
-        } else if (parsed.error) {
-          displayText = `❌ ${parsed.error}`;
-        }
-      } else {
-        displayText = line;
-      }
-
+    // Lines arrive pre-rendered from typed build events (see getMvpStream)
+    const appendLog = (displayText: string) => {
       if (displayText) {
         messageAccumulator = [
           ...messageAccumulator,
@@ -116,6 +95,14 @@ export function useDeploymentHandler({
               deployed: true,
               repoUrl: repoUrl || "",
               pagesUrl,
+              buildId,
+            });
+          } else if (repoUrl) {
+            updateIdea(id, {
+              deploying: false,
+              deployed: true,
+              repoUrl,
+              buildId,
             });
           } else if (plan) {
             appendLog("✅ Here’s the MVP build plan generated by the agent:\n\n" + plan);
@@ -137,7 +124,20 @@ export function useDeploymentHandler({
           updateIdea(id, {
             deploying: false,
             deployError: errMsg,
+            buildId,
           });
+        },
+        // onEvent
+        (event) => {
+          if (event.buildId) buildId = event.buildId;
+          if (event.type === "usage") updateIdea(id, { usage: ideaUsageFromEvent(event) });
+        },
+        {
+          archetype: idea.archetype,
+          bypassCache: opts.bypassCache,
+          budgetUsd: idea.budgetUsd,
+          stack: idea.takeaways?.stack?.accepted ? idea.takeaways.stack : undefined,
+          features: idea.takeaways?.features,
         }
       );
     } catch (err: any) {
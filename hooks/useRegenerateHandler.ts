@@ -0,0 +1,55 @@
+import { ideaUsageFromEvent, postRegenerate, type RegenerateRequest } from "../lib/api";
+
+type UseRegenerateHandlerParams = {
+  ideas: any[];
+  updateIdea: (id: string, updates: any) => void;
+};
+
+export function useRegenerateHandler({ ideas, updateIdea }: UseRegenerateHandlerParams) {
+  const say = (ideaId: string, line: string) => {
+    updateIdea(ideaId, (prev: any) => ({
+      ...prev,
+      messages: [...(prev.messages || []), { role: "assistant", content: line }],
+    }));
+  };
+
+  const handleRegenerate = async (id: string, request: RegenerateRequest) => {
+    const idea = ideas.find((i) => i.id === id);
+    if (!idea?.buildId) {
+      say(id, "⚠️ There is no finished build to update yet. Type \"deploy\" first.");
+      return;
+    }
+
+    updateIdea(id, { deploying: true });
+    try {
+      await postRegenerate(
+        idea.buildId,
+        { budgetUsd: idea.budgetUsd, ...request },
+        // onLog
+        (line) => say(id, line),
+        // onDone
+        ({ files, repoUrl }) => {
+          if (files?.length) {
+            say(id, `✅ Updated ${files.join(", ")}` + (repoUrl ? `\nCommitted to ${repoUrl}` : ""));
+          }
+          updateIdea(id, { deploying: false, ...(repoUrl && { repoUrl }) });
+        },
+        // onError
+        (errMsg) => {
+          say(id, `❌ Update failed: ${errMsg}`);
+          updateIdea(id, { deploying: false });
+        },
+        // onEvent
+        (event) => {
+          if (event.type === "usage") updateIdea(id, { usage: ideaUsageFromEvent(event) });
+        }
+      );
+    } catch (err: any) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      say(id, `❌ Update failed: ${errMsg}`);
+      updateIdea(id, { deploying: false });
+    }
+  };
+
+  return handleRegenerate;
+}
@@ -1,4 +1,8 @@
 import { sendToAssistant } from "../lib/assistantClient";
+import { postAcceptStack, postSaveFeatures, type RegenerateRequest } from "../lib/api";
+import { ARCHETYPES, isArchetypeId } from "../lib/build/archetypes";
+import { STACK_EDIT_HELP, describeStack, editStack } from "../lib/build/stackRecommendation";
+import { FEATURE_EDIT_HELP, describeFeatures, editFeatures } from "../lib/build/features";
 import type { VentureStage as StageType } from "../types";
 
 type Message = {
@@ -8,12 +12,24 @@ type Message = {
   imageUrl?: string;
 };
 
+/**
+ * Arguments of a slash command ("/regenerate app.js: …"), or undefined
+ * when `content` isn't that command. Commands that take arguments need the
+ * slash so ordinary chat ("Regenerate the tagline please") still goes to
+ * the assistant.
+ */
+function slashCommand(content: string, name: string): string | undefined {
+  const m = content.trim().match(new RegExp(`^/${name}(?:\\s+([\\s\\S]*))?$`, "i"));
+  return m ? (m[1] || "").trim() : undefined;
+}
+
 type UseSendHandlerParams = {
   ideas: any[];
   activeIdea: any;
   updateIdea: (id: string, updates: any) => void;
   handleAdvanceStage: (id: string, stage?: StageType) => void;
-  handleConfirmBuild: (id: string) => void;
+  handleConfirmBuild: (id: string, opts?: { bypassCache?: boolean }) => void;
+  handleRegenerate: (id: string, request: RegenerateRequest) => void;
   messageEndRef: React.RefObject<HTMLDivElement>;
   panelRef: React.RefObject<HTMLDivElement>;
   setLoading: (val: boolean) => void;
@@ -25,6 +41,7 @@ export function useSendHandler({
   updateIdea,
   handleAdvanceStage,
   handleConfirmBuild,
+  handleRegenerate,
   messageEndRef,
   panelRef,
   setLoading,
@@ -58,8 +75,40 @@ export function useSendHandler({
         if (current.currentStage === "ideation" || current.currentStage === "validation")
           return stageCommand("ideation");
       },
-      "accept branding": () => stageCommand("mvp"),
+      "accept branding": () => stageCommand("features"),
       "regenerate branding": () => stageCommand("branding"),
+      "regenerate features": () => stageCommand("features"),
+      // Saved server-side so the stack recommendation and the build read the edited list
+      "accept features": async () => {
+        const features = current.takeaways?.features;
+        if (!features) return stageCommand("features");
+        updateIdea(id, {
+          messages: [...current.messages, { role: "user", content }],
+        });
+        try {
+          await postSaveFeatures(id, features);
+        } catch (err) {
+          console.warn("⚠️ Failed to save the feature list:", err);
+        }
+        handleAdvanceStage(id, "stack");
+      },
+      "regenerate stack": () => stageCommand("stack"),
+      // Saves the stack server-side too, so a build without it in the body still plans against it
+      "accept stack": async () => {
+        const stack = current.takeaways?.stack;
+        if (!stack) return stageCommand("stack");
+        const accepted = { ...stack, accepted: true };
+        updateIdea(id, {
+          messages: [...current.messages, { role: "user", content }],
+          takeaways: { ...current.takeaways, stack: accepted },
+        });
+        try {
+          await postAcceptStack(id, accepted);
+        } catch (err) {
+          console.warn("⚠️ Failed to save the accepted stack:", err);
+        }
+        handleAdvanceStage(id, "mvp");
+      },
       "start over": () => stageCommand("ideation"),
       deploy: () => {
         updateIdea(id, {
@@ -73,10 +122,159 @@ export function useSendHandler({
         }));
         handleConfirmBuild(id);
       },
+      // Same as deploy, but skips the codegen cache so every file is generated fresh
+      "deploy fresh": () => {
+        updateIdea(id, {
+          messages: [...current.messages, { role: "user", content }],
+        });
+        updateIdea(id, (prev: any) => ({
+          messages: [
+            ...prev.messages,
+            { role: "assistant", content: "🚀 Deploying your MVP from scratch…" },
+          ],
+        }));
+        handleConfirmBuild(id, { bypassCache: true });
+      },
     };
 
     if (commandMap[trimmed]) return commandMap[trimmed]();
 
+    // "/regenerate <path> [<path>…][: change]" rebuilds files of the last build;
+    // "/add <path>: <description>" adds one. Only the diff is committed.
+    const regenArgs = slashCommand(content, "regenerate");
+    const addArgs = slashCommand(content, "add");
+    const regen = regenArgs?.match(/^([^:]+?)(?:\s*:\s*([\s\S]+))?$/);
+    const addFile = addArgs?.match(/^(\S+)\s*:\s*([\s\S]+)$/);
+    if (regenArgs !== undefined || addArgs !== undefined) {
+      if (!regen && !addFile) {
+        updateIdea(id, {
+          messages: [
+            ...current.messages,
+            { role: "user", content },
+            {
+              role: "assistant",
+              content: 'Use "/regenerate <path> [<path>…][: change]" or "/add <path>: <description>" once the MVP is built.',
+            },
+          ],
+        });
+        return;
+      }
+      simpleCommand();
+      const request: RegenerateRequest = regen
+        ? { paths: regen[1].split(/[\s,]+/).filter(Boolean), instruction: regen[2] }
+        : { add: [{ path: addFile![1], description: addFile![2] }] };
+      return handleRegenerate(id, request);
+    }
+
+    // "/budget <usd>" caps what this idea's builds may spend; "/budget off" uses the server default
+    const budgetArgs = slashCommand(trimmed, "budget");
+    if (budgetArgs !== undefined) {
+      const value = budgetArgs.replace(/^\$/, "") || undefined;
+      const amount = value ? parseFloat(value) : NaN;
+      let budgetUsd = current.budgetUsd;
+      let reply: string;
+      if (value === "off") {
+        budgetUsd = undefined;
+        reply = "💰 Budget cleared; the server default applies.";
+      } else if (Number.isFinite(amount) && amount > 0) {
+        budgetUsd = amount;
+        reply = `💰 Builds for this idea will stop once it has spent $${amount.toFixed(2)} (or the server cap, if lower).`;
+      } else {
+        const spent = current.usage?.ideaCostUsd;
+        reply =
+          (budgetUsd ? `💰 Budget: $${budgetUsd.toFixed(2)}.` : "💰 No budget set for this idea.") +
+          (spent !== undefined ? ` Spent so far: $${spent.toFixed(2)}.` : "") +
+          '\nReply "/budget <amount>" to set one, or "/budget off".';
+      }
+      updateIdea(id, {
+        budgetUsd,
+        messages: [
+          ...current.messages,
+          { role: "user", content },
+          { role: "assistant", content: reply },
+        ],
+      });
+      return;
+    }
+
+    // "/archetype <id>" pins the project type for the next build; "/archetype auto" clears it
+    const choice = slashCommand(trimmed, "archetype");
+    if (choice !== undefined) {
+      const options = Object.values(ARCHETYPES)
+        .map((a) => `• ${a.id} — ${a.label}`)
+        .join("\n");
+      let reply: string;
+      let archetype = current.archetype;
+      if (choice === "auto") {
+        archetype = undefined;
+        reply = "🧩 Project type will be picked from your idea.";
+      } else if (isArchetypeId(choice)) {
+        archetype = choice;
+        reply = `🧩 Project type set to ${ARCHETYPES[choice].label}.`;
+      } else {
+        reply = `Available project types:\n${options}\n\nReply "/archetype <id>" to pick one, or "/archetype auto".`;
+      }
+      updateIdea(id, {
+        archetype,
+        messages: [
+          ...current.messages,
+          { role: "user", content },
+          { role: "assistant", content: reply },
+        ],
+      });
+      return;
+    }
+
+    // "/feature <edit>" changes the feature list; numbers refer to its order
+    const featureEdit = slashCommand(content, "feature");
+    if (featureEdit !== undefined) {
+      const features = current.takeaways?.features;
+      const edited = features ? editFeatures(features, featureEdit) : undefined;
+      const reply = !edited
+        ? "📋 No feature list yet: accept the branding first to draft one."
+        : edited.error
+        ? `⚠️ ${edited.error}`
+        : `📋 **Updated features**\n\n${describeFeatures(edited.features)}\n\n${FEATURE_EDIT_HELP}`;
+      updateIdea(id, {
+        takeaways: { ...current.takeaways, ...(edited && !edited.error ? { features: edited.features } : {}) },
+        messages: [
+          ...current.messages,
+          { role: "user", content },
+          {
+            role: "assistant",
+            content: reply,
+            ...(edited ? { actions: [{ label: "Accept Features", command: "accept features" }] } : {}),
+          },
+        ],
+      });
+      return;
+    }
+
+    // "/stack <edit>" changes the recommended stack before it is accepted
+    const stackEdit = slashCommand(trimmed, "stack");
+    if (stackEdit !== undefined) {
+      const stack = current.takeaways?.stack;
+      const edited = stack ? editStack(stack, stackEdit) : undefined;
+      const reply = !edited
+        ? "🧱 No stack yet: accept the branding first to get a recommendation."
+        : edited.error
+        ? `⚠️ ${edited.error}`
+        : `🧱 **Updated stack**\n\n${describeStack(edited.stack)}\n\n${STACK_EDIT_HELP}`;
+      updateIdea(id, {
+        takeaways: { ...current.takeaways, ...(edited && !edited.error ? { stack: edited.stack } : {}) },
+        messages: [
+          ...current.messages,
+          { role: "user", content },
+          {
+            role: "assistant",
+            content: reply,
+            ...(edited ? { actions: [{ label: "Accept Stack", command: "accept stack" }] } : {}),
+          },
+        ],
+      });
+      return;
+    }
+
     const userMsg = { role: "user", content };
     const placeholder = { role: "assistant", content: "" };
     const baseMessages = [...current.messages, userMsg, placeholder];
@@ -87,7 +285,9 @@ export function useSendHandler({
 
     const { reply, nextStage, plan } = await sendToAssistant(
       [...current.messages, userMsg],
-      current.currentStage
+      current.currentStage,
+      undefined,
+      id
     );
 
     setLoading(false);
@@ -1,4 +1,7 @@
-import { postValidate, postBranding } from "../lib/api";
+import { postValidate, postBranding, postFeatures, postStack } from "../lib/api";
+import { STACK_EDIT_HELP } from "../lib/build/stackRecommendation";
+import { FEATURE_EDIT_HELP } from "../lib/build/features";
+import sanitizeMessages from "../utils/sanitizeMessages";
 import type { VentureStage as StageType } from "../types";
 import { STAGE_ORDER } from "../constants/messages";
 
@@ -186,6 +189,132 @@ export function useStageTransition({
       }
     }
 
+    // === FEATURES STAGE ===
+    if (nextStage === "features") {
+      try {
+        const data = await postFeatures(idea.id, sanitizeMessages(idea.messages));
+        if (!Array.isArray(data?.features)) throw new Error(data?.error || "No features returned");
+        const featuresText =
+          "📋 **Features for the MVP**\n\n" + data.text + "\n\n" + FEATURE_EDIT_HELP;
+
+        updateIdea(id, {
+          messages: [...idea.messages, { role: "assistant", content: "Thinking" }],
+        });
+
+        const reveal = (i: number) => {
+          const content = featuresText.slice(0, i);
+
+          updateIdea(id, (prev: any) => ({
+            ...prev,
+            messages: prev.messages.map((m: any, idx: number) =>
+              idx === prev.messages.length - 1 ? { ...m, content } : m
+            ),
+          }));
+
+          if (i < featuresText.length) {
+            requestAnimationFrame(() => reveal(i + 1));
+          } else {
+            updateIdea(id, (prev: any) => ({
+              ...prev,
+              messages: prev.messages.map((m: any, idx: number) =>
+                idx === prev.messages.length - 1
+                  ? {
+                      ...m,
+                      actions: [
+                        { label: "Accept Features", command: "accept features" },
+                        { label: "Regenerate Features", command: "regenerate features" },
+                        { label: "Start Over", command: "start over" },
+                      ],
+                    }
+                  : m
+              ),
+              takeaways: {
+                ...prev.takeaways,
+                features: data.features,
+              },
+            }));
+          }
+        };
+
+        requestAnimationFrame(() => reveal(1));
+      } catch {
+        updateIdea(id, {
+          messages: [
+            ...idea.messages,
+            {
+              role: "assistant",
+              content: "⚠️ Feature extraction failed. Please try again later.",
+            },
+          ],
+        });
+      }
+    }
+
+    // === STACK STAGE ===
+    if (nextStage === "stack") {
+      try {
+        const data = await postStack(
+          idea.takeaways?.refinedIdea || idea.title,
+          idea.id,
+          idea.validation,
+          idea.takeaways?.features?.map((f: any) => (f.description ? `${f.name}: ${f.description}` : f.name))
+        );
+        if (!data?.stack) throw new Error(data?.error || "No stack returned");
+        const stackText = "🧱 **Recommended stack**\n\n" + data.text + "\n\n" + STACK_EDIT_HELP;
+
+        updateIdea(id, {
+          messages: [...idea.messages, { role: "assistant", content: "Thinking" }],
+        });
+
+        const reveal = (i: number) => {
+          const content = stackText.slice(0, i);
+
+          updateIdea(id, (prev: any) => ({
+            ...prev,
+            messages: prev.messages.map((m: any, idx: number) =>
+              idx === prev.messages.length - 1 ? { ...m, content } : m
+            ),
+          }));
+
+          if (i < stackText.length) {
+            requestAnimationFrame(() => reveal(i + 1));
+          } else {
+            updateIdea(id, (prev: any) => ({
+              ...prev,
+              messages: prev.messages.map((m: any, idx: number) =>
+                idx === prev.messages.length - 1
+                  ? {
+                      ...m,
+                      actions: [
+                        { label: "Accept Stack", command: "accept stack" },
+                        { label: "Regenerate Stack", command: "regenerate stack" },
+                        { label: "Start Over", command: "start over" },
+                      ],
+                    }
+                  : m
+              ),
+              takeaways: {
+                ...prev.takeaways,
+                stack: data.stack,
+              },
+            }));
+          }
+        };
+
+        requestAnimationFrame(() => reveal(1));
+      } catch {
+        updateIdea(id, {
+          messages: [
+            ...idea.messages,
+            {
+              role: "assistant",
+              content: "⚠️ Stack recommendation failed. Please try again later.",
+            },
+          ],
+        });
+      }
+    }
+
     // === MVP STAGE ===
     if (nextStage === "mvp") {
       const mvpMsg = {
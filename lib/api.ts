@@ -1,3 +1,15 @@
+import {
+  BuildEventSchema,
+  describeBuildEvent,
+  type BuildEvent,
+  type ResultEvent,
+  type UsageEvent,
+} from "./build/buildEvents";
+import type { IdeaUsage } from "../types";
+import type { DataSchema } from "./build/d1Schema";
+import type { StackRecommendation } from "./build/stackRecommendation";
+import type { Feature } from "./build/features";
+
 /**
  * Base URL for all API calls.  If the environment provides
  * `NEXT_PUBLIC_API_URL` it will be used; otherwise a sensible
@@ -10,7 +22,10 @@ export const baseUrl =
 
 export const validateUrl = `${baseUrl}/validate`;
 export const brandUrl = `${baseUrl}/brand`;
+export const featuresUrl = `${baseUrl}/features`;
+export const stackUrl = `${baseUrl}/stack`;
 export const mvpUrl = `${baseUrl}/mvp`;
+export const regenerateUrl = `${baseUrl}/regenerate`;
 
 /**
  * Submit an idea for validation.  Returns a promise with the parsed JSON response.
@@ -36,6 +51,59 @@ export async function postBranding(idea: string, ideaId: any) {
   return res.json();
 }
 
+/**
+ * Extract the feature list (name, description, priority, acceptance
+ * criteria) from the conversation.
+ */
+export async function postFeatures(ideaId: any, messages: any[]) {
+  const res = await fetch(featuresUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ideaId, messages }),
+  });
+  return res.json();
+}
+
+/**
+ * Save the feature list as edited in chat; builds for the idea plan
+ * against it.
+ */
+export async function postSaveFeatures(ideaId: any, features: Feature[]) {
+  const res = await fetch(featuresUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ideaId, features }),
+  });
+  return res.json();
+}
+
+/**
+ * Request a stack recommendation (target, storage, auth, integrations).
+ * Validation and features the server already has for the idea are used
+ * when not passed.
+ */
+export async function postStack(idea: string, ideaId: any, validation?: string, features?: string[]) {
+  const res = await fetch(stackUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ idea, ideaId, validation, features }),
+  });
+  return res.json();
+}
+
+/**
+ * Save a (possibly edited) stack as accepted; builds for the idea then
+ * plan against it.
+ */
+export async function postAcceptStack(ideaId: any, stack: StackRecommendation) {
+  const res = await fetch(stackUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ideaId, stack, accept: true }),
+  });
+  return res.json();
+}
+
 /**
  * Deploy an MVP for the given idea (standard request).
  */
@@ -52,16 +120,41 @@ export async function postMvp(
   return res;
 }
 
+export type MvpStreamResult = {
+  buildId?: string;
+  pagesUrl?: string;
+  repoUrl?: string;
+  plan?: string;
+  // Paths reported by the result event (changed files for /regenerate)
+  files?: string[];
+  // Feature → file coverage of the build
+  features?: ResultEvent["features"];
+};
+
 /**
- * Stream real-time deployment logs using Server-Sent Events.
+ * Stream real-time deployment progress using Server-Sent Events.
+ * Each `data:` line is a typed build event (see lib/build/buildEvents.ts);
+ * `onLog` receives a readable rendering, `onEvent` the raw event.
  */
 export async function getMvpStream(
   ideaId: any,
   branding: any,
   messages: any[],
   onLog: (message: string) => void,
-  onDone: (result: { pagesUrl?: string; repoUrl?: string; plan?: string }) => void,
+  onDone: (result: MvpStreamResult) => void,
   onError: (error: string) => void,
+  onEvent?: (event: BuildEvent) => void,
+  extra: {
+    buildId?: string;
+    resume?: boolean;
+    archetype?: string;
+    target?: "worker" | "worker-spa" | "hono" | "astro";
+    bypassCache?: boolean;
+    budgetUsd?: number;
+    sandbox?: "off" | "run" | "require";
+    stack?: StackRecommendation;
+    features?: Feature[];
+  } = {},
 ) {
   const response = await fetch(`${mvpUrl}?stream=true`, {
     method: "POST",
@@ -69,47 +162,139 @@ export async function getMvpStream(
       "Content-Type": "application/json",
       Accept: "text/event-stream",
     },
-    body: JSON.stringify({ ideaId, branding, messages }),
+    body: JSON.stringify({ ideaId, branding, messages, ...extra }),
+  });
+
+  return readBuildStream(response, onLog, onDone, onError, onEvent);
+}
+
+export type RegenerateRequest = {
+  paths?: string[];
+  add?: { path: string; description: string }[];
+  instruction?: string;
+  budgetUsd?: number;
+  // Run the Worker in the build sandbox before committing
+  sandbox?: "off" | "run" | "require";
+  // New D1 schema for the project; adds the next migration
+  schema?: DataSchema;
+};
+
+/**
+ * Regenerate or add files in a finished build; streams the same build
+ * events as getMvpStream and commits only the changed files.
+ */
+export async function postRegenerate(
+  buildId: string,
+  request: RegenerateRequest,
+  onLog: (message: string) => void,
+  onDone: (result: MvpStreamResult) => void,
+  onError: (error: string) => void,
+  onEvent?: (event: BuildEvent) => void,
+) {
+  const response = await fetch(regenerateUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
+    body: JSON.stringify({ buildId, ...request }),
   });
 
+  return readBuildStream(response, onLog, onDone, onError, onEvent);
+}
+
+/**
+ * Flatten a `usage` build event into the totals kept on the idea.
+ */
+export function ideaUsageFromEvent(event: UsageEvent): IdeaUsage {
+  return {
+    buildTokens: event.build.totalTokens,
+    buildCostUsd: event.build.costUsd,
+    ideaTokens: event.idea?.totalTokens,
+    ideaCostUsd: event.idea?.costUsd,
+    budgetUsd: event.budgetUsd,
+    estimated: event.build.estimated || event.idea?.estimated,
+  };
+}
+
+/**
+ * Consume an SSE response of build events until a terminal event.
+ */
+async function readBuildStream(
+  response: Response,
+  onLog: (message: string) => void,
+  onDone: (result: MvpStreamResult) => void,
+  onError: (error: string) => void,
+  onEvent?: (event: BuildEvent) => void,
+) {
   if (!response.ok || !response.body) {
-    onError(`HTTP error: ${response.status}`);
+    const detail = await response.json().then((d) => d?.error).catch(() => undefined);
+    onError(detail ? `HTTP error: ${response.status} (${detail})` : `HTTP error: ${response.status}`);
     return;
   }
 
   const reader = response.body.getReader();
   const decoder = new TextDecoder();
   let buffer = "";
-  const final: { pagesUrl?: string; repoUrl?: string; plan?: string } = {};
+  const final: MvpStreamResult = {};
 
   while (true) {
     const { value, done } = await reader.read();
     if (done) break;
 
     buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n\n");
-    buffer = lines.pop() || "";
-
-    for (const line of lines) {
-      if (!line.startsWith("data:")) continue;
-      const content = line.slice(5).trim();
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() || "";
 
+    for (const frame of frames) {
+      // An SSE frame may carry several data: lines; they join with newlines
+      const content = frame
+        .split("\n")
+        .filter((l) => l.startsWith("data:"))
+        .map((l) => l.slice(5).trim())
+        .join("\n");
       if (!content) continue;
 
-      if (content.startsWith("pagesUrl:")) {
-        final.pagesUrl = content.replace("pagesUrl:", "").trim();
-      } else if (content.startsWith("repoUrl:")) {
-        final.repoUrl = content.replace("repoUrl:", "").trim();
-      } else if (content.startsWith("plan:")) {
-        final.plan = content.replace("plan:", "").trim();
-      } else if (content.startsWith("❌")) {
-        onError(content);
-        return;
-      } else {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(content);
+      } catch {
         onLog(content);
+        continue;
+      }
+      const parsed = BuildEventSchema.safeParse(raw);
+      if (!parsed.success) {
+        console.warn("Unrecognized build event", raw);
+        continue;
+      }
+
+      const event = parsed.data;
+      onEvent?.(event);
+      if (event.buildId) final.buildId = event.buildId;
+
+      if (event.type === "error") {
+        onError(event.message);
+        return;
+      }
+      if (event.type === "artifact" && event.kind === "plan") final.plan = event.plan;
+      if (event.type === "result") {
+        final.plan = event.plan;
+        final.repoUrl = event.repoUrl;
+        final.pagesUrl = event.pagesUrl;
+        final.files = event.files;
+        final.features = event.features;
+      }
+
+      const line = describeBuildEvent(event);
+      if (line) onLog(line);
+
+      if (event.type === "result") {
+        onDone(final);
+        return;
       }
     }
   }
 
-  onDone(final);
-}
\ No newline at end of file
+  // Stream closed without a terminal event
+  onError("Build stream ended unexpectedly");
+}
@@ -4,7 +4,8 @@ import type { VentureStage } from "../types";
 export async function sendToAssistant(
   messages: { role: string; content: string }[],
   stage: VentureStage = "ideation",
-  onChunk?: (chunk: string) => void
+  onChunk?: (chunk: string) => void,
+  ideaId?: string
 ): Promise<{
   reply: string;
   refinedIdea?: string;
@@ -20,7 +21,8 @@ export async function sendToAssistant(
   const res = await fetch("https://venturepilot-api.promptpulse.workers.dev/assistant", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ messages: payload }),
+    // ideaId lets the worker attribute token usage to the idea
+    body: JSON.stringify({ messages: payload, ideaId }),
   });
 
   // Streaming support
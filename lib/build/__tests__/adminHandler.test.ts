@@ -0,0 +1,91 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { transform } from "sucrase";
+import { describe, expect, it } from "vitest";
+import { adminSourceForContactForm, renderAdminHandler } from "../../../worker/utils/templates/adminHandler";
+import type { ContactFormSpec } from "../../../worker/utils/templates/contactFormHandler";
+
+type AdminModule = { adminHandler(req: Request, env: Record<string, unknown>): Promise<Response> };
+
+const WAITLIST: ContactFormSpec = {
+  name: "waitlist",
+  kind: "waitlist",
+  fields: [{ name: "email", type: "email", required: true }],
+  storage: { binding: "FORMS_KV" },
+};
+
+const AUTH = { Authorization: "Bearer secret" };
+
+// Types stripped the way the sandbox does it, then imported as a module
+async function loadRendered<T>(source: string): Promise<T> {
+  const file = join(mkdtempSync(join(tmpdir(), "admin-")), "admin.mjs");
+  writeFileSync(file, transform(source, { transforms: ["typescript"], disableESTransforms: true }).code);
+  return import(/* @vite-ignore */ pathToFileURL(file).href);
+}
+
+// Lists keys in name order with their metadata, like KV
+function memoryKv(entries: { key: string; value: unknown; metadata?: unknown }[]) {
+  const byKey = new Map(entries.map((e) => [e.key, e]));
+  return {
+    async get(key: string) {
+      const entry = byKey.get(key);
+      return entry ? JSON.stringify(entry.value) : null;
+    },
+    async list({ prefix = "" }: { prefix?: string } = {}) {
+      const keys = [...byKey.keys()]
+        .filter((k) => k.startsWith(prefix))
+        .sort()
+        .map((name) => ({ name, metadata: byKey.get(name)!.metadata }));
+      return { keys, list_complete: true };
+    },
+  };
+}
+
+function signup(email: string, t?: number) {
+  return {
+    key: `waitlist:signup:${email}`,
+    value: { email, submittedAt: new Date(t ?? 0).toISOString() },
+    ...(t === undefined ? {} : { metadata: { t } }),
+  };
+}
+
+describe("rendered admin handler", () => {
+  const mod = loadRendered<AdminModule>(renderAdminHandler({ sources: [adminSourceForContactForm(WAITLIST)] }));
+
+  async function list(kv: ReturnType<typeof memoryKv>) {
+    const { adminHandler } = await mod;
+    const res = await adminHandler(new Request("https://app.test/admin/api/waitlist", { headers: AUTH }), { ADMIN_TOKEN: "secret", FORMS_KV: kv });
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { items: { id: string }[] };
+    return body.items.map((r) => r.id);
+  }
+
+  it("lists waitlist signups newest first by their stored time, not by email", async () => {
+    const kv = memoryKv([signup("amy@example.com", 3000), signup("zed@example.com", 1000), signup("kim@example.com", 2000)]);
+    expect(await list(kv)).toEqual(["amy@example.com", "kim@example.com", "zed@example.com"]);
+  });
+
+  it("falls back to reverse key order when a record has no stored time", async () => {
+    const kv = memoryKv([signup("amy@example.com", 3000), signup("zed@example.com"), signup("kim@example.com", 2000)]);
+    expect(await list(kv)).toEqual(["zed@example.com", "kim@example.com", "amy@example.com"]);
+  });
+
+  it("asks for credentials without the admin token", async () => {
+    const { adminHandler } = await mod;
+    const res = await adminHandler(new Request("https://app.test/admin/api/waitlist"), { ADMIN_TOKEN: "secret", FORMS_KV: memoryKv([]) });
+    expect(res.status).toBe(401);
+    const ok = await adminHandler(new Request("https://app.test/admin/api/sources", { headers: AUTH }), { ADMIN_TOKEN: "secret" });
+    expect(ok.status).toBe(200);
+  });
+
+  it("serves a page whose script parses", async () => {
+    const { adminHandler } = await mod;
+    const res = await adminHandler(new Request("https://app.test/admin", { headers: AUTH }), { ADMIN_TOKEN: "secret" });
+    const html = await res.text();
+    const script = /<script>([\s\S]*)<\/script>/.exec(html)?.[1];
+    expect(script).toContain("textContent");
+    expect(() => new Function(script!)).not.toThrow();
+  });
+});
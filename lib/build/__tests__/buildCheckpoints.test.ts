@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  batchKey,
+  createCheckpoint,
+  createKvCheckpointStore,
+  getCheckpointStore,
+  withSerialSaves,
+  type KvLike,
+} from "../buildCheckpoints";
+
+/** KV whose writes land in reverse order of issue while they overlap. */
+function slowKv(): KvLike & { data: Map<string, string>; puts: number } {
+  const data = new Map<string, string>();
+  let pending = 0;
+  const kv = {
+    data,
+    puts: 0,
+    async get(key: string) {
+      return data.get(key) ?? null;
+    },
+    async put(key: string, value: string) {
+      kv.puts++;
+      const delay = 20 - 5 * pending++;
+      await new Promise((r) => setTimeout(r, Math.max(0, delay)));
+      pending--;
+      data.set(key, value);
+    },
+  };
+  return kv;
+}
+
+const file = (path: string) => [{ path, content: `// ${path}` }];
+
+describe("batchKey", () => {
+  it("does not depend on path order", () => {
+    expect(batchKey(["b.ts", "a.ts"])).toBe(batchKey(["a.ts", "b.ts"]));
+  });
+});
+
+describe("checkpoint stores", () => {
+  it("round-trips a checkpoint through KV", async () => {
+    const kv = slowKv();
+    const store = createKvCheckpointStore(kv);
+    const cp = createCheckpoint("b1", "idea-1", { userBrief: "x" });
+    cp.batches[batchKey(["a.ts"])] = file("a.ts");
+    await store.save(cp);
+    expect(await store.load("b1")).toEqual(cp);
+    expect(await store.load("missing")).toBeNull();
+  });
+
+
+  it("keeps the newest snapshot when batches save at the same time", async () => {
+    const kv = slowKv();
+    const store = withSerialSaves(createKvCheckpointStore(kv));
+    const cp = createCheckpoint("b3", "idea-1", {});
+    const saves: Promise<void>[] = [];
+    for (const p of ["a.ts", "b.ts", "c.ts"]) {
+      cp.batches[p] = file(p);
+      saves.push(store.save(cp));
+    }
+    await Promise.all(saves);
+    expect(kv.puts).toBe(3);
+    expect(Object.keys((await store.load("b3"))!.batches).sort()).toEqual(["a.ts", "b.ts", "c.ts"]);
+  });
+
+  it("serializes the stores it hands out", async () => {
+    const kv = slowKv();
+    const store = getCheckpointStore({ BUILD_KV: kv });
+    const order: string[] = [];
+    const cp = createCheckpoint("b4", "idea-1", {});
+    await Promise.all(
+      ["a.ts", "b.ts"].map(async (p) => {
+        await store.save({ ...cp, batches: { [p]: file(p) } });
+        order.push(p);
+      })
+    );
+    expect(order).toEqual(["a.ts", "b.ts"]);
+    expect(Object.keys((await store.load("b4"))!.batches)).toEqual(["b.ts"]);
+  });
+});
@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { BuildEvent } from "../buildEvents";
+import type { BuildCheckpoint } from "../buildCheckpoints";
+import type { PlannedProject } from "../planProjectFiles";
+
+const CONTENT: Record<string, string> = {
+  "src/index.ts":
+    "import { greeting } from './lib/greeting';\n" +
+    "export default {\n  async fetch(): Promise<Response> {\n    return new Response(greeting);\n  },\n};\n",
+  "src/lib/greeting.ts": "export const greeting = 'hello';\n",
+  "public/index.html": "<!doctype html>\n<html><head><title>App</title></head><body><p>hi</p></body></html>\n",
+};
+
+const PLAN: PlannedProject = {
+  plan: "A greeting Worker",
+  targetFiles: [
+    { path: "src/index.ts", description: "Worker entry", dependsOn: ["src/lib/greeting.ts"] },
+    { path: "src/lib/greeting.ts", description: "Greeting text" },
+    { path: "public/index.html", description: "Landing page" },
+  ],
+};
+
+// Paths the fake agent fails on, once each
+const failOnce = new Set<string>();
+// Usage the fake agent reports per call
+let callUsage: { prompt_tokens: number; completion_tokens: number } | undefined;
+
+vi.mock("../generateCodeBatch", () => ({
+  generateCodeBatch: vi.fn(async (files: { path: string }[], opts: { onUsage?: (info: any) => void }) => {
+    for (const f of files) {
+      if (failOnce.delete(f.path)) throw new Error(`agent failed on ${f.path}`);
+    }
+    if (callUsage) opts.onUsage?.({ model: "gpt-4o", usage: callUsage, prompt: "", completion: "" });
+    return files.map((f) => ({ path: f.path, content: CONTENT[f.path] }));
+  }),
+}));
+
+vi.mock("../planProjectFiles", () => ({
+  planProjectFiles: vi.fn(async () => structuredClone(PLAN)),
+}));
+
+const { buildService, resumeBuild } = await import("../buildService");
+const { createMemoryCheckpointStore } = await import("../buildCheckpoints");
+const { generateCodeBatch } = await import("../generateCodeBatch");
+const { planProjectFiles } = await import("../planProjectFiles");
+
+// One batch per file, one at a time, so the order below is deterministic
+const ENV = { CODEGEN_BATCH_SIZE: "1", CODEGEN_CONCURRENCY: "1", BUILD_SANDBOX: "off" };
+const store = createMemoryCheckpointStore();
+let seq = 0;
+
+function generatedPaths(): string[] {
+  return vi.mocked(generateCodeBatch).mock.calls.map(([files]) => files.map((f) => f.path).join("|"));
+}
+
+async function run(buildId: string, opts: { resume?: boolean } = {}) {
+  const events: BuildEvent[] = [];
+  const onEvent = (e: BuildEvent) => void events.push(e);
+  const result = opts.resume
+    ? await resumeBuild(buildId, ENV, { onEvent })
+    : await buildService({ ideaId: "idea-1", buildId, skipCommit: true }, ENV, { onEvent });
+  return { result, events };
+}
+
+/** A finished build's checkpoint, rewound to `status` with later stages cleared. */
+async function checkpointAt(status: BuildCheckpoint["status"], keepBatches: string[]): Promise<string> {
+  const buildId = `build-${++seq}`;
+  await run(buildId);
+  const cp = (await store.load(buildId))!;
+  cp.status = status;
+  cp.batches = Object.fromEntries(Object.entries(cp.batches).filter(([k]) => keepBatches.includes(k)));
+  if (status === "planned" || status === "generating") delete cp.sanitized;
+  if (status !== "verified" && status !== "published") delete cp.verification;
+  if (status === "published") cp.repoUrl = "https://github.com/LaunchWing/mvp-idea-1";
+  await store.save(cp);
+  vi.mocked(generateCodeBatch).mockClear();
+  vi.mocked(planProjectFiles).mockClear();
+  return buildId;
+}
+
+beforeEach(() => {
+  failOnce.clear();
+  callUsage = undefined;
+  vi.mocked(generateCodeBatch).mockClear();
+  vi.mocked(planProjectFiles).mockClear();
+});
+
+describe("buildService checkpoints", () => {
+  it("saves each stage and generates batches in dependency order", async () => {
+    const buildId = `build-${++seq}`;
+    const { result } = await run(buildId);
+    expect(generatedPaths()).toEqual(["src/lib/greeting.ts", "public/index.html", "src/index.ts"]);
+    expect(result.verification?.ok).toBe(true);
+
+    const cp = (await store.load(buildId))!;
+    expect(cp.status).toBe("verified");
+    expect(Object.keys(cp.batches).sort()).toEqual(["public/index.html", "src/index.ts", "src/lib/greeting.ts"]);
+    expect(cp.sanitized?.map((f) => f.path)).toEqual(result.files.map((f) => f.path));
+  });
+
+  it("resumes a failed build without regenerating finished batches", async () => {
+    const buildId = `build-${++seq}`;
+    failOnce.add("public/index.html");
+    await expect(run(buildId)).rejects.toThrow("agent failed on public/index.html");
+
+    const failed = (await store.load(buildId))!;
+    expect(failed.status).toBe("failed");
+    expect(Object.keys(failed.batches)).toEqual(["src/lib/greeting.ts"]);
+
+    vi.mocked(generateCodeBatch).mockClear();
+    vi.mocked(planProjectFiles).mockClear();
+    const { result, events } = await run(buildId, { resume: true });
+    expect(planProjectFiles).not.toHaveBeenCalled();
+    expect(generatedPaths()).toEqual(["public/index.html", "src/index.ts"]);
+    expect(events.filter((e) => e.type === "batch" && e.status === "skipped").map((e) => e.type === "batch" && e.key)).toEqual([
+      "src/lib/greeting.ts",
+    ]);
+    expect(result.verification?.ok).toBe(true);
+  });
+
+  it.each([
+    ["planned", [], ["src/lib/greeting.ts", "public/index.html", "src/index.ts"]],
+    ["generating", ["src/lib/greeting.ts", "public/index.html"], ["src/index.ts"]],
+  ] as const)("resumes from %s and only generates the missing batches", async (status, keep, expected) => {
+    const buildId = await checkpointAt(status, [...keep]);
+    const { result } = await run(buildId, { resume: true });
+    expect(planProjectFiles).not.toHaveBeenCalled();
+    expect(generatedPaths()).toEqual(expected);
+    expect(result.files.map((f) => f.path)).toEqual(expect.arrayContaining(Object.keys(CONTENT)));
+  });
+
+  it.each(["sanitized", "verified"] as const)("resumes from %s without generating anything", async (status) => {
+    const buildId = await checkpointAt(status, Object.keys(CONTENT));
+    const before = (await store.load(buildId))!;
+    const { result, events } = await run(buildId, { resume: true });
+    expect(planProjectFiles).not.toHaveBeenCalled();
+    expect(generateCodeBatch).not.toHaveBeenCalled();
+    expect(events.some((e) => e.type === "phase" && e.phase === "generate")).toBe(false);
+    expect(events.some((e) => e.type === "phase" && e.phase === "verify")).toBe(status === "sanitized");
+    expect(result.files).toEqual(before.sanitized);
+    expect((await store.load(buildId))!.status).toBe("verified");
+  });
+
+  it("returns a published build as stored", async () => {
+    const buildId = await checkpointAt("published", Object.keys(CONTENT));
+    const { result, events } = await run(buildId, { resume: true });
+    expect(generateCodeBatch).not.toHaveBeenCalled();
+    expect(events.some((e) => e.type === "phase")).toBe(false);
+    expect(result.repoUrl).toBe("https://github.com/LaunchWing/mvp-idea-1");
+  });
+
+  it("refuses to resume a build it has no checkpoint for", async () => {
+    await expect(resumeBuild("no-such-build", ENV)).rejects.toThrow("no checkpoint found for build no-such-build");
+  });
+});
+
+describe("buildService budget", () => {
+  // $1 per call at gpt-4o input pricing
+  const DOLLAR = { prompt_tokens: 400_000, completion_tokens: 0 };
+
+  it("stops before the next model call once the idea reaches its budget", async () => {
+    callUsage = DOLLAR;
+    const buildId = `build-${++seq}`;
+    await expect(
+      buildService({ ideaId: "idea-budget", buildId, skipCommit: true, budgetUsd: 1.5 }, ENV)
+    ).rejects.toThrow("Budget exceeded: this idea has used $2.00 of its $1.50 budget");
+    expect(generateCodeBatch).toHaveBeenCalledTimes(2);
+
+    // The spend is on the idea, so a resume stops straight away
+    vi.mocked(generateCodeBatch).mockClear();
+    await expect(resumeBuild(buildId, ENV)).rejects.toThrow("Budget exceeded");
+    expect(generateCodeBatch).not.toHaveBeenCalled();
+  });
+
+  it("never lets a request raise the server's cap", async () => {
+    callUsage = DOLLAR;
+    await expect(
+      buildService(
+        { ideaId: "idea-capped", buildId: `build-${++seq}`, skipCommit: true, budgetUsd: 100 },
+        { ...ENV, IDEA_BUDGET_USD: "1" }
+      )
+    ).rejects.toThrow("of its $1.00 budget");
+    expect(generateCodeBatch).toHaveBeenCalledTimes(1);
+  });
+});
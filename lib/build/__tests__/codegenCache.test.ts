@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from "vitest";
+import { codegenCacheKey, createKvCodegenCache, getCodegenCache, type CodegenCacheInput } from "../codegenCache";
+
+const INPUT: CodegenCacheInput = {
+  plan: "A todo app",
+  path: "src/index.ts",
+  description: "Worker entry",
+  context: [
+    { path: "src/db.ts", content: "export const db = 1;" },
+    { path: "src/auth.ts", content: "export const auth = 1;" },
+  ],
+  meta: { messages: [{ role: "user", content: "make it blue" }] },
+  settings: { CODEGEN_MODEL: "gpt-4o", CODEGEN_TEMP: "0.2" },
+};
+
+function recordingKv() {
+  const puts: { key: string; value: string; opts?: { expirationTtl?: number } }[] = [];
+  return {
+    puts,
+    async get(key: string) {
+      return puts.find((p) => p.key === key)?.value ?? null;
+    },
+    async put(key: string, value: string, opts?: { expirationTtl?: number }) {
+      puts.push({ key, value, opts });
+    },
+  };
+}
+
+describe("codegenCacheKey", () => {
+  it("is a stable sha-256 hex digest", async () => {
+    const key = await codegenCacheKey(INPUT);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await codegenCacheKey(structuredClone(INPUT))).toBe(key);
+  });
+
+  it("ignores context order, settings order and unset settings", async () => {
+    const key = await codegenCacheKey(INPUT);
+    const shuffled: CodegenCacheInput = {
+      ...INPUT,
+      context: [...INPUT.context].reverse(),
+      settings: { CODEGEN_TEMP: "0.2", CODEGEN_MAX_TOKENS: undefined, CODEGEN_MODEL: "gpt-4o" },
+    };
+    expect(await codegenCacheKey(shuffled)).toBe(key);
+  });
+
+  it("treats missing meta like empty meta", async () => {
+    const { meta: _meta, ...rest } = INPUT;
+    expect(await codegenCacheKey(rest)).toBe(await codegenCacheKey({ ...rest, meta: {} }));
+  });
+
+  it.each([
+    ["plan", { plan: "A notes app" }],
+    ["path", { path: "src/app.ts" }],
+    ["description", { description: "Router" }],
+    ["context content", { context: [{ path: "src/db.ts", content: "export const db = 2;" }] }],
+    ["chat", { meta: { messages: [{ role: "user", content: "make it red" }] } }],
+    ["model", { settings: { CODEGEN_MODEL: "gpt-4o-mini", CODEGEN_TEMP: "0.2" } }],
+  ])("changes with the %s", async (_, patch) => {
+    expect(await codegenCacheKey({ ...INPUT, ...patch })).not.toBe(await codegenCacheKey(INPUT));
+  });
+});
+
+describe("createKvCodegenCache", () => {
+  it("stores under a prefix with a three-day TTL by default", async () => {
+    const kv = recordingKv();
+    const cache = createKvCodegenCache(kv);
+    await cache.put("abc", "content");
+    expect(kv.puts).toEqual([{ key: "codegen:abc", value: "content", opts: { expirationTtl: 3 * 24 * 60 * 60 } }]);
+    expect(await cache.get("abc")).toBe("content");
+    expect(await cache.get("missing")).toBeNull();
+  });
+
+  it("honours TTL and size overrides and skips empty or oversized files", async () => {
+    const kv = recordingKv();
+    const cache = createKvCodegenCache(kv, { ttlSecs: 60, maxBytes: 4 });
+    await cache.put("small", "abcd");
+    await cache.put("multibyte", "ééé"); // 6 bytes
+    await cache.put("empty", "");
+    expect(kv.puts).toEqual([{ key: "codegen:small", value: "abcd", opts: { expirationTtl: 60 } }]);
+  });
+
+  it("treats KV failures as misses", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const cache = createKvCodegenCache({
+      get: () => Promise.reject(new Error("down")),
+      put: () => Promise.reject(new Error("down")),
+    });
+    expect(await cache.get("abc")).toBeNull();
+    await expect(cache.put("abc", "x")).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
+
+describe("getCodegenCache", () => {
+  it("prefers CACHE_KV and reads limits from env", async () => {
+    const cacheKv = recordingKv();
+    const buildKv = recordingKv();
+    const cache = getCodegenCache({ CACHE_KV: cacheKv, BUILD_KV: buildKv, CODEGEN_CACHE_TTL_SECS: "120", CODEGEN_CACHE_MAX_BYTES: "2" })!;
+    await cache.put("a", "ab");
+    await cache.put("b", "abc");
+    expect(buildKv.puts).toEqual([]);
+    expect(cacheKv.puts).toEqual([{ key: "codegen:a", value: "ab", opts: { expirationTtl: 120 } }]);
+  });
+
+  it("is off without KV or with CODEGEN_CACHE=off", () => {
+    expect(getCodegenCache({})).toBeUndefined();
+    expect(getCodegenCache({ KV: recordingKv(), CODEGEN_CACHE: "OFF" })).toBeUndefined();
+  });
+});
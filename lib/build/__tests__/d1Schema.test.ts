@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { diffSchemas, type DataSchema, type TableSpec } from "../d1Schema";
+
+const items: TableSpec = {
+  name: "items",
+  columns: [
+    { name: "title", type: "text", required: true },
+    { name: "done", type: "boolean", default: false },
+  ],
+};
+
+function withItems(patch: Partial<TableSpec>): DataSchema {
+  return { tables: [{ ...items, ...patch }] };
+}
+
+describe("diffSchemas", () => {
+  it("creates every table when there is no previous schema", () => {
+    const { statements, warnings } = diffSchemas(undefined, { tables: [items] });
+    expect(statements.length).toBeGreaterThan(0);
+    expect(statements[0]).toMatch(/^CREATE TABLE IF NOT EXISTS "items" \(/);
+    expect(warnings).toEqual([]);
+  });
+
+  it("is empty for an unchanged schema", () => {
+    expect(diffSchemas({ tables: [items] }, { tables: [items] })).toEqual({ statements: [], warnings: [] });
+  });
+
+  it("adds new columns and warns when a required one has no default", () => {
+    const { statements, warnings } = diffSchemas(
+      { tables: [items] },
+      withItems({
+        columns: [...items.columns, { name: "owner", type: "text", required: true }, { name: "rank", type: "integer", default: 0 }],
+      })
+    );
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toMatch(/^ALTER TABLE "items" ADD COLUMN "owner" TEXT/);
+    expect(statements[1]).toMatch(/^ALTER TABLE "items" ADD COLUMN "rank" INTEGER/);
+    expect(warnings).toEqual(["items.owner was added as nullable: existing rows have no value for it"]);
+  });
+
+  it("indexes an added unique column", () => {
+    const { statements } = diffSchemas(
+      { tables: [items] },
+      withItems({ columns: [...items.columns, { name: "slug", type: "text", unique: true }] })
+    );
+    expect(statements).toHaveLength(2);
+    expect(statements[1]).toMatch(/^CREATE UNIQUE INDEX IF NOT EXISTS/);
+  });
+
+  it("only warns about type changes, dropped columns and dropped tables", () => {
+    const previous: DataSchema = { tables: [items, { name: "tags", columns: [{ name: "label", type: "text" }] }] };
+    const { statements, warnings } = diffSchemas(
+      previous,
+      withItems({ columns: [{ name: "title", type: "json", required: true }] })
+    );
+    expect(statements).toEqual([]);
+    expect(warnings).toEqual([
+      "items.title changed type; existing data was left as it was",
+      "items.done is no longer in the schema; the column was kept",
+      "table tags is no longer in the schema; it was kept",
+    ]);
+  });
+
+  it("creates new indexes", () => {
+    const { statements } = diffSchemas({ tables: [items] }, withItems({ indexes: [["done", "title"]] }));
+    expect(statements).toHaveLength(1);
+    expect(statements[0]).toMatch(/^CREATE INDEX IF NOT EXISTS .*"items" \("done", "title"\)/);
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FileGenOutput } from "../callGenerateCodeAPI";
+
+// What the fake agent sends back for each path
+const replies = new Map<string, string>();
+
+vi.mock("../callGenerateCodeAPI", () => ({
+  callGenerateCodeAPI: vi.fn(async (data: { targetFiles: { path: string }[] }) =>
+    data.targetFiles.filter((t) => replies.has(t.path)).map((t) => ({ path: t.path, content: replies.get(t.path)! }))
+  ),
+}));
+
+const { repairFiles } = await import("../repairFiles");
+const { callGenerateCodeAPI } = await import("../callGenerateCodeAPI");
+const { verifyGeneratedFiles } = await import("../verifyGeneratedFiles");
+
+const WORKER = "export default {\n  async fetch() {\n    return new Response('ok');\n  },\n};\n";
+const BROKEN = "export function greet( {\n";
+
+function project(): FileGenOutput[] {
+  return [
+    { path: "src/index.ts", content: WORKER },
+    { path: "src/greet.ts", content: BROKEN },
+  ];
+}
+
+function repair(files: FileGenOutput[], maxAttempts = 2) {
+  return repairFiles(files, verifyGeneratedFiles(files), {
+    plan: "plan",
+    targetFiles: files.map((f) => ({ path: f.path, description: f.path })),
+    maxAttempts,
+    resanitize: (f) => f,
+  });
+}
+
+beforeEach(() => {
+  replies.clear();
+  vi.mocked(callGenerateCodeAPI).mockClear();
+});
+
+describe("repairFiles", () => {
+  it("sends the broken file in fix mode and keeps the repaired one", async () => {
+    replies.set("src/greet.ts", "export function greet() {}\n");
+    const result = await repair(project());
+    expect(result.report.ok).toBe(true);
+    expect(result.attempts).toEqual([
+      expect.objectContaining({ path: "src/greet.ts", attempt: 1, ok: true }),
+    ]);
+    const [data, opts] = vi.mocked(callGenerateCodeAPI).mock.calls[0];
+    expect(data.mode).toBe("fix");
+    expect(data.contextFiles?.[0]).toEqual({ path: "src/greet.ts", content: BROKEN });
+    expect(opts?.includeContextFiles).toBe(true);
+  });
+
+  it("counts a file that comes back unchanged as a failed repair", async () => {
+    replies.set("src/greet.ts", BROKEN);
+    const result = await repair(project());
+    expect(result.report.ok).toBe(false);
+    expect(result.attempts.map((a) => [a.attempt, a.ok, a.error])).toEqual([
+      [1, false, "fix response returned the file unchanged"],
+      [2, false, "fix response returned the file unchanged"],
+    ]);
+  });
+
+  it("records a response without the file", async () => {
+    const result = await repair(project(), 1);
+    expect(result.attempts.map((a) => a.error)).toEqual(["fix response did not include the file"]);
+  });
+
+  it("never sends rendered files to the model", async () => {
+    replies.set("src/greet.ts", "export function greet() {}\n");
+    replies.set("functions/api/items.ts", "export const rewritten = true;\n");
+    const files = [...project(), { path: "functions/api/items.ts", content: BROKEN }];
+    const result = await repairFiles(files, verifyGeneratedFiles(files), {
+      plan: "plan",
+      targetFiles: [],
+      maxAttempts: 2,
+      resanitize: (f) => f,
+      isRendered: (p) => p.startsWith("functions/api/"),
+    });
+    const sent = vi.mocked(callGenerateCodeAPI).mock.calls.map(([data]) => data.targetFiles[0].path);
+    expect(sent).toEqual(["src/greet.ts"]);
+    expect(result.files.find((f) => f.path === "functions/api/items.ts")?.content).toBe(BROKEN);
+    expect(result.report.failingPaths).toEqual(["functions/api/items.ts"]);
+  });
+});
@@ -0,0 +1,114 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { describe, expect, it } from "vitest";
+import type { PlannedProject } from "../planProjectFiles";
+import { formatSandboxReport, runSandbox, type SandboxLoader, type SandboxWorkerCode } from "../sandbox";
+import { ADMIN_MODULE_PATH, adminSpecFor, renderAdminHandler } from "../../../worker/utils/templates/adminHandler";
+import {
+  contactFormModulePath,
+  renderContactFormHandler,
+  type ContactFormSpec,
+} from "../../../worker/utils/templates/contactFormHandler";
+
+const WAITLIST: ContactFormSpec = {
+  name: "waitlist",
+  kind: "waitlist",
+  fields: [{ name: "email", type: "email", required: true }],
+  storage: { binding: "FORMS_KV" },
+};
+
+const PLANNED: PlannedProject = {
+  plan: "A landing page with a waitlist",
+  targetFiles: [{ path: "functions/index.ts", description: "Worker entry; GET /api/status reports the signup count" }],
+  contactForm: WAITLIST,
+  manifest: { kv: [{ binding: "FORMS_KV" }], secrets: [{ name: "ADMIN_TOKEN" }] },
+};
+
+// What the model would generate around the rendered handlers
+const ENTRY = `
+import { waitlistHandler } from "./api/waitlist";
+import { adminHandler } from "./admin";
+
+type Env = { FORMS_KV: { get(key: string): Promise<string | null> } } & Record<string, unknown>;
+
+export default {
+  async fetch(req: Request, env: Env): Promise<Response> {
+    const { pathname } = new URL(req.url);
+    if (pathname.startsWith("/api/waitlist")) return waitlistHandler(req, env);
+    if (pathname.startsWith("/admin")) return adminHandler(req, env);
+    if (pathname === "/api/status") return Response.json({ ok: true, stored: await env.FORMS_KV.get("missing") });
+    if (pathname === "/") return new Response("<h1>Soon</h1>", { headers: { "Content-Type": "text/html" } });
+    return new Response("Not found", { status: 404 });
+  },
+};
+`;
+
+function files(entry = ENTRY) {
+  return [
+    { path: "functions/index.ts", content: entry },
+    { path: contactFormModulePath(WAITLIST), content: renderContactFormHandler(WAITLIST) },
+    { path: ADMIN_MODULE_PATH, content: renderAdminHandler(adminSpecFor(PLANNED)!) },
+  ];
+}
+
+// Runs the loader's modules in this process, where workerd would give
+// them an isolate of their own; enough to exercise the harness and stubs
+function nodeLoader(): SandboxLoader & { loaded: SandboxWorkerCode[] } {
+  const loaded: SandboxWorkerCode[] = [];
+  return {
+    loaded,
+    get(_id, getCode) {
+      const main = (async () => {
+        const code = await getCode();
+        loaded.push(code);
+        const dir = mkdtempSync(join(tmpdir(), "sandbox-"));
+        writeFileSync(join(dir, "package.json"), '{ "type": "module" }');
+        for (const [name, source] of Object.entries(code.modules)) {
+          mkdirSync(dirname(join(dir, name)), { recursive: true });
+          writeFileSync(join(dir, name), source);
+        }
+        return (await import(/* @vite-ignore */ pathToFileURL(join(dir, code.mainModule)).href)).default;
+      })();
+      return {
+        getEntrypoint: () => ({
+          fetch: async (request: Request) => (await main).fetch(request, {}, {}),
+        }),
+      };
+    },
+  };
+}
+
+describe("runSandbox", () => {
+  it("runs a Worker with rendered handlers against stub bindings and requests every planned route", async () => {
+    const loader = nodeLoader();
+    const report = await runSandbox(files(), PLANNED, { loader, id: "test", manifest: PLANNED.manifest });
+
+    expect(report).toMatchObject({ ok: true, entry: "functions/index.ts" });
+    expect(report.results.map((r) => `${r.method} ${r.path} ${r.status}`)).toEqual([
+      "GET / 200",
+      "POST /api/waitlist 400", // the sandbox's {} body has no form timestamp
+      "GET /api/waitlist/count 200",
+      "GET /admin 401", // the ADMIN_TOKEN placeholder is set, the request sends none
+      "GET /api/status 200",
+    ]);
+    expect(loader.loaded[0]).toMatchObject({ mainModule: "__sandbox__.js", globalOutbound: null });
+    expect(Object.keys(loader.loaded[0].modules).sort()).toEqual([
+      "__sandbox__.js",
+      "functions/admin.js",
+      "functions/api/waitlist.js",
+      "functions/index.js",
+    ]);
+  });
+
+  it("reports a route that throws, and an entry that can't load", async () => {
+    const throwing = ENTRY.replace('return Response.json({ ok: true, stored: await env.FORMS_KV.get("missing") })', 'throw new Error("boom")');
+    const report = await runSandbox(files(throwing), PLANNED, { loader: nodeLoader(), id: "test", manifest: PLANNED.manifest });
+    expect(report.ok).toBe(false);
+    expect(formatSandboxReport(report)).toBe("GET /api/status → Error: boom");
+
+    const broken = await runSandbox(files('import "./missing";\n' + ENTRY), PLANNED, { loader: nodeLoader(), id: "test" });
+    expect(broken).toMatchObject({ ok: false, loadError: "unresolved imports: functions/index.ts: ./missing" });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { planBatches, runScheduledBatches, type ScheduledBatch } from "../scheduleBatches";
+
+const target = (path: string, dependsOn?: string[]) => ({ path, description: `${path} file`, dependsOn });
+
+describe("planBatches", () => {
+  it("orders batches by dependency level", () => {
+    const batches = planBatches(
+      [
+        target("src/index.ts", ["src/routes.ts", "src/db.ts"]),
+        target("src/routes.ts", ["src/db.ts"]),
+        target("src/db.ts"),
+        target("public/index.html"),
+      ],
+      2
+    );
+    expect(batches.map((b) => b.files.map((f) => f.path))).toEqual([
+      ["src/db.ts", "public/index.html"],
+      ["src/routes.ts"],
+      ["src/index.ts"],
+    ]);
+    expect(batches.map((b) => b.dependsOn)).toEqual([[], ["src/db.ts"], ["src/routes.ts", "src/db.ts"]]);
+    expect(batches[0].key).toBe("public/index.html|src/db.ts");
+  });
+
+  it("drops unknown and self dependencies", () => {
+    const [batch] = planBatches([target("a.ts", ["a.ts", "missing.ts"])], 5);
+    expect(batch.dependsOn).toEqual([]);
+  });
+
+  it("breaks a dependency cycle into a final level", () => {
+    const batches = planBatches(
+      [target("a.ts", ["b.ts"]), target("b.ts", ["a.ts"]), target("c.ts", ["a.ts"]), target("d.ts")],
+      5
+    );
+    expect(batches.map((b) => b.files.map((f) => f.path))).toEqual([["d.ts"], ["a.ts", "b.ts", "c.ts"]]);
+    // Edges inside the cycle are ignored, so the last batch waits on nothing
+    expect(batches[1].dependsOn).toEqual([]);
+  });
+});
+
+describe("runScheduledBatches", () => {
+  const emit = (batch: ScheduledBatch) =>
+    batch.files.map((f) => ({ path: f.path, content: `// ${f.path}` }));
+
+  it("runs a batch only after its dependencies and passes them as context", async () => {
+    const batches = planBatches(
+      [target("src/index.ts", ["src/db.ts"]), target("src/db.ts"), target("public/app.js")],
+      1
+    );
+    const started: string[] = [];
+    const contexts: Record<string, string[]> = {};
+    const out = await runScheduledBatches(batches, {
+      concurrency: 4,
+      run: async (batch, context) => {
+        started.push(batch.key);
+        contexts[batch.key] = context.map((f) => f.path);
+        await new Promise((r) => setTimeout(r, batch.key === "src/db.ts" ? 10 : 0));
+        return emit(batch);
+      },
+    });
+    expect(started.indexOf("src/index.ts")).toBeGreaterThan(started.indexOf("src/db.ts"));
+    expect(contexts["src/index.ts"]).toEqual(["src/db.ts"]);
+    expect(contexts["public/app.js"]).toEqual([]);
+    // Plan order, not completion order
+    expect(out.map((f) => f.path)).toEqual(["src/db.ts", "public/app.js", "src/index.ts"]);
+  });
+
+  it("keeps at most `concurrency` batches in flight", async () => {
+    const batches = planBatches(["a", "b", "c", "d", "e"].map((p) => target(`${p}.ts`)), 1);
+    let inFlight = 0;
+    let peak = 0;
+    await runScheduledBatches(batches, {
+      concurrency: 2,
+      run: async (batch) => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise((r) => setTimeout(r, 5));
+        inFlight--;
+        return emit(batch);
+      },
+    });
+    expect(peak).toBe(2);
+  });
+
+  it("completes a plan whose cycle was broken", async () => {
+    const batches = planBatches([target("a.ts", ["b.ts"]), target("b.ts", ["a.ts"])], 1);
+    const out = await runScheduledBatches(batches, { concurrency: 1, run: async (b) => emit(b) });
+    expect(out.map((f) => f.path)).toEqual(["a.ts", "b.ts"]);
+  });
+
+  it("starts nothing new after a failure and rethrows it", async () => {
+    const batches = planBatches([target("a.ts"), target("b.ts", ["a.ts"]), target("c.ts")], 1);
+    const started: string[] = [];
+    await expect(
+      runScheduledBatches(batches, {
+        concurrency: 1,
+        run: async (batch) => {
+          started.push(batch.key);
+          if (batch.key === "a.ts") throw new Error("agent down");
+          return emit(batch);
+        },
+      })
+    ).rejects.toThrow("agent down");
+    expect(started).toEqual(["a.ts"]);
+  });
+});
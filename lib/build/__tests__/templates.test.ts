@@ -0,0 +1,243 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { transform } from "sucrase";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { adminSourceForContactForm, adminSourceForCrud, renderAdminHandler } from "../../../worker/utils/templates/adminHandler";
+import { renderContactFormHandler, type ContactFormSpec } from "../../../worker/utils/templates/contactFormHandler";
+import { renderCrudHandler, type CrudResourceSpec } from "../../../worker/utils/templates/crudHandler";
+
+const FIELDS: CrudResourceSpec["fields"] = [
+  { name: "title", type: "text", required: true, maxLength: 200 },
+  { name: "done", type: "boolean", default: false },
+  { name: "priority", type: "integer", min: 1, max: 5 },
+  { name: "status", type: "text", enum: ["open", "closed"] },
+  { name: "due", type: "datetime" },
+  { name: "meta", type: "json" },
+];
+
+const CONTACT: ContactFormSpec = {
+  name: "contact",
+  kind: "contact",
+  fields: [
+    { name: "name", type: "text", required: true },
+    { name: "email", type: "email", required: true },
+    { name: "website_url", type: "url" },
+    { name: "phone", type: "phone" },
+    { name: "message", type: "text", required: true },
+  ],
+  storage: { binding: "FORMS_KV" },
+};
+
+const WAITLIST: ContactFormSpec = {
+  name: "waitlist",
+  kind: "waitlist",
+  fields: [{ name: "email", type: "email", required: true }],
+  storage: { binding: "FORMS_KV" },
+  minSubmitSeconds: 0,
+};
+
+const OPTIONS: ts.CompilerOptions = {
+  strict: true,
+  noEmit: true,
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  // DOM stands in for @cloudflare/workers-types: Request, Response, crypto, atob
+  lib: ["lib.es2022.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+  types: [],
+  skipLibCheck: true,
+};
+
+/** Strict-mode errors in rendered modules, one "path:line: message" per error. */
+function typeErrors(files: Record<string, string>): string[] {
+  const host = ts.createCompilerHost(OPTIONS);
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (name, version, ...rest) =>
+    name in files ? ts.createSourceFile(name, files[name], version) : getSourceFile(name, version, ...rest);
+  const fileExists = host.fileExists.bind(host);
+  host.fileExists = (name) => name in files || fileExists(name);
+  const program = ts.createProgram(Object.keys(files), OPTIONS, host);
+  return ts.getPreEmitDiagnostics(program).map((d) => {
+    const message = ts.flattenDiagnosticMessageText(d.messageText, "\n");
+    if (!d.file || d.start === undefined) return message;
+    return `${d.file.fileName}:${d.file.getLineAndCharacterOfPosition(d.start).line + 1}: ${message}`;
+  });
+}
+
+// Types stripped the way the sandbox does it, then imported as a module
+async function loadRendered<T>(source: string): Promise<T> {
+  const file = join(mkdtempSync(join(tmpdir(), "template-")), "module.mjs");
+  writeFileSync(file, transform(source, { transforms: ["typescript"], disableESTransforms: true }).code);
+  return import(/* @vite-ignore */ pathToFileURL(file).href);
+}
+
+function memoryKv() {
+  const data = new Map<string, string>();
+  const metadata = new Map<string, unknown>();
+  return {
+    data,
+    metadata,
+    async get(key: string) {
+      return data.get(key) ?? null;
+    },
+    async put(key: string, value: string, opts?: { metadata?: unknown }) {
+      data.set(key, value);
+      if (opts?.metadata !== undefined) metadata.set(key, opts.metadata);
+    },
+    async delete(key: string) {
+      data.delete(key);
+    },
+    async list({ prefix = "" }: { prefix?: string } = {}) {
+      const keys = [...data.keys()].filter((k) => k.startsWith(prefix)).sort().map((name) => ({ name }));
+      return { keys, list_complete: true };
+    },
+  };
+}
+
+type Handler = (req: Request, env?: Record<string, unknown>) => Promise<Response>;
+
+describe("rendered CRUD handlers", () => {
+  it("type-check under strict mode with KV and D1 storage", () => {
+    const files = {
+      "/rendered/notes.ts": renderCrudHandler({ resource: "notes", fields: FIELDS, storage: { kind: "kv", binding: "NOTES_KV" } }),
+      "/rendered/tasks.ts": renderCrudHandler({
+        resource: "tasks",
+        fields: FIELDS,
+        storage: { kind: "d1", binding: "DB", table: "tasks" },
+        publicRead: true,
+        publicCreate: true,
+        tokenSecret: "TASKS_TOKEN",
+      }),
+    };
+    expect(typeErrors(files)).toEqual([]);
+  }, 30000);
+
+  it("creates, lists and updates KV records behind the admin token", async () => {
+    const { notesHandler } = await loadRendered<{ notesHandler: Handler }>(
+      renderCrudHandler({ resource: "notes", fields: FIELDS, storage: { kind: "kv", binding: "NOTES_KV" } })
+    );
+    const env = { ADMIN_TOKEN: "secret", NOTES_KV: memoryKv() };
+    const call = (path: string, init: RequestInit = {}) =>
+      notesHandler(new Request("https://app.test" + path, { ...init, headers: { Authorization: "Bearer secret", ...init.headers } }), env);
+
+    const created = await call("/api/notes", { method: "POST", body: JSON.stringify({ title: "First", priority: "2" }) });
+    expect(created.status).toBe(201);
+    const first = (await created.json()) as { id: string; priority: number };
+    expect(first).toMatchObject({ title: "First", priority: 2 });
+    await call("/api/notes", { method: "POST", body: JSON.stringify({ title: "Second" }) });
+
+    const list = (await (await call("/api/notes?limit=1")).json()) as { items: { title: string }[]; total: number; nextOffset: number };
+    expect(list).toMatchObject({ items: [{ title: "Second" }], total: 2, nextOffset: 1 });
+
+    const patched = await call("/api/notes/" + first.id, { method: "PATCH", body: JSON.stringify({ status: "closed" }) });
+    expect(await patched.json()).toMatchObject({ title: "First", status: "closed" });
+
+    const invalid = await call("/api/notes", { method: "POST", body: JSON.stringify({ priority: 9, colour: "red" }) });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({
+      code: "validation_failed",
+      details: { title: "is required", priority: "must be at most 5", colour: "is not a known field" },
+    });
+  });
+
+  it("takes the token as Bearer or as the Basic auth password, and only opens what the spec makes public", async () => {
+    const { notesHandler } = await loadRendered<{ notesHandler: Handler }>(
+      renderCrudHandler({ resource: "notes", fields: FIELDS, storage: { kind: "kv", binding: "NOTES_KV" }, publicRead: true })
+    );
+    const env = { ADMIN_TOKEN: "secret", NOTES_KV: memoryKv() };
+    const post = (authorization?: string) =>
+      notesHandler(
+        new Request("https://app.test/api/notes", {
+          method: "POST",
+          body: JSON.stringify({ title: "t" }),
+          headers: authorization ? { Authorization: authorization } : {},
+        }),
+        env
+      );
+
+    expect((await post()).status).toBe(401);
+    expect((await post("Bearer wrong")).status).toBe(401);
+    expect((await post("Basic " + btoa("anyone:wrong"))).status).toBe(401);
+    expect((await post("Bearer secret")).status).toBe(201);
+    expect((await post("Basic " + btoa("anyone:secret"))).status).toBe(201);
+    expect((await notesHandler(new Request("https://app.test/api/notes"), env)).status).toBe(200);
+
+    const unconfigured = await notesHandler(new Request("https://app.test/api/notes", { method: "DELETE" }), { NOTES_KV: memoryKv() });
+    expect(unconfigured.status).toBe(503);
+  });
+});
+
+type FormModule = { setNotifier(n: unknown): void; stubNotifier: unknown; outbox: { submission: Record<string, string> }[] };
+
+describe("rendered contact form handlers", () => {
+  it("type-check under strict mode for each kind and notifier", () => {
+    const files = {
+      "/rendered/contact.ts": renderContactFormHandler(CONTACT),
+      "/rendered/webhook.ts": renderContactFormHandler({ ...CONTACT, name: "feedback", notify: { kind: "webhook", urlSecret: "FEEDBACK_WEBHOOK" } }),
+      "/rendered/waitlist.ts": renderContactFormHandler({
+        ...WAITLIST,
+        notify: { kind: "email", provider: "resend", apiKeySecret: "RESEND_API_KEY", toSecret: "NOTIFY_EMAIL", from: "hi@example.com" },
+        rateLimit: { max: 2, windowSeconds: 60 },
+      }),
+    };
+    expect(typeErrors(files)).toEqual([]);
+  }, 30000);
+
+  it("stores waitlist signups once, with their time as metadata, and counts them", async () => {
+    const mod = await loadRendered<FormModule & { waitlistHandler: Handler }>(renderContactFormHandler(WAITLIST));
+    mod.setNotifier(mod.stubNotifier);
+    const kv = memoryKv();
+    const signup = (body: Record<string, unknown>) =>
+      mod.waitlistHandler(
+        new Request("https://app.test/api/waitlist", { method: "POST", body: JSON.stringify({ _ts: 0, ...body }) }),
+        { FORMS_KV: kv }
+      );
+
+    expect((await signup({ email: "Amy@Example.com" })).status).toBe(201);
+    expect(await (await signup({ email: "amy@example.com" })).json()).toEqual({ ok: true, duplicate: true });
+    expect(kv.metadata.get("waitlist:signup:amy@example.com")).toEqual({ t: expect.any(Number) });
+    expect(mod.outbox.map((n) => n.submission.email)).toEqual(["amy@example.com"]);
+
+    const invalid = await signup({ email: "not an email" });
+    expect(await invalid.json()).toMatchObject({ code: "validation_failed", details: { email: "must be a valid email" } });
+    const count = await mod.waitlistHandler(new Request("https://app.test/api/waitlist/count"), { FORMS_KV: kv });
+    expect(await count.json()).toEqual({ count: 1 });
+  });
+
+  it("drops honeypot and too-fast submissions, and asks for the form timestamp", async () => {
+    const mod = await loadRendered<FormModule & { contactHandler: Handler }>(renderContactFormHandler(CONTACT));
+    mod.setNotifier(mod.stubNotifier);
+    const kv = memoryKv();
+    const submit = (body: Record<string, unknown>) =>
+      mod.contactHandler(new Request("https://app.test/api/contact", { method: "POST", body: JSON.stringify(body) }), { FORMS_KV: kv });
+    const fields = { name: "Amy", email: "amy@example.com", message: "Hello" };
+
+    expect((await submit({ ...fields, _ts: 0, website: "spam.example" })).status).toBe(201);
+    expect((await submit({ ...fields, _ts: Date.now() })).status).toBe(201);
+    expect(await (await submit(fields)).json()).toMatchObject({ code: "invalid_form" });
+    expect(kv.data.size).toBe(1); // only the rate-limit counter
+    expect(mod.outbox).toEqual([]);
+
+    expect((await submit({ ...fields, _ts: 0 })).status).toBe(201);
+    expect(mod.outbox.map((n) => n.submission.message)).toEqual(["Hello"]);
+  });
+});
+
+describe("rendered admin view", () => {
+  it("type-checks under strict mode with KV and D1 sources", () => {
+    const sources = [
+      adminSourceForContactForm(WAITLIST),
+      adminSourceForContactForm(CONTACT),
+      adminSourceForCrud({ resource: "notes", fields: FIELDS, storage: { kind: "kv", binding: "NOTES_KV" } }),
+      adminSourceForCrud({ resource: "tasks", fields: FIELDS, storage: { kind: "d1", binding: "DB", table: "tasks" } }),
+    ];
+    const files = {
+      "/rendered/admin.ts": renderAdminHandler({ sources }),
+      "/rendered/backoffice.ts": renderAdminHandler({ sources, title: "Back office", basePath: "/backoffice", tokenSecret: "OFFICE_TOKEN" }),
+    };
+    expect(typeErrors(files)).toEqual([]);
+  }, 30000);
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  addUsage,
+  createKvUsageStore,
+  emptyTotals,
+  formatUsd,
+  getBudgetUsd,
+  getModelPrices,
+  makeUsageRecord,
+  mergeUsage,
+  normalizeUsage,
+} from "../usage";
+import { recordUsage } from "../../../worker/utils/usage.js";
+
+function memoryKv() {
+  const data = new Map<string, string>();
+  return {
+    data,
+    async get(key: string) {
+      return data.get(key) ?? null;
+    },
+    async put(key: string, value: string) {
+      data.set(key, value);
+    },
+  };
+}
+
+describe("makeUsageRecord", () => {
+  it("prices reported tokens per million", () => {
+    const rec = makeUsageRecord("codegen", {
+      model: "gpt-4o",
+      usage: { prompt_tokens: 1_000_000, completion_tokens: 100_000 },
+    });
+    expect(rec).toEqual({ source: "codegen", model: "gpt-4o", promptTokens: 1_000_000, completionTokens: 100_000, costUsd: 3.5 });
+  });
+
+  it("prices dated snapshots like their base model and unknown models at the default", () => {
+    const usage = { input_tokens: 1_000_000, output_tokens: 0 };
+    expect(makeUsageRecord("planner", { model: "gpt-4o-mini-2024-07-18", usage }).costUsd).toBeCloseTo(0.15);
+    expect(makeUsageRecord("planner", { model: "some-new-model", usage }).costUsd).toBeCloseTo(2.5);
+  });
+
+  it("prices images per image", () => {
+    const rec = makeUsageRecord("logo", { model: "dall-e-3", images: 2 });
+    expect(rec.costUsd).toBeCloseTo(0.08);
+    expect(rec.images).toBe(2);
+  });
+
+  it("estimates from text when the provider reports nothing", () => {
+    const rec = makeUsageRecord("codegen", {
+      model: "gpt-4o",
+      estimate: { prompt: "x".repeat(4000), completion: "y".repeat(400) },
+    });
+    expect(rec).toMatchObject({ promptTokens: 1000, completionTokens: 100, estimated: true });
+    expect(rec.costUsd).toBeCloseTo((1000 * 2.5 + 100 * 10) / 1_000_000);
+  });
+
+  it("uses MODEL_PRICES_JSON over the defaults", () => {
+    const prices = getModelPrices({ MODEL_PRICES_JSON: '{"gpt-4o": {"input": 1, "output": 1}}' });
+    const rec = makeUsageRecord("codegen", { model: "gpt-4o", usage: { promptTokens: 500_000, completionTokens: 500_000 } }, prices);
+    expect(rec.costUsd).toBeCloseTo(1);
+  });
+
+  it("falls back to the defaults when MODEL_PRICES_JSON is invalid", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(getModelPrices({ MODEL_PRICES_JSON: "{" })["gpt-4o"]).toEqual({ input: 2.5, output: 10 });
+    warn.mockRestore();
+  });
+});
+
+describe("normalizeUsage", () => {
+  it.each([
+    [{ prompt_tokens: 3, completion_tokens: 4 }],
+    [{ input_tokens: 3, output_tokens: 4 }],
+    [{ promptTokens: 3, completionTokens: 4 }],
+  ])("reads %o", (raw) => {
+    expect(normalizeUsage(raw)).toEqual({ promptTokens: 3, completionTokens: 4 });
+  });
+
+  it("treats empty usage as missing", () => {
+    expect(normalizeUsage({ prompt_tokens: 0 })).toBeNull();
+    expect(normalizeUsage(undefined)).toBeNull();
+  });
+});
+
+describe("totals", () => {
+  it("adds records per source and merges totals", () => {
+    const totals = emptyTotals();
+    addUsage(totals, makeUsageRecord("planner", { model: "gpt-4o", usage: { prompt_tokens: 10, completion_tokens: 5 } }));
+    addUsage(totals, makeUsageRecord("codegen", { model: "gpt-4o", estimate: { prompt: "abcd" } }));
+    expect(totals).toMatchObject({ calls: 2, promptTokens: 11, completionTokens: 5, totalTokens: 16, estimated: true });
+    expect(totals.bySource.planner).toMatchObject({ calls: 1, totalTokens: 15 });
+
+    const merged = mergeUsage(emptyTotals(), totals);
+    mergeUsage(merged, totals);
+    expect(merged).toMatchObject({ calls: 4, totalTokens: 32 });
+    expect(merged.bySource.codegen?.calls).toBe(2);
+  });
+
+  it("formats small amounts with more precision", () => {
+    expect(formatUsd(0.0012)).toBe("$0.0012");
+    expect(formatUsd(1.5)).toBe("$1.50");
+    expect(formatUsd(0)).toBe("$0.00");
+  });
+});
+
+describe("getBudgetUsd", () => {
+  it.each([
+    ["no cap anywhere", undefined, undefined, undefined],
+    ["only the server cap", "5", undefined, 5],
+    ["only a requested cap", undefined, 3, 3],
+    ["a request below the server cap", "5", 3, 3],
+    ["a request above the server cap", "5", 50, 5],
+    ["a string request", "5", "2.5", 2.5],
+    ["invalid values", "abc", -1, undefined],
+  ])("handles %s", (_, serverCap, requested, expected) => {
+    expect(getBudgetUsd({ IDEA_BUDGET_USD: serverCap }, requested)).toBe(expected);
+  });
+});
+
+describe("usage stores", () => {
+  it("accumulates idea totals across calls", async () => {
+    const store = createKvUsageStore(memoryKv());
+    const delta = addUsage(emptyTotals(), makeUsageRecord("codegen", { model: "gpt-4o", usage: { prompt_tokens: 100 } }));
+    await store.addToIdea("i1", delta);
+    const after = await store.addToIdea("i1", delta);
+    expect(after).toMatchObject({ calls: 2, promptTokens: 200 });
+    expect(await store.loadIdea("i1")).toEqual(after);
+    expect(await store.loadBuild("missing")).toBeNull();
+  });
+
+  it("records worker-side calls on the idea and never throws", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const kv = memoryKv();
+    await recordUsage({ KV: kv }, "i2", "validate", { model: "gpt-4o-mini", usage: { prompt_tokens: 1000, completion_tokens: 1000 } });
+    await recordUsage({ KV: kv }, undefined, "validate", { model: "gpt-4o-mini", usage: { prompt_tokens: 1000 } });
+    const idea = JSON.parse(kv.data.get("usage:idea:i2")!);
+    expect(idea).toMatchObject({ calls: 1, totalTokens: 2000 });
+    expect(idea.costUsd).toBeCloseTo(0.00075);
+    expect(kv.data.size).toBe(1);
+
+    const broken = { get: async () => null, put: async () => Promise.reject(new Error("KV down")) };
+    await expect(recordUsage({ KV: broken }, "i3", "idea", {})).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { parseScript, verifyGeneratedFiles } from "../verifyGeneratedFiles";
+
+const WORKER = "export default {\n  async fetch(req: Request) {\n    return new Response('ok');\n  },\n};\n";
+
+function diagnostics(files: Record<string, string>) {
+  const report = verifyGeneratedFiles(Object.entries(files).map(([path, content]) => ({ path, content })));
+  return report.diagnostics.map((d) => `${d.path}${d.line ? `:${d.line}` : ""} ${d.rule}`);
+}
+
+describe("parseScript", () => {
+  it("accepts TypeScript and JSX by extension", () => {
+    expect(parseScript("const n: number = 1;\nexport type T = { a?: string };\n", "src/a.ts")).toBeNull();
+    expect(parseScript("export const A = () => <div className='x'>{1}</div>;\n", "src/a.jsx")).toBeNull();
+    expect(parseScript("export const A = (p: { n: number }) => <b>{p.n}</b>;\n", "src/a.tsx")).toBeNull();
+  });
+
+  it("reports the parser's error with line and column", () => {
+    expect(parseScript("const a = 1;\nconst b = ;\n", "src/a.js")).toEqual({
+      line: 2,
+      message: "Unexpected token at column 11",
+    });
+  });
+
+  it("notes when the error is at the end of the file", () => {
+    const problem = parseScript("function f() {\n  return 1;\n", "src/a.js");
+    expect(problem?.line).toBe(3);
+    expect(problem?.message).toMatch(/\(file may be truncated\)$/);
+  });
+
+  it("rejects type annotations in plain JavaScript", () => {
+    expect(parseScript("const n: number = 1;\n", "public/app.js")).not.toBeNull();
+  });
+});
+
+describe("verifyGeneratedFiles", () => {
+  it("passes a consistent project", () => {
+    const report = verifyGeneratedFiles([
+      { path: "wrangler.toml", content: 'name = "app"\nmain = "src/index.ts"\n' },
+      { path: "src/index.ts", content: "import { hello } from './lib/hello';\n" + WORKER },
+      { path: "src/lib/hello.ts", content: "export const hello = 'hi';\n" },
+      { path: "public/index.html", content: '<link rel="stylesheet" href="/styles.css">\n<script src="app.js"></script>\n' },
+      { path: "public/styles.css", content: "body { margin: 0; }\n" },
+      { path: "public/app.js", content: "console.log('hi');\n" },
+      { path: "package.json", content: '{"name":"app"}' },
+    ]);
+    expect(report).toEqual({ ok: true, diagnostics: [], failingPaths: [] });
+  });
+
+  it("resolves .js specifiers to TypeScript sources", () => {
+    expect(
+      diagnostics({
+        "src/index.ts": "import './util.js';\n" + WORKER,
+        "src/util.ts": "export {};\n",
+      })
+    ).toEqual([]);
+  });
+
+  it("reports syntax, imports and missing assets by path and line", () => {
+    const report = verifyGeneratedFiles([
+      { path: "src/index.ts", content: "import { x } from './missing';\n" + WORKER },
+      { path: "public/index.html", content: "<p>hi</p>\n<img src=\"/logo.png\">\n" },
+      { path: "public/app.js", content: "const a = (;\n" },
+      { path: "package.json", content: "{" },
+    ]);
+    expect(report.diagnostics.map((d) => `${d.path}:${d.line} ${d.rule}`)).toEqual([
+      "src/index.ts:1 unresolved-import",
+      "public/index.html:2 missing-asset",
+      "public/app.js:1 syntax",
+      "package.json:1 syntax",
+    ]);
+    expect(report.ok).toBe(false);
+    expect(report.failingPaths).toEqual(["src/index.ts", "public/index.html", "public/app.js", "package.json"]);
+  });
+
+  it("checks the Worker entry", () => {
+    expect(diagnostics({ "public/index.html": "<p>hi</p>\n" })).toEqual(["wrangler.toml worker-entry"]);
+    expect(diagnostics({ "wrangler.toml": 'main = "src/worker.ts"\n', "src/index.ts": WORKER })).toEqual([
+      "wrangler.toml worker-entry",
+    ]);
+    expect(diagnostics({ "functions/index.ts": "export const x = 1;\n" })).toEqual(["functions/index.ts worker-entry"]);
+    expect(diagnostics({ "src/index.ts": "export default { scheduled() {} };\n" })).toEqual(["src/index.ts worker-entry"]);
+    expect(diagnostics({ "src/index.ts": "const app = {} as any;\nexport default app;\n" })).toEqual([]);
+  });
+});
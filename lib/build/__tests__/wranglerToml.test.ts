@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import { TomlDate, normalizeWranglerConfig, parseToml, stringifyToml, type TomlTable } from "../wranglerToml";
+
+function parsed(src: string): TomlTable {
+  const { data, error } = parseToml(src);
+  expect(error).toBeUndefined();
+  return data!;
+}
+
+const NORMALIZE = {
+  defaultName: "mvp-app",
+  compatibilityDate: "2024-09-23",
+  paths: ["src/index.ts"],
+  entryCandidates: ["src/index.ts"],
+};
+
+describe("parseToml", () => {
+  it("reads the value kinds wrangler configs use", () => {
+    const data = parsed(`
+name = "app" # trailing comment
+literal = 'C:\\path'
+multi = """
+one \\
+  two"""
+count = 1_000
+hex = 0xff
+ratio = -1.5e2
+flags = ["a", 'b',
+  "c",]
+inline = { a = 1, "b c" = true }
+dotted.key = "x"
+`);
+    expect(data).toEqual({
+      name: "app",
+      literal: "C:\\path",
+      multi: "one two",
+      count: 1000,
+      hex: 255,
+      ratio: -150,
+      flags: ["a", "b", "c"],
+      inline: { a: 1, "b c": true },
+      dotted: { key: "x" },
+    });
+  });
+
+  it("builds tables and arrays of tables", () => {
+    const data = parsed(`
+[vars]
+MODE = "prod"
+
+[[kv_namespaces]]
+binding = "A"
+id = "1"
+
+[[kv_namespaces]]
+binding = "B"
+
+[env.staging.vars]
+MODE = "staging"
+`);
+    expect(data).toEqual({
+      vars: { MODE: "prod" },
+      kv_namespaces: [{ binding: "A", id: "1" }, { binding: "B" }],
+      env: { staging: { vars: { MODE: "staging" } } },
+    });
+  });
+
+  it("lets [x.y] extend the last entry of [[x]]", () => {
+    expect(parsed(`[[queues]]\nqueue = "a"\n[queues.settings]\nretries = 2\n`)).toEqual({
+      queues: [{ queue: "a", settings: { retries: 2 } }],
+    });
+  });
+
+  it("keeps dates, times and date-times as TomlDate literals", () => {
+    const data = parsed(`
+day = 2024-01-01
+at = 1979-05-27T07:32:00Z
+local = 1979-05-27 07:32:00.5
+offset = 1979-05-27T00:32:00-07:00
+clock = 07:32:00
+list = [2024-01-01, 2024-02-01]
+`);
+    expect(data.day).toBeInstanceOf(TomlDate);
+    expect(String(data.day)).toBe("2024-01-01");
+    expect(String(data.at)).toBe("1979-05-27T07:32:00Z");
+    expect(String(data.local)).toBe("1979-05-27 07:32:00.5");
+    expect(String(data.offset)).toBe("1979-05-27T00:32:00-07:00");
+    expect(String(data.clock)).toBe("07:32:00");
+    expect((data.list as TomlDate[]).map(String)).toEqual(["2024-01-01", "2024-02-01"]);
+  });
+
+  it.each([
+    ["a duplicate key", 'a = 1\na = 2\n', 2, "duplicate key 'a'"],
+    ["a table defined twice", "[x]\n[x]\n", 2, "table [x] defined twice"],
+    ["[x] after [[x]]", "[[x]]\na = 1\n[x]\nb = 2\n", 3, "'x' is an array of tables, not a table"],
+    ["[[x]] after [x]", "[x]\n[[x]]\n", 2, "'x' is not an array of tables"],
+    ["an unterminated string", 'a = "abc\n', 1, "newline in string"],
+    ["a missing value", "a =\n", 1, "expected a value"],
+    ["junk after a value", "a = 1 2\n", 1, "unexpected '2' after value"],
+    ["an unknown bare value", "a = yes\n", 1, "invalid value 'yes'"],
+    ["an unclosed array", "a = [1, 2\n", 2, "expected ',' or ']' in array"],
+  ])("rejects %s", (_, src, line, message) => {
+    expect(parseToml(src).error).toEqual({ line, message });
+  });
+});
+
+describe("stringifyToml", () => {
+  it("round-trips through parseToml", () => {
+    const src = `
+name = "app"
+main = "src/index.ts"
+compatibility_date = "2024-09-23"
+released = 2024-01-01
+flags = ["nodejs_compat"]
+weird = { "a b" = 1, c = [true, false] }
+
+[vars]
+GREETING = "hi \\"there\\""
+LIMIT = 5
+
+[[kv_namespaces]]
+binding = "CACHE"
+id = "abc"
+
+[[d1_databases]]
+binding = "DB"
+database_name = "app-db"
+database_id = "123"
+
+[env.staging]
+name = "app-staging"
+`;
+    const once = stringifyToml(parsed(src));
+    expect(parsed(once)).toEqual(parsed(src));
+    expect(stringifyToml(parsed(once))).toBe(once);
+  });
+
+  it("writes dates back unquoted", () => {
+    const out = stringifyToml(parsed("day = 2024-01-01\nat = 1979-05-27T07:32:00Z\n"));
+    expect(out).toBe("at = 1979-05-27T07:32:00Z\nday = 2024-01-01\n");
+  });
+
+  it("orders well-known keys first and the rest alphabetically", () => {
+    const out = stringifyToml({ zeta: 1, alpha: 2, main: "src/index.ts", name: "app" });
+    expect(out).toBe('name = "app"\nmain = "src/index.ts"\nalpha = 2\nzeta = 1\n');
+  });
+
+  it("skips the header of a table that only holds sub-tables", () => {
+    expect(stringifyToml({ env: { production: { name: "p" } } })).toBe('[env.production]\nname = "p"\n');
+  });
+
+  it("writes nan and inf literals", () => {
+    expect(stringifyToml({ a: NaN, b: Infinity, c: -Infinity })).toBe("a = nan\nb = inf\nc = -inf\n");
+  });
+});
+
+describe("normalizeWranglerConfig", () => {
+  it("quotes a compatibility_date written as a TOML date", () => {
+    const { config, issues } = normalizeWranglerConfig(
+      parsed('name = "app"\nmain = "src/index.ts"\ncompatibility_date = 2024-01-01\n'),
+      NORMALIZE
+    );
+    expect(config.compatibility_date).toBe("2024-01-01");
+    expect(issues).toEqual([{ field: "compatibility_date", message: "written as a TOML date; quoted", fixed: true }]);
+  });
+
+  it("keeps other dates as dates", () => {
+    const { config } = normalizeWranglerConfig(
+      parsed('name = "app"\nmain = "src/index.ts"\ncompatibility_date = "2024-01-01"\n[vars]\nSINCE = 2023-06-01\n'),
+      NORMALIZE
+    );
+    expect(stringifyToml(config)).toContain("SINCE = 2023-06-01");
+  });
+
+  it("fills in name, date and main and adds provisioned bindings", () => {
+    const { config } = normalizeWranglerConfig(parsed('name = "My App!"\n'), {
+      ...NORMALIZE,
+      requiredBindings: [
+        { type: "kv", binding: "CACHE", id: "kv-1" },
+        { type: "d1", binding: "DB" },
+      ],
+    });
+    expect(config).toMatchObject({
+      name: "my-app",
+      main: "src/index.ts",
+      compatibility_date: "2024-09-23",
+      kv_namespaces: [{ binding: "CACHE", id: "kv-1" }],
+    });
+    // No id yet: left out until provisioned
+    expect(config.d1_databases).toBeUndefined();
+  });
+
+  it("drops duplicate and malformed bindings", () => {
+    const { config, issues } = normalizeWranglerConfig(
+      parsed(`
+name = "app"
+main = "src/index.ts"
+compatibility_date = "2024-09-23"
+[[kv_namespaces]]
+binding = "CACHE"
+id = "1"
+[[kv_namespaces]]
+binding = "CACHE"
+id = "2"
+[[d1_databases]]
+binding = "bad name"
+database_name = "b"
+database_id = "x"
+`),
+      NORMALIZE
+    );
+    expect(config.kv_namespaces).toEqual([{ binding: "CACHE", id: "1" }]);
+    expect(config.d1_databases).toBeUndefined();
+    expect(issues.map((i) => i.field)).toEqual(["kv_namespaces[1]", "d1_databases[0]"]);
+  });
+});
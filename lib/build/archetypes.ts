@@ -0,0 +1,395 @@
+// lib/build/archetypes.ts
+
+/**
+ * Project archetypes for the deterministic planner. Each one is a file
+ * list with short descriptions plus the binding manifest the project
+ * expects (see bindings.ts).
+ * The model planner gets the chosen archetype as a hint; when it is
+ * unavailable or rejected, the archetype's file list *is* the plan.
+ */
+
+import type { PlannedFile } from "./planProjectFiles";
+import type { SanitizerConfig } from "./sanitizerRules";
+import { describeManifest, type BindingManifest } from "./bindings";
+import type { DataSchema } from "./d1Schema";
+import { describeContactForm, type ContactFormSpec } from "../../worker/utils/templates/contactFormHandler";
+
+export type ArchetypeId =
+  | "static-site"
+  | "landing-waitlist"
+  | "crud-saas"
+  | "api-only"
+  | "form-to-email"
+  | "kv-dashboard";
+
+export type Archetype = {
+  id: ArchetypeId;
+  label: string;
+  // Lowercase phrases that suggest this archetype (word-boundary matched)
+  keywords: string[];
+  manifest: BindingManifest;
+  // Starting tables for D1-backed archetypes; migrations and functions/db.ts are rendered from it
+  schema?: DataSchema;
+  // Form handler rendered from the contact form template instead of generated
+  contactForm?: ContactFormSpec;
+  files: (ideaId: string) => PlannedFile[];
+  // Sanitizer rule selection for this kind of project (see sanitizerRules.ts)
+  sanitizer?: SanitizerConfig;
+};
+
+type ChatMsg = { role: "system" | "user" | "assistant"; content?: string };
+
+const ENTRY = "functions/index.ts";
+
+/* ------------------------ shared files ------------------------ */
+
+function wranglerFile(ideaId: string, manifest: BindingManifest, withSite = true): PlannedFile {
+  const extra = describeManifest({ ...manifest, kv: manifest.kv?.filter((b) => b.binding !== "ASSETS") });
+  return {
+    path: "wrangler.toml",
+    description:
+      `Wrangler config: name=mvp-${ideaId}, main=${ENTRY}, compatibility_date=2024-11-06` +
+      (withSite ? ", add [site] bucket=./public. The ASSETS KV is handled/injected by build service" : "") +
+      (extra.length ? `. Bindings: ${extra.join(", ")} (ids are filled in at provisioning; secrets are not declared here).` : "."),
+    dependsOn: [ENTRY],
+  };
+}
+
+const WORKFLOW: PlannedFile = {
+  path: ".github/workflows/deploy.yml",
+  description:
+    "GitHub Actions workflow that deploys with cloudflare/wrangler-action@v3 using Wrangler v4 `deploy`. Expects CLOUDFLARE_API_TOKEN secret.",
+};
+
+const PACKAGE_JSON: PlannedFile = {
+  path: "package.json",
+  description: "Minimal package.json with type=module and a noop build script.",
+};
+
+const STYLES: PlannedFile = {
+  path: "public/styles.css",
+  description: "Tiny CSS with a centered container and basic typography. Nothing heavy.",
+};
+
+/* ------------------------ archetypes ------------------------ */
+
+const STATIC_SITE: Archetype = {
+  id: "static-site",
+  label: "Static site",
+  keywords: ["portfolio", "blog", "static site", "brochure", "personal site", "documentation"],
+  manifest: { kv: [{ binding: "ASSETS", purpose: "Static assets" }] },
+  files(ideaId) {
+    return [
+      {
+        path: ENTRY,
+        description:
+          "Cloudflare Worker: serve /index.html and other static files from KV (ASSETS). Fallback to a plain text message if not found.",
+      },
+      {
+        path: "public/index.html",
+        description:
+          "Minimal HTML page with title, header, and a paragraph. Link /styles.css and /app.js if present.",
+        dependsOn: [ENTRY],
+      },
+      STYLES,
+      {
+        path: "public/app.js",
+        description:
+          "Small script that logs a startup message and wires a minimal click handler if an element with id='cta' exists.",
+        dependsOn: [ENTRY, "public/index.html"],
+      },
+      wranglerFile(ideaId, STATIC_SITE.manifest),
+      WORKFLOW,
+      PACKAGE_JSON,
+    ];
+  },
+};
+
+const LANDING_WAITLIST: Archetype = {
+  id: "landing-waitlist",
+  label: "Landing page with waitlist",
+  keywords: ["waitlist", "wait list", "landing page", "coming soon", "early access", "pre-launch", "prelaunch", "launch page", "sign up for updates", "newsletter"],
+  manifest: {
+    kv: [
+      { binding: "ASSETS", purpose: "Static assets" },
+      { binding: "WAITLIST_KV", purpose: "Waitlist signups keyed by email, and rate-limit counters" },
+    ],
+  },
+  contactForm: {
+    name: "waitlist",
+    kind: "waitlist",
+    fields: [{ name: "email", type: "email", required: true }],
+    storage: { binding: "WAITLIST_KV" },
+  },
+  files(ideaId) {
+    return [
+      {
+        path: ENTRY,
+        description:
+          "Cloudflare Worker: serve static files from KV (ASSETS); dispatch /api/waitlist and /api/waitlist/count to waitlistHandler(request, env) from ./api/waitlist (rendered from the form template: validation, spam checks, rate limit and storage are done there). Dispatch /admin and /admin/* to adminHandler(request, env) from ./admin (rendered: token-protected list, search and CSV export of the stored records).",
+      },
+      {
+        path: "public/index.html",
+        description:
+          "Landing page: hero with headline and tagline, 3 feature highlights, waitlist form (id='waitlist-form': email input, a visually hidden 'website' input with tabindex=-1 and autocomplete=off as honeypot), footer. Link /styles.css and /app.js.",
+        dependsOn: [ENTRY],
+      },
+      STYLES,
+      {
+        path: "public/app.js",
+        description:
+          "Set the form's shown-at time on load, submit the waitlist form via fetch and show success/duplicate/error inline (field errors from `details`), and display the signup count. API: " +
+          describeContactForm(LANDING_WAITLIST.contactForm!) +
+          ".",
+        dependsOn: [ENTRY, "public/index.html"],
+      },
+      wranglerFile(ideaId, LANDING_WAITLIST.manifest),
+      WORKFLOW,
+      PACKAGE_JSON,
+    ];
+  },
+};
+
+const CRUD_SAAS: Archetype = {
+  id: "crud-saas",
+  label: "CRUD SaaS with D1",
+  keywords: ["crud", "saas", "manage", "track", "tracker", "inventory", "crm", "todo", "to-do", "tasks", "booking", "bookings", "records", "database", "create, edit", "edit and delete"],
+  manifest: {
+    kv: [{ binding: "ASSETS", purpose: "Static assets" }],
+    d1: [{ binding: "DB", purpose: "Primary relational data" }],
+  },
+  schema: {
+    tables: [
+      {
+        name: "items",
+        purpose: "The app's core records",
+        // Visitors see the list; only the founder (admin token) changes it
+        publicRead: true,
+        columns: [
+          { name: "title", type: "text", required: true },
+          { name: "notes", type: "text" },
+        ],
+      },
+    ],
+  },
+  files(ideaId) {
+    return [
+      {
+        path: ENTRY,
+        description:
+          "Cloudflare Worker: serve static files from KV (ASSETS); dispatch /api/items and /api/items/:id to itemsHandler(request, env) from ./api/items (rendered from the CRUD template: list with ?limit&offset returning {items,total,nextOffset}, get, create, PUT/PATCH, delete, JSON errors {error,code,details}; reads are public, writes need Authorization: Bearer <ADMIN_TOKEN>). Other data access uses the typed helpers in functions/db.ts over env.DB. Dispatch /admin and /admin/* to adminHandler(request, env) from ./admin (rendered: token-protected list, search and CSV export of the stored records).",
+      },
+      {
+        path: "public/index.html",
+        description:
+          "App shell: header, a form to create/edit an item (id='item-form'), and a table/list of items (id='items'). Link /styles.css and /app.js.",
+        dependsOn: [ENTRY],
+      },
+      STYLES,
+      {
+        path: "public/app.js",
+        description:
+          "Client for /api/items: load and render the list ({items,total,nextOffset}), create/edit via the form (PATCH), delete with confirm, show validation errors from `details`, simple next/prev pagination. Writes send Authorization: Bearer <admin token>: ask for the token once, keep it in localStorage and ask again on a 401.",
+        dependsOn: [ENTRY, "public/index.html"],
+      },
+      wranglerFile(ideaId, CRUD_SAAS.manifest),
+      WORKFLOW,
+      PACKAGE_JSON,
+    ];
+  },
+};
+
+const API_ONLY: Archetype = {
+  id: "api-only",
+  label: "API-only service",
+  keywords: ["api only", "api-only", "rest api", "json api", "endpoint", "endpoints", "webhook", "webhooks", "backend only", "no frontend", "microservice", "integration"],
+  manifest: {},
+  // No pages to pad: tiny handler modules are legitimate here
+  sanitizer: { disable: ["size-minimums"] },
+  files(ideaId) {
+    return [
+      {
+        path: ENTRY,
+        description:
+          "Cloudflare Worker JSON API: GET / returns service name and routes, GET /health returns {ok:true}, plus the idea's core endpoints under /api/*. CORS headers, JSON errors with status codes, 404 fallback.",
+      },
+      {
+        path: "README.md",
+        description: "Short README: what the API does, each route with method, example request and response.",
+        dependsOn: [ENTRY],
+      },
+      wranglerFile(ideaId, API_ONLY.manifest, false),
+      WORKFLOW,
+      PACKAGE_JSON,
+    ];
+  },
+};
+
+const FORM_TO_EMAIL: Archetype = {
+  id: "form-to-email",
+  label: "Form to email",
+  keywords: ["contact form", "email me", "send email", "inquiry", "enquiry", "quote request", "request a quote", "feedback form", "lead capture", "submissions"],
+  manifest: {
+    kv: [
+      { binding: "ASSETS", purpose: "Static assets" },
+      { binding: "SUBMISSIONS_KV", purpose: "Stored form submissions" },
+    ],
+    secrets: [{ name: "NOTIFY_WEBHOOK_URL", purpose: "Where new submissions are forwarded (optional)" }],
+  },
+  contactForm: {
+    name: "submissions",
+    kind: "contact",
+    fields: [
+      { name: "name", type: "text", required: true },
+      { name: "email", type: "email", required: true },
+      { name: "message", type: "text", required: true },
+    ],
+    storage: { binding: "SUBMISSIONS_KV" },
+    notify: { kind: "webhook", urlSecret: "NOTIFY_WEBHOOK_URL" },
+  },
+  files(ideaId) {
+    return [
+      {
+        path: ENTRY,
+        description:
+          "Cloudflare Worker: serve static files from KV (ASSETS); dispatch /api/submissions to submissionsHandler(request, env) from ./api/submissions (rendered from the form template: validation, spam checks, rate limit, storage in SUBMISSIONS_KV and the NOTIFY_WEBHOOK_URL notification are done there). Dispatch /admin and /admin/* to adminHandler(request, env) from ./admin (rendered: token-protected list, search and CSV export of the stored records).",
+      },
+      {
+        path: "public/index.html",
+        description:
+          "Page with a short intro and a form (id='contact-form': name, email, message, a visually hidden 'website' input with tabindex=-1 and autocomplete=off as honeypot, submit). Link /styles.css and /app.js.",
+        dependsOn: [ENTRY],
+      },
+      STYLES,
+      {
+        path: "public/app.js",
+        description:
+          "Set the form's shown-at time on load, submit the form via fetch, disable the button while sending, show a thank-you or the field errors from `details` inline. API: " +
+          describeContactForm(FORM_TO_EMAIL.contactForm!) +
+          ".",
+        dependsOn: [ENTRY, "public/index.html"],
+      },
+      wranglerFile(ideaId, FORM_TO_EMAIL.manifest),
+      WORKFLOW,
+      PACKAGE_JSON,
+    ];
+  },
+};
+
+const KV_DASHBOARD: Archetype = {
+  id: "kv-dashboard",
+  label: "Dashboard over KV",
+  keywords: ["dashboard", "metrics", "analytics", "stats", "statistics", "chart", "charts", "kpi", "kpis", "monitor", "monitoring", "leaderboard"],
+  manifest: {
+    kv: [
+      { binding: "ASSETS", purpose: "Static assets" },
+      { binding: "METRICS_KV", purpose: "Metric values and history" },
+    ],
+  },
+  files(ideaId) {
+    return [
+      {
+        path: ENTRY,
+        description:
+          "Cloudflare Worker: serve static files from KV (ASSETS); GET /api/metrics returns current metrics from METRICS_KV; POST /api/metrics/:name records a value (keeps the last 50 points per metric). JSON responses.",
+      },
+      {
+        path: "public/index.html",
+        description:
+          "Dashboard page: header, a grid of metric cards (id='cards') and a simple history section. Link /styles.css and /app.js.",
+        dependsOn: [ENTRY],
+      },
+      STYLES,
+      {
+        path: "public/app.js",
+        description:
+          "Fetch /api/metrics, render metric cards and a small inline SVG sparkline per metric, refresh every 30s.",
+        dependsOn: [ENTRY, "public/index.html"],
+      },
+      wranglerFile(ideaId, KV_DASHBOARD.manifest),
+      WORKFLOW,
+      PACKAGE_JSON,
+    ];
+  },
+};
+
+export const ARCHETYPES: Record<ArchetypeId, Archetype> = {
+  "static-site": STATIC_SITE,
+  "landing-waitlist": LANDING_WAITLIST,
+  "crud-saas": CRUD_SAAS,
+  "api-only": API_ONLY,
+  "form-to-email": FORM_TO_EMAIL,
+  "kv-dashboard": KV_DASHBOARD,
+};
+
+export const DEFAULT_ARCHETYPE: ArchetypeId = "static-site";
+
+export function isArchetypeId(value: unknown): value is ArchetypeId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ARCHETYPES, value);
+}
+
+/* ------------------------ classification ------------------------ */
+
+export type ArchetypeChoice = {
+  id: ArchetypeId;
+  source: "override" | "classified" | "default";
+  // Keywords that drove a classified choice
+  matched: string[];
+};
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Score each archetype by keyword hits in the idea summary and the user's
+ * chat messages. The summary counts double; ties keep declaration order.
+ */
+export function classifyArchetype(input: {
+  ideaSummary?: { description?: string };
+  messages?: ChatMsg[];
+}): ArchetypeChoice {
+  const summary = (input.ideaSummary?.description || "").toLowerCase();
+  const chat = (input.messages || [])
+    .filter((m) => m.role === "user" && m.content)
+    .map((m) => m.content!.toLowerCase())
+    .join("\n");
+
+  let best: ArchetypeChoice = { id: DEFAULT_ARCHETYPE, source: "default", matched: [] };
+  let bestScore = 0;
+
+  for (const archetype of Object.values(ARCHETYPES)) {
+    let score = 0;
+    const matched: string[] = [];
+    for (const kw of archetype.keywords) {
+      const re = new RegExp(`\\b${escapeRegex(kw)}\\b`);
+      const hit = (re.test(summary) ? 2 : 0) + (re.test(chat) ? 1 : 0);
+      if (hit > 0) {
+        score += hit;
+        matched.push(kw);
+      }
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = { id: archetype.id, source: "classified", matched };
+    }
+  }
+  return best;
+}
+
+/**
+ * An explicit `archetype` from the user wins; otherwise classify.
+ */
+export function resolveArchetype(payload: {
+  archetype?: unknown;
+  ideaSummary?: { description?: string };
+  messages?: ChatMsg[];
+}): ArchetypeChoice {
+  if (isArchetypeId(payload.archetype)) {
+    return { id: payload.archetype, source: "override", matched: [] };
+  }
+  if (payload.archetype) {
+    console.warn(`Unknown archetype override "${String(payload.archetype)}"; classifying instead`);
+  }
+  return classifyArchetype(payload);
+}
@@ -0,0 +1,282 @@
+// lib/build/bindings.ts
+
+import {
+  stringifyToml,
+  toWorkerName,
+  type RequiredBinding,
+  type TomlTable,
+  type WranglerConfig,
+} from "./wranglerToml";
+import { ensureKvNamespace } from "../cloudflare/createKvNamespace";
+import { ensureD1Database, ensureQueue, ensureR2Bucket } from "../cloudflare/ensureResources";
+
+/**
+ * Binding manifest: every resource a generated Worker reads from `env`,
+ * declared once on the plan. wrangler.toml, the provisioning calls and
+ * the codegen prompts are all derived from it, so the generated code,
+ * its config and the real account resources agree.
+ */
+
+export type KvManifestEntry = { binding: string; purpose?: string; id?: string };
+export type D1ManifestEntry = { binding: string; purpose?: string; databaseName?: string; id?: string };
+export type R2ManifestEntry = { binding: string; purpose?: string; bucketName?: string };
+export type QueueManifestEntry = {
+  binding: string;
+  purpose?: string;
+  queue?: string;
+  // Also consume the queue from this Worker (adds a [[queues.consumers]] entry)
+  consume?: boolean;
+};
+export type VarManifestEntry = { name: string; value: string; purpose?: string };
+export type SecretManifestEntry = { name: string; purpose?: string };
+
+export type BindingManifest = {
+  kv?: KvManifestEntry[];
+  d1?: D1ManifestEntry[];
+  r2?: R2ManifestEntry[];
+  queues?: QueueManifestEntry[];
+  vars?: VarManifestEntry[];
+  // Names only: values are set with `wrangler secret put`, never committed
+  secrets?: SecretManifestEntry[];
+};
+
+export type ProvisionedResource = {
+  kind: "kv" | "d1" | "r2" | "queue";
+  binding: string;
+  name: string;
+  id?: string;
+  error?: string;
+};
+
+type FileLike = { path: string; content: string };
+
+/* ------------------------ naming ------------------------ */
+
+/**
+ * Account-level resource name for a binding. KV titles keep the
+ * "<project>-<BINDING>" form ensureAssetsKv has always used; D1, R2 and
+ * queue names must be lowercase with dashes.
+ */
+export function resourceName(projectName: string, kind: ProvisionedResource["kind"], binding: string): string {
+  if (kind === "kv") return `${projectName}-${binding}`;
+  return toWorkerName(`${projectName}-${binding.replace(/_/g, "-")}`);
+}
+
+/** Fill in default database/bucket/queue names for entries that don't set one. */
+export function withResourceNames(manifest: BindingManifest, projectName: string): BindingManifest {
+  return {
+    ...manifest,
+    d1: manifest.d1?.map((d) => ({ ...d, databaseName: d.databaseName || resourceName(projectName, "d1", d.binding) })),
+    r2: manifest.r2?.map((r) => ({ ...r, bucketName: r.bucketName || resourceName(projectName, "r2", r.binding) })),
+    queues: manifest.queues?.map((q) => ({ ...q, queue: q.queue || resourceName(projectName, "queue", q.binding) })),
+  };
+}
+
+/** Every name the Worker will find on `env`. */
+export function manifestNames(manifest: BindingManifest): string[] {
+  return [
+    ...(manifest.kv || []).map((b) => b.binding),
+    ...(manifest.d1 || []).map((b) => b.binding),
+    ...(manifest.r2 || []).map((b) => b.binding),
+    ...(manifest.queues || []).map((b) => b.binding),
+    ...(manifest.vars || []).map((v) => v.name),
+    ...(manifest.secrets || []).map((s) => s.name),
+  ];
+}
+
+/**
+ * Combine manifests; the first declaration of a name wins, so an
+ * archetype's bindings can't be redefined by a later (model) manifest.
+ */
+export function mergeManifests(...manifests: (BindingManifest | undefined)[]): BindingManifest {
+  const out: BindingManifest = {};
+  const seen = new Set<string>();
+  const add = <K extends keyof BindingManifest>(key: K, entries: BindingManifest[K], name: (e: any) => string) => {
+    for (const e of (entries || []) as any[]) {
+      if (seen.has(name(e))) continue;
+      seen.add(name(e));
+      (out[key] = (out[key] || []) as any).push({ ...e });
+    }
+  };
+  for (const m of manifests) {
+    if (!m) continue;
+    add("kv", m.kv, (e) => e.binding);
+    add("d1", m.d1, (e) => e.binding);
+    add("r2", m.r2, (e) => e.binding);
+    add("queues", m.queues, (e) => e.binding);
+    add("vars", m.vars, (e) => e.name);
+    add("secrets", m.secrets, (e) => e.name);
+  }
+  return out;
+}
+
+/** One line per binding, for planner/codegen prompts and file descriptions. */
+export function describeManifest(manifest: BindingManifest): string[] {
+  const line = (name: string, kind: string, purpose?: string) => `${name} (${kind}${purpose ? `: ${purpose}` : ""})`;
+  return [
+    ...(manifest.kv || []).map((b) => line(b.binding, "KV namespace", b.purpose)),
+    ...(manifest.d1 || []).map((b) => line(b.binding, "D1 database", b.purpose)),
+    ...(manifest.r2 || []).map((b) => line(b.binding, "R2 bucket", b.purpose)),
+    ...(manifest.queues || []).map((b) => line(b.binding, b.consume ? "queue, produced and consumed" : "queue producer", b.purpose)),
+    ...(manifest.vars || []).map((v) => line(v.name, "var", v.purpose)),
+    ...(manifest.secrets || []).map((s) => line(s.name, "secret", s.purpose)),
+  ];
+}
+
+/* ------------------------ wrangler ------------------------ */
+
+/** What the sanitizer's wrangler rule must make sure is declared. */
+export function requiredBindings(manifest: BindingManifest): RequiredBinding[] {
+  return [
+    ...(manifest.kv || []).map((b) => ({ type: "kv" as const, binding: b.binding, id: b.id })),
+    ...(manifest.d1 || []).map((b) => ({ type: "d1" as const, binding: b.binding, id: b.id, name: b.databaseName })),
+    ...(manifest.r2 || []).map((b) => ({ type: "r2" as const, binding: b.binding, name: b.bucketName })),
+    ...(manifest.queues || []).map((b) => ({ type: "queue" as const, binding: b.binding, name: b.queue, consume: b.consume })),
+  ];
+}
+
+export function requiredVars(manifest: BindingManifest): Record<string, string> {
+  return Object.fromEntries((manifest.vars || []).map((v) => [v.name, v.value]));
+}
+
+/**
+ * The binding tables of a wrangler config. KV namespaces and D1
+ * databases are left out until they have ids (wrangler rejects them
+ * otherwise); run withResourceNames/provisionManifest first.
+ */
+export function manifestToWrangler(manifest: BindingManifest): Partial<WranglerConfig> {
+  const config: Partial<WranglerConfig> = {};
+  const kv = (manifest.kv || []).filter((b) => b.id).map((b) => ({ binding: b.binding, id: b.id! }));
+  const d1 = (manifest.d1 || [])
+    .filter((b) => b.id)
+    .map((b) => ({ binding: b.binding, database_id: b.id!, ...(b.databaseName ? { database_name: b.databaseName } : {}) }));
+  const r2 = (manifest.r2 || []).filter((b) => b.bucketName).map((b) => ({ binding: b.binding, bucket_name: b.bucketName! }));
+  const queues = (manifest.queues || []).filter((b) => b.queue);
+
+  if (kv.length) config.kv_namespaces = kv;
+  if (d1.length) config.d1_databases = d1;
+  if (r2.length) config.r2_buckets = r2;
+  if (queues.length) {
+    config.queues = { producers: queues.map((q) => ({ binding: q.binding, queue: q.queue! })) };
+    const consumers = queues.filter((q) => q.consume).map((q) => ({ queue: q.queue! }));
+    if (consumers.length) config.queues.consumers = consumers;
+  }
+  if (manifest.vars?.length) config.vars = requiredVars(manifest);
+  return config;
+}
+
+/** A complete wrangler.toml for a project with this manifest. */
+export function renderWranglerToml(
+  manifest: BindingManifest,
+  base: { name: string; main: string; compatibilityDate: string; accountId?: string; siteBucket?: string }
+): string {
+  const config: WranglerConfig = {
+    name: base.name,
+    main: base.main,
+    compatibility_date: base.compatibilityDate,
+    ...(base.accountId ? { account_id: base.accountId } : {}),
+    ...manifestToWrangler(manifest),
+    ...(base.siteBucket ? { site: { bucket: base.siteBucket } } : {}),
+  };
+  return stringifyToml(config as TomlTable);
+}
+
+/* ------------------------ provisioning ------------------------ */
+
+/**
+ * Find-or-create every resource in the manifest and return it with ids
+ * filled in. A resource that fails is reported (and left without an id)
+ * instead of failing the others; secrets are never provisioned here.
+ */
+export async function provisionManifest(
+  manifest: BindingManifest,
+  opts: { projectName: string; accountId: string; token: string }
+): Promise<{ manifest: BindingManifest; resources: ProvisionedResource[] }> {
+  const { projectName, accountId, token } = opts;
+  const named = withResourceNames(manifest, projectName);
+  const resources: ProvisionedResource[] = [];
+
+  const ensure = async <T extends { binding: string; id?: string }>(
+    kind: ProvisionedResource["kind"],
+    entry: T,
+    name: string,
+    run: () => Promise<string>
+  ): Promise<string | undefined> => {
+    // Already provisioned (e.g. on a resumed build)
+    if (entry.id) {
+      resources.push({ kind, binding: entry.binding, name, id: entry.id });
+      return entry.id;
+    }
+    try {
+      const id = await run();
+      resources.push({ kind, binding: entry.binding, name, id });
+      return id;
+    } catch (e: any) {
+      const error = String(e?.message || e);
+      console.warn(`provisionManifest: ${kind} ${name} failed: ${error}`);
+      resources.push({ kind, binding: entry.binding, name, error });
+      return undefined;
+    }
+  };
+
+  const kv: KvManifestEntry[] = [];
+  for (const b of named.kv || []) {
+    const title = resourceName(projectName, "kv", b.binding);
+    const id = await ensure("kv", b, title, () => ensureKvNamespace(title, accountId, token));
+    kv.push({ ...b, id });
+  }
+  const d1: D1ManifestEntry[] = [];
+  for (const b of named.d1 || []) {
+    const id = await ensure("d1", b, b.databaseName!, () => ensureD1Database(b.databaseName!, accountId, token));
+    d1.push({ ...b, id });
+  }
+  const r2: R2ManifestEntry[] = [];
+  for (const b of named.r2 || []) {
+    const ok = await ensure("r2", b, b.bucketName!, () => ensureR2Bucket(b.bucketName!, accountId, token));
+    r2.push({ ...b, bucketName: ok ? b.bucketName : undefined });
+  }
+  const queues: QueueManifestEntry[] = [];
+  for (const q of named.queues || []) {
+    const ok = await ensure("queue", q, q.queue!, () => ensureQueue(q.queue!, accountId, token));
+    queues.push({ ...q, queue: ok ? q.queue : undefined });
+  }
+
+  return {
+    manifest: {
+      ...named,
+      ...(named.kv ? { kv } : {}),
+      ...(named.d1 ? { d1 } : {}),
+      ...(named.r2 ? { r2 } : {}),
+      ...(named.queues ? { queues } : {}),
+    },
+    resources,
+  };
+}
+
+/* ------------------------ consistency ------------------------ */
+
+const SERVER_CODE = /^(functions|worker|src|api)\/.*\.(m?[jt]s)$/;
+
+/**
+ * `env.NAME` references in server code that the manifest doesn't declare;
+ * each one is undefined at runtime. Wrangler's own bindings
+ * (`__STATIC_CONTENT`, …) are ignored.
+ */
+export function findUndeclaredEnvRefs(
+  files: FileLike[],
+  manifest: BindingManifest
+): { path: string; name: string }[] {
+  const declared = new Set(manifestNames(manifest));
+  const out: { path: string; name: string }[] = [];
+  for (const f of files) {
+    if (!SERVER_CODE.test(f.path)) continue;
+    const names = new Set<string>();
+    const re = /\benv\s*(?:\.\s*([A-Z][A-Z0-9_]*)\b|\[\s*["']([A-Z][A-Z0-9_]*)["']\s*\])/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(f.content || ""))) names.add(m[1] || m[2]);
+    for (const name of names) {
+      if (!declared.has(name) && !name.startsWith("__")) out.push({ path: f.path, name });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,170 @@
+// lib/build/buildCheckpoints.ts
+
+import type { PlannedProject } from "./planProjectFiles";
+import type { VerificationReport } from "./verifyGeneratedFiles";
+import type { RepairAttempt } from "./repairFiles";
+import type { UsageTotals } from "./usage";
+import type { SecurityFinding } from "./securityScan";
+import type { SanitizeChange } from "./sanitizerRules";
+import type { BindingManifest, ProvisionedResource } from "./bindings";
+import type { SandboxReport } from "./sandbox";
+
+type FileRecord = { path: string; content: string };
+
+export type BuildStatus =
+  | "planned"
+  | "generating"
+  | "sanitized"
+  | "verified"
+  | "published"
+  | "failed";
+
+/**
+ * Everything we need to pick a build back up after a failure.
+ * Each completed stage is written as soon as it finishes.
+ */
+export type BuildCheckpoint = {
+  buildId: string;
+  ideaId: string;
+  status: BuildStatus;
+  createdAt: string;
+  updatedAt: string;
+  // Original request context (so a resume doesn't need the client to resend it)
+  payload: Record<string, unknown>;
+  plan?: PlannedProject;
+  // Output of each finished batch, keyed by batchKey()
+  batches: Record<string, FileRecord[]>;
+  sanitized?: FileRecord[];
+  verification?: VerificationReport;
+  repairs?: RepairAttempt[];
+  // Security scan findings (fixed ones included) for the sanitized files
+  security?: SecurityFinding[];
+  // Which sanitizer rule changed which file
+  sanitizeReport?: SanitizeChange[];
+  // The plan's manifest with provisioned ids, and what each resource came back as
+  provisioned?: { manifest: BindingManifest; resources: ProvisionedResource[] };
+  // Admin token generated for the project; `set` once it is a secret on the Worker
+  adminToken?: { secret: string; token: string; set: boolean; error?: string };
+  // Last pre-publish sandbox run of the sanitized files
+  sandbox?: SandboxReport;
+  // Token/cost totals for every model call this build made (across resumes)
+  usage?: UsageTotals;
+  repoUrl?: string;
+  error?: string;
+};
+
+/** Minimal KV surface we need (matches the Workers KVNamespace binding). */
+export type KvLike = {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, opts?: { expirationTtl?: number }): Promise<void>;
+};
+
+export type CheckpointStore = {
+  load(buildId: string): Promise<BuildCheckpoint | null>;
+  save(checkpoint: BuildCheckpoint): Promise<void>;
+};
+
+const KEY_PREFIX = "build:";
+const DEFAULT_TTL_SECS = 7 * 24 * 60 * 60; // keep failed builds resumable for a week
+
+/**
+ * Stable identity for a batch: the sorted list of paths it generates.
+ * Independent of batch order, so a resume still matches if batching shifts.
+ */
+export function batchKey(paths: string[]): string {
+  return [...paths].sort().join("|");
+}
+
+export function createCheckpoint(
+  buildId: string,
+  ideaId: string,
+  payload: Record<string, unknown>
+): BuildCheckpoint {
+  const now = new Date().toISOString();
+  return {
+    buildId,
+    ideaId,
+    status: "planned",
+    createdAt: now,
+    updatedAt: now,
+    payload,
+    batches: {},
+  };
+}
+
+/**
+ * KV-backed store. Values are the JSON-encoded checkpoint under `build:<id>`.
+ */
+export function createKvCheckpointStore(
+  kv: KvLike,
+  opts: { ttlSecs?: number } = {}
+): CheckpointStore {
+  const ttl = opts.ttlSecs && opts.ttlSecs > 0 ? opts.ttlSecs : DEFAULT_TTL_SECS;
+  return {
+    async load(buildId) {
+      const raw = await kv.get(KEY_PREFIX + buildId);
+      if (!raw) return null;
+      try {
+        return JSON.parse(raw) as BuildCheckpoint;
+      } catch {
+        return null;
+      }
+    },
+    async save(checkpoint) {
+      checkpoint.updatedAt = new Date().toISOString();
+      await kv.put(KEY_PREFIX + checkpoint.buildId, JSON.stringify(checkpoint), {
+        expirationTtl: ttl,
+      });
+    },
+  };
+}
+
+/**
+ * In-process store for local runs/tests (no KV bound). Only survives
+ * as long as the isolate/process does.
+ */
+const memory = new Map<string, string>();
+
+export function createMemoryCheckpointStore(): CheckpointStore {
+  return {
+    async load(buildId) {
+      const raw = memory.get(buildId);
+      return raw ? (JSON.parse(raw) as BuildCheckpoint) : null;
+    },
+    async save(checkpoint) {
+      checkpoint.updatedAt = new Date().toISOString();
+      memory.set(checkpoint.buildId, JSON.stringify(checkpoint));
+    },
+  };
+}
+
+/**
+ * Run a store's saves one at a time, in call order. Batches on the same
+ * dependency level finish concurrently and each saves the checkpoint;
+ * without this an older snapshot could land after a newer one and drop
+ * finished batches, which a resume would then regenerate.
+ */
+export function withSerialSaves(store: CheckpointStore): CheckpointStore {
+  let last: Promise<void> = Promise.resolve();
+  return {
+    load: (buildId) => store.load(buildId),
+    save(checkpoint) {
+      const next = last.then(() => store.save(checkpoint));
+      // A failed save doesn't block the ones queued behind it
+      last = next.catch(() => {});
+      return next;
+    },
+  };
+}
+
+/**
+ * Prefer a dedicated BUILD_KV binding, then the shared KV, then memory.
+ */
+export function getCheckpointStore(runtimeEnv?: Record<string, any>): CheckpointStore {
+  const kv: KvLike | undefined = runtimeEnv?.BUILD_KV || runtimeEnv?.KV;
+  if (kv && typeof kv.get === "function" && typeof kv.put === "function") {
+    const ttl = parseInt(String(runtimeEnv?.BUILD_CHECKPOINT_TTL_SECS ?? ""), 10);
+    return withSerialSaves(createKvCheckpointStore(kv, { ttlSecs: Number.isFinite(ttl) ? ttl : undefined }));
+  }
+  return withSerialSaves(createMemoryCheckpointStore());
+}
@@ -0,0 +1,375 @@
+// Build event protocol shared by buildService, the /mvp SSE stream and the client.
+
+import { z } from "zod";
+import { ARCHETYPES, isArchetypeId } from "./archetypes";
+import { formatUsd } from "./usage";
+
+export const BuildPhaseSchema = z.enum(["plan", "generate", "sanitize", "verify", "sandbox", "publish"]);
+export type BuildPhase = z.infer<typeof BuildPhaseSchema>;
+
+const base = {
+  buildId: z.string().optional(),
+  at: z.string().optional(), // ISO timestamp, stamped by the emitter
+};
+
+/** Emitted once, before any work starts */
+export const BuildStartEventSchema = z.object({
+  ...base,
+  type: z.literal("build"),
+  ideaId: z.string().optional(),
+  resumed: z.boolean().optional(),
+});
+
+export const PhaseEventSchema = z.object({
+  ...base,
+  type: z.literal("phase"),
+  phase: BuildPhaseSchema,
+  status: z.enum(["start", "end"]),
+  durationMs: z.number().optional(), // only on "end"
+});
+
+/** Per-batch progress during the generate phase */
+export const BatchEventSchema = z.object({
+  ...base,
+  type: z.literal("batch"),
+  key: z.string(),
+  paths: z.array(z.string()),
+  status: z.enum(["start", "done", "skipped"]),
+  completed: z.number(),
+  total: z.number(),
+});
+
+/** Codegen cache lookups for one chunk of files */
+export const CacheEventSchema = z.object({
+  ...base,
+  type: z.literal("cache"),
+  hits: z.array(z.string()),
+  misses: z.array(z.string()),
+});
+
+export const RetryEventSchema = z.object({
+  ...base,
+  type: z.literal("retry"),
+  scope: z.string(), // what is being retried, e.g. a batch key
+  attempt: z.number(),
+  maxAttempts: z.number(),
+  reason: z.string(),
+});
+
+export const WarningEventSchema = z.object({
+  ...base,
+  type: z.literal("warning"),
+  message: z.string(),
+  code: z.string().optional(),
+});
+
+export const ArtifactEventSchema = z.object({
+  ...base,
+  type: z.literal("artifact"),
+  kind: z.enum(["plan", "files", "repo", "pages"]),
+  plan: z.string().optional(),
+  archetype: z.string().optional(), // on "plan": the project archetype id
+  paths: z.array(z.string()).optional(),
+  url: z.string().optional(),
+});
+
+const UsageBucketSchema = z.object({
+  calls: z.number(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  costUsd: z.number(),
+});
+
+const UsageTotalsSchema = UsageBucketSchema.extend({
+  bySource: z.record(z.string(), UsageBucketSchema),
+  estimated: z.boolean().optional(),
+});
+
+/** Token/cost totals, sent before the terminal event (and when a budget stops the build) */
+export const UsageEventSchema = z.object({
+  ...base,
+  type: z.literal("usage"),
+  build: UsageTotalsSchema,
+  idea: UsageTotalsSchema.optional(), // everything spent on this idea so far
+  budgetUsd: z.number().optional(),
+});
+export type UsageEvent = z.infer<typeof UsageEventSchema>;
+
+/** What the sanitizer changed relative to the model output, and why */
+export const SanitizeEventSchema = z.object({
+  ...base,
+  type: z.literal("sanitize"),
+  changes: z.array(
+    z.object({
+      rule: z.string(),
+      path: z.string(),
+      action: z.enum(["added", "modified", "removed", "renamed"]),
+      reason: z.string(),
+      from: z.string().optional(),
+      details: z.array(z.string()).optional(),
+    })
+  ),
+});
+
+/** Security scan of the final file set; `blocked` means it won't be published */
+export const SecurityEventSchema = z.object({
+  ...base,
+  type: z.literal("security"),
+  findings: z.array(
+    z.object({
+      path: z.string(),
+      line: z.number(),
+      rule: z.string(),
+      severity: z.enum(["critical", "high", "medium", "low"]),
+      message: z.string(),
+      fixed: z.boolean().optional(),
+    })
+  ),
+  blocked: z.boolean(),
+});
+
+/** Account resources found or created for the project's bindings */
+export const ProvisionEventSchema = z.object({
+  ...base,
+  type: z.literal("provision"),
+  resources: z.array(
+    z.object({
+      kind: z.enum(["kv", "d1", "r2", "queue"]),
+      binding: z.string(),
+      name: z.string(),
+      id: z.string().optional(),
+      error: z.string().optional(),
+    })
+  ),
+  // Secret names the Worker expects; only the admin token is generated and set by the build
+  secrets: z.array(z.string()),
+  // The generated admin token, shown once so the founder can sign in to /admin and the write routes
+  adminToken: z
+    .object({ secret: z.string(), token: z.string(), set: z.boolean(), error: z.string().optional() })
+    .optional(),
+});
+
+/** Pre-publish sandbox run of the Worker; `required` means a failure stops the build */
+export const SandboxEventSchema = z.object({
+  ...base,
+  type: z.literal("sandbox"),
+  ok: z.boolean(),
+  required: z.boolean(),
+  entry: z.string().optional(),
+  skipped: z.string().optional(),
+  loadError: z.string().optional(),
+  unverified: z.string().optional(),
+  results: z.array(
+    z.object({
+      method: z.string(),
+      path: z.string(),
+      status: z.number().optional(),
+      durationMs: z.number(),
+      error: z.string().optional(),
+      unverified: z.string().optional(),
+    })
+  ),
+});
+
+/** Which planned files carry each feature, and whether they were built (see features.ts) */
+export const FeatureCoverageSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  priority: z.enum(["must", "should", "could"]),
+  files: z.array(z.string()),
+  missing: z.array(z.string()),
+  status: z.enum(["built", "partial", "missing"]),
+});
+
+/** Terminal: success */
+export const ResultEventSchema = z.object({
+  ...base,
+  type: z.literal("result"),
+  plan: z.string(),
+  files: z.array(z.string()),
+  repoUrl: z.string().optional(),
+  pagesUrl: z.string().optional(),
+  features: z.array(FeatureCoverageSchema).optional(),
+});
+export type ResultEvent = z.infer<typeof ResultEventSchema>;
+
+/** Terminal: failure */
+export const ErrorEventSchema = z.object({
+  ...base,
+  type: z.literal("error"),
+  message: z.string(),
+  phase: BuildPhaseSchema.optional(),
+});
+
+export const BuildEventSchema = z.discriminatedUnion("type", [
+  BuildStartEventSchema,
+  PhaseEventSchema,
+  BatchEventSchema,
+  CacheEventSchema,
+  RetryEventSchema,
+  WarningEventSchema,
+  ArtifactEventSchema,
+  UsageEventSchema,
+  SanitizeEventSchema,
+  SecurityEventSchema,
+  ProvisionEventSchema,
+  SandboxEventSchema,
+  ResultEventSchema,
+  ErrorEventSchema,
+]);
+export type BuildEvent = z.infer<typeof BuildEventSchema>;
+
+// Distributive Omit so callers can emit a single variant without `at`
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+export type BuildEventInput = DistributiveOmit<BuildEvent, "at">;
+
+export type BuildEventSink = (event: BuildEvent) => void;
+
+/**
+ * Wrap an optional sink so emitters can fire-and-forget: stamps the
+ * build id and timestamp, and never lets a listener error break the build.
+ */
+export function createEmitter(buildId: string, sink?: BuildEventSink) {
+  return (event: BuildEventInput) => {
+    if (!sink) return;
+    try {
+      sink({ buildId, ...event, at: new Date().toISOString() } as BuildEvent);
+    } catch (e) {
+      console.warn("build event listener failed:", e);
+    }
+  };
+}
+
+export function isTerminalEvent(event: BuildEvent): boolean {
+  return event.type === "result" || event.type === "error";
+}
+
+const PHASE_LABELS: Record<BuildPhase, string> = {
+  plan: "🧠 Planning",
+  generate: "🛠️ Generating files",
+  sanitize: "🧹 Preparing files",
+  verify: "🔎 Verifying generated project",
+  sandbox: "🧪 Running the Worker in a sandbox",
+  publish: "📤 Publishing to GitHub",
+};
+
+/**
+ * One-line, human-readable rendering of an event for chat/log views.
+ * Returns null for events that aren't worth showing on their own.
+ */
+export function describeBuildEvent(event: BuildEvent): string | null {
+  switch (event.type) {
+    case "build":
+      return event.resumed ? "🔁 Resuming build…" : null;
+    case "phase":
+      return event.status === "start" ? `${PHASE_LABELS[event.phase]}…` : null;
+    case "batch":
+      if (event.status === "start") return null;
+      return `${event.status === "skipped" ? "⏭️" : "📄"} ${event.completed}/${event.total}: ${event.paths.join(", ")}`;
+    case "cache":
+      return event.hits.length > 0
+        ? `♻️ Reused ${event.hits.length} cached file(s): ${event.hits.join(", ")}`
+        : null;
+    case "retry":
+      return `🔄 Retrying ${event.scope} (${event.attempt}/${event.maxAttempts}): ${event.reason}`;
+    case "warning":
+      return `⚠️ ${event.message}`;
+    case "artifact":
+      if (event.kind === "repo" && event.url) {
+        return `📁 Repo: ${event.url}\n🚀 Deployment will kick off via GitHub Actions automatically (usually 1–3 min)…`;
+      }
+      if (event.kind === "pages" && event.url) return `🌍 Site: ${event.url}`;
+      if (event.kind === "plan" && isArchetypeId(event.archetype)) {
+        return `🧩 Project type: ${ARCHETYPES[event.archetype].label}`;
+      }
+      if (event.kind === "files" && event.paths) return `🗂️ ${event.paths.length} files ready`;
+      return null;
+    case "usage": {
+      const approx = event.build.estimated ? "~" : "";
+      let line = `🧮 This build used ${event.build.totalTokens.toLocaleString()} tokens (${approx}${formatUsd(event.build.costUsd)})`;
+      if (event.idea) {
+        line += `; idea total ${formatUsd(event.idea.costUsd)}`;
+        if (event.budgetUsd) line += ` of ${formatUsd(event.budgetUsd)} budget`;
+      }
+      return line;
+    }
+    case "sanitize": {
+      if (event.changes.length === 0) return null;
+      const shown = event.changes
+        .slice(0, 8)
+        .map(
+          (c) =>
+            `  • ${c.from ? `${c.from} → ` : ""}${c.path} ${c.action} (${c.rule}): ${c.reason}` +
+            (c.details?.length ? ` — ${c.details.join("; ")}` : "")
+        );
+      const more = event.changes.length - shown.length;
+      return `🧹 Sanitizer adjusted ${new Set(event.changes.map((c) => c.path)).size} file(s):\n${shown.join("\n")}${more > 0 ? `\n  …and ${more} more` : ""}`;
+    }
+    case "security": {
+      if (event.findings.length === 0) return null;
+      const fixed = event.findings.filter((f) => f.fixed).length;
+      const open = event.findings.filter((f) => !f.fixed);
+      const lines = open.slice(0, 5).map((f) => `  • ${f.path}:${f.line} [${f.severity}] ${f.message}`);
+      return (
+        `🛡️ Security scan: ${fixed} issue(s) fixed, ${open.length} open` +
+        (event.blocked ? " — critical issues block publishing" : "") +
+        (lines.length ? `\n${lines.join("\n")}` : "") +
+        (open.length > lines.length ? `\n  …and ${open.length - lines.length} more` : "")
+      );
+    }
+    case "provision": {
+      const ok = event.resources.filter((r) => !r.error);
+      const failed = event.resources.filter((r) => r.error);
+      const lines = [
+        ...ok.map((r) => `  • ${r.binding} → ${r.kind} ${r.name}`),
+        ...failed.map((r) => `  • ${r.binding} → ${r.kind} ${r.name} failed: ${r.error}`),
+      ];
+      const admin = event.adminToken;
+      const unset = event.secrets.filter((s) => !(admin?.set && s === admin.secret));
+      return (
+        `🔌 Provisioned ${ok.length}/${event.resources.length} resource(s)` +
+        (lines.length ? `:\n${lines.join("\n")}` : "") +
+        (admin
+          ? `\n🔐 Admin token (keep it; it unlocks the admin page and protected routes): ${admin.token}` +
+            (admin.set ? ` — set as ${admin.secret} on the Worker` : ` — setting ${admin.secret} failed: ${admin.error}`)
+          : "") +
+        (unset.length
+          ? `\n🔑 Set secret(s) before use: ${unset.map((s) => `wrangler secret put ${s}`).join(", ")}`
+          : "")
+      );
+    }
+    case "sandbox": {
+      if (event.skipped) return `🧪 Sandbox skipped: ${event.skipped}`;
+      if (event.unverified) return `🧪 Sandbox could not verify the Worker: ${event.unverified}`;
+      if (event.loadError) return `🧪 ${event.entry} failed to load in the sandbox: ${event.loadError.split("\n")[0]}`;
+      const bad = event.results.filter((r) => !r.unverified && (r.error || (r.status ?? 0) >= 500));
+      const unverified = event.results.filter((r) => r.unverified).length;
+      const checked = event.results.length - unverified;
+      const lines = bad.slice(0, 5).map((r) => `  • ${r.method} ${r.path} → ${r.error ? r.error.split("\n")[0] : r.status}`);
+      return (
+        `🧪 Sandbox: ${checked - bad.length}/${checked} route(s) answered` +
+        (unverified ? ` (${unverified} not verified: they query D1, which the sandbox only stubs)` : "") +
+        (bad.length && event.required ? " — failures block publishing" : "") +
+        (lines.length ? `\n${lines.join("\n")}` : "")
+      );
+    }
+    case "result": {
+      const features = event.features || [];
+      if (!features.length) return "✅ Done";
+      const icon = { built: "✅", partial: "🟡", missing: "❌" } as const;
+      const lines = features.map(
+        (f) =>
+          `  ${icon[f.status]} ${f.name} (${f.priority})` +
+          (f.files.length ? ` → ${f.files.join(", ")}` : " → no files planned") +
+          (f.missing.length && f.files.length ? ` (missing: ${f.missing.join(", ")})` : "")
+      );
+      const built = features.filter((f) => f.status === "built").length;
+      return `✅ Done\n📋 Features built: ${built}/${features.length}\n${lines.join("\n")}`;
+    }
+    case "error":
+      return `❌ ${event.message}`;
+    default:
+      return null;
+  }
+}
@@ -1,17 +1,99 @@
 // lib/build/buildService.ts
-import { planProjectFiles } from "./planProjectFiles";
+import { planProjectFiles, type PlannedProject } from "./planProjectFiles";
 import { generateCodeBatch } from "./generateCodeBatch";
-import { chunkArray } from "./chunkArray";
+import { planBatches, runScheduledBatches } from "./scheduleBatches";
 // import { commitToGitHub } from "./commitToGitHub"; // ⛔️ no longer used in this flow
-import { sanitizeGeneratedFiles } from "./sanitizeGeneratedFiles";
+import { sanitizeGeneratedFiles, sanitizeGeneratedFilesDetailed } from "./sanitizeGeneratedFiles";
 import { callPublishToGitHub } from "./callPublishToGitHub";
 import { runInterfaceSelfTest } from "./typecheck";
+import {
+  createCheckpoint,
+  getCheckpointStore,
+  type BuildCheckpoint,
+  type CheckpointStore,
+} from "./buildCheckpoints";
+import {
+  verifyGeneratedFiles,
+  formatDiagnostic,
+  type VerificationReport,
+} from "./verifyGeneratedFiles";
+import { repairFiles, type RepairAttempt } from "./repairFiles";
+import { checkPlanRules, formatPlanViolation } from "./planRules";
+import { getCodegenCache } from "./codegenCache";
+import type { SanitizeChange } from "./sanitizerRules";
+import {
+  formatSecurityFinding,
+  getScriptHosts,
+  isBlocking,
+  scanFiles,
+  type SecurityFinding,
+} from "./securityScan";
+import { createEmitter, type BuildEventSink, type BuildPhase } from "./buildEvents";
+import {
+  describeManifest,
+  findUndeclaredEnvRefs,
+  provisionManifest,
+  requiredBindings,
+  requiredVars,
+  withResourceNames,
+  type BindingManifest,
+  type ProvisionedResource,
+} from "./bindings";
+import { parseToml, toWorkerName } from "./wranglerToml";
+import { putWorkerSecret } from "../cloudflare/ensureResources";
+import {
+  DATA_ACCESS_PATH,
+  describeCrudRoutes,
+  describeSchema,
+  isSchemaOwnedPath,
+  renderSchemaFiles,
+  validateSchema,
+  type DataSchema,
+} from "./d1Schema";
+import { describeSmokeTests, isSmokeTestPath, renderSmokeTests } from "./smokeTests";
+import { TARGETS, describeTarget, isTargetConfigPath, isTargetId } from "./targets";
+import type { StackRecommendation } from "./stackRecommendation";
+import { describeFeaturesForCodegen, featureCoverage, type Feature, type FeatureCoverage } from "./features";
+import type { PlanStrategy } from "./componentPlan";
+import { formatSandboxReport, runSandbox, type SandboxLoader, type SandboxReport } from "./sandbox";
+import {
+  contactFormHandlerName,
+  contactFormModulePath,
+  describeContactForm,
+  renderContactFormHandler,
+} from "../../worker/utils/templates/contactFormHandler";
+import {
+  ADMIN_BASE_PATH,
+  ADMIN_MODULE_PATH,
+  ADMIN_TOKEN_SECRET,
+  adminSpecFor,
+  describeAdmin,
+  generateAdminToken,
+  renderAdminHandler,
+} from "../../worker/utils/templates/adminHandler";
+import {
+  addUsage,
+  emptyTotals,
+  formatUsd,
+  getBudgetUsd,
+  getModelPrices,
+  getUsageStore,
+  makeUsageRecord,
+  type ModelPrices,
+  type UsageSource,
+  type UsageStore,
+  type UsageTotals,
+} from "./usage";
 
 type BuildPayloadLike = {
   ideaId: string;
   userBrief?: string;
-  features?: string[];
-  stack?: string[];
+  // Feature list edited in chat; plain strings ("Name: description") are still accepted
+  features?: (string | Feature)[];
+  // Stack the user accepted before building (see stackRecommendation.ts)
+  stack?: StackRecommendation;
+  // "components" plans from an MVP spec and component decomposition (see componentPlan.ts)
+  planStrategy?: PlanStrategy;
   // Optional context we forward to the agent
   messages?: { role: "system" | "user" | "assistant"; content?: string }[];
   ideaSummary?: { description?: string };
@@ -44,6 +126,64 @@ function getBatchSize(runtimeEnv?: Record<string, any>): number {
   return Number.isFinite(n) && n > 0 ? n : 5;
 }
 
+// How many independent batches may be generated at once
+function getConcurrency(runtimeEnv?: Record<string, any>): number {
+  const raw = getEnv("CODEGEN_CONCURRENCY", runtimeEnv);
+  const n = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : 2;
+}
+
+// Planner provider settings (see plannerProviders.ts), Worker env first
+function plannerEnv(runtimeEnv?: Record<string, any>): Record<string, string> {
+  const keys = [
+    "PLANNER_PROVIDER",
+    "PLANNER_MODEL",
+    "PLANNER_BASE_URL",
+    "PLANNER_API_KEY",
+    "PLANNER_TIMEOUT_MS",
+    "PLANNER_FIXTURE",
+    "PLANNER_STRATEGY",
+    "CODEGEN_PLANNER_MODEL",
+    "OPENAI_API_KEY",
+    "OPENAI_API_BASE",
+    "AGENT_BASE_URL",
+    "AGENT_API_KEY",
+  ];
+  const out: Record<string, string> = {};
+  for (const k of keys) {
+    const v = getEnv(k, runtimeEnv);
+    if (typeof v === "string" && v.length > 0) out[k] = v;
+  }
+  return out;
+}
+
+function getMaxPlannedFiles(runtimeEnv?: Record<string, any>): number | undefined {
+  const raw = getEnv("PLANNER_MAX_FILES", runtimeEnv);
+  const n = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+// Repair rounds for files that fail verification before the build gives up
+function getRepairAttempts(runtimeEnv?: Record<string, any>): number {
+  const raw = getEnv("CODEGEN_REPAIR_ATTEMPTS", runtimeEnv);
+  const n = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(n) && n >= 0 ? n : 2;
+}
+
+export type SandboxMode = "off" | "run" | "require";
+
+// Pre-publish sandbox: off, run and report, or require a passing run to publish
+function getSandboxMode(requested: SandboxMode | undefined, runtimeEnv?: Record<string, any>): SandboxMode {
+  const raw = requested || getEnv("BUILD_SANDBOX", runtimeEnv);
+  return raw === "run" || raw === "require" ? raw : "off";
+}
+
+function getSandboxTimeoutMs(runtimeEnv?: Record<string, any>): number | undefined {
+  const raw = getEnv("SANDBOX_TIMEOUT_MS", runtimeEnv);
+  const n = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
 function getEnvSubset(runtimeEnv?: Record<string, any>): Record<string, string> {
   const keys = [
     // OpenAI / model selection
@@ -78,103 +218,1024 @@ function getEnvSubset(runtimeEnv?: Record<string, any>): Record<string, string>
 /* ----------------------- types ----------------------- */
 
 export type BuildServiceResult = {
+  buildId: string;
   files: { path: string; content: string }[];
   plan: string;
   repoUrl?: string;
   pagesUrl?: string;
+  // Verification outcome (always ok for a returned build)
+  verification?: VerificationReport;
+  // Repair attempts made on files that failed verification
+  repairs?: RepairAttempt[];
+  // Security scan findings on the published files (fixed ones included)
+  security?: SecurityFinding[];
+  // Which sanitizer rule changed which file, relative to the model output
+  sanitizeReport?: SanitizeChange[];
+  // Token/cost totals for this build and for the idea as a whole
+  usage?: { build: UsageTotals; idea?: UsageTotals; budgetUsd?: number };
+  // Account resources behind the project's bindings (when provisioned)
+  resources?: ProvisionedResource[];
+  // Generated admin token and whether it is set on the Worker (see provisionAdminToken)
+  adminToken?: BuildCheckpoint["adminToken"];
+  // Pre-publish sandbox run (when enabled)
+  sandbox?: SandboxReport;
+  // Feature → file coverage of the output (see features.ts)
+  features?: FeatureCoverage[];
+};
+
+type BuildServicePayload = BuildPayloadLike & {
+  repo?: { token: string; org?: string }; // kept for compat; ignored now
+  skipCommit?: boolean;
+  // Checkpointing: reuse an id to resume, otherwise one is generated
+  buildId?: string;
+  resume?: boolean;
+  // Skip the codegen cache for this build (always generate fresh)
+  bypassCache?: boolean;
+  // Per-idea spend cap in USD (can only lower IDEA_BUDGET_USD)
+  budgetUsd?: number;
+  // Run the Worker in the sandbox before publishing (overrides BUILD_SANDBOX)
+  sandbox?: SandboxMode;
+  // Output target: worker | worker-spa | hono | astro (see targets.ts)
+  target?: string;
+};
+
+export type BuildServiceOptions = {
+  // Receives typed progress events (see buildEvents.ts), e.g. to stream over SSE
+  onEvent?: BuildEventSink;
+};
+
+type BuildContext = {
+  payload: BuildServicePayload;
+  env?: Record<string, any>;
+  checkpoint: BuildCheckpoint;
+  store: CheckpointStore;
+  emit: ReturnType<typeof createEmitter>;
+  phase?: BuildPhase;
+  usage: BuildUsage;
+};
+
+type BuildUsage = {
+  store: UsageStore;
+  prices: ModelPrices;
+  budgetUsd?: number;
+  // Idea spend before this run, and what this run added that isn't stored on the idea yet
+  ideaSpentUsd: number;
+  pending: UsageTotals;
+  idea?: UsageTotals;
 };
 
 /* ----------------------- main ----------------------- */
 
 export async function buildService(
-  payload: BuildPayloadLike & {
-    repo?: { token: string; org?: string }; // kept for compat; ignored now
-    skipCommit?: boolean;
-  },
-  env?: Record<string, any> // <-- accept Worker env
+  payload: BuildServicePayload,
+  env?: Record<string, any>, // <-- accept Worker env
+  opts: BuildServiceOptions = {}
 ): Promise<BuildServiceResult> {
-  const { plan, targetFiles } = await planProjectFiles(payload as any);
+  const store = getCheckpointStore(env);
+  const buildId = payload.buildId || crypto.randomUUID();
+  const emit = createEmitter(buildId, opts.onEvent);
 
-  if (!targetFiles || targetFiles.length === 0) {
-    const minimal = sanitizeGeneratedFiles([], {
-      ideaId: payload.ideaId,
-      env: {
-        CLOUDFLARE_ACCOUNT_ID: getEnv("CLOUDFLARE_ACCOUNT_ID", env),
-        CLOUDFLARE_API_TOKEN: getEnv("CLOUDFLARE_API_TOKEN", env),
-      },
+  let checkpoint: BuildCheckpoint | null = null;
+  if (payload.resume) {
+    checkpoint = await store.load(buildId);
+    if (!checkpoint) {
+      const message = `buildService: no checkpoint found for build ${buildId}`;
+      emit({ type: "error", message });
+      throw new Error(message);
+    }
+  } else {
+    const { repo: _repo, resume: _resume, ...rest } = payload;
+    checkpoint = createCheckpoint(buildId, payload.ideaId, rest);
+  }
+  emit({ type: "build", ideaId: payload.ideaId, resumed: Boolean(payload.resume) });
+
+  const usage = await startUsage(env, payload.ideaId, payload.budgetUsd);
+  const ctx: BuildContext = { payload, env, checkpoint, store, emit, usage };
+  try {
+    // Nothing left to do for a build that already went out
+    const result =
+      checkpoint.status === "published" && checkpoint.sanitized && checkpoint.plan
+        ? {
+            buildId,
+            files: checkpoint.sanitized,
+            plan: checkpoint.plan.plan,
+            repoUrl: checkpoint.repoUrl,
+            verification: checkpoint.verification,
+            repairs: checkpoint.repairs,
+            security: checkpoint.security,
+            sanitizeReport: checkpoint.sanitizeReport,
+            resources: checkpoint.provisioned?.resources,
+            adminToken: checkpoint.adminToken,
+            sandbox: checkpoint.sandbox,
+            features: featureCoverage(checkpoint.plan.features, checkpoint.plan.targetFiles, checkpoint.sanitized),
+          }
+        : await runBuild(ctx);
+
+    result.usage = await flushUsage(ctx);
+    emit({
+      type: "result",
+      plan: result.plan,
+      files: result.files.map((f) => f.path),
+      repoUrl: result.repoUrl,
+      pagesUrl: result.pagesUrl,
+      features: result.features,
+    });
+    return result;
+  } catch (e: any) {
+    checkpoint.status = "failed";
+    checkpoint.error = String(e?.message || e);
+    await store.save(checkpoint).catch(() => {});
+    await flushUsage(ctx);
+    emit({ type: "error", message: checkpoint.error, phase: ctx.phase });
+    throw e;
+  }
+}
+
+function sanitizeOptions(ctx: BuildContext) {
+  const manifest = buildManifest(ctx);
+  return {
+    ideaId: ctx.payload.ideaId,
+    // Selects the archetype's sanitizer rule config
+    archetype: ctx.checkpoint.plan?.archetype,
+    // Config files, package.json entries, [assets] and workflow steps of the output target
+    target: ctx.checkpoint.plan?.target,
+    // wrangler.toml must declare these (KV/D1 merged in once they have ids)
+    bindings: requiredBindings(manifest),
+    vars: requiredVars(manifest),
+    env: {
+      CLOUDFLARE_ACCOUNT_ID: getEnv("CLOUDFLARE_ACCOUNT_ID", ctx.env),
+      CLOUDFLARE_API_TOKEN: getEnv("CLOUDFLARE_API_TOKEN", ctx.env),
+      SECURITY_SCRIPT_HOSTS: getEnv("SECURITY_SCRIPT_HOSTS", ctx.env),
+      SANITIZER_RULES_JSON: getEnv("SANITIZER_RULES_JSON", ctx.env),
+    },
+  };
+}
+
+/* ----------------------- bindings ----------------------- */
+
+function projectName(ctx: BuildContext): string {
+  return toWorkerName(`mvp-${ctx.payload.ideaId || "app"}`);
+}
+
+/** The plan's manifest with resource names, and ids once provisioned. */
+function buildManifest(ctx: BuildContext): BindingManifest {
+  const { checkpoint } = ctx;
+  return checkpoint.provisioned?.manifest || withResourceNames(checkpoint.plan?.manifest || {}, projectName(ctx));
+}
+
+/**
+ * Find-or-create the account resources behind the plan's bindings so
+ * wrangler.toml can carry real ids. Needs Cloudflare credentials; skipped
+ * for preview builds (skipCommit) and when PROVISION_BINDINGS=off.
+ * Returns true when it (re)provisioned, i.e. wrangler.toml may need the
+ * new ids. Publishing is refused while a binding has none (see
+ * assertBindingsProvisioned).
+ */
+async function provisionBindings(ctx: BuildContext): Promise<boolean> {
+  const { checkpoint, env, emit } = ctx;
+  const manifest = checkpoint.plan?.manifest;
+  const done = checkpoint.provisioned?.resources.every((r) => !r.error);
+  if (done || !manifest || ctx.payload.skipCommit) return false;
+  if (getEnv("PROVISION_BINDINGS", env) === "off") return false;
+  if (!["kv", "d1", "r2", "queues"].some((k) => manifest[k as keyof BindingManifest]?.length)) return false;
+
+  const accountId = getEnv("CLOUDFLARE_ACCOUNT_ID", env) || getEnv("CF_ACCOUNT_ID", env);
+  const token = getEnv("CLOUDFLARE_API_TOKEN", env) || getEnv("CF_API_TOKEN", env);
+  if (!accountId || !token) {
+    emit({
+      type: "warning",
+      code: "bindings:unprovisioned",
+      message: "Cloudflare credentials are not set; KV/D1/R2/queue bindings can't be provisioned and the project won't be published.",
     });
-    return { files: minimal, plan };
+    return false;
   }
 
-  // 2) Batched generation → agent (write-only)
-  const batches = chunkArray(
-    targetFiles.map((t: any) => ({ path: t.path, description: t.description })),
-    getBatchSize(env)
+  // A resume retries only what failed last time (entries with ids are kept)
+  checkpoint.provisioned = await provisionManifest(checkpoint.provisioned?.manifest || manifest, {
+    projectName: projectName(ctx),
+    accountId,
+    token,
+  });
+  emit({
+    type: "provision",
+    resources: checkpoint.provisioned.resources,
+    secrets: (manifest.secrets || []).map((s) => s.name),
+  });
+  return true;
+}
+
+/**
+ * Refuse to publish a project whose code reads a KV/D1/R2/queue binding
+ * that has no account resource behind it: wrangler.toml would leave it
+ * out (or name a bucket/queue that doesn't exist) and the Worker would
+ * fail at runtime. The error names the bindings and what failed.
+ */
+function assertBindingsProvisioned(ctx: BuildContext) {
+  const { provisioned, plan } = ctx.checkpoint;
+  const manifest = provisioned?.manifest || plan?.manifest || {};
+  const missing = [
+    ...(manifest.kv || []).filter((b) => !b.id),
+    ...(manifest.d1 || []).filter((b) => !b.id),
+    ...(manifest.r2 || []).filter((b) => !provisioned || !b.bucketName),
+    ...(manifest.queues || []).filter((q) => !provisioned || !q.queue),
+  ].map((b) => b.binding);
+  if (missing.length === 0) return;
+
+  const errors = (provisioned?.resources || []).filter((r) => r.error).map((r) => `${r.binding}: ${r.error}`);
+  throw new Error(
+    `Bindings without a provisioned resource: ${missing.join(", ")}; not publishing.` +
+      (errors.length ? `\n- ${errors.join("\n- ")}` : " Set CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN and resume the build.")
   );
+}
 
-  const generated: { path: string; content: string }[] = [];
-  for (const batch of batches) {
-    const already = generated.map((f) => ({ path: f.path, content: f.content }));
-    const out = await generateCodeBatch(batch, {
-      plan,
-      alreadyGenerated: already,
-      env: {
-        ...getEnvSubset(env),
-        AGENT_BASE_URL: getEnv("AGENT_BASE_URL", env), // ✅ ensure agent URL is passed to codegen
-        // AGENT_API_KEY intentionally omitted unless you add it to Worker env
-      },
-      // ✅ pass through context so the agent gets the full brief/thread (no ideaId here)
-      meta: {
-        messages: (payload as any).messages || [],
-        ideaSummary: (payload as any).ideaSummary || undefined,
-        branding: (payload as any).branding || undefined,
-      },
+/**
+ * Generate the project's admin token and set it as a secret on the
+ * Worker, so /admin and the token-protected routes work on first deploy.
+ * Runs once the files are sanitized (the Worker name comes from
+ * wrangler.toml); the token is shown to the founder in the provision
+ * event and returned with the build. Same conditions as provisionBindings.
+ */
+async function provisionAdminToken(ctx: BuildContext) {
+  const { checkpoint, env, emit } = ctx;
+  const manifest = checkpoint.plan?.manifest;
+  if (checkpoint.adminToken?.set || ctx.payload.skipCommit) return;
+  if (!manifest?.secrets?.some((s) => s.name === ADMIN_TOKEN_SECRET)) return;
+  if (getEnv("PROVISION_BINDINGS", env) === "off") return;
+
+  const accountId = getEnv("CLOUDFLARE_ACCOUNT_ID", env) || getEnv("CF_ACCOUNT_ID", env);
+  const token = getEnv("CLOUDFLARE_API_TOKEN", env) || getEnv("CF_API_TOKEN", env);
+  if (!accountId || !token) return;
+
+  const wrangler = checkpoint.sanitized?.find((f) => f.path === "wrangler.toml");
+  const name = wrangler ? parseToml(wrangler.content).data?.name : undefined;
+  const script = typeof name === "string" && name ? name : projectName(ctx);
+  // A retry keeps the token it already showed the founder
+  const adminToken = checkpoint.adminToken?.token || generateAdminToken();
+  try {
+    await putWorkerSecret(script, ADMIN_TOKEN_SECRET, adminToken, accountId, token);
+    checkpoint.adminToken = { secret: ADMIN_TOKEN_SECRET, token: adminToken, set: true };
+  } catch (e: any) {
+    const error = String(e?.message || e);
+    console.warn(`provisionAdminToken: ${script} failed: ${error}`);
+    checkpoint.adminToken = { secret: ADMIN_TOKEN_SECRET, token: adminToken, set: false, error };
+  }
+  emit({
+    type: "provision",
+    resources: checkpoint.provisioned?.resources || [],
+    secrets: manifest.secrets.map((s) => s.name),
+    adminToken: checkpoint.adminToken,
+  });
+}
+
+/** Generated code that reads bindings the manifest never declared. */
+function warnUndeclaredBindings(ctx: BuildContext, files: { path: string; content: string }[]) {
+  const { manifest, target } = ctx.checkpoint.plan || {};
+  if (!manifest) return;
+  // Workers static assets bind ASSETS without a manifest entry
+  const assets = isTargetId(target) && !!TARGETS[target].assets;
+  for (const ref of findUndeclaredEnvRefs(files, manifest)) {
+    if (assets && ref.name === "ASSETS") continue;
+    ctx.emit({
+      type: "warning",
+      code: "bindings:undeclared",
+      message: `${ref.path} reads env.${ref.name}, which the project does not declare; it will be undefined at runtime.`,
     });
-    generated.push(...out);
   }
+}
+
+/* ----------------------- usage & budget ----------------------- */
+
+async function startUsage(
+  env: Record<string, any> | undefined,
+  ideaId: string,
+  budgetOverride?: unknown
+): Promise<BuildUsage> {
+  const store = getUsageStore(env);
+  const idea = await store.loadIdea(ideaId).catch(() => null);
+  return {
+    store,
+    prices: getModelPrices(env),
+    budgetUsd: getBudgetUsd(env, budgetOverride),
+    ideaSpentUsd: idea?.costUsd ?? 0,
+    pending: emptyTotals(),
+    idea: idea || undefined,
+  };
+}
+
+/**
+ * Record one model call on the build (checkpoint) and on this run's
+ * pending idea delta. Calls without reported usage are estimated from
+ * the prompt/completion text.
+ */
+function trackUsage(
+  ctx: BuildContext,
+  source: UsageSource,
+  info: { model?: string; usage?: unknown; prompt?: string; completion?: string }
+) {
+  const rec = makeUsageRecord(
+    source,
+    { model: info.model, usage: info.usage, estimate: { prompt: info.prompt, completion: info.completion } },
+    ctx.usage.prices
+  );
+  addUsage((ctx.checkpoint.usage ||= emptyTotals()), rec);
+  addUsage(ctx.usage.pending, rec);
+}
+
+/**
+ * Stop before the next model call once the idea's spend reaches its budget.
+ * Checked between calls, so one in-flight batch can overshoot a little.
+ */
+function assertBudget(ctx: BuildContext) {
+  const { budgetUsd, ideaSpentUsd, pending } = ctx.usage;
+  if (!budgetUsd) return;
+  const spent = ideaSpentUsd + pending.costUsd;
+  if (spent >= budgetUsd) {
+    throw new Error(
+      `Budget exceeded: this idea has used ${formatUsd(spent)} of its ${formatUsd(budgetUsd)} budget; stopping the build.`
+    );
+  }
+}
+
+/**
+ * Persist build totals, add this run's delta to the idea and report both.
+ * Storage failures never fail the build.
+ */
+async function flushUsage(ctx: BuildContext): Promise<BuildServiceResult["usage"]> {
+  const { usage, checkpoint } = ctx;
+  const build = checkpoint.usage || emptyTotals();
+  try {
+    await usage.store.saveBuild(checkpoint.buildId, build);
+    if (usage.pending.calls > 0) {
+      usage.idea = await usage.store.addToIdea(checkpoint.ideaId, usage.pending);
+      usage.ideaSpentUsd = usage.idea.costUsd;
+      usage.pending = emptyTotals();
+    }
+  } catch (e) {
+    console.warn("usage store write failed:", e);
+  }
+  const out = { build, idea: usage.idea, budgetUsd: usage.budgetUsd };
+  ctx.emit({ type: "usage", ...out });
+  return out;
+}
 
-  // 3) Sanitize for UI **and** for publish (this is the authoritative file set)
-  const sanitized = sanitizeGeneratedFiles(generated, {
-    ideaId: payload.ideaId,
+/**
+ * Options for generateCodeBatch; `scope` labels retry events. Explicit
+ * regeneration passes `useCache = false`: the user wants a new answer.
+ */
+function codegenOptions(
+  ctx: BuildContext,
+  plan: string,
+  context: { path: string; content: string }[],
+  scope: string,
+  useCache = true
+) {
+  const { payload, env } = ctx;
+  return {
+    plan,
+    alreadyGenerated: context,
     env: {
-      CLOUDFLARE_ACCOUNT_ID: getEnv("CLOUDFLARE_ACCOUNT_ID", env),
-      CLOUDFLARE_API_TOKEN: getEnv("CLOUDFLARE_API_TOKEN", env),
+      ...getEnvSubset(env),
+      AGENT_BASE_URL: getEnv("AGENT_BASE_URL", env), // ✅ ensure agent URL is passed to codegen
+      // AGENT_API_KEY intentionally omitted unless you add it to Worker env
+    },
+    // ✅ pass through context so the agent gets the full brief/thread (no ideaId here)
+    meta: {
+      messages: (payload as any).messages || [],
+      ideaSummary: (payload as any).ideaSummary || undefined,
+      branding: (payload as any).branding || undefined,
     },
+    onRetry: (info: { attempt: number; maxAttempts: number; reason: string }) =>
+      ctx.emit({ type: "retry", scope, ...info }),
+    // Per-build opt-out via payload.bypassCache
+    cache: useCache && !payload.bypassCache ? getCodegenCache(env) : undefined,
+    onCache: (info: { hits: string[]; misses: string[] }) => ctx.emit({ type: "cache", ...info }),
+    onUsage: (info: { model?: string; usage?: unknown; prompt: string; completion: string }) =>
+      trackUsage(ctx, "codegen", { ...info, model: info.model || getEnv("CODEGEN_MODEL", env) }),
+  };
+}
+
+/**
+ * The plan text codegen sees: the prose plan plus what the Worker may
+ * rely on, i.e. the declared bindings, the tables behind functions/db.ts
+ * and the handlers already rendered from templates.
+ */
+function codegenBrief(planned: PlannedProject): string {
+  const bindings = describeManifest(planned.manifest || {});
+  const tables = planned.schema ? describeSchema(planned.schema) : [];
+  const routes = planned.schema ? describeCrudRoutes(planned.schema) : [];
+  const form = planned.contactForm;
+  const admin = adminSpecFor(planned);
+  const tests = describeSmokeTests(planned);
+  const target = isTargetId(planned.target) ? describeTarget(TARGETS[planned.target]) : undefined;
+  const features = describeFeaturesForCodegen(planned.features || [], planned.targetFiles);
+  return [
+    planned.plan,
+    ...(target ? [target] : []),
+    ...(features.length ? [`Features to implement (name [priority] in files: what; done when):\n- ${features.join("\n- ")}`] : []),
+    ...(bindings.length ? [`Worker env bindings (use only these): ${bindings.join(", ")}.`] : []),
+    ...(tables.length
+      ? [`D1 tables (import the helpers from ${DATA_ACCESS_PATH}; never write raw schema SQL): ${tables.join("; ")}.`]
+      : []),
+    ...(routes.length
+      ? [
+          `CRUD routes, already implemented (import and dispatch to them from the entry; don't reimplement them): ${routes.join("; ")}. ` +
+            "Pages call token-protected routes with the admin token the founder enters once (kept in localStorage, sent as Authorization: Bearer) and ask again on a 401.",
+        ]
+      : []),
+    ...(form
+      ? [
+          `Form handler, already implemented in ${contactFormModulePath(form)} as ${contactFormHandlerName(form)}(request, env) (dispatch to it from the entry; pages post to it): ${describeContactForm(form)}.`,
+        ]
+      : []),
+    ...(admin
+      ? [
+          `Admin view, already implemented in ${ADMIN_MODULE_PATH} as adminHandler(request, env): dispatch ${ADMIN_BASE_PATH} and ${ADMIN_BASE_PATH}/* to it from the entry before any other route and don't link it from public pages (${describeAdmin(admin)}).`,
+        ]
+      : []),
+    ...(tests ? [tests] : []),
+  ].join("\n\n");
+}
+
+/**
+ * Handler modules rendered from the templates the plan selected
+ * (worker/utils/templates), plus the smoke tests that exercise them.
+ */
+function templateFiles(planned: PlannedProject): { path: string; content: string }[] {
+  const form = planned.contactForm;
+  const admin = adminSpecFor(planned);
+  return [
+    ...(form ? [{ path: contactFormModulePath(form), content: renderContactFormHandler(form) }] : []),
+    ...(admin ? [{ path: ADMIN_MODULE_PATH, content: renderAdminHandler(admin) }] : []),
+    ...renderSmokeTests(planned),
+  ];
+}
+
+/** Rendered rather than generated: the model never writes these paths. */
+function isRenderedPath(planned: PlannedProject, path: string): boolean {
+  return (
+    isSchemaOwnedPath(path, planned.schema) ||
+    isSmokeTestPath(path) ||
+    isTargetConfigPath(planned.target, path) ||
+    (!!planned.contactForm && path === contactFormModulePath(planned.contactForm)) ||
+    (path === ADMIN_MODULE_PATH && !!adminSpecFor(planned))
+  );
+}
+
+/**
+ * Files the repair loop may hand to the model. Rendered handlers, schema
+ * files and the sanitizer's wrangler.toml are deterministic output; a
+ * failure there is a template bug, not something to regenerate.
+ */
+function isRepairable(planned: PlannedProject, path: string): boolean {
+  return path !== "wrangler.toml" && !isRenderedPath(planned, path);
+}
+
+/**
+ * Migrations, functions/db.ts and the local runner for a plan with a
+ * schema (see d1Schema.ts). Earlier migrations in `existing` are kept.
+ */
+function schemaFiles(
+  ctx: BuildContext,
+  schema: DataSchema | undefined,
+  opts: { previous?: DataSchema; existing?: { path: string; content: string }[] } = {}
+): { path: string; content: string }[] {
+  if (!schema) return [];
+  const { files, warnings } = renderSchemaFiles(schema, opts);
+  for (const message of warnings) ctx.emit({ type: "warning", code: "schema:migration", message });
+  return files;
+}
+
+/**
+ * Verify the sanitized file set and run the bounded repair loop on
+ * anything that fails. Every attempt is recorded on the checkpoint.
+ * A project that still fails after the last attempt is never published:
+ * the build fails with the remaining diagnostics instead.
+ */
+async function verifyAndRepair(
+  ctx: BuildContext,
+  planned: PlannedProject
+): Promise<VerificationReport> {
+  const { checkpoint, env } = ctx;
+  const report = verifyGeneratedFiles(checkpoint.sanitized!);
+  if (report.ok) return report;
+
+  const maxAttempts = getRepairAttempts(env);
+  const repairable = report.failingPaths.filter((p) => isRepairable(planned, p));
+  const rendered = report.failingPaths.filter((p) => !isRepairable(planned, p));
+  ctx.emit({
+    type: "warning",
+    code: "verify:repair",
+    message:
+      `${report.failingPaths.length} file(s) failed verification` +
+      (repairable.length ? `; repairing ${repairable.join(", ")}` : "") +
+      (rendered.length ? `; not repairing rendered ${rendered.join(", ")}` : ""),
+  });
+
+  const repaired = await repairFiles(checkpoint.sanitized!, report, {
+    plan: planned.plan,
+    targetFiles: planned.targetFiles,
+    maxAttempts,
+    baseUrl: getEnv("AGENT_BASE_URL", env),
+    meta: codegenOptions(ctx, planned.plan, [], "repair").meta,
+    resanitize: (files) => sanitizeGeneratedFiles(files, sanitizeOptions(ctx)),
+    onUsage: (info) => trackUsage(ctx, "repair", { ...info, model: info.model || getEnv("CODEGEN_MODEL", env) }),
+    beforeRound: () => assertBudget(ctx),
+    isRendered: (path) => !isRepairable(planned, path),
+    onAttempt: (a) => {
+      checkpoint.repairs = [...(checkpoint.repairs || []), a];
+      ctx.emit({
+        type: "retry",
+        scope: `repair:${a.path}`,
+        attempt: a.attempt,
+        maxAttempts,
+        reason: a.ok ? "fixed" : a.error || a.diagnostics.join("; "),
+      });
+    },
+  });
+
+  checkpoint.sanitized = repaired.files;
+  if (!repaired.report.ok) {
+    const lines = repaired.report.diagnostics.slice(0, 10).map(formatDiagnostic);
+    const more = repaired.report.diagnostics.length - lines.length;
+    throw new Error(
+      `Generated project still fails verification after ${maxAttempts} repair attempt(s); not publishing.\n- ` +
+        lines.join("\n- ") +
+        (more > 0 ? `\n…and ${more} more` : "")
+    );
+  }
+  return repaired.report;
+}
+
+/**
+ * Rescan the final file set (repairs may have changed it) and refuse to
+ * publish while any critical finding is open. Findings fixed during
+ * sanitize are kept in the report.
+ */
+function securityGate(ctx: BuildContext) {
+  const { checkpoint, env } = ctx;
+  const files = checkpoint.sanitized!;
+  const paths = new Set(files.map((f) => f.path));
+  const open = scanFiles(files, { scriptHosts: getScriptHosts(getEnv("SECURITY_SCRIPT_HOSTS", env)) });
+  const fixed = (checkpoint.security || []).filter((f) => f.fixed && paths.has(f.path));
+  checkpoint.security = [...fixed, ...open];
+
+  const blocking = open.filter(isBlocking);
+  ctx.emit({ type: "security", findings: checkpoint.security, blocked: blocking.length > 0 });
+  if (blocking.length > 0) {
+    throw new Error(
+      `Security scan found ${blocking.length} critical issue(s); not publishing.\n- ` +
+        blocking.slice(0, 10).map(formatSecurityFinding).join("\n- ")
+    );
+  }
+}
+
+/**
+ * Load the sanitized files into the sandbox and request every planned
+ * route. In "require" mode a failing (or skipped) run stops the build
+ * before anything is published; in "run" mode it is only reported.
+ */
+async function sandboxGate(ctx: BuildContext, planned: PlannedProject, mode: SandboxMode) {
+  const { checkpoint, env } = ctx;
+  const report = await runSandbox(checkpoint.sanitized!, planned, {
+    loader: env?.SANDBOX_LOADER as SandboxLoader | undefined,
+    id: checkpoint.buildId,
+    manifest: buildManifest(ctx),
+    timeoutMs: getSandboxTimeoutMs(env),
+  });
+  checkpoint.sandbox = report;
+  ctx.emit({ type: "sandbox", ...report, required: mode === "require" });
+  if (mode === "require" && !report.ok) {
+    throw new Error(`Sandbox run failed; not publishing: ${formatSandboxReport(report)}`);
+  }
+}
+
+/**
+ * Run one pipeline phase, bracketing it with start/end events.
+ */
+async function inPhase<T>(ctx: BuildContext, phase: BuildPhase, fn: () => Promise<T>): Promise<T> {
+  ctx.phase = phase;
+  ctx.emit({ type: "phase", phase, status: "start" });
+  const started = Date.now();
+  const out = await fn();
+  ctx.emit({ type: "phase", phase, status: "end", durationMs: Date.now() - started });
+  return out;
+}
+
+/**
+ * Commit `files` to the idea's repo through the agent and record the repo
+ * on the checkpoint. `createRepo` is only true for the first publish.
+ */
+async function publishFiles(
+  ctx: BuildContext,
+  files: { path: string; content: string }[],
+  commitMessage: string,
+  createRepo: boolean
+): Promise<string> {
+  const { payload, env, checkpoint, store } = ctx;
+  const repoName = `mvp-${payload.ideaId}`;
+  assertBindingsProvisioned(ctx);
+  try {
+    const baseUrl = getEnv("AGENT_BASE_URL", env);
+    console.log("DEBUG publish -> baseUrl:", baseUrl, "files:", files.length);
+
+    const publish = await callPublishToGitHub(
+      {
+        repoOwner: "LaunchWing",
+        repoName,
+        branch: "main",
+        commitMessage,
+        createRepo,
+        // 👇 ship the sanitized files to the agent, verbatim
+        files,
+      },
+      {
+        baseUrl,
+        apiKey: getEnv("AGENT_API_KEY", env),
+      }
+    );
+
+    console.log("DEBUG publish <- repoUrl:", publish.repoUrl, "sha:", publish.commitSha);
+    checkpoint.status = "published";
+    checkpoint.repoUrl = publish.repoUrl;
+    await store.save(checkpoint);
+    return publish.repoUrl;
+  } catch (e: any) {
+    console.error("ERROR publish-to-github:", e?.message || e);
+    throw e;
+  }
+}
+
+async function runBuild(ctx: BuildContext): Promise<BuildServiceResult> {
+  const { payload, env, checkpoint, store, emit } = ctx;
+  const { buildId } = checkpoint;
+
+  // 1) Plan (reuse the stored plan on resume)
+  const planned = await inPhase(ctx, "plan", async () => {
+    if (!checkpoint.plan) {
+      assertBudget(ctx);
+      checkpoint.plan = await planProjectFiles(payload as any, {
+        maxFiles: getMaxPlannedFiles(env),
+        env: plannerEnv(env),
+        onUsage: (completion, prompt) => {
+          // Recorded fixtures cost nothing
+          if (completion.model === "fixture") return;
+          trackUsage(ctx, "planner", {
+            model: completion.model,
+            usage: completion.usage,
+            prompt,
+            completion: completion.text,
+          });
+        },
+      });
+      checkpoint.status = "planned";
+      await store.save(checkpoint);
+    }
+    return checkpoint.plan;
   });
+  const { plan, targetFiles } = planned;
+  emit({ type: "artifact", kind: "plan", plan, archetype: planned.archetype });
+  for (const message of planned.warnings || []) {
+    emit({ type: "warning", code: "plan:fallback", message });
+  }
+
+  if (!targetFiles || targetFiles.length === 0) {
+    emit({ type: "warning", code: "empty_plan", message: "Planner returned no files; emitting a minimal project." });
+    const minimal = sanitizeGeneratedFiles([], sanitizeOptions(ctx));
+    checkpoint.sanitized = minimal;
+    checkpoint.status = "sanitized";
+    await store.save(checkpoint);
+    return { buildId, files: minimal, plan };
+  }
+
+  // Rendered from the plan's schema and templates, not generated; the Worker is written against them
+  let rendered: { path: string; content: string }[] = [];
+  let generated: { path: string; content: string }[] = [];
+  if (!checkpoint.sanitized) {
+    rendered = [...schemaFiles(ctx, planned.schema), ...templateFiles(planned)];
+    const dataAccess = rendered.filter((f) => f.path === DATA_ACCESS_PATH);
+    const brief = codegenBrief(planned);
+
+    // 2) Dependency-aware generation → agent (write-only); finished batches are skipped
+    generated = await inPhase(ctx, "generate", async () => {
+      const batches = planBatches(targetFiles, getBatchSize(env));
+      let completed = 0;
+
+      checkpoint.status = "generating";
+      return runScheduledBatches(batches, {
+        concurrency: getConcurrency(env),
+        run: async (batch, context) => {
+          const paths = batch.files.map((f) => f.path);
+          const progress = { key: batch.key, paths, total: batches.length };
+
+          const done = checkpoint.batches[batch.key];
+          if (done) {
+            emit({ type: "batch", ...progress, status: "skipped", completed: ++completed });
+            return done;
+          }
+
+          assertBudget(ctx);
+          emit({ type: "batch", ...progress, status: "start", completed });
+          const out = await generateCodeBatch(
+            batch.files,
+            codegenOptions(ctx, brief, [...dataAccess, ...context], batch.key)
+          );
+
+          checkpoint.batches[batch.key] = out;
+          await store.save(checkpoint);
+          emit({ type: "batch", ...progress, status: "done", completed: ++completed });
+          return out;
+        },
+      });
+    });
+  }
+
+  // 3) Sanitize for UI **and** for publish (this is the authoritative file set).
+  // Provisioning runs on every attempt, so a resume retries resources that
+  // failed and rewrites wrangler.toml once they have ids.
+  await inPhase(ctx, "sanitize", async () => {
+    const provisioned = await provisionBindings(ctx);
+    if (checkpoint.sanitized) {
+      if (provisioned) checkpoint.sanitized = sanitizeGeneratedFiles(checkpoint.sanitized, sanitizeOptions(ctx));
+      await provisionAdminToken(ctx);
+      await store.save(checkpoint);
+      return;
+    }
+    const project = rendered.length ? [...generated.filter((f) => !isRenderedPath(planned, f.path)), ...rendered] : generated;
+    const { files, findings, changes } = sanitizeGeneratedFilesDetailed(project, sanitizeOptions(ctx));
+    warnUndeclaredBindings(ctx, files);
+    checkpoint.sanitized = files;
+    checkpoint.security = findings;
+    checkpoint.sanitizeReport = changes;
+    checkpoint.status = "sanitized";
+    emit({ type: "sanitize", changes });
+    await provisionAdminToken(ctx);
+    await store.save(checkpoint);
+  });
+
+  // 3.5) Verify the generated project; failing files go through the repair loop
+  if (!checkpoint.verification) {
+    await inPhase(ctx, "verify", async () => {
+      const report = await verifyAndRepair(ctx, planned);
+      securityGate(ctx);
+      checkpoint.verification = report;
+      checkpoint.status = "verified";
+      await store.save(checkpoint);
+    });
+  }
+
+  // 3.75) Optionally run the Worker before it goes anywhere
+  const sandboxMode = getSandboxMode(payload.sandbox, env);
+  if (sandboxMode !== "off" && !checkpoint.sandbox?.ok) {
+    await inPhase(ctx, "sandbox", async () => {
+      await sandboxGate(ctx, planned, sandboxMode);
+      await store.save(checkpoint);
+    });
+  }
+
+  const sanitized = checkpoint.sanitized;
+  emit({ type: "artifact", kind: "files", paths: sanitized.map((f) => f.path) });
 
   // 4) Publish via agent → GitHub (send sanitized files so agent doesn't re-generate)
   let repoUrl: string | undefined;
   if (!payload.skipCommit) {
-    const repoName = `mvp-${payload.ideaId}`;
-    try {
-      const baseUrl = getEnv("AGENT_BASE_URL", env);
-      console.log("DEBUG publish -> baseUrl:", baseUrl);
-
-      const publish = await callPublishToGitHub(
-        {
-          repoOwner: "LaunchWing",
-          repoName,
-          branch: "main",
-          commitMessage: `chore: initial MVP for ${payload.ideaId}`,
-          createRepo: true,
-          // 👇 ship the sanitized files to the agent, verbatim
-          files: sanitized,
-        },
-        {
-          baseUrl,
-          apiKey: getEnv("AGENT_API_KEY", env),
-        }
+    repoUrl = await inPhase(ctx, "publish", () =>
+      publishFiles(ctx, sanitized, `chore: initial MVP for ${payload.ideaId}`, true)
+    );
+    if (repoUrl) emit({ type: "artifact", kind: "repo", url: repoUrl });
+  }
+
+  return {
+    buildId,
+    files: sanitized,
+    plan,
+    repoUrl,
+    verification: checkpoint.verification,
+    repairs: checkpoint.repairs,
+    security: checkpoint.security,
+    sanitizeReport: checkpoint.sanitizeReport,
+    resources: checkpoint.provisioned?.resources,
+    adminToken: checkpoint.adminToken,
+    sandbox: checkpoint.sandbox,
+    features: featureCoverage(planned.features, targetFiles, sanitized),
+  };
+}
+
+/**
+ * Resume a failed build from its last good checkpoint. The original
+ * payload is stored with the checkpoint, so only the id is required.
+ */
+export async function resumeBuild(
+  buildId: string,
+  env?: Record<string, any>,
+  opts: BuildServiceOptions = {}
+): Promise<BuildServiceResult> {
+  const checkpoint = await getCheckpointStore(env).load(buildId);
+  if (!checkpoint) {
+    throw new Error(`resumeBuild: no checkpoint found for build ${buildId}`);
+  }
+  return buildService(
+    { ...(checkpoint.payload as BuildPayloadLike), ideaId: checkpoint.ideaId, buildId, resume: true },
+    env,
+    opts
+  );
+}
+
+/* ----------------------- incremental regeneration ----------------------- */
+
+export type RegenerateRequest = {
+  buildId: string;
+  // Existing files to regenerate
+  paths?: string[];
+  // New files to add to the project
+  add?: { path: string; description: string }[];
+  // Change request applied to every target (e.g. "make the signup button green")
+  instruction?: string;
+  // New D1 schema; adds the next numbered migration and re-renders functions/db.ts
+  schema?: DataSchema;
+  skipCommit?: boolean;
+  // Per-idea spend cap in USD (can only lower IDEA_BUDGET_USD); defaults to the one the build was started with
+  budgetUsd?: number;
+  // Sandbox mode for this run; defaults to the one the build was started with
+  sandbox?: SandboxMode;
+};
+
+export type RegenerateResult = BuildServiceResult & {
+  // Paths whose sanitized content changed (or were added); only these are committed
+  changed: string[];
+};
+
+/**
+ * Regenerate some files of a finished build, or add new ones, against its
+ * stored plan with the rest of the project as context. The whole set is
+ * re-sanitized and re-verified, then only the diff is committed on top
+ * of the existing repo. The stored checkpoint is only updated on success.
+ */
+export async function regenerateFiles(
+  req: RegenerateRequest,
+  env?: Record<string, any>,
+  opts: BuildServiceOptions = {}
+): Promise<RegenerateResult> {
+  const store = getCheckpointStore(env);
+  const emit = createEmitter(req.buildId, opts.onEvent);
+
+  const checkpoint = await store.load(req.buildId);
+  if (!checkpoint?.plan || !checkpoint.sanitized) {
+    const message = `regenerateFiles: build ${req.buildId} has no generated files to update`;
+    emit({ type: "error", message });
+    throw new Error(message);
+  }
+  emit({ type: "build", ideaId: checkpoint.ideaId, resumed: true });
+
+  const payload: BuildServicePayload = { ...(checkpoint.payload as BuildPayloadLike), ideaId: checkpoint.ideaId };
+  const usage = await startUsage(env, checkpoint.ideaId, req.budgetUsd ?? payload.budgetUsd);
+  const ctx: BuildContext = { payload, env, checkpoint, store, emit, usage };
+
+  try {
+    const before = new Map(checkpoint.sanitized.map((f) => [f.path, f.content]));
+    const planned = checkpoint.plan;
+    const byPath = new Map(planned.targetFiles.map((t) => [t.path, t]));
+
+    const unknown = (req.paths || []).filter((p) => !before.has(p));
+    if (unknown.length > 0) {
+      throw new Error(`regenerateFiles: not in this project: ${unknown.join(", ")}`);
+    }
+    const owned = [...(req.paths || []), ...(req.add || []).map((f) => f.path)].filter((p) =>
+      isRenderedPath({ ...planned, schema: req.schema || planned.schema }, p)
+    );
+    if (owned.length > 0) {
+      throw new Error(
+        `regenerateFiles: ${owned.join(", ")} are rendered from the schema or a template; send a new schema or change the template instead`
       );
+    }
 
-      console.log("DEBUG publish <- repoUrl:", publish.repoUrl, "sha:", publish.commitSha);
-      repoUrl = publish.repoUrl;
-    } catch (e: any) {
-      console.error("ERROR publish-to-github:", e?.message || e);
-      throw e;
+    // New files join the plan; they must pass the same path rules as planned ones
+    const added = (req.add || []).filter((f) => !byPath.has(f.path));
+    const nextPlan: PlannedProject = { ...planned, targetFiles: [...planned.targetFiles, ...added] };
+    if (req.schema) {
+      const problems = validateSchema(req.schema);
+      if (problems.length > 0) throw new Error(`regenerateFiles: invalid schema: ${problems.join("; ")}`);
+      // The database is provisioned with the first build; a schema can't conjure one up later
+      if (!planned.manifest?.d1?.some((d) => d.binding === "DB")) {
+        throw new Error("regenerateFiles: this project has no D1 database (DB binding) for a schema");
+      }
+      nextPlan.schema = req.schema;
     }
-  }
+    const violations = checkPlanRules(nextPlan, { maxFiles: getMaxPlannedFiles(env) }).filter(
+      (v) => v.path && added.some((f) => f.path === v.path)
+    );
+    if (violations.length > 0) {
+      throw new Error(`regenerateFiles: ${violations.map(formatPlanViolation).join("; ")}`);
+    }
+
+    const change = req.instruction ? `\n\nChange request: ${req.instruction}` : "";
+    const targets = [
+      ...(req.paths || []).map((p) => ({
+        path: p,
+        description: (byPath.get(p)?.description || `Existing project file ${p}`) + change,
+      })),
+      ...(req.add || []).map((f) => ({ path: f.path, description: f.description + change })),
+    ];
+    if (targets.length === 0 && !req.schema) {
+      throw new Error("regenerateFiles: nothing to regenerate (pass paths, add and/or schema)");
+    }
+    // Smoke tests follow the new schema and any added public/ files
+    const rendered = [
+      ...(req.schema ? schemaFiles(ctx, req.schema, { previous: planned.schema, existing: checkpoint.sanitized }) : []),
+      ...renderSmokeTests(nextPlan),
+    ];
+    const targetPaths = new Set([...targets.map((t) => t.path), ...rendered.map((f) => f.path)]);
+
+    const generated = await inPhase(ctx, "generate", async () => {
+      if (targets.length === 0) return [];
+      assertBudget(ctx);
+      const context = [
+        ...rendered.filter((f) => f.path === DATA_ACCESS_PATH),
+        ...checkpoint.sanitized!.filter((f) => !targetPaths.has(f.path)),
+      ];
+      const paths = targets.map((t) => t.path);
+      emit({ type: "batch", key: "regenerate", paths, status: "start", completed: 0, total: 1 });
+      const out = await generateCodeBatch(targets, codegenOptions(ctx, codegenBrief(nextPlan), context, "regenerate", false));
+      emit({ type: "batch", key: "regenerate", paths, status: "done", completed: 1, total: 1 });
+      return out;
+    });
 
-  return { files: sanitized, plan, repoUrl };
+    await inPhase(ctx, "sanitize", async () => {
+      const merged = new Map(checkpoint.sanitized!.map((f) => [f.path, f]));
+      for (const f of generated) merged.set(f.path, f);
+      for (const f of rendered) merged.set(f.path, f);
+      const { files, findings, changes } = sanitizeGeneratedFilesDetailed(
+        Array.from(merged.values()),
+        sanitizeOptions(ctx)
+      );
+      warnUndeclaredBindings(ctx, files.filter((f) => targetPaths.has(f.path)));
+      checkpoint.sanitized = files;
+      checkpoint.security = findings;
+      checkpoint.sandbox = undefined;
+      // Only what the sanitizer did to the regenerated files is news
+      checkpoint.sanitizeReport = changes.filter((c) => targetPaths.has(c.path));
+      emit({ type: "sanitize", changes: checkpoint.sanitizeReport });
+    });
+
+    checkpoint.plan = nextPlan;
+    await inPhase(ctx, "verify", async () => {
+      const report = await verifyAndRepair(ctx, nextPlan);
+      securityGate(ctx);
+      checkpoint.verification = report;
+    });
+
+    const sandboxMode = getSandboxMode(req.sandbox ?? payload.sandbox, env);
+    if (sandboxMode !== "off") await inPhase(ctx, "sandbox", () => sandboxGate(ctx, nextPlan, sandboxMode));
+
+    const files = checkpoint.sanitized!;
+    const changed = files.filter((f) => before.get(f.path) !== f.content).map((f) => f.path);
+    emit({ type: "artifact", kind: "files", paths: changed });
+
+    let repoUrl = checkpoint.repoUrl;
+    if (changed.length === 0) {
+      emit({ type: "warning", code: "regenerate:unchanged", message: "Regeneration produced no changes; nothing to commit." });
+      await store.save(checkpoint);
+    } else if (!req.skipCommit) {
+      // Follow-up commit with just the diff; a never-published build gets everything
+      const firstPublish = !checkpoint.repoUrl;
+      repoUrl = await inPhase(ctx, "publish", () =>
+        publishFiles(
+          ctx,
+          firstPublish ? files : files.filter((f) => changed.includes(f.path)),
+          firstPublish
+            ? `chore: initial MVP for ${payload.ideaId}`
+            : `chore: regenerate ${changed.slice(0, 5).join(", ")}${changed.length > 5 ? ", …" : ""}`,
+          firstPublish
+        )
+      );
+      emit({ type: "artifact", kind: "repo", url: repoUrl });
+    } else {
+      await store.save(checkpoint);
+    }
+
+    const usageSummary = await flushUsage(ctx);
+    const features = featureCoverage(nextPlan.features, nextPlan.targetFiles, files);
+    emit({ type: "result", plan: nextPlan.plan, files: changed, repoUrl, features });
+    return {
+      buildId: req.buildId,
+      files,
+      plan: nextPlan.plan,
+      repoUrl,
+      verification: checkpoint.verification,
+      repairs: checkpoint.repairs,
+      security: checkpoint.security,
+      sanitizeReport: checkpoint.sanitizeReport,
+      usage: usageSummary,
+      resources: checkpoint.provisioned?.resources,
+      sandbox: checkpoint.sandbox,
+      features,
+      changed,
+    };
+  } catch (e: any) {
+    // The stored checkpoint still holds the last good file set
+    await flushUsage(ctx);
+    emit({ type: "error", message: String(e?.message || e), phase: ctx.phase });
+    throw e;
+  }
 }
 
 // Keep default export
@@ -182,11 +1243,9 @@ export default buildService;
 
 // 👇 Explicit named export so the bundler can resolve it reliably
 export async function buildAndDeployApp(
-  payload: BuildPayloadLike & {
-    repo?: { token: string; org?: string };
-    skipCommit?: boolean;
-  },
-  env?: Record<string, any>
+  payload: BuildServicePayload,
+  env?: Record<string, any>,
+  opts: BuildServiceOptions = {}
 ): Promise<BuildServiceResult> {
-  return buildService(payload, env);
+  return buildService(payload, env, opts);
 }
\ No newline at end of file
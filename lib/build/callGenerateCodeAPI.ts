@@ -5,7 +5,21 @@ export type FileGenOutput = { path: string; content: string };
 
 type ChatMsg = { role: "system" | "user" | "assistant"; content?: string };
 
+/**
+ * Version of the /generate-batch request contract, sent as
+ * `contract_version`. Version 2 added two optional fields:
+ * - `context_files`: files the targets depend on, sent as read-only context.
+ * - `mode: "fix"`: a target is a broken file to repair. Its current
+ *   content is the `context_files` entry with the same path, and its
+ *   description lists the diagnostics to resolve.
+ * An agent that only knows version 1 ignores both and writes the target
+ * from its description alone, without seeing the broken file.
+ */
+export const AGENT_CONTRACT_VERSION = 2;
+
 type GeneratePayload = {
+  contract_version: number;
+
   plan: string;
 
   // Primary key the agent expects
@@ -17,6 +31,13 @@ type GeneratePayload = {
   messages?: ChatMsg[];
   ideaSummary?: { description?: string; [k: string]: unknown };
 
+  // Files already generated that the targets depend on
+  context_files?: FileGenOutput[];
+
+  // "fix" asks the agent to repair the target using the context files
+  // (which include the broken version) instead of writing from scratch
+  mode?: "generate" | "fix";
+
   // Optional extras (send both snake & camel for compatibility)
   idea_id?: string;
   ideaId?: string;
@@ -74,13 +95,17 @@ export async function callGenerateCodeAPI(
     ideaSummary?: { description?: string; [k: string]: unknown };
     ideaId?: string;
     branding?: Record<string, unknown>;
+    contextFiles?: FileGenOutput[];
+    mode?: "generate" | "fix";
   },
   opts: {
     baseUrl?: string;
-    includeContextFiles?: boolean; // reserved
+    includeContextFiles?: boolean; // send data.contextFiles as context_files
     expectContent?: boolean;       // reserved
     timeoutMs?: number;
     apiKey?: string;
+    // Reported once per successful call; `usage` is whatever the agent sent back
+    onUsage?: (info: { model?: string; usage?: unknown; prompt: string; completion: string }) => void;
   } = {}
 ): Promise<FileGenOutput[]> {
   if (!data.targetFiles || data.targetFiles.length === 0) {
@@ -90,6 +115,7 @@ export async function callGenerateCodeAPI(
   const urls = withBase(opts.baseUrl);
 
   const payload: GeneratePayload = {
+    contract_version: AGENT_CONTRACT_VERSION,
     plan: data.plan,
     target_files: data.targetFiles, // ✅ agent’s key
     targetFiles: data.targetFiles,  // ✅ back-compat
@@ -99,6 +125,10 @@ export async function callGenerateCodeAPI(
     ideaId: data.ideaId,
     branding: data.branding,
   };
+  if (data.mode) payload.mode = data.mode;
+  if (opts.includeContextFiles && data.contextFiles?.length) {
+    payload.context_files = data.contextFiles;
+  }
 
   try {
     const first = data.targetFiles.slice(0, 3).map((f) => f.path).join(", ");
@@ -108,8 +138,11 @@ export async function callGenerateCodeAPI(
     );
   } catch {}
 
-  const attempt = async () =>
-    postJSON<FileGenOutput[]>(
+  // The agent answers with the file array, or { files, usage, model } when it reports usage
+  type AgentResponse = FileGenOutput[] | { files: FileGenOutput[]; usage?: unknown; model?: string };
+
+  const attempt = async (): Promise<FileGenOutput[]> => {
+    const res = await postJSON<AgentResponse>(
       urls.generateBatch,
       payload,
       {
@@ -117,6 +150,15 @@ export async function callGenerateCodeAPI(
         headers: opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : undefined,
       }
     );
+    const files = Array.isArray(res) ? res : res?.files || [];
+    opts.onUsage?.({
+      model: Array.isArray(res) ? undefined : res?.model,
+      usage: Array.isArray(res) ? undefined : res?.usage,
+      prompt: JSON.stringify(payload),
+      completion: files.map((f) => f.content || "").join("\n"),
+    });
+    return files;
+  };
 
   try {
     return await attempt();
@@ -0,0 +1,117 @@
+// lib/build/codegenCache.ts
+
+import type { KvLike } from "./buildCheckpoints";
+
+type FileLike = { path: string; content: string };
+
+/**
+ * Content-addressed cache for generated files. A key is the hash of
+ * everything that determines the output (plan, target, description,
+ * context files, the chat/idea/branding meta the agent sees, model
+ * settings), so a hit is safe to reuse verbatim.
+ */
+export type CodegenCache = {
+  get(key: string): Promise<string | null>;
+  put(key: string, content: string): Promise<void>;
+};
+
+export type CodegenCacheInput = {
+  plan: string;
+  path: string;
+  description: string;
+  context: FileLike[];
+  // Forwarded to the agent with the prompt (messages, ideaSummary, branding)
+  meta?: Record<string, unknown>;
+  // Model knobs that change the output (CODEGEN_MODEL, CODEGEN_TEMP, …)
+  settings: Record<string, string | undefined>;
+};
+
+const KEY_PREFIX = "codegen:";
+const DEFAULT_TTL_SECS = 3 * 24 * 60 * 60;
+const DEFAULT_MAX_BYTES = 512 * 1024; // don't park huge files in KV
+
+// Env keys whose values feed into the cache key
+export const CACHE_SETTING_KEYS = [
+  "CODEGEN_MODEL",
+  "CODEGEN_TEMP",
+  "CODEGEN_MAX_TOKENS",
+  "AGENT_BASE_URL",
+];
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Stable key: context is sorted by path and settings by name, so the
+ * order files happen to arrive in doesn't cause misses.
+ */
+export async function codegenCacheKey(input: CodegenCacheInput): Promise<string> {
+  const context = [...input.context]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map((f) => [f.path, f.content]);
+  const settings = Object.keys(input.settings)
+    .sort()
+    .filter((k) => input.settings[k] !== undefined)
+    .map((k) => [k, input.settings[k]]);
+
+  return sha256Hex(
+    JSON.stringify({
+      v: 2, // bump to invalidate everything after a prompt/format change
+      plan: input.plan,
+      path: input.path,
+      description: input.description,
+      context,
+      meta: input.meta ?? {},
+      settings,
+    })
+  );
+}
+
+export function createKvCodegenCache(
+  kv: KvLike,
+  opts: { ttlSecs?: number; maxBytes?: number } = {}
+): CodegenCache {
+  const ttl = opts.ttlSecs && opts.ttlSecs > 0 ? opts.ttlSecs : DEFAULT_TTL_SECS;
+  const maxBytes = opts.maxBytes && opts.maxBytes > 0 ? opts.maxBytes : DEFAULT_MAX_BYTES;
+  return {
+    async get(key) {
+      try {
+        return await kv.get(KEY_PREFIX + key);
+      } catch (e) {
+        console.warn("codegen cache read failed:", e);
+        return null;
+      }
+    },
+    async put(key, content) {
+      if (!content || new TextEncoder().encode(content).length > maxBytes) return;
+      try {
+        await kv.put(KEY_PREFIX + key, content, { expirationTtl: ttl });
+      } catch (e) {
+        console.warn("codegen cache write failed:", e);
+      }
+    },
+  };
+}
+
+/**
+ * Prefer a dedicated CACHE_KV binding, then BUILD_KV, then KV. No KV (or
+ * CODEGEN_CACHE=off) means no cache.
+ */
+export function getCodegenCache(runtimeEnv?: Record<string, any>): CodegenCache | undefined {
+  if (String(runtimeEnv?.CODEGEN_CACHE ?? "").toLowerCase() === "off") return undefined;
+  const kv: KvLike | undefined = runtimeEnv?.CACHE_KV || runtimeEnv?.BUILD_KV || runtimeEnv?.KV;
+  if (!kv || typeof kv.get !== "function" || typeof kv.put !== "function") return undefined;
+
+  const toInt = (v: unknown) => {
+    const n = parseInt(String(v ?? ""), 10);
+    return Number.isFinite(n) ? n : undefined;
+  };
+  return createKvCodegenCache(kv, {
+    ttlSecs: toInt(runtimeEnv?.CODEGEN_CACHE_TTL_SECS),
+    maxBytes: toInt(runtimeEnv?.CODEGEN_CACHE_MAX_BYTES),
+  });
+}
@@ -0,0 +1,278 @@
+// lib/build/componentPlan.ts
+
+/**
+ * The "components" planning strategy (what /generate used to do on its
+ * own): the model extracts an MVP spec from the chat and decomposes it
+ * into the minimum set of frontend and backend components. The
+ * decomposition is turned into an ordinary file plan: each backend
+ * component becomes a handler module under functions/api/, components
+ * that only manage one kind of record become D1 tables (their routes are
+ * rendered from the schema), and frontend components are folded into the
+ * page script. Everything after planning is the same as for file plans.
+ */
+
+import type { ComponentPlan } from "./contracts";
+import type { PlannedFile } from "./planProjectFiles";
+import type { PlannerMessage } from "./plannerProviders";
+import type { OutputTarget } from "./targets";
+import { CRUD_ROUTES_DIR, describeCrudRoutes, type DataSchema } from "./d1Schema";
+import { describeFeatureList, mapFeaturesToFiles, normalizeFeatures, type Feature } from "./features";
+import { crudHandlerName } from "../../worker/utils/templates/crudHandler";
+import { ADMIN_BASE_PATH, ADMIN_MODULE_PATH } from "../../worker/utils/templates/adminHandler";
+
+export type PlanStrategy = "files" | "components";
+
+type ChatMsg = { role: "system" | "user" | "assistant"; content?: string };
+
+const STRATEGIES: PlanStrategy[] = ["files", "components"];
+const ENTRY = "functions/index.ts";
+// Where frontend components end up, per target (see targets.ts)
+const MAIN_SCRIPT = /^(public\/app\.js|src\/App\.tsx|src\/pages\/index\.astro)$/;
+// Layout and branding are not components
+const DECORATIVE = /logo|color|theme|header|footer/i;
+const MAX_TRANSCRIPT_CHARS = 8000;
+
+export function isPlanStrategy(value: unknown): value is PlanStrategy {
+  return typeof value === "string" && (STRATEGIES as string[]).includes(value);
+}
+
+/** The payload's strategy, else PLANNER_STRATEGY, else "files". */
+export function resolvePlanStrategy(requested: unknown, env?: Record<string, any>): PlanStrategy {
+  if (isPlanStrategy(requested)) return requested;
+  const configured = env?.PLANNER_STRATEGY;
+  if (isPlanStrategy(configured)) return configured;
+  if (configured) console.warn(`Unknown PLANNER_STRATEGY "${configured}"; planning files`);
+  return "files";
+}
+
+/* ------------------------ prompt ------------------------ */
+
+// The spec comes from the whole conversation, newest messages kept when it's long
+function transcript(messages: ChatMsg[] = [], brief: string): string {
+  const text = messages
+    .filter((m) => m.content)
+    .map((m) => `${m.role.toUpperCase()}: ${m.content}`)
+    .join("\n\n");
+  return text ? text.slice(-MAX_TRANSCRIPT_CHARS) : brief;
+}
+
+export function componentPlanMessages(input: {
+  messages?: ChatMsg[];
+  brief: string;
+  // Project type, typical files, bindings and rendered templates, as in the file prompt
+  project: string;
+  features: Feature[];
+  stackLines?: string[];
+  // False when the accepted stack has no D1 database
+  allowTables: boolean;
+}): PlannerMessage[] {
+  const sys = [
+    "You are an expert software architect and startup cofounder. From the chat history, extract a complete MVP spec, then decompose it into the *minimum viable set* of frontend and backend components required to implement it.",
+    "",
+    "Guidelines:",
+    "- If a fact isn't obvious from the chat, infer a reasonable value.",
+    "- Break each meaningful feature into discrete components. If a feature needs both frontend and backend logic, create one of each (e.g. ResumeGeneratorFrontend and ResumeGenerator).",
+    '- Do NOT include abstract UI pieces like "Header", "ColorTheme" or "Logo", or static assets like "logo.svg".',
+    "- Use PascalCase for all component names.",
+    "- Think through the architecture step by step, but output only the final JSON. No markdown, no code fences.",
+  ].join("\n");
+
+  const user = [
+    "Chat history:",
+    transcript(input.messages, input.brief),
+    "",
+    input.project,
+    "",
+    "Return a JSON object with keys:",
+    `{
+  "mvp": {
+    "name": "<product name>",
+    "description": "<2-3 sentences>",
+    "features": [{ "feature": "<name>", "description": "<what it does>" }],
+    "technology": "<stack in a few words>",
+    "userFlow": "<one sentence>",
+    "dataFlow": "<one sentence>"
+  },
+  "backendEndpoints": [{ "path": "/api/resume-generator", "method": "POST", "description": "<what it does>" }],
+  "components": [
+    { "name": "ResumeGenerator", "type": "backend", "description": "<what it does>", "features": ["<feature id>"] },
+    { "name": "ResumeForm", "type": "frontend", "description": "<what it does>", "features": ["<feature id>"] }
+  ]
+}`,
+    "",
+    "A backend component named ResumeGenerator is served at /api/resume-generator by resumeGeneratorHandler(request, env) in functions/api/resume-generator.ts; list its routes in backendEndpoints under that path. Frontend components are built into the project's page and script.",
+    ...(input.allowTables
+      ? [
+          'A backend component that only creates, lists, reads, updates and deletes one kind of record may instead include "crud": { "fields": [{ "name": "title", "type": "text", "required": true }] } (snake_case field names; types text|integer|real|boolean|datetime|json; id, created_at and updated_at are added automatically). It becomes a D1 table whose REST handler is rendered from a template, so use it whenever it fits. That handler needs the ADMIN_TOKEN secret as a Bearer token; add "publicRead": true or "publicCreate": true to crud only when anonymous visitors must read or create those records.',
+        ]
+      : []),
+    "",
+    ...(input.features.length
+      ? [
+          "Features (id [priority]: name — description). Tag every component with the ids of the features it implements in features, and use these as mvp.features:",
+          ...describeFeatureList(input.features).map((l) => `- ${l}`),
+          "",
+        ]
+      : []),
+    ...(input.stackLines?.length
+      ? ["Hard constraints (the user accepted this stack; the components must fit it):", ...input.stackLines.map((l) => `- ${l}`), ""]
+      : []),
+    "Only return valid JSON.",
+  ].join("\n");
+
+  return [
+    { role: "system", content: sys },
+    { role: "user", content: user },
+  ];
+}
+
+/* ------------------------ conversion ------------------------ */
+
+function kebab(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").replace(/([A-Z])([A-Z][a-z])/g, "$1-$2").toLowerCase();
+}
+
+function snake(name: string): string {
+  return kebab(name).replace(/-/g, "_");
+}
+
+// Descriptions are joined into sentences
+function clause(text: string): string {
+  return text.trim().replace(/[.;\s]+$/, "");
+}
+
+function union(a: string[] = [], b: string[] = []): string[] {
+  return [...new Set([...a, ...b])];
+}
+
+/**
+ * Turn a validated decomposition into a file plan for `target`, starting
+ * from the archetype's own files. Features come from the caller when the
+ * chat had a list, otherwise from the spec; features no component was
+ * tagged with are mapped by the same heuristic as deterministic plans.
+ */
+export function componentPlanFiles(
+  spec: ComponentPlan,
+  opts: {
+    base: PlannedFile[];
+    target: OutputTarget;
+    ideaId: string;
+    features: Feature[];
+    allowTables: boolean;
+    baseSchema?: DataSchema;
+    // The archetype's admin view is already routed by its entry
+    adminRouted: boolean;
+  }
+): { plan: string; targetFiles: PlannedFile[]; schema?: DataSchema; features: Feature[] } {
+  const features = opts.features.length
+    ? opts.features
+    : normalizeFeatures(spec.mvp.features.map((f) => ({ name: f.feature, description: f.description })));
+  const known = new Set(features.map((f) => f.id));
+  const tagsOf = (c: { features?: string[] }) => (c.features || []).filter((id) => known.has(id));
+
+  const components = spec.components.filter((c) => !DECORATIVE.test(c.name));
+  const tables = components.filter((c) => c.type === "backend" && c.crud && opts.allowTables);
+  const handlers = components.filter((c) => c.type === "backend" && !tables.includes(c));
+  const frontend = components.filter((c) => c.type === "frontend");
+  const added: DataSchema = {
+    tables: tables.map((c) => ({
+      name: snake(c.name),
+      purpose: c.description,
+      columns: c.crud!.fields.map((f) => ({ ...f, name: f.name, type: f.type })),
+      ...(c.crud!.publicRead ? { publicRead: true } : {}),
+      ...(c.crud!.publicCreate ? { publicCreate: true } : {}),
+    })),
+  };
+  // The archetype's tables stay: its entry already routes them
+  const schema: DataSchema | undefined = tables.length
+    ? {
+        tables: [
+          ...(opts.baseSchema?.tables || []).filter((t) => !added.tables.some((a) => a.name === t.name)),
+          ...added.tables,
+        ],
+      }
+    : undefined;
+
+  const files = opts.base.map((f) => ({ ...f }));
+  const byPath = new Map(files.map((f) => [f.path, f]));
+  const routes: string[] = [];
+  // Endpoints no backend component owns are listed on the entry
+  let unowned = spec.backendEndpoints || [];
+
+  for (const c of handlers) {
+    const name = kebab(c.name);
+    const handler = crudHandlerName({ resource: name });
+    const path = `${CRUD_ROUTES_DIR}/${name}.ts`;
+    const own = unowned.filter((e) => e.path === `/api/${name}` || e.path.startsWith(`/api/${name}/`));
+    unowned = unowned.filter((e) => !own.includes(e));
+    const description =
+      `Export async function ${handler}(request: Request, env): Promise<Response> (no default export, native Worker APIs only, JSON responses): ${clause(c.description)}.` +
+      (own.length ? ` Endpoints: ${own.map((e) => `${e.method.toUpperCase()} ${e.path} — ${e.description}`).join("; ")}.` : "");
+    const existing = byPath.get(path);
+    if (existing) {
+      existing.description = `${existing.description} ${description}`;
+    } else {
+      const file = { path, description, dependsOn: [] as string[] };
+      files.push(file);
+      byPath.set(path, file);
+    }
+    routes.push(`Dispatch /api/${name} and /api/${name}/* to ${handler}(request, env) from ./api/${name}.`);
+  }
+  if (added.tables.length) {
+    routes.push(...describeCrudRoutes(added).map((r) => `Dispatch ${r}; the handler is rendered from the schema.`));
+    if (!opts.adminRouted) {
+      routes.push(
+        `Dispatch ${ADMIN_BASE_PATH} and ${ADMIN_BASE_PATH}/* to adminHandler(request, env) from ${ADMIN_MODULE_PATH} before any other route.`
+      );
+    }
+  }
+  if (unowned.length) {
+    routes.push(`Also serve: ${unowned.map((e) => `${e.method.toUpperCase()} ${e.path} — ${e.description}`).join("; ")}.`);
+  }
+
+  const entry = byPath.get(ENTRY);
+  if (entry && routes.length) {
+    entry.description = `${entry.description} ${routes.join(" ")}`;
+    entry.dependsOn = union(entry.dependsOn, handlers.map((c) => `${CRUD_ROUTES_DIR}/${kebab(c.name)}.ts`));
+  }
+  const page = byPath.get("public/app.js") || byPath.get("public/index.html");
+  if (page && frontend.length) {
+    page.description = `${page.description} Components: ${frontend.map((c) => `${c.name} — ${clause(c.description)}`).join("; ")}.`;
+  } else if (frontend.length) {
+    console.warn(`DEBUG component plan: no page for frontend components ${frontend.map((c) => c.name).join(", ")}`);
+  }
+
+  // Tag after the target reshapes the pages, which drops the old page files
+  let targetFiles = opts.target.files(files, opts.ideaId).map((f) => {
+    const own = handlers.find((c) => f.path === `${CRUD_ROUTES_DIR}/${kebab(c.name)}.ts`);
+    const tags = own
+      ? tagsOf(own)
+      : f.path === ENTRY
+      ? tables.flatMap(tagsOf)
+      : MAIN_SCRIPT.test(f.path)
+      ? frontend.flatMap(tagsOf)
+      : [];
+    return tags.length ? { ...f, features: union(f.features, tags) } : f;
+  });
+  const covered = new Set(targetFiles.flatMap((f) => f.features || []));
+  const untagged = features.filter((f) => !covered.has(f.id));
+  if (untagged.length) {
+    const mapped = mapFeaturesToFiles(untagged, targetFiles);
+    targetFiles = targetFiles.map((f, i) =>
+      mapped[i].features ? { ...f, features: union(f.features, mapped[i].features) } : f
+    );
+  }
+
+  const names = (list: typeof components) => list.map((c) => c.name).join(", ");
+  const plan = [
+    `${spec.mvp.name}: ${clause(spec.mvp.description)}.`,
+    spec.mvp.userFlow ? `User flow: ${clause(spec.mvp.userFlow)}.` : "",
+    handlers.length ? `Backend components: ${names(handlers)}.` : "",
+    tables.length ? `Stored records: ${names(tables)}.` : "",
+    frontend.length ? `Frontend components: ${names(frontend)}.` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return { plan, targetFiles, schema, features };
+}
@@ -2,6 +2,56 @@
 
 import { z } from "zod";
 
+const bindingName = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "binding names must be identifiers");
+const purpose = z.string().optional();
+
+/** Resources the planned Worker reads from `env` (see bindings.ts) */
+export const BindingManifestSchema = z.object({
+  kv: z.array(z.object({ binding: bindingName, purpose })).optional(),
+  d1: z.array(z.object({ binding: bindingName, purpose })).optional(),
+  r2: z.array(z.object({ binding: bindingName, purpose })).optional(),
+  queues: z.array(z.object({ binding: bindingName, purpose, consume: z.boolean().optional() })).optional(),
+  vars: z.array(z.object({ name: bindingName, value: z.string(), purpose })).optional(),
+  secrets: z.array(z.object({ name: bindingName, purpose })).optional(),
+});
+
+const snakeCase = z.string().regex(/^[a-z][a-z0-9_]*$/, "names must be snake_case");
+
+const column = z.object({
+  name: snakeCase,
+  type: z.enum(["text", "integer", "real", "boolean", "datetime", "json"]),
+  required: z.boolean().optional(),
+  unique: z.boolean().optional(),
+  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  references: z.string().optional(),
+});
+
+/** Relational schema for D1-backed projects (see d1Schema.ts) */
+export const DataSchemaSchema = z.object({
+  tables: z.array(
+    z.object({
+      name: snakeCase,
+      purpose: z.string().optional(),
+      columns: z.array(column),
+      indexes: z.array(z.array(z.string())).optional(),
+      // Rendered routes need the admin token except for what these open up
+      publicRead: z.boolean().optional(),
+      publicCreate: z.boolean().optional(),
+    })
+  ),
+});
+
+/** One thing the MVP must do, as agreed in chat (see features.ts) */
+export const FeatureSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "feature ids must be lowercase slugs"),
+  name: z.string().min(1),
+  description: z.string(),
+  priority: z.enum(["must", "should", "could"]),
+  acceptance: z.array(z.string()),
+});
+export type Feature = z.infer<typeof FeatureSchema>;
+export const FeatureListSchema = z.array(FeatureSchema);
+
 /** What the planner must return */
 export const PlannerResultSchema = z.object({
   plan: z.string(),
@@ -9,11 +59,74 @@ export const PlannerResultSchema = z.object({
     z.object({
       path: z.string(),
       description: z.string(),
+      dependsOn: z.array(z.string()).optional(),
+      // Ids of the features this file implements
+      features: z.array(z.string()).optional(),
     })
   ),
+  // Worker entry path; must match `main` in wrangler.toml
+  entry: z.string().optional(),
+  // Bindings beyond the archetype's own
+  bindings: BindingManifestSchema.optional(),
+  // Tables for projects with a D1 database
+  schema: DataSchemaSchema.optional(),
 });
 export type PlannerResult = z.infer<typeof PlannerResultSchema>;
 
+/** What the "components" planning strategy must return (see componentPlan.ts) */
+export const ComponentPlanSchema = z.object({
+  mvp: z.object({
+    name: z.string().min(1),
+    description: z.string().min(1),
+    features: z.array(z.object({ feature: z.string().min(1), description: z.string() })).min(1),
+    technology: z.string().optional(),
+    targetAudience: z.string().optional(),
+    userFlow: z.string().optional(),
+    dataFlow: z.string().optional(),
+  }),
+  backendEndpoints: z.array(z.object({ path: z.string(), method: z.string(), description: z.string() })).optional(),
+  components: z
+    .array(
+      z.object({
+        name: z.string().regex(/^[A-Z][A-Za-z0-9]*$/, "component names must be PascalCase"),
+        type: z.enum(["frontend", "backend"]),
+        description: z.string().min(1),
+        // Backend components that only manage one kind of record become a D1 table
+        crud: z
+          .object({ fields: z.array(column).min(1), publicRead: z.boolean().optional(), publicCreate: z.boolean().optional() })
+          .optional(),
+        // Ids of the features this component implements
+        features: z.array(z.string()).optional(),
+      })
+    )
+    .min(1),
+});
+export type ComponentPlan = z.infer<typeof ComponentPlanSchema>;
+
+const rationale = z.string().min(1);
+
+/** Stack proposed before planning; once accepted, the planner must follow it (see stackRecommendation.ts) */
+export const StackRecommendationSchema = z.object({
+  target: z.object({ id: z.enum(["worker", "worker-spa", "hono", "astro"]), rationale }),
+  // Project type the storage comes from (see archetypes.ts)
+  archetype: z
+    .object({
+      id: z.enum(["static-site", "landing-waitlist", "crud-saas", "api-only", "form-to-email", "kv-dashboard"]),
+      rationale,
+    })
+    .optional(),
+  storage: z.array(
+    z.object({ kind: z.enum(["kv", "d1", "r2", "queue"]), binding: bindingName, purpose: z.string(), rationale })
+  ),
+  auth: z.object({ approach: z.enum(["none", "admin-token", "magic-link", "oauth"]), rationale }),
+  integrations: z.array(
+    z.object({ id: z.string().min(1), label: z.string(), purpose: z.string(), secrets: z.array(bindingName), rationale })
+  ),
+  source: z.enum(["model", "default", "user"]).optional(),
+  accepted: z.boolean().optional(),
+});
+export type StackRecommendation = z.infer<typeof StackRecommendationSchema>;
+
 /** What generateCodeBatch must receive as its second arg */
 export const GenerateBatchOptionsSchema = z.object({
   plan: z.string(),
@@ -0,0 +1,637 @@
+// lib/build/d1Schema.ts
+
+/**
+ * Relational schema for projects backed by D1. The planner declares the
+ * tables; everything derived from them is rendered deterministically here
+ * rather than generated by the model: numbered SQL migrations, a typed
+ * data-access module for the Worker, a REST route per table (from the
+ * CRUD template) and a local migration runner that applies the same
+ * migrations to a SQLite file.
+ */
+
+import { crudHandlerName, crudSpecFromTable, renderCrudHandler } from "../../worker/utils/templates/crudHandler";
+
+export type ColumnType = "text" | "integer" | "real" | "boolean" | "datetime" | "json";
+
+export type ColumnSpec = {
+  name: string; // snake_case
+  type: ColumnType;
+  required?: boolean;
+  unique?: boolean;
+  default?: string | number | boolean;
+  // Table whose `id` this column points at (stored as INTEGER)
+  references?: string;
+};
+
+export type TableSpec = {
+  name: string; // snake_case, plural (e.g. "items")
+  purpose?: string;
+  columns: ColumnSpec[];
+  // Extra (non-unique) indexes, each a list of column names
+  indexes?: string[][];
+  // The rendered route needs the ADMIN_TOKEN secret except for what these open up
+  publicRead?: boolean;
+  publicCreate?: boolean;
+};
+
+export type DataSchema = { tables: TableSpec[] };
+
+type FileRecord = { path: string; content: string };
+
+export const MIGRATIONS_DIR = "migrations";
+export const DATA_ACCESS_PATH = "functions/db.ts";
+export const LOCAL_MIGRATOR_PATH = "scripts/migrate-local.mjs";
+export const CRUD_ROUTES_DIR = "functions/api";
+
+// Every table gets these; the schema must not declare them
+const AUTO_COLUMNS = ["id", "created_at", "updated_at"];
+const IDENT = /^[a-z][a-z0-9_]{0,62}$/;
+
+const SQL_TYPES: Record<ColumnType, string> = {
+  text: "TEXT",
+  integer: "INTEGER",
+  real: "REAL",
+  boolean: "INTEGER", // 0/1
+  datetime: "TEXT", // ISO-8601
+  json: "TEXT",
+};
+
+export function crudRoutePath(table: string): string {
+  return `${CRUD_ROUTES_DIR}/${table}.ts`;
+}
+
+/**
+ * Paths owned by the schema renderer; the model must not plan them.
+ * With a schema, its tables' CRUD routes count too.
+ */
+export function isSchemaOwnedPath(path: string, schema?: DataSchema): boolean {
+  return (
+    path === DATA_ACCESS_PATH ||
+    path === LOCAL_MIGRATOR_PATH ||
+    path === "schema.sql" ||
+    path.startsWith(`${MIGRATIONS_DIR}/`) ||
+    !!schema?.tables.some((t) => crudRoutePath(t.name) === path)
+  );
+}
+
+/* ------------------------ validation ------------------------ */
+
+/** Every problem with a schema (empty when it can be rendered). */
+export function validateSchema(schema: DataSchema): string[] {
+  const problems: string[] = [];
+  const tables = schema?.tables || [];
+  if (tables.length === 0) return ["schema has no tables"];
+
+  const names = new Set<string>();
+  for (const t of tables) {
+    if (!IDENT.test(t.name)) problems.push(`table "${t.name}" must be snake_case`);
+    if (names.has(t.name)) problems.push(`table "${t.name}" is declared twice`);
+    names.add(t.name);
+  }
+
+  for (const t of tables) {
+    if (!t.columns?.length) problems.push(`table "${t.name}" has no columns`);
+    const cols = new Set<string>();
+    for (const c of t.columns || []) {
+      const where = `${t.name}.${c.name}`;
+      if (!IDENT.test(c.name)) problems.push(`column "${where}" must be snake_case`);
+      if (AUTO_COLUMNS.includes(c.name)) problems.push(`column "${where}" is added automatically; remove it`);
+      if (cols.has(c.name)) problems.push(`column "${where}" is declared twice`);
+      cols.add(c.name);
+      if (!SQL_TYPES[c.type]) problems.push(`column "${where}" has unknown type "${c.type}"`);
+      if (c.references && !names.has(c.references)) {
+        problems.push(`column "${where}" references unknown table "${c.references}"`);
+      }
+      if (c.default !== undefined && !defaultMatches(c)) {
+        problems.push(`column "${where}" default ${JSON.stringify(c.default)} does not match type ${c.type}`);
+      }
+    }
+    for (const idx of t.indexes || []) {
+      const unknown = idx.filter((c) => !cols.has(c) && !AUTO_COLUMNS.includes(c));
+      if (unknown.length) problems.push(`index on "${t.name}" uses unknown column(s) ${unknown.join(", ")}`);
+    }
+  }
+  return problems;
+}
+
+function defaultMatches(c: ColumnSpec): boolean {
+  const v = c.default;
+  if (c.type === "boolean") return typeof v === "boolean";
+  if (c.type === "integer" || c.type === "real") return typeof v === "number";
+  return typeof v === "string";
+}
+
+/* ------------------------ SQL ------------------------ */
+
+const q = (ident: string) => `"${ident}"`;
+
+function sqlLiteral(v: string | number | boolean): string {
+  if (typeof v === "boolean") return v ? "1" : "0";
+  if (typeof v === "number") return String(v);
+  return `'${v.replace(/'/g, "''")}'`;
+}
+
+function columnSql(c: ColumnSpec, opts: { alter?: boolean } = {}): string {
+  let sql = `${q(c.name)} ${c.references ? "INTEGER" : SQL_TYPES[c.type]}`;
+  // ALTER TABLE ADD COLUMN can't add NOT NULL without a default, or UNIQUE at all
+  if (c.required && (!opts.alter || c.default !== undefined)) sql += " NOT NULL";
+  if (c.unique && !opts.alter) sql += " UNIQUE";
+  if (c.default !== undefined) sql += ` DEFAULT ${sqlLiteral(c.default)}`;
+  if (c.references) sql += ` REFERENCES ${q(c.references)}(${q("id")}) ON DELETE CASCADE`;
+  return sql;
+}
+
+function indexSql(table: string, columns: string[], unique = false): string {
+  const name = `${unique ? "uq" : "idx"}_${table}_${columns.join("_")}`;
+  return `CREATE ${unique ? "UNIQUE " : ""}INDEX IF NOT EXISTS ${q(name)} ON ${q(table)} (${columns.map(q).join(", ")});`;
+}
+
+// Foreign-key columns are indexed too; that's what joins and cascades look up
+function tableIndexes(t: TableSpec): string[][] {
+  const out = [...(t.indexes || [])];
+  for (const c of t.columns) {
+    if (c.references && !out.some((i) => i.length === 1 && i[0] === c.name)) out.push([c.name]);
+  }
+  return out;
+}
+
+function createTableSql(t: TableSpec): string[] {
+  const lines = [
+    `${q("id")} INTEGER PRIMARY KEY AUTOINCREMENT`,
+    ...t.columns.map((c) => columnSql(c)),
+    `${q("created_at")} TEXT NOT NULL DEFAULT (datetime('now'))`,
+    `${q("updated_at")} TEXT NOT NULL DEFAULT (datetime('now'))`,
+  ];
+  return [
+    `CREATE TABLE IF NOT EXISTS ${q(t.name)} (\n  ${lines.join(",\n  ")}\n);`,
+    ...tableIndexes(t).map((cols) => indexSql(t.name, cols)),
+  ];
+}
+
+/** Referenced tables first, so REFERENCES clauses resolve; cycles keep declaration order. */
+function orderTables(tables: TableSpec[]): TableSpec[] {
+  const out: TableSpec[] = [];
+  const pending = [...tables];
+  while (pending.length) {
+    const i = pending.findIndex((t) =>
+      t.columns.every((c) => !c.references || c.references === t.name || out.some((o) => o.name === c.references))
+    );
+    out.push(...pending.splice(i < 0 ? 0 : i, 1));
+  }
+  return out;
+}
+
+/**
+ * Statements that take a database at `previous` to `next`. Only additive
+ * changes are automatic; dropped tables/columns and type changes come
+ * back as warnings so data is never destroyed by a regenerate.
+ */
+export function diffSchemas(
+  previous: DataSchema | undefined,
+  next: DataSchema
+): { statements: string[]; warnings: string[] } {
+  const statements: string[] = [];
+  const warnings: string[] = [];
+  const before = new Map((previous?.tables || []).map((t) => [t.name, t]));
+
+  for (const t of orderTables(next.tables)) {
+    const old = before.get(t.name);
+    if (!old) {
+      statements.push(...createTableSql(t));
+      continue;
+    }
+    const oldCols = new Map(old.columns.map((c) => [c.name, c]));
+    for (const c of t.columns) {
+      const was = oldCols.get(c.name);
+      if (!was) {
+        statements.push(`ALTER TABLE ${q(t.name)} ADD COLUMN ${columnSql(c, { alter: true })};`);
+        if (c.unique) statements.push(indexSql(t.name, [c.name], true));
+        if (c.required && c.default === undefined) {
+          warnings.push(`${t.name}.${c.name} was added as nullable: existing rows have no value for it`);
+        }
+      } else if (was.type !== c.type || was.references !== c.references) {
+        warnings.push(`${t.name}.${c.name} changed type; existing data was left as it was`);
+      }
+    }
+    for (const c of old.columns) {
+      if (!t.columns.some((n) => n.name === c.name)) {
+        warnings.push(`${t.name}.${c.name} is no longer in the schema; the column was kept`);
+      }
+    }
+    const oldIdx = new Set(tableIndexes(old).map((i) => i.join(",")));
+    for (const idx of tableIndexes(t)) {
+      if (!oldIdx.has(idx.join(","))) statements.push(indexSql(t.name, idx));
+    }
+  }
+  for (const name of before.keys()) {
+    if (!next.tables.some((t) => t.name === name)) {
+      warnings.push(`table ${name} is no longer in the schema; it was kept`);
+    }
+  }
+  return { statements, warnings };
+}
+
+/** Highest migration number among existing paths (0 when there are none). */
+export function lastMigrationNumber(paths: string[]): number {
+  let max = 0;
+  for (const p of paths) {
+    const m = p.match(new RegExp(`^${MIGRATIONS_DIR}/(\\d+)_[^/]*\\.sql$`));
+    if (m) max = Math.max(max, parseInt(m[1], 10));
+  }
+  return max;
+}
+
+/**
+ * The next numbered migration for `schema`: 0001_init.sql for a new
+ * project, 000N_update.sql with the additive diff after that. Returns
+ * no file when nothing changed.
+ */
+export function renderMigration(
+  schema: DataSchema,
+  opts: { previous?: DataSchema; existingPaths?: string[] } = {}
+): { file?: FileRecord; warnings: string[] } {
+  const { statements, warnings } = diffSchemas(opts.previous, schema);
+  if (statements.length === 0) return { warnings };
+
+  const n = lastMigrationNumber(opts.existingPaths || []) + 1;
+  const name = `${String(n).padStart(4, "0")}_${opts.previous ? "update" : "init"}.sql`;
+  const header = [
+    `-- Migration ${String(n).padStart(4, "0")}: generated from the project schema.`,
+    "-- Applied in order by `wrangler d1 migrations apply` and scripts/migrate-local.mjs.",
+  ];
+  return {
+    file: { path: `${MIGRATIONS_DIR}/${name}`, content: `${header.join("\n")}\n\n${statements.join("\n\n")}\n` },
+    warnings,
+  };
+}
+
+/* ------------------------ data access ------------------------ */
+
+function pascal(name: string): string {
+  return name
+    .split("_")
+    .filter(Boolean)
+    .map((w) => w[0].toUpperCase() + w.slice(1))
+    .join("");
+}
+
+function singular(word: string): string {
+  if (/ies$/.test(word)) return word.slice(0, -3) + "y";
+  if (/(ss|us|is)$/.test(word)) return word;
+  if (/(sses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (/s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/** Type and function stem for a table: "order_items" → { one: "OrderItem", many: "OrderItems" } */
+export function entityNames(table: string): { one: string; many: string } {
+  const one = pascal(singular(table));
+  const many = pascal(table);
+  return { one, many: many === one ? `${many}List` : many };
+}
+
+const TS_TYPES: Record<ColumnType, string> = {
+  text: "string",
+  integer: "number",
+  real: "number",
+  boolean: "boolean",
+  datetime: "string",
+  json: "unknown",
+};
+
+function renderEntity(t: TableSpec): string {
+  const { one, many } = entityNames(t.name);
+  const tsType = (c: ColumnSpec) => (c.references ? "number" : TS_TYPES[c.type]);
+  // Required columns with a default may be omitted on create
+  const optionalOnCreate = (c: ColumnSpec) => !c.required || c.default !== undefined;
+  return [
+    `/** ${t.purpose || `Row of the ${t.name} table`} */`,
+    `export interface ${one} {`,
+    `  id: number;`,
+    ...t.columns.map((c) => `  ${c.name}: ${tsType(c)}${c.required ? "" : " | null"};`),
+    `  created_at: string;`,
+    `  updated_at: string;`,
+    `}`,
+    ``,
+    `export interface ${one}Input {`,
+    ...t.columns.map((c) => `  ${c.name}${optionalOnCreate(c) ? "?" : ""}: ${tsType(c)}${c.required ? "" : " | null"};`),
+    `}`,
+    ``,
+    `export function list${many}(db: D1Database, opts: ListOptions<${one}> = {}): Promise<${one}[]> {`,
+    `  return listRows<${one}>(db, "${t.name}", opts);`,
+    `}`,
+    ``,
+    `export function count${many}(db: D1Database, where: Partial<${one}> = {}): Promise<number> {`,
+    `  return countRows(db, "${t.name}", where);`,
+    `}`,
+    ``,
+    `export function get${one}(db: D1Database, id: number): Promise<${one} | null> {`,
+    `  return getRow<${one}>(db, "${t.name}", id);`,
+    `}`,
+    ``,
+    `export function create${one}(db: D1Database, input: ${one}Input): Promise<${one}> {`,
+    `  return insertRow<${one}>(db, "${t.name}", input);`,
+    `}`,
+    ``,
+    `export function update${one}(db: D1Database, id: number, patch: Partial<${one}Input>): Promise<${one} | null> {`,
+    `  return updateRow<${one}>(db, "${t.name}", id, patch);`,
+    `}`,
+    ``,
+    `export function delete${one}(db: D1Database, id: number): Promise<boolean> {`,
+    `  return deleteRow(db, "${t.name}", id);`,
+    `}`,
+  ].join("\n");
+}
+
+// Table-agnostic runtime for the generated module. Plain string concatenation
+// (no template literals) keeps it free of escaping when embedded here.
+const DATA_ACCESS_RUNTIME = `
+type ColumnType = "text" | "integer" | "real" | "boolean" | "datetime" | "json";
+type ColumnMeta = { type: ColumnType; required: boolean; hasDefault: boolean };
+
+export interface ListOptions<T> {
+  limit?: number; // 1-100, default 50
+  offset?: number;
+  orderBy?: keyof T & string;
+  desc?: boolean; // default true (newest first)
+  where?: Partial<T>; // equality filters on known columns
+}
+
+const AUTO_COLUMNS = ["id", "created_at", "updated_at"];
+
+function columnsOf(table: string): Record<string, ColumnMeta> {
+  const cols = TABLES[table];
+  if (!cols) throw new Error("Unknown table: " + table);
+  return cols;
+}
+
+function encode(meta: ColumnMeta | undefined, value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (!meta) return value;
+  if (meta.type === "boolean") return value ? 1 : 0;
+  if (meta.type === "json") return JSON.stringify(value);
+  return value;
+}
+
+function decode<T>(table: string, row: Record<string, unknown> | null): T | null {
+  if (!row) return null;
+  const cols = columnsOf(table);
+  const out: Record<string, unknown> = { ...row };
+  for (const [name, meta] of Object.entries(cols)) {
+    const v = row[name];
+    if (v === null || v === undefined) continue;
+    if (meta.type === "boolean") out[name] = v === 1 || v === true || v === "1";
+    if (meta.type === "json" && typeof v === "string") {
+      try {
+        out[name] = JSON.parse(v);
+      } catch {
+        out[name] = v;
+      }
+    }
+  }
+  return out as T;
+}
+
+function quote(ident: string): string {
+  return '"' + ident + '"';
+}
+
+// Only schema columns are written; anything else in the input is ignored
+function writable(table: string, input: Record<string, unknown>): [string[], unknown[]] {
+  const cols = columnsOf(table);
+  const names = Object.keys(input).filter((k) => k in cols && input[k] !== undefined);
+  return [names, names.map((k) => encode(cols[k], input[k]))];
+}
+
+function filters(table: string, where: Record<string, unknown> = {}): [string, unknown[]] {
+  const cols = columnsOf(table);
+  const names = Object.keys(where).filter((k) => (k in cols || AUTO_COLUMNS.includes(k)) && where[k] !== undefined);
+  if (names.length === 0) return ["", []];
+  return [" WHERE " + names.map((k) => quote(k) + " = ?").join(" AND "), names.map((k) => encode(cols[k], where[k]))];
+}
+
+async function listRows<T>(db: D1Database, table: string, opts: ListOptions<T> = {}): Promise<T[]> {
+  const cols = columnsOf(table);
+  const orderBy = opts.orderBy && (opts.orderBy in cols || AUTO_COLUMNS.includes(opts.orderBy)) ? opts.orderBy : "id";
+  const limit = Math.min(Math.max(Math.floor(Number(opts.limit) || 50), 1), 100);
+  const offset = Math.max(Math.floor(Number(opts.offset) || 0), 0);
+  const [where, params] = filters(table, opts.where as Record<string, unknown>);
+  const sql =
+    "SELECT * FROM " + quote(table) + where +
+    " ORDER BY " + quote(orderBy) + (opts.desc === false ? " ASC" : " DESC") + " LIMIT ? OFFSET ?";
+  const { results } = await db.prepare(sql).bind(...params, limit, offset).all<Record<string, unknown>>();
+  return (results || []).map((r) => decode<T>(table, r) as T);
+}
+
+async function countRows(db: D1Database, table: string, where: Record<string, unknown> = {}): Promise<number> {
+  const [clause, params] = filters(table, where);
+  const row = await db.prepare("SELECT COUNT(*) AS n FROM " + quote(table) + clause).bind(...params).first<{ n: number }>();
+  return row ? Number(row.n) : 0;
+}
+
+async function getRow<T>(db: D1Database, table: string, id: number): Promise<T | null> {
+  const row = await db.prepare("SELECT * FROM " + quote(table) + " WHERE id = ?").bind(id).first<Record<string, unknown>>();
+  return decode<T>(table, row);
+}
+
+async function insertRow<T>(db: D1Database, table: string, input: object): Promise<T> {
+  const cols = columnsOf(table);
+  const values = input as Record<string, unknown>;
+  for (const [name, meta] of Object.entries(cols)) {
+    if (meta.required && !meta.hasDefault && (values[name] === undefined || values[name] === null)) {
+      throw new Error(table + "." + name + " is required");
+    }
+  }
+  const [names, params] = writable(table, values);
+  const sql = names.length
+    ? "INSERT INTO " + quote(table) + " (" + names.map(quote).join(", ") + ") VALUES (" + names.map(() => "?").join(", ") + ") RETURNING *"
+    : "INSERT INTO " + quote(table) + " DEFAULT VALUES RETURNING *";
+  const row = await db.prepare(sql).bind(...params).first<Record<string, unknown>>();
+  return decode<T>(table, row) as T;
+}
+
+async function updateRow<T>(db: D1Database, table: string, id: number, patch: object): Promise<T | null> {
+  const cols = columnsOf(table);
+  const values = patch as Record<string, unknown>;
+  for (const [name, meta] of Object.entries(cols)) {
+    if (meta.required && values[name] === null) throw new Error(table + "." + name + " is required");
+  }
+  const [names, params] = writable(table, values);
+  if (names.length === 0) return getRow<T>(db, table, id);
+  const sql =
+    "UPDATE " + quote(table) + " SET " + names.map((n) => quote(n) + " = ?").join(", ") +
+    ", updated_at = datetime('now') WHERE id = ? RETURNING *";
+  const row = await db.prepare(sql).bind(...params, id).first<Record<string, unknown>>();
+  return decode<T>(table, row);
+}
+
+async function deleteRow(db: D1Database, table: string, id: number): Promise<boolean> {
+  const res = await db.prepare("DELETE FROM " + quote(table) + " WHERE id = ?").bind(id).run();
+  return Number(res.meta?.changes || 0) > 0;
+}
+`;
+
+/** functions/db.ts: row types plus list/count/get/create/update/delete per table. */
+export function renderDataAccessModule(schema: DataSchema): string {
+  const tables = Object.fromEntries(
+    schema.tables.map((t) => [
+      t.name,
+      Object.fromEntries(
+        t.columns.map((c) => [
+          c.name,
+          { type: c.references ? "integer" : c.type, required: !!c.required, hasDefault: c.default !== undefined },
+        ])
+      ),
+    ])
+  );
+  return [
+    `// ${DATA_ACCESS_PATH}`,
+    "//",
+    "// Typed data access for the D1 database (env.DB), generated from the",
+    `// project schema together with ${MIGRATIONS_DIR}/. Change the schema and`,
+    "// regenerate rather than editing this file by hand.",
+    "",
+    "// Minimal D1 surface (matches the Workers runtime binding)",
+    "export interface D1Result<T> {",
+    "  results?: T[];",
+    "  meta?: { changes?: number; last_row_id?: number };",
+    "}",
+    "export interface D1PreparedStatement {",
+    "  bind(...values: unknown[]): D1PreparedStatement;",
+    "  first<T = unknown>(): Promise<T | null>;",
+    "  all<T = unknown>(): Promise<D1Result<T>>;",
+    "  run(): Promise<D1Result<unknown>>;",
+    "}",
+    "export interface D1Database {",
+    "  prepare(query: string): D1PreparedStatement;",
+    "}",
+    "",
+    `const TABLES: Record<string, Record<string, ColumnMeta>> = ${JSON.stringify(tables, null, 2)};`,
+    DATA_ACCESS_RUNTIME,
+    ...schema.tables.map((t) => renderEntity(t) + "\n"),
+  ].join("\n");
+}
+
+/* ------------------------ local runner ------------------------ */
+
+/**
+ * scripts/migrate-local.mjs: applies migrations/*.sql to a SQLite file
+ * and records them in d1_migrations, the table wrangler uses, so the
+ * generated app can be tested without Cloudflare.
+ */
+export function renderLocalMigrator(): string {
+  return `#!/usr/bin/env node
+// ${LOCAL_MIGRATOR_PATH}
+//
+// Apply ${MIGRATIONS_DIR}/*.sql to a local SQLite database in order, recording each one
+// in d1_migrations like \`wrangler d1 migrations apply\` does on Cloudflare.
+//
+// Usage: node ${LOCAL_MIGRATOR_PATH} [path/to/local.sqlite]   (default .data/local.sqlite)
+// Needs Node 22.5+ (node:sqlite) or the better-sqlite3 package.
+
+import { existsSync, mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+async function openDatabase(file) {
+  try {
+    const { DatabaseSync } = await import("node:sqlite");
+    return new DatabaseSync(file);
+  } catch {}
+  try {
+    const { default: Database } = await import("better-sqlite3");
+    return new Database(file);
+  } catch {}
+  console.error("No SQLite driver found: use Node 22.5+ or run \`npm i -D better-sqlite3\`.");
+  process.exit(1);
+}
+
+const file = process.argv[2] || ".data/local.sqlite";
+const dir = "${MIGRATIONS_DIR}";
+if (!existsSync(dir)) {
+  console.log("No ${MIGRATIONS_DIR}/ directory; nothing to apply.");
+  process.exit(0);
+}
+mkdirSync(dirname(file), { recursive: true });
+
+const db = await openDatabase(file);
+db.exec("PRAGMA foreign_keys = ON");
+db.exec(
+  "CREATE TABLE IF NOT EXISTS d1_migrations (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT UNIQUE, applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP)"
+);
+
+const applied = new Set(db.prepare("SELECT name FROM d1_migrations").all().map((r) => r.name));
+const pending = readdirSync(dir)
+  .filter((f) => /^\\d+_.*\\.sql$/.test(f))
+  .sort()
+  .filter((f) => !applied.has(f));
+
+for (const name of pending) {
+  const sql = readFileSync(join(dir, name), "utf8");
+  db.exec("BEGIN");
+  try {
+    db.exec(sql);
+    db.prepare("INSERT INTO d1_migrations (name) VALUES (?)").run(name);
+    db.exec("COMMIT");
+    console.log("applied " + name);
+  } catch (e) {
+    db.exec("ROLLBACK");
+    console.error("failed " + name + ": " + (e && e.message ? e.message : e));
+    process.exit(1);
+  }
+}
+console.log(pending.length ? "Applied " + pending.length + " migration(s) to " + file : file + " is up to date");
+`;
+}
+
+/* ------------------------ project files ------------------------ */
+
+/**
+ * Everything the schema contributes to a project: the next migration,
+ * the data-access module, the CRUD routes and the local runner. `existing` is the current
+ * file set, so earlier migrations are kept and numbering continues.
+ */
+export function renderSchemaFiles(
+  schema: DataSchema,
+  opts: { previous?: DataSchema; existing?: FileRecord[] } = {}
+): { files: FileRecord[]; warnings: string[] } {
+  const existing = opts.existing || [];
+  const { file, warnings } = renderMigration(schema, {
+    previous: opts.previous,
+    existingPaths: existing.map((f) => f.path),
+  });
+  return {
+    files: [
+      ...existing.filter((f) => f.path.startsWith(`${MIGRATIONS_DIR}/`)),
+      ...(file ? [file] : []),
+      { path: DATA_ACCESS_PATH, content: renderDataAccessModule(schema) },
+      ...schema.tables.map((t) => ({ path: crudRoutePath(t.name), content: renderCrudHandler(crudSpecFromTable(t)) })),
+      { path: LOCAL_MIGRATOR_PATH, content: renderLocalMigrator() },
+    ],
+    warnings,
+  };
+}
+
+/** One line per table for planner/codegen prompts. */
+export function describeSchema(schema: DataSchema): string[] {
+  return schema.tables.map((t) => {
+    const { one, many } = entityNames(t.name);
+    const cols = t.columns.map((c) => `${c.name} ${c.references ? `→${c.references}` : c.type}${c.required ? "!" : ""}`);
+    return `${t.name}(${cols.join(", ")}) via list${many}/count${many}/get${one}/create${one}/update${one}/delete${one}`;
+  });
+}
+
+/** Who may call a table's rendered route without the admin token. */
+export function describeAccess(table: TableSpec): string {
+  const open = [table.publicRead && "reads", table.publicCreate && "creates"].filter(Boolean);
+  return open.length
+    ? `${open.join(" and ")} public; everything else needs Authorization: Bearer <ADMIN_TOKEN>`
+    : "every request needs Authorization: Bearer <ADMIN_TOKEN>";
+}
+
+/** One line per rendered CRUD route, for codegen prompts. */
+export function describeCrudRoutes(schema: DataSchema): string[] {
+  return schema.tables.map((t) => {
+    const handler = crudHandlerName({ resource: t.name });
+    return `/api/${t.name} and /api/${t.name}/:id → ${handler}(request, env) from ${crudRoutePath(t.name)} (${describeAccess(t)})`;
+  });
+}
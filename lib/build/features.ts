@@ -0,0 +1,351 @@
+// lib/build/features.ts
+
+/**
+ * Structured feature list for a build: name, description, priority and
+ * acceptance criteria per feature. It is extracted from the conversation,
+ * edited by the user in chat, mapped to the files that implement it by
+ * the planner, and reported back as feature → file coverage once the
+ * build is done, so we can see what was actually built.
+ */
+
+import { FeatureListSchema, type Feature } from "./contracts";
+import type { PlannedFile } from "./planProjectFiles";
+import {
+  getPlannerProvider,
+  type PlannerCompletion,
+  type PlannerMessage,
+  type PlannerProvider,
+} from "./plannerProviders";
+
+export type { Feature };
+export type FeaturePriority = Feature["priority"];
+
+export type FeatureCoverage = {
+  id: string;
+  name: string;
+  priority: FeaturePriority;
+  // Planned files tagged with the feature, and those of them missing from the output
+  files: string[];
+  missing: string[];
+  status: "built" | "partial" | "missing";
+};
+
+type ChatMsg = { role: "system" | "user" | "assistant"; content?: string };
+
+const MAX_FEATURES = 12;
+const PRIORITIES: FeaturePriority[] = ["must", "should", "could"];
+
+/* ------------------------ normalizing ------------------------ */
+
+function slug(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40)
+      .replace(/-+$/, "") || "feature"
+  );
+}
+
+function uniqueId(name: string, taken: Set<string>): string {
+  const base = slug(name);
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+// "Name: description", "Name — description" or just a name
+function splitLine(line: string): { name: string; description: string } {
+  const m = line.match(/^(.{2,60}?)\s*(?::|\s[—–-]\s)\s*(.+)$/);
+  return m ? { name: m[1].trim(), description: m[2].trim() } : { name: line.trim(), description: "" };
+}
+
+function defaultAcceptance(name: string, description: string): string[] {
+  return [description ? `${name}: ${description}` : `${name} works end to end in the deployed app`];
+}
+
+/**
+ * Accept what clients and older payloads send: feature objects (missing
+ * fields filled in) or plain strings ("Name: description", the old
+ * `features: string[]`). Ids are made unique; order is kept.
+ */
+export function normalizeFeatures(value: unknown): Feature[] {
+  if (!Array.isArray(value)) return [];
+  const taken = new Set<string>();
+  const out: Feature[] = [];
+  for (const [i, item] of value.entries()) {
+    const raw: Record<string, any> =
+      typeof item === "string" ? splitLine(item) : item && typeof item === "object" ? item : {};
+    const name = typeof raw.name === "string" ? raw.name.trim() : "";
+    if (!name) continue;
+    const description = typeof raw.description === "string" ? raw.description.trim() : "";
+    const acceptance = Array.isArray(raw.acceptance)
+      ? raw.acceptance.filter((a: unknown): a is string => typeof a === "string" && a.trim().length > 0)
+      : [];
+    out.push({
+      id: uniqueId(typeof raw.id === "string" && raw.id ? raw.id : name, taken),
+      name,
+      description,
+      // Earlier features are the ones the conversation led with
+      priority: PRIORITIES.includes(raw.priority) ? raw.priority : i < 3 ? "must" : i < 6 ? "should" : "could",
+      acceptance: acceptance.length ? acceptance : defaultAcceptance(name, description),
+    });
+    if (out.length >= MAX_FEATURES) break;
+  }
+  return out;
+}
+
+/* ------------------------ extraction ------------------------ */
+
+const BULLET = /^\s*(?:[-*•]|\d+[.)])\s+(.+)$/;
+const FEATURE_HEADING = /feature|mvp scope|scope|requirement|capabilit|what (?:it|we)(?:'|’)?ll build/i;
+
+/**
+ * Deterministic extraction: bullet lists in the assistant's messages,
+ * newest first, preferring lists under a features/scope heading.
+ */
+export function extractFeaturesFromText(messages: ChatMsg[] = []): Feature[] {
+  const assistant = messages.filter((m) => m.role === "assistant" && m.content).reverse();
+  let fallback: string[] = [];
+  for (const m of assistant) {
+    let underHeading = false;
+    const headed: string[] = [];
+    const any: string[] = [];
+    for (const line of m.content!.split("\n")) {
+      const bullet = line.match(BULLET);
+      if (!bullet) {
+        if (line.trim()) underHeading = FEATURE_HEADING.test(line);
+        continue;
+      }
+      const text = bullet[1].replace(/\*\*|__|`/g, "").trim();
+      if (text.length < 3 || text.endsWith("?")) continue;
+      (underHeading ? headed : any).push(text);
+    }
+    if (headed.length) return normalizeFeatures(headed);
+    if (!fallback.length && any.length >= 2) fallback = any;
+  }
+  return normalizeFeatures(fallback);
+}
+
+function featurePrompt(messages: ChatMsg[], draft: Feature[]): PlannerMessage[] {
+  const transcript = messages
+    .filter((m) => m.content)
+    .slice(-20)
+    .map((m) => `${m.role}: ${m.content!.slice(0, 1200)}`)
+    .join("\n\n");
+  return [
+    {
+      role: "system",
+      content:
+        "You turn a product conversation into the feature list for a small web MVP. Only features the conversation agreed on; at most " +
+        `${MAX_FEATURES}. No markdown, no code fences.`,
+    },
+    {
+      role: "user",
+      content: [
+        "Conversation:",
+        transcript,
+        "",
+        ...(draft.length ? ["Bullets found in it (a starting point):", JSON.stringify(draft), ""] : []),
+        'Return a JSON array of { "id": "<lowercase-slug>", "name": "<2-5 words>", "description": "<one sentence>", "priority": "must" | "should" | "could", "acceptance": ["<observable check>", ...] }.',
+        "must = the MVP is pointless without it. Acceptance criteria are things a person can check in the running app (1-3 each). Only return valid JSON.",
+      ].join("\n"),
+    },
+  ];
+}
+
+/**
+ * Ask the planner provider for the feature list, falling back to the
+ * bullets in the conversation when there is no model or its answer
+ * doesn't validate.
+ */
+export async function extractFeatures(
+  messages: ChatMsg[],
+  opts: {
+    env?: Record<string, any>;
+    provider?: PlannerProvider;
+    onUsage?: (completion: PlannerCompletion) => void;
+  } = {}
+): Promise<Feature[]> {
+  const draft = extractFeaturesFromText(messages);
+  const provider = opts.provider || getPlannerProvider(opts.env);
+  try {
+    const completion = await provider.complete({ messages: featurePrompt(messages, draft), temperature: 0.2, maxTokens: 900 });
+    if (completion) opts.onUsage?.(completion);
+    if (!completion?.text) return draft;
+    const parsed = FeatureListSchema.safeParse(
+      normalizeFeatures(JSON.parse(completion.text.trim().replace(/^```(?:json)?\s*|\s*```$/g, "")))
+    );
+    if (parsed.success && parsed.data.length) return parsed.data;
+    console.warn("DEBUG feature extraction rejected; using the conversation's bullets");
+  } catch (e: any) {
+    console.warn(`DEBUG feature extraction failed: ${String(e?.message || e).slice(0, 200)}`);
+  }
+  return draft;
+}
+
+/* ------------------------ chat ------------------------ */
+
+/** Numbered markdown list for the chat. */
+export function describeFeatures(features: Feature[]): string {
+  if (!features.length) return "No features yet.";
+  return features
+    .map(
+      (f, i) =>
+        `${i + 1}. **${f.name}** (${f.priority}) — ${f.description || "no description"}\n` +
+        f.acceptance.map((a) => `   ✓ ${a}`).join("\n")
+    )
+    .join("\n");
+}
+
+export const FEATURE_EDIT_HELP =
+  'Edit with "/feature add <name>: <description>", "/feature remove <n>", "/feature priority <n> <must|should|could>" ' +
+  'or "/feature accept <n>: <acceptance criterion>".';
+
+/**
+ * Apply one chat edit. Features are referenced by their number in the
+ * list or by id.
+ */
+export function editFeatures(features: Feature[], command: string): { features: Feature[]; error?: string } {
+  const m = command.trim().match(/^(\w+)\s*([\s\S]*)$/);
+  const verb = (m?.[1] || "").toLowerCase();
+  const rest = (m?.[2] || "").trim();
+  const find = (ref: string) => {
+    const n = parseInt(ref, 10);
+    return /^\d+$/.test(ref) ? n - 1 : features.findIndex((f) => f.id === ref.toLowerCase());
+  };
+
+  if (verb === "add") {
+    const { name, description } = splitLine(rest);
+    if (!name) return { features, error: FEATURE_EDIT_HELP };
+    const [added] = normalizeFeatures([{ name, description, priority: "should" }]);
+    const taken = new Set(features.map((f) => f.id));
+    return { features: [...features, { ...added, id: uniqueId(added.id, taken) }] };
+  }
+  if (verb === "remove") {
+    const i = find(rest);
+    if (!features[i]) return { features, error: `No feature "${rest}".` };
+    return { features: features.filter((_, j) => j !== i) };
+  }
+  if (verb === "priority") {
+    const [ref = "", priority = ""] = rest.split(/\s+/);
+    const i = find(ref);
+    if (!features[i]) return { features, error: `No feature "${ref}".` };
+    if (!PRIORITIES.includes(priority.toLowerCase() as FeaturePriority)) return { features, error: FEATURE_EDIT_HELP };
+    return {
+      features: features.map((f, j) => (j === i ? { ...f, priority: priority.toLowerCase() as FeaturePriority } : f)),
+    };
+  }
+  if (verb === "accept") {
+    const parts = rest.match(/^(\S+?)\s*:\s*(.+)$/);
+    const i = parts ? find(parts[1]) : -1;
+    if (!parts || !features[i]) return { features, error: FEATURE_EDIT_HELP };
+    return {
+      features: features.map((f, j) => (j === i ? { ...f, acceptance: [...f.acceptance, parts[2].trim()] } : f)),
+    };
+  }
+  return { features, error: FEATURE_EDIT_HELP };
+}
+
+/* ------------------------ planning ------------------------ */
+
+/** One line per feature for the planner prompt. */
+export function describeFeatureList(features: Feature[]): string[] {
+  return features.map((f) => `${f.id} [${f.priority}]: ${f.name}${f.description ? ` — ${f.description}` : ""}`);
+}
+
+/** Unknown feature ids on files, and must-have features no file implements. */
+export function featureViolations(features: Feature[], files: { path?: string; features?: string[] }[]): string[] {
+  const ids = new Set(features.map((f) => f.id));
+  const problems = files.flatMap((f) =>
+    (f.features || []).filter((id) => !ids.has(id)).map((id) => `targetFiles: ${f.path} lists unknown feature "${id}"`)
+  );
+  const covered = new Set(files.flatMap((f) => f.features || []));
+  const uncovered = features.filter((f) => f.priority === "must" && !covered.has(f.id));
+  if (uncovered.length) {
+    problems.push(`features: no file implements ${uncovered.map((f) => f.id).join(", ")} (must); list them in targetFiles[].features`);
+  }
+  return problems;
+}
+
+const STOPWORDS = new Set(["with", "that", "this", "from", "into", "their", "they", "your", "have", "will", "when", "each", "page", "user", "users"]);
+
+function words(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((w) => w.length >= 4 && !STOPWORDS.has(w))
+  );
+}
+
+// Files that implement behaviour (not config, styles or CI)
+function isCodeFile(path: string): boolean {
+  return /\.(ts|tsx|js|jsx|astro|html)$/.test(path) && !/^\.github\/|(^|\/)[^/]*\.config\.[a-z]+$/.test(path);
+}
+
+/**
+ * Deterministic mapping for plans the model didn't tag: each feature
+ * goes to the code files whose path or description shares the most
+ * words with it, or to the entry and main page when nothing matches.
+ */
+export function mapFeaturesToFiles(features: Feature[], files: PlannedFile[]): PlannedFile[] {
+  const code = files.filter((f) => isCodeFile(f.path));
+  const tags = new Map<string, string[]>();
+  for (const feature of features) {
+    const wanted = words(`${feature.name} ${feature.description}`);
+    const scored = code
+      .map((f) => ({ path: f.path, score: [...words(`${f.path} ${f.description}`)].filter((w) => wanted.has(w)).length }))
+      .filter((s) => s.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 2)
+      .map((s) => s.path);
+    const fallback = [
+      code.find((f) => f.path === "functions/index.ts")?.path,
+      code.find((f) => /^(public\/app\.js|src\/App\.tsx|src\/pages\/index\.astro)$/.test(f.path))?.path,
+    ].filter((p): p is string => !!p);
+    for (const path of scored.length ? scored : fallback) tags.set(path, [...(tags.get(path) || []), feature.id]);
+  }
+  return files.map((f) => (tags.has(f.path) ? { ...f, features: tags.get(f.path) } : f));
+}
+
+/** Lines for the codegen brief: what each feature needs and which files carry it. */
+export function describeFeaturesForCodegen(features: Feature[], files: PlannedFile[]): string[] {
+  return features.map((f) => {
+    const paths = files.filter((p) => p.features?.includes(f.id)).map((p) => p.path);
+    return (
+      `${f.name} [${f.priority}]` +
+      (paths.length ? ` in ${paths.join(", ")}` : "") +
+      `: ${f.description || f.name}. Done when: ${f.acceptance.join("; ")}`
+    );
+  });
+}
+
+/* ------------------------ coverage ------------------------ */
+
+/**
+ * Feature → file coverage of a finished build: the planned files tagged
+ * with each feature, and which of them are missing or empty in the
+ * output.
+ */
+export function featureCoverage(
+  features: Feature[] | undefined,
+  planned: PlannedFile[],
+  output: { path: string; content: string }[]
+): FeatureCoverage[] {
+  const built = new Set(output.filter((f) => f.content.trim().length > 0).map((f) => f.path));
+  return (features || []).map((feature) => {
+    const files = planned.filter((p) => p.features?.includes(feature.id)).map((p) => p.path);
+    const missing = files.filter((p) => !built.has(p));
+    return {
+      id: feature.id,
+      name: feature.name,
+      priority: feature.priority,
+      files,
+      missing,
+      status: files.length === 0 || missing.length === files.length ? "missing" : missing.length ? "partial" : "built",
+    };
+  });
+}
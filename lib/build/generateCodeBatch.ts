@@ -1,6 +1,7 @@
 // lib/build/generateCodeBatch.ts
 
 import { callGenerateCodeAPI } from "./callGenerateCodeAPI";
+import { codegenCacheKey, CACHE_SETTING_KEYS, type CodegenCache } from "./codegenCache";
 
 // Keep the return type local so we don’t depend on callGenerateCodeAPI re-exporting it.
 export type FileGenOutput = { path: string; content: string };
@@ -27,6 +28,14 @@ export async function generateCodeBatch(
       ideaSummary?: any;
       branding?: any;
     };
+    // Called before each retry of a failed chunk
+    onRetry?: (info: { attempt: number; maxAttempts: number; reason: string }) => void;
+    // Content-addressed cache in front of the agent (omit to always generate)
+    cache?: CodegenCache;
+    // Called once per chunk with the paths served from / missing in the cache
+    onCache?: (info: { hits: string[]; misses: string[] }) => void;
+    // Token usage of each agent call (see usage.ts)
+    onUsage?: (info: { model?: string; usage?: unknown; prompt: string; completion: string }) => void;
   }
 ): Promise<FileGenOutput[]> {
   if (!filesToGenerate || filesToGenerate.length === 0) {
@@ -34,6 +43,7 @@ export async function generateCodeBatch(
   }
 
   const { plan } = opts;
+  const contextFiles = opts.alreadyGenerated || [];
 
   // chunk + timeouts/retries
   const chunkSize = Number(opts.env?.CODEGEN_CHUNK_SIZE) || 5;
@@ -47,7 +57,39 @@ export async function generateCodeBatch(
   const chunks = chunkArray(filesToGenerate, Math.max(1, chunkSize));
   const allResults: FileGenOutput[] = [];
 
-  for (const chunk of chunks) {
+  const settings: Record<string, string | undefined> = {};
+  for (const k of CACHE_SETTING_KEYS) settings[k] = opts.env?.[k];
+
+  for (const fullChunk of chunks) {
+    // Serve what we can from the cache; only misses go to the agent
+    const keys = new Map<string, string>();
+    let chunk = fullChunk;
+    if (opts.cache) {
+      const hits: string[] = [];
+      const misses: typeof fullChunk = [];
+      for (const f of fullChunk) {
+        const key = await codegenCacheKey({
+          plan,
+          path: f.path,
+          description: f.description,
+          context: contextFiles,
+          meta: opts.meta,
+          settings,
+        });
+        keys.set(f.path, key);
+        const cached = await opts.cache.get(key);
+        if (cached !== null && cached !== undefined) {
+          allResults.push({ path: f.path, content: cached });
+          hits.push(f.path);
+        } else {
+          misses.push(f);
+        }
+      }
+      opts.onCache?.({ hits, misses: misses.map((f) => f.path) });
+      chunk = misses;
+      if (chunk.length === 0) continue;
+    }
+
     let attempt = 0;
     // simple backoff: 2s, 4s
     const backoff = (n: number) => new Promise((r) => setTimeout(r, 2000 * n));
@@ -63,16 +105,25 @@ export async function generateCodeBatch(
             messages: opts.meta?.messages ?? [],
             ideaSummary: opts.meta?.ideaSummary,
             branding: opts.meta?.branding,
+            // Only the files this batch depends on (the scheduler keeps this small)
+            contextFiles,
             // ⚠️ do NOT send ideaId; the agent payload doesn’t accept it
           },
           {
             baseUrl,
-            includeContextFiles: false, // keep payload lean
+            includeContextFiles: contextFiles.length > 0,
             expectContent: true,
             timeoutMs,
+            onUsage: opts.onUsage,
           }
         );
         allResults.push(...res);
+        if (opts.cache) {
+          for (const f of res) {
+            const key = keys.get(f.path);
+            if (key) await opts.cache.put(key, f.content);
+          }
+        }
         break; // success for this chunk
       } catch (err: any) {
         // Optional: only retry on network-ish failures; here we retry on anything except 4xx
@@ -83,6 +134,7 @@ export async function generateCodeBatch(
         if (!shouldRetry) {
           throw err;
         }
+        opts.onRetry?.({ attempt: attempt + 1, maxAttempts, reason: msg.slice(0, 200) });
         await backoff(attempt); // 2s then 4s
       }
     }
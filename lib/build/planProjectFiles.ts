@@ -1,5 +1,50 @@
 // lib/build/planProjectFiles.ts
 
+import { ComponentPlanSchema, PlannerResultSchema, type PlannerResult } from "./contracts";
+import {
+  checkPlanRules,
+  formatPlanViolation,
+  DEFAULT_MAX_PLANNED_FILES,
+} from "./planRules";
+import {
+  getPlannerProvider,
+  type PlannerCompletion,
+  type PlannerMessage,
+  type PlannerProvider,
+} from "./plannerProviders";
+import {
+  ARCHETYPES,
+  resolveArchetype,
+  type Archetype,
+  type ArchetypeId,
+} from "./archetypes";
+import { describeManifest, mergeManifests, type BindingManifest } from "./bindings";
+import { describeSchema, isSchemaOwnedPath, type DataSchema } from "./d1Schema";
+import { SMOKE_TEST_CONFIG_PATH, SMOKE_TEST_DIR, isSmokeTestPath } from "./smokeTests";
+import { isTargetConfigPath, resolveTarget, targetManifest, type OutputTarget, type TargetId } from "./targets";
+import { stackConstraints, stackViolations, type StackConstraints } from "./stackRecommendation";
+import {
+  describeFeatureList,
+  extractFeaturesFromText,
+  featureViolations,
+  mapFeaturesToFiles,
+  normalizeFeatures,
+  type Feature,
+} from "./features";
+import { componentPlanFiles, componentPlanMessages, resolvePlanStrategy, type PlanStrategy } from "./componentPlan";
+import {
+  contactFormModulePath,
+  contactFormSecrets,
+  describeContactForm,
+  type ContactFormSpec,
+} from "../../worker/utils/templates/contactFormHandler";
+import {
+  ADMIN_BASE_PATH,
+  ADMIN_MODULE_PATH,
+  ADMIN_TOKEN_SECRET,
+  adminSpecFor,
+} from "../../worker/utils/templates/adminHandler";
+
 /**
  * Minimal payload shape we actually use here.
  * (Avoids depending on ../../types exports that may change.)
@@ -10,15 +55,77 @@ type BuildPayload = {
   plan?: string;
   messages?: ChatMsg[];
   ideaSummary?: { description?: string };
+  // User override for the project archetype (see archetypes.ts)
+  archetype?: string;
+  // Output target (see targets.ts); defaults to a plain Worker
+  target?: string;
+  // Stack the user accepted (see stackRecommendation.ts); overrides target, constrains bindings
+  stack?: unknown;
+  // Feature list from the chat (see features.ts); extracted from the messages when absent
+  features?: unknown;
+  // "components" asks the model for an MVP spec and component decomposition (see componentPlan.ts)
+  planStrategy?: string;
+};
+
+export type PlannedFile = {
+  path: string;
+  description: string;
+  // Other planned paths this file needs to see before it can be generated
+  dependsOn?: string[];
+  // Ids of the features (see features.ts) this file implements
+  features?: string[];
 };
 
 export type PlannedProject = {
   plan: string;
-  targetFiles: { path: string; description: string }[];
+  targetFiles: PlannedFile[];
+  // Archetype the plan was built from/for, and every binding the code may use
+  archetype?: ArchetypeId;
+  // Output target the files are planned for (unset on plans from before targets: plain Worker)
+  target?: TargetId;
+  manifest?: BindingManifest;
+  // D1 tables; migrations and functions/db.ts are rendered from this, not generated
+  schema?: DataSchema;
+  // Form handler rendered from the contact form template, not generated
+  contactForm?: ContactFormSpec;
+  // What the build must implement; targetFiles[].features point into it
+  features?: Feature[];
+  // Planner issues worth showing to the user (e.g. a fallback to the default plan)
+  warnings?: string[];
 };
 
 /* ------------------------ helpers ------------------------ */
 
+// Secrets the rendered handlers read, so the manifest (and the deploy notes) list them
+function templateManifest(form: ContactFormSpec | undefined, schema: DataSchema | undefined): BindingManifest | undefined {
+  const secrets = [
+    ...(form ? contactFormSecrets(form).map((name) => ({ name, purpose: `${form.name} form notifications` })) : []),
+    ...(adminSpecFor({ contactForm: form, schema })
+      ? [{ name: ADMIN_TOKEN_SECRET, purpose: `Password for the ${ADMIN_BASE_PATH} page (any long random string)` }]
+      : []),
+  ];
+  return secrets.length ? { secrets } : undefined;
+}
+
+function isTemplatePath(
+  path: string,
+  form: ContactFormSpec | undefined,
+  schema: DataSchema | undefined,
+  target: TargetId
+): boolean {
+  return (
+    isSmokeTestPath(path) ||
+    isTargetConfigPath(target, path) ||
+    (!!form && path === contactFormModulePath(form)) ||
+    (path === ADMIN_MODULE_PATH && !!adminSpecFor({ contactForm: form, schema }))
+  );
+}
+
+// Codegen reads the plan, so the accepted stack's auth and integrations travel with it
+function withStackNotes(plan: string, stack: StackConstraints | undefined): string {
+  return stack ? `${plan}\n\nAccepted stack:\n${stack.lines.map((l) => `- ${l}`).join("\n")}` : plan;
+}
+
 function isProbablyJSON(text: string | undefined | null): boolean {
   if (!text) return false;
   const t = text.trim();
@@ -46,200 +153,336 @@ function extractSimplePlan(payload: BuildPayload): string {
   return "Build a minimal static MVP with an index page and a simple worker that serves assets from KV.";
 }
 
+/* ------------------------ optional LLM planner ------------------------ */
+
+// Either a validated result or the reason we couldn't get one
+// features: the list the component strategy derived when the chat had none
+type ModelPlanOutcome = { result?: PlannerResult; features?: Feature[]; reason?: string };
+
+const MAX_PLANNER_ATTEMPTS = 2; // first try + one corrective re-prompt
+
+type PlanCheckOptions = { maxFiles?: number; stack?: StackConstraints; archetype?: Archetype; features?: Feature[] };
+
+function parseModelJson(text: string): { raw?: any; problems: string[] } {
+  try {
+    return { raw: JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, "")), problems: [] };
+  } catch (e: any) {
+    return { problems: [`Output is not valid JSON: ${String(e?.message || e)}`] };
+  }
+}
+
 /**
- * Baseline file plan we can always generate, even without a model.
- * Keep these descriptions short to reduce token usage downstream.
+ * Parse and validate raw model text. Accepts the legacy `files` key as an
+ * alias for `targetFiles`. Returns the problems to feed back on failure.
  */
-function defaultFilesPlan(): { path: string; description: string }[] {
-  return [
-    {
-      path: "functions/index.ts",
-      description:
-        "Cloudflare Worker: serve /index.html and other static files from KV (ASSETS). Fallback to a plain text message if not found.",
-    },
-    {
-      path: "public/index.html",
-      description:
-        "Minimal HTML page with title, header, and a paragraph. Link /styles.css and /app.js if present.",
-    },
-    {
-      path: "public/styles.css",
-      description:
-        "Tiny CSS with a centered container and basic typography. Nothing heavy.",
-    },
-    {
-      path: "public/app.js",
-      description:
-        "Small script that logs a startup message and wires a minimal click handler if an element with id='cta' exists.",
-    },
-    {
-      path: "wrangler.toml",
-      description:
-        "Wrangler config: name=mvp-<ideaId>, main=functions/index.ts, compatibility_date=2024-11-06, add [site] bucket=./public. The ASSETS KV is handled/injected by build service.",
-    },
-    {
-      path: ".github/workflows/deploy.yml",
-      description:
-        "GitHub Actions workflow that deploys with cloudflare/wrangler-action@v3 using Wrangler v4 `deploy`. Expects CLOUDFLARE_API_TOKEN secret.",
-    },
-    {
-      path: "package.json",
-      description:
-        "Minimal package.json with type=module and a noop build script.",
-    },
-  ];
+function validateModelPlan(text: string, opts: PlanCheckOptions): { result?: PlannerResult; problems: string[] } {
+  let { raw, problems } = parseModelJson(text);
+  if (problems.length) return { problems };
+  if (raw && typeof raw === "object" && !raw.targetFiles && Array.isArray(raw.files)) {
+    raw = { ...raw, targetFiles: raw.files };
+  }
+  return checkModelPlan(raw, opts);
 }
 
-/* ------------------------ optional LLM planner ------------------------ */
-
 /**
- * If OPENAI_API_KEY is set (and the 'openai' package is present),
- * we ask the model to produce a compact list of files. Otherwise, we
- * fall back to a deterministic plan above.
+ * Same checks for the component strategy, after the decomposition has
+ * been turned into files (see componentPlan.ts).
  */
-async function tryModelPlan(
-  payload: BuildPayload
-): Promise<{ plan: string; files: { path: string; description: string }[] } | null> {
-  const apiKey =
-    (globalThis as any)?.process?.env?.OPENAI_API_KEY ||
-    (globalThis as any)?.process?.env?.OPENAI_APIKEY;
-  if (!apiKey) return null;
-
-  // Avoid throwing if 'openai' lib is not installed; keep the import truly dynamic.
-  let OpenAI: any;
-  try {
-    ({ default: OpenAI } = await import("openai"));
-  } catch {
-    return null; // library not available at runtime
+function validateComponentPlan(
+  text: string,
+  opts: PlanCheckOptions & { archetype: Archetype; target: OutputTarget; ideaId: string; allowTables: boolean }
+): { result?: PlannerResult; features?: Feature[]; problems: string[] } {
+  const { raw, problems } = parseModelJson(text);
+  if (problems.length) return { problems };
+  const parsed = ComponentPlanSchema.safeParse(raw);
+  if (parsed.success === false) {
+    return {
+      problems: parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`),
+    };
   }
+  const converted = componentPlanFiles(parsed.data, {
+    base: opts.archetype.files(opts.ideaId),
+    target: opts.target,
+    ideaId: opts.ideaId,
+    features: opts.features || [],
+    allowTables: opts.allowTables,
+    baseSchema: opts.archetype.schema,
+    adminRouted: !!adminSpecFor(opts.archetype),
+  });
+  const checked = checkModelPlan(
+    { plan: converted.plan, targetFiles: converted.targetFiles, entry: "functions/index.ts", schema: converted.schema },
+    { ...opts, features: converted.features }
+  );
+  return { ...checked, features: converted.features };
+}
 
-  try {
-    const client = new OpenAI({ apiKey });
+function checkModelPlan(raw: unknown, opts: PlanCheckOptions): { result?: PlannerResult; problems: string[] } {
+  const parsed = PlannerResultSchema.safeParse(raw);
+  if (parsed.success === false) {
+    return {
+      problems: parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`),
+    };
+  }
 
+  const violations = checkPlanRules(parsed.data, opts);
+  if (violations.length > 0) {
+    return { problems: violations.map(formatPlanViolation) };
+  }
+
+  // An accepted stack is a hard constraint: no storage beyond it
+  if (opts.stack) {
+    const allowed = opts.archetype?.manifest || {};
+    const problems = stackViolations(opts.stack, allowed, parsed.data.bindings as BindingManifest);
+    if (parsed.data.schema && !mergeManifests(allowed, opts.stack.manifest).d1?.length) {
+      problems.push("schema: the accepted stack has no D1 database, so plan no tables");
+    }
+    if (problems.length > 0) return { problems };
+  }
+
+  const featureProblems = opts.features?.length ? featureViolations(opts.features, parsed.data.targetFiles) : [];
+  if (featureProblems.length > 0) return { problems: featureProblems };
+  return { result: parsed.data, problems: [] };
+}
+
+/**
+ * Ask the configured planner provider (see plannerProviders.ts) for a
+ * compact list of files. Output that fails the schema or plan rules gets
+ * one corrective re-prompt; the outcome says why when we end up falling
+ * back to the deterministic plan.
+ */
+async function tryModelPlan(
+  payload: BuildPayload,
+  provider: PlannerProvider,
+  archetype: Archetype,
+  target: OutputTarget,
+  stack: StackConstraints | undefined,
+  features: Feature[],
+  strategy: PlanStrategy,
+  opts: { maxFiles?: number; onUsage?: (completion: PlannerCompletion, prompt: string) => void }
+): Promise<ModelPlanOutcome> {
+  try {
     const brief =
       payload.ideaSummary?.description ||
       extractSimplePlan(payload).slice(0, 1200);
 
+    // The accepted stack's resources are declared for the model, like the archetype's
+    const bindings = describeManifest(targetManifest(target, mergeManifests(archetype.manifest, stack?.manifest)));
+
     const sys =
       "You are a senior software planner. Output a short, explicit plan (3-6 sentences) and a minimal set of concrete files to implement it. Keep descriptions concise (<= 200 chars). No markdown, no code fences. Use Cloudflare Wrangler v4 with the 'deploy' subcommand and Node 20+. For wrangler.toml, use a real ISO date (YYYY-MM-DD) and specifically '2024-11-06' — do NOT use 'today'.";
 
+    const project = [
+      `Project type: ${archetype.label}. Typical files: ${target
+        .files(archetype.files(payload.ideaId || "mvp"), payload.ideaId || "mvp")
+        .map((f) => f.path)
+        .join(", ")}.` +
+        (bindings.length
+          ? ` Bindings: ${bindings.join(", ")}.`
+          : "") +
+        (archetype.schema ? ` Default schema: ${describeSchema(archetype.schema).join("; ")}.` : "") +
+        (archetype.contactForm
+          ? ` Form handler: ${contactFormModulePath(archetype.contactForm)} is rendered from a template (never plan it; the entry only routes to it, pages post to it): ${describeContactForm(archetype.contactForm)}.`
+          : ""),
+        (adminSpecFor(archetype)
+          ? ` Admin view: ${ADMIN_MODULE_PATH} is rendered from a template (never plan it; the entry routes ${ADMIN_BASE_PATH} and ${ADMIN_BASE_PATH}/* to adminHandler first, and public pages never link it).`
+          : ""),
+    ].join("\n");
+
     const user = [
       "Context:",
       brief,
       "",
+      project,
+      "",
       "Return a JSON object with keys:",
       `{
   "plan": "<short prose plan>",
-  "files": [
-    { "path": "functions/index.ts", "description": "<what to implement>"},
+  "entry": "functions/index.ts",
+  "bindings": { "kv": [{ "binding": "EXTRA_KV", "purpose": "<what it stores>" }] },
+  "schema": { "tables": [{ "name": "items", "columns": [{ "name": "title", "type": "text", "required": true }] }] },
+  "targetFiles": [
+    { "path": "functions/index.ts", "description": "<what to implement>", "dependsOn": [], "features": ["<feature id>"] },
+    { "path": "public/app.js", "description": "<what to implement>", "dependsOn": ["functions/index.ts"], "features": ["<feature id>"] },
     ...
   ]
 }`,
       "",
-      "Only return valid JSON. Prefer Cloudflare Worker (functions/index.ts) + public assets.",
+      "schema is only for projects with a D1 database: adapt the tables to the idea's entities (snake_case plural table names; column types text|integer|real|boolean|datetime|json; required/unique/default/references as needed; id, created_at and updated_at are added automatically). Migrations, functions/db.ts (typed list/get/create/update/delete helpers) and a REST handler per table at functions/api/<table>.ts (list with ?limit&offset, get, create, update, delete, validated) are generated from it, so never plan schema.sql, migrations/, functions/db.ts or those handlers yourself; the entry only routes /api/<table> to them. Those routes need the ADMIN_TOKEN secret as a Bearer token; set publicRead or publicCreate on a table only when anonymous visitors must list/read or create its records (e.g. a public guestbook). Updates and deletes always need the token.",
+      "",
+      `Smoke tests (${SMOKE_TEST_CONFIG_PATH} and ${SMOKE_TEST_DIR}/) are rendered by the build and run before every deploy; never plan them. Put static assets under public/ so the tests can find them.`,
+      "",
+      "bindings is optional: declare only resources beyond the project type's bindings that the Worker really uses (kv, d1, r2, queues with an optional consume flag, vars with a value, secrets by name only). The code may only read names declared there from env.",
+      "",
+      "dependsOn lists other planned paths a file must be consistent with (e.g. frontend scripts depend on the Worker that defines the API routes they call). Leave it empty when a file stands alone.",
+      "",
+      `Rules: paths are relative to the repo root (no leading "/", no ".." segments), each path appears once, the Worker entry is one of the planned files, wrangler.toml's main points at that entry, and there are at most ${opts.maxFiles || DEFAULT_MAX_PLANNED_FILES} files.`,
+      "",
+      ...(features.length
+        ? [
+            "Features (id [priority]: name — description). Tag every file with the ids of the features it implements in features; each must feature needs at least one planned file (tag the entry for routes served by rendered handlers):",
+            ...describeFeatureList(features).map((l) => `- ${l}`),
+            "",
+          ]
+        : []),
+      ...(stack
+        ? ["Hard constraints (the user accepted this stack; the plan must follow it):", ...stack.lines.map((l) => `- ${l}`), ""]
+        : []),
+      `Only return valid JSON. ${target.instructions}`,
     ].join("\n");
 
-    // Use Responses API if present; otherwise, fallback to Chat Completions signature
-    let text: string | undefined;
-
-    if (client.responses?.create) {
-      const r = await client.responses.create({
-        model:
-          (globalThis as any)?.process?.env?.CODEGEN_PLANNER_MODEL ||
-          "gpt-4o-mini",
-        temperature: 0.2,
-        max_output_tokens: 800,
-        input: [
-          { role: "system", content: sys },
-          { role: "user", content: user },
-        ],
-      });
-      text = r.output_text;
-    } else {
-      const r = await client.chat.completions.create({
-        model:
-          (globalThis as any)?.process?.env?.CODEGEN_PLANNER_MODEL ||
-          "gpt-4o-mini",
-        temperature: 0.2,
-        max_tokens: 800,
-        messages: [
-          { role: "system", content: sys },
-          { role: "user", content: user },
-        ],
-      });
-      text = r.choices?.[0]?.message?.content;
-    }
+    // Tables need a D1 database, which an accepted stack may rule out
+    const allowTables = !stack || !!mergeManifests(archetype.manifest, stack.manifest).d1?.length;
+    const messages: PlannerMessage[] =
+      strategy === "components"
+        ? componentPlanMessages({ messages: payload.messages, brief, project, features, stackLines: stack?.lines, allowTables })
+        : [
+            { role: "system", content: sys },
+            { role: "user", content: user },
+          ];
 
-    if (!text) return null;
-
-    // Parse strict JSON; if it fails, ignore and fallback.
-    const parsed = JSON.parse(text);
-    if (
-      typeof parsed !== "object" ||
-      !parsed ||
-      !Array.isArray(parsed.files) ||
-      typeof parsed.plan !== "string"
-    ) {
-      return null;
-    }
+    let problems: string[] = [];
+    for (let attempt = 1; attempt <= MAX_PLANNER_ATTEMPTS; attempt++) {
+      const completion = await provider.complete({ messages, temperature: 0.2, maxTokens: 800 });
+      const text = completion?.text;
+      if (completion) opts.onUsage?.(completion, messages.map((m) => m.content).join("\n"));
+      if (!text) {
+        return {
+          reason:
+            provider.name === "offline"
+              ? "no planner model is configured"
+              : `the ${provider.name} planner returned no output`,
+        };
+      }
 
-    // Normalize shape
-    const files = parsed.files
-      .filter(
-        (f: any) =>
-          f && typeof f.path === "string" && typeof f.description === "string"
-      )
-      .map((f: any) => ({
-        path: String(f.path),
-        description: String(f.description),
-      }));
+      const checked: { result?: PlannerResult; features?: Feature[]; problems: string[] } =
+        strategy === "components"
+          ? validateComponentPlan(text, {
+              maxFiles: opts.maxFiles,
+              stack,
+              archetype,
+              features,
+              target,
+              ideaId: payload.ideaId || "mvp",
+              allowTables,
+            })
+          : validateModelPlan(text, { maxFiles: opts.maxFiles, stack, archetype, features });
+      if (checked.result) return { result: checked.result, features: checked.features };
 
-    if (files.length === 0) return null;
+      problems = checked.problems;
+      console.warn(`DEBUG planner attempt ${attempt} rejected:`, problems);
 
-    return {
-      plan: String(parsed.plan),
-      files,
-    };
-  } catch {
-    // Any model/parse issue -> fallback
-    return null;
+      // Corrective re-prompt: show the model its own output and what was wrong
+      messages.push(
+        { role: "assistant", content: text },
+        {
+          role: "user",
+          content:
+            "That plan was rejected:\n- " +
+            problems.join("\n- ") +
+            "\nReturn the corrected JSON object only.",
+        }
+      );
+    }
+    return { reason: `planner output was rejected (${problems.slice(0, 3).join("; ")})` };
+  } catch (e: any) {
+    // Any model/transport issue -> fallback
+    return { reason: `the planner call failed (${String(e?.message || e).slice(0, 200)})` };
   }
 }
 
 /* ------------------------ main API ------------------------ */
 
 export async function planProjectFiles(
-  payload: BuildPayload
+  payload: BuildPayload,
+  opts: {
+    maxFiles?: number;
+    // Worker env; selects the planner provider unless one is passed in
+    env?: Record<string, any>;
+    provider?: PlannerProvider;
+    // Called after each planner call with the raw completion and prompt text
+    onUsage?: (completion: PlannerCompletion, prompt: string) => void;
+  } = {}
 ): Promise<PlannedProject> {
-  // Try the model-driven plan first (only if OPENAI_API_KEY + openai lib exist)
-  const modelPlan = await tryModelPlan(payload);
-  if (modelPlan) {
+  // Try the model-driven plan first (offline provider → deterministic plan)
+  const provider = opts.provider || getPlannerProvider(opts.env);
+  console.log(`DEBUG planner provider: ${provider.name}`);
+  // An accepted stack picks the target, and the project type unless the user pinned one
+  const stack = stackConstraints(payload.stack);
+  const choice = resolveArchetype({ ...payload, archetype: payload.archetype || stack?.archetype });
+  const archetype = ARCHETYPES[choice.id];
+  console.log(
+    `DEBUG archetype: ${choice.id} (${choice.source}${choice.matched.length ? `: ${choice.matched.join(", ")}` : ""})`
+  );
+  const { target, warning: targetWarning } = resolveTarget(
+    stack ? { target: stack.target } : payload,
+    archetype.files(payload.ideaId || "mvp")
+  );
+  console.log(`DEBUG output target: ${target.id}${stack ? " (accepted stack)" : ""}`);
+
+  // The user's list when they sent one, otherwise whatever the chat's bullet lists say
+  const features = payload.features ? normalizeFeatures(payload.features) : extractFeaturesFromText(payload.messages);
+  console.log(`DEBUG features: ${features.map((f) => f.id).join(", ") || "none"}`);
+
+  const strategy = resolvePlanStrategy(payload.planStrategy, opts.env);
+  console.log(`DEBUG planning strategy: ${strategy}`);
+
+  const modelPlan = await tryModelPlan(payload, provider, archetype, target, stack, features, strategy, opts);
+  if (modelPlan.result) {
+    const schema = (modelPlan.result.schema as DataSchema) || archetype.schema;
+    const form = archetype.contactForm;
     return {
-      plan: modelPlan.plan,
-      targetFiles: modelPlan.files,
+      plan: withStackNotes(modelPlan.result.plan, stack),
+      targetFiles: modelPlan.result.targetFiles
+        .filter((f) => !(schema && isSchemaOwnedPath(f.path, schema)))
+        .filter((f) => !isTemplatePath(f.path, form, schema, target.id))
+        .map((f) => ({
+          path: f.path,
+          description: f.description,
+          dependsOn: f.dependsOn || [],
+          ...(f.features?.length ? { features: f.features } : {}),
+        })),
+      archetype: archetype.id,
+      target: target.id,
+      // The model may still declare an ASSETS KV namespace; [assets] targets never get one
+      manifest: targetManifest(
+        target,
+        mergeManifests(
+          archetype.manifest,
+          stack?.manifest,
+          modelPlan.result.bindings as BindingManifest,
+          // A schema needs somewhere to live
+          schema ? { d1: [{ binding: "DB", purpose: "Primary relational data" }] } : undefined,
+          templateManifest(form, schema)
+        )
+      ),
+      schema,
+      contactForm: form,
+      features: modelPlan.features || features,
+      ...(targetWarning ? { warnings: [targetWarning] } : {}),
     };
   }
 
-  // Deterministic fallback path
+  // Deterministic fallback path: the archetype's own file list
   const plan = extractSimplePlan(payload);
-  const files = defaultFilesPlan();
-
-  // Replace template placeholder in wrangler description if present
-  const id = payload.ideaId || "mvp";
-  const filesResolved = files.map((f) =>
-    f.path === "wrangler.toml"
-      ? {
-          ...f,
-          description:
-            "Wrangler config: name=mvp-" +
-            id +
-            ", main=functions/index.ts, compatibility_date=2024-11-06, add [site] bucket=./public. The ASSETS KV is handled/injected by build service.",
-        }
-      : f
-  );
+  const files = mapFeaturesToFiles(features, target.files(archetype.files(payload.ideaId || "mvp"), payload.ideaId || "mvp"));
 
   return {
-    plan,
-    targetFiles: filesResolved,
+    plan: withStackNotes(plan, stack),
+    targetFiles: files,
+    archetype: archetype.id,
+    target: target.id,
+    manifest: mergeManifests(
+      targetManifest(target, archetype.manifest),
+      stack?.manifest,
+      templateManifest(archetype.contactForm, archetype.schema)
+    ),
+    schema: archetype.schema,
+    contactForm: archetype.contactForm,
+    features,
+    // Surface the fallback so the user knows their brief didn't shape the file list
+    warnings: [
+      `Using the "${archetype.label}" file plan because ${modelPlan.reason}.`,
+      ...(targetWarning ? [targetWarning] : []),
+    ],
   };
-}
\ No newline at end of file
+}
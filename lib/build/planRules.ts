@@ -0,0 +1,111 @@
+// lib/build/planRules.ts
+
+import type { PlannerResult } from "./contracts";
+import { ENTRY_CANDIDATES } from "./verifyGeneratedFiles";
+import { validateSchema, type DataSchema } from "./d1Schema";
+
+export type PlanRule =
+  | "empty-plan"
+  | "duplicate-path"
+  | "absolute-path"
+  | "parent-segment"
+  | "missing-entry"
+  | "wrangler-main-mismatch"
+  | "too-many-files"
+  | "invalid-schema";
+
+export type PlanViolation = {
+  rule: PlanRule;
+  message: string;
+  path?: string;
+};
+
+export const DEFAULT_MAX_PLANNED_FILES = 25;
+
+/**
+ * The Worker entry a plan commits to: an explicit `entry`, otherwise
+ * the first conventional entry path that is planned.
+ */
+export function planEntry(result: PlannerResult): string | undefined {
+  if (result.entry) return result.entry.replace(/^\.\//, "");
+  const paths = new Set(result.targetFiles.map((f) => f.path));
+  return ENTRY_CANDIDATES.find((c) => paths.has(c));
+}
+
+// `main = "..."` / `main: ...` as written in a wrangler file description
+function describedMain(description: string): string | undefined {
+  const m = description.match(/\bmain\s*[=:]\s*["'`]?([\w./-]+)/);
+  return m?.[1].replace(/^\.\//, "").replace(/[.,;]+$/, "");
+}
+
+/**
+ * Structural rules a plan must satisfy before we spend tokens generating it.
+ * Returns every violation (empty when the plan is acceptable).
+ */
+export function checkPlanRules(
+  result: PlannerResult,
+  opts: { maxFiles?: number } = {}
+): PlanViolation[] {
+  const maxFiles = opts.maxFiles && opts.maxFiles > 0 ? opts.maxFiles : DEFAULT_MAX_PLANNED_FILES;
+  const violations: PlanViolation[] = [];
+  const files = result.targetFiles;
+
+  if (files.length === 0) {
+    return [{ rule: "empty-plan", message: "The plan contains no files." }];
+  }
+  if (files.length > maxFiles) {
+    violations.push({
+      rule: "too-many-files",
+      message: `The plan has ${files.length} files; the limit is ${maxFiles}. Merge or drop the least important ones.`,
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const { path } of files) {
+    if (seen.has(path)) {
+      violations.push({ rule: "duplicate-path", path, message: `${path} is planned more than once.` });
+      continue;
+    }
+    seen.add(path);
+
+    if (/^([\\/]|[a-zA-Z]:)/.test(path)) {
+      violations.push({ rule: "absolute-path", path, message: `${path} is absolute; use a path relative to the repo root.` });
+    }
+    if (path.split(/[\\/]/).includes("..")) {
+      violations.push({ rule: "parent-segment", path, message: `${path} contains a ".." segment.` });
+    }
+  }
+
+  const entry = planEntry(result);
+  if (!entry || !seen.has(entry)) {
+    violations.push({
+      rule: "missing-entry",
+      path: entry,
+      message: entry
+        ? `The Worker entry ${entry} is not in the planned files.`
+        : `No Worker entry is planned (expected one of ${ENTRY_CANDIDATES.join(", ")}).`,
+    });
+  }
+
+  const wrangler = files.find((f) => f.path === "wrangler.toml");
+  const main = wrangler ? describedMain(wrangler.description) : undefined;
+  if (entry && main && main !== entry) {
+    violations.push({
+      rule: "wrangler-main-mismatch",
+      path: "wrangler.toml",
+      message: `wrangler.toml sets main=${main} but the Worker entry is ${entry}.`,
+    });
+  }
+
+  if (result.schema) {
+    for (const problem of validateSchema(result.schema as DataSchema)) {
+      violations.push({ rule: "invalid-schema", message: `Schema: ${problem}.` });
+    }
+  }
+
+  return violations;
+}
+
+export function formatPlanViolation(v: PlanViolation): string {
+  return `[${v.rule}] ${v.message}`;
+}
@@ -0,0 +1,183 @@
+// lib/build/plannerProviders.ts
+
+/**
+ * Where the file planner gets its model output from. Selected from the
+ * Worker `env` (PLANNER_PROVIDER), never from globals, so local model
+ * servers and recorded fixtures can stand in for OpenAI.
+ */
+
+export type PlannerMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type PlannerRequest = {
+  messages: PlannerMessage[];
+  temperature?: number;
+  maxTokens?: number;
+};
+
+export type PlannerCompletion = {
+  text: string; // raw model text, expected to be the planner JSON
+  model?: string;
+  usage?: unknown; // provider-reported token usage (see usage.ts normalizeUsage)
+};
+
+export type PlannerProvider = {
+  name: string;
+  // undefined = no answer
+  complete(req: PlannerRequest): Promise<PlannerCompletion | undefined>;
+};
+
+export type PlannerProviderName = "openai" | "openai-compatible" | "agent" | "offline";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+async function postJSON(url: string, body: unknown, headers: Record<string, string>, timeoutMs: number) {
+  const ctrl = new AbortController();
+  const id = setTimeout(() => ctrl.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: ctrl.signal,
+    });
+    if (!res.ok) {
+      const txt = await res.text().catch(() => "");
+      throw new Error(`Planner ${res.status} at ${url}: ${txt.slice(0, 300)}`);
+    }
+    return res.json();
+  } finally {
+    clearTimeout(id);
+  }
+}
+
+/**
+ * Any Chat Completions endpoint: OpenAI itself, or a compatible server
+ * (vLLM, Ollama, LM Studio, …) at `baseUrl`.
+ */
+export function createChatCompletionsPlanner(opts: {
+  name?: string;
+  baseUrl: string;
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number;
+}): PlannerProvider {
+  const url = `${opts.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    name: opts.name || "openai-compatible",
+    async complete(req) {
+      const model = opts.model || DEFAULT_MODEL;
+      const data: any = await postJSON(
+        url,
+        {
+          model,
+          temperature: req.temperature ?? 0.2,
+          max_tokens: req.maxTokens ?? 800,
+          messages: req.messages,
+        },
+        opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {},
+        opts.timeoutMs ?? 60_000
+      );
+      const text = data?.choices?.[0]?.message?.content;
+      return text ? { text, model: data?.model || model, usage: data?.usage } : undefined;
+    },
+  };
+}
+
+/**
+ * The agent service plans too: POST <base>/plan with the same messages.
+ * Accepts either `{ text }` or the planner JSON object itself.
+ */
+export function createAgentPlanner(opts: {
+  baseUrl: string;
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number;
+}): PlannerProvider {
+  const url = `${opts.baseUrl.replace(/\/+$/, "")}/plan`;
+  return {
+    name: "agent",
+    async complete(req) {
+      const data: any = await postJSON(
+        url,
+        { messages: req.messages, model: opts.model, temperature: req.temperature, max_tokens: req.maxTokens },
+        opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {},
+        opts.timeoutMs ?? 120_000
+      );
+      if (typeof data?.text === "string") {
+        return { text: data.text, model: data.model || opts.model, usage: data.usage };
+      }
+      return data ? { text: JSON.stringify(data), model: opts.model } : undefined;
+    },
+  };
+}
+
+/**
+ * No network. Replays a recorded fixture (planner JSON) when given one;
+ * otherwise answers nothing, which makes the planner use its deterministic plan.
+ */
+export function createOfflinePlanner(fixture?: string): PlannerProvider {
+  return {
+    name: "offline",
+    async complete() {
+      return fixture ? { text: fixture, model: "fixture" } : undefined;
+    },
+  };
+}
+
+/**
+ * Pick the planner from the Worker env.
+ *
+ * PLANNER_PROVIDER: openai | openai-compatible | agent | offline. When
+ * unset: a PLANNER_BASE_URL means openai-compatible, an OPENAI_API_KEY
+ * means openai, otherwise offline.
+ */
+export function getPlannerProvider(env: Record<string, any> = {}): PlannerProvider {
+  const str = (k: string): string | undefined =>
+    typeof env[k] === "string" && env[k].length > 0 ? env[k] : undefined;
+
+  const model = str("PLANNER_MODEL") || str("CODEGEN_PLANNER_MODEL");
+  const timeoutMs = parseInt(str("PLANNER_TIMEOUT_MS") || "", 10) || undefined;
+
+  const requested = str("PLANNER_PROVIDER") as PlannerProviderName | undefined;
+  const name: PlannerProviderName =
+    requested ||
+    (str("PLANNER_BASE_URL") ? "openai-compatible" : str("OPENAI_API_KEY") ? "openai" : "offline");
+
+  switch (name) {
+    case "openai": {
+      const apiKey = str("OPENAI_API_KEY");
+      if (!apiKey) {
+        console.warn("PLANNER_PROVIDER=openai but OPENAI_API_KEY is not set; planning offline");
+        return createOfflinePlanner();
+      }
+      return createChatCompletionsPlanner({
+        name: "openai",
+        baseUrl: str("OPENAI_API_BASE") || OPENAI_BASE_URL,
+        apiKey,
+        model,
+        timeoutMs,
+      });
+    }
+    case "openai-compatible": {
+      const baseUrl = str("PLANNER_BASE_URL");
+      if (!baseUrl) {
+        console.warn("PLANNER_PROVIDER=openai-compatible but PLANNER_BASE_URL is not set; planning offline");
+        return createOfflinePlanner();
+      }
+      return createChatCompletionsPlanner({ baseUrl, apiKey: str("PLANNER_API_KEY"), model, timeoutMs });
+    }
+    case "agent":
+      return createAgentPlanner({
+        baseUrl: str("AGENT_BASE_URL") || "http://localhost:8000",
+        apiKey: str("AGENT_API_KEY"),
+        model,
+        timeoutMs,
+      });
+    case "offline":
+      return createOfflinePlanner(str("PLANNER_FIXTURE"));
+    default:
+      console.warn(`Unknown PLANNER_PROVIDER "${requested}"; planning offline`);
+      return createOfflinePlanner();
+  }
+}
@@ -0,0 +1,147 @@
+// lib/build/repairFiles.ts
+
+import { callGenerateCodeAPI, type FileGenOutput } from "./callGenerateCodeAPI";
+import {
+  verifyGeneratedFiles,
+  formatDiagnostic,
+  type VerificationReport,
+} from "./verifyGeneratedFiles";
+
+type PlannedLike = { path: string; description: string; dependsOn?: string[] };
+
+export type RepairAttempt = {
+  path: string;
+  attempt: number;
+  diagnostics: string[];
+  ok: boolean;
+  error?: string; // set when the fix call itself failed
+};
+
+export type RepairResult = {
+  files: FileGenOutput[];
+  report: VerificationReport;
+  attempts: RepairAttempt[];
+};
+
+/**
+ * Files related to `path` through the plan: what it depends on and what
+ * depends on it. These go along as context so a fix stays consistent.
+ */
+function relatedPaths(path: string, targets: PlannedLike[]): string[] {
+  const self = targets.find((t) => t.path === path);
+  const deps = self?.dependsOn || [];
+  const dependents = targets.filter((t) => t.dependsOn?.includes(path)).map((t) => t.path);
+  return Array.from(new Set([...deps, ...dependents])).filter((p) => p !== path);
+}
+
+function fixInstruction(path: string, diagnostics: string[], description?: string): string {
+  return [
+    `Fix ${path}. It failed static verification with these diagnostics:`,
+    ...diagnostics.map((d) => `- ${d}`),
+    "",
+    "Return the complete corrected file. Keep everything that already works; change only what is needed to resolve the diagnostics and stay consistent with the related files.",
+    description ? `Original purpose: ${description}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Bounded repair loop. Each round sends every failing file, its exact
+ * diagnostics and its related files back through callGenerateCodeAPI in
+ * "fix" mode, re-sanitizes, and re-verifies. Stops when verification
+ * passes, after `maxAttempts` rounds or when only rendered files fail;
+ * the caller decides what to do with a report that is still failing.
+ */
+export async function repairFiles(
+  files: FileGenOutput[],
+  report: VerificationReport,
+  opts: {
+    plan: string;
+    targetFiles: PlannedLike[];
+    maxAttempts: number;
+    baseUrl?: string;
+    timeoutMs?: number;
+    meta?: { messages?: any[]; ideaSummary?: any; branding?: any };
+    // Re-apply sanitizer guarantees after each round
+    resanitize: (files: FileGenOutput[]) => FileGenOutput[];
+    onAttempt?: (attempt: RepairAttempt) => void;
+    // Token usage of each fix call (see usage.ts)
+    onUsage?: (info: { model?: string; usage?: unknown; prompt: string; completion: string }) => void;
+    // Checked before each round; a thrown error (e.g. budget exhausted) stops the loop
+    beforeRound?: () => void;
+    // Paths rendered from templates; never sent to the model, so their diagnostics stay
+    isRendered?: (path: string) => boolean;
+  }
+): Promise<RepairResult> {
+  const attempts: RepairAttempt[] = [];
+  let current = new Map(files.map((f) => [f.path, f]));
+  let latest = report;
+
+  for (let round = 1; round <= opts.maxAttempts && !latest.ok; round++) {
+    const failing = latest.failingPaths.filter((p) => current.has(p) && !opts.isRendered?.(p));
+    if (failing.length === 0) break;
+    opts.beforeRound?.();
+
+    const roundAttempts: RepairAttempt[] = [];
+    for (const path of failing) {
+      const diagnostics = latest.diagnostics.filter((d) => d.path === path).map(formatDiagnostic);
+      const planned = opts.targetFiles.find((t) => t.path === path);
+      const attempt: RepairAttempt = { path, attempt: round, diagnostics, ok: false };
+
+      try {
+        const context = [
+          current.get(path)!, // the broken file itself
+          ...relatedPaths(path, opts.targetFiles)
+            .filter((p) => current.has(p))
+            .map((p) => current.get(p)!),
+        ];
+        const out = await callGenerateCodeAPI(
+          {
+            plan: opts.plan,
+            targetFiles: [{ path, description: fixInstruction(path, diagnostics, planned?.description) }],
+            messages: opts.meta?.messages ?? [],
+            ideaSummary: opts.meta?.ideaSummary,
+            branding: opts.meta?.branding,
+            contextFiles: context,
+            mode: "fix",
+          },
+          {
+            baseUrl: opts.baseUrl,
+            includeContextFiles: true,
+            expectContent: true,
+            timeoutMs: opts.timeoutMs,
+            onUsage: opts.onUsage,
+          }
+        );
+        const fixed = out.find((f) => f.path === path);
+        if (!fixed) {
+          attempt.error = "fix response did not include the file";
+        } else if ((fixed.content || "").trimEnd() === current.get(path)!.content.trimEnd()) {
+          // The agent didn't act on the fix request (see AGENT_CONTRACT_VERSION)
+          attempt.error = "fix response returned the file unchanged";
+        } else {
+          current.set(path, fixed);
+        }
+      } catch (e: any) {
+        attempt.error = String(e?.message || e).slice(0, 300);
+      }
+      roundAttempts.push(attempt);
+    }
+
+    const resanitized = opts.resanitize(Array.from(current.values()));
+    current = new Map(resanitized.map((f) => [f.path, f]));
+    latest = verifyGeneratedFiles(resanitized);
+
+    const stillFailing = new Set(latest.failingPaths);
+    for (const a of roundAttempts) {
+      a.ok = !a.error && !stillFailing.has(a.path);
+      attempts.push(a);
+      opts.onAttempt?.(a);
+    }
+  }
+
+  return { files: Array.from(current.values()), report: latest, attempts };
+}
+
+export default repairFiles;
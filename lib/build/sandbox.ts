@@ -0,0 +1,474 @@
+// lib/build/sandbox.ts
+
+/**
+ * Pre-publish sandbox: loads the sanitized file set into an in-memory
+ * module graph and runs the generated Worker's `fetch` in a separate
+ * workerd isolate through a Worker Loader binding (`[[worker_loaders]]`
+ * in wrangler.toml), with in-memory stand-ins for its KV/D1/R2/queue
+ * bindings and no network access. It requests `/` and every planned
+ * route and reports each status code or exception, so a Worker that
+ * can't even load is caught before anything reaches GitHub. What the
+ * sandbox can't run faithfully (npm packages, D1 queries against a stub
+ * with no tables) is reported as not verified rather than as a failure.
+ */
+
+import type { BindingManifest } from "./bindings";
+import type { PlannedProject } from "./planProjectFiles";
+import { ENTRY_CANDIDATES } from "./verifyGeneratedFiles";
+import { contactFormPath } from "../../worker/utils/templates/contactFormHandler";
+import { ADMIN_BASE_PATH, adminSpecFor } from "../../worker/utils/templates/adminHandler";
+
+type FileRecord = { path: string; content: string };
+
+export type SandboxRoute = { method: string; path: string };
+
+export type SandboxResult = SandboxRoute & {
+  status?: number;
+  durationMs: number;
+  // The Worker threw (or the request timed out) instead of answering
+  error?: string;
+  // Left out of the verdict, e.g. the request queried the D1 stub
+  unverified?: string;
+};
+
+export type SandboxReport = {
+  ok: boolean;
+  entry?: string;
+  // Why nothing ran (no loader binding, no entry, unresolvable imports)
+  skipped?: string;
+  // The entry failed to import or has no fetch export
+  loadError?: string;
+  // Why the Worker couldn't be run here although nothing failed (npm imports)
+  unverified?: string;
+  results: SandboxResult[];
+};
+
+/** The Worker Loader binding surface we use (env.SANDBOX_LOADER). */
+export type SandboxLoader = {
+  get(
+    id: string,
+    getCode: () => Promise<SandboxWorkerCode> | SandboxWorkerCode
+  ): { getEntrypoint(): { fetch(request: Request): Promise<Response> } };
+};
+
+export type SandboxWorkerCode = {
+  compatibilityDate: string;
+  compatibilityFlags?: string[];
+  mainModule: string;
+  modules: Record<string, string>;
+  env?: Record<string, unknown>;
+  // null: fetch() and connect() from the sandboxed Worker fail
+  globalOutbound?: null;
+};
+
+export type SandboxOptions = {
+  loader?: SandboxLoader;
+  // Distinguishes loader isolates between builds
+  id: string;
+  manifest?: BindingManifest;
+  compatibilityDate?: string;
+  timeoutMs?: number;
+  // TypeScript → JavaScript for one module; defaults to sucrase's type stripping
+  transpile?: (source: string, path: string) => Promise<string> | string;
+};
+
+const HARNESS_MODULE = "__sandbox__.js";
+const FAILURE_HEADER = "x-sandbox-failure";
+const D1_HEADER = "x-sandbox-d1";
+const DEFAULT_TIMEOUT_MS = 5000;
+const MAX_ROUTES = 30;
+
+/* ------------------------ module graph ------------------------ */
+
+const SCRIPT = /\.(ts|mts|js|mjs)$/;
+
+async function transpileTypeScript(source: string, path: string): Promise<string> {
+  // Sucrase only strips the types: small and Worker-safe, unlike the typescript compiler
+  const { transform } = await import("sucrase");
+  return transform(source, { transforms: ["typescript"], filePath: path, disableESTransforms: true }).code;
+}
+
+// Module names inside the sandbox: everything runs as .js
+function moduleName(path: string): string {
+  return path.replace(/\.(ts|mts)$/, ".js");
+}
+
+function dirname(path: string): string {
+  const i = path.lastIndexOf("/");
+  return i < 0 ? "" : path.slice(0, i);
+}
+
+function joinPath(dir: string, rel: string): string {
+  const parts = dir ? dir.split("/") : [];
+  for (const seg of rel.split("/")) {
+    if (seg === "..") parts.pop();
+    else if (seg && seg !== ".") parts.push(seg);
+  }
+  return parts.join("/");
+}
+
+function relativeSpecifier(from: string, to: string): string {
+  const a = dirname(from).split("/").filter(Boolean);
+  const b = to.split("/");
+  let i = 0;
+  while (i < a.length && i < b.length - 1 && a[i] === b[i]) i++;
+  const up = a.length - i;
+  return (up === 0 ? "./" : "../".repeat(up)) + b.slice(i).join("/");
+}
+
+/** The file a relative import points at, trying the usual TS/ESM spellings. */
+function resolveImport(paths: Set<string>, from: string, specifier: string): string | undefined {
+  const base = joinPath(dirname(from), specifier);
+  const stem = base.replace(/\.(js|mjs|ts|mts)$/, "");
+  return [base, `${stem}.ts`, `${stem}.js`, `${stem}.mts`, `${stem}.mjs`, `${base}/index.ts`, `${base}/index.js`].find((p) =>
+    paths.has(p)
+  );
+}
+
+const IMPORT_SPECIFIERS = [
+  /(\bimport\s[^'"]*?\bfrom\s*)(['"])([^'"]+)\2/g,
+  /(\bexport\s[^'"]*?\bfrom\s*)(['"])([^'"]+)\2/g,
+  /(\bimport\s*)(['"])([^'"]+)\2/g,
+  /(\bimport\(\s*)(['"])([^'"]+)\2/g,
+];
+
+/**
+ * Transpile the entry and everything it imports (relative imports only)
+ * into loader modules keyed by path. Imports of files that don't exist
+ * are reported as unresolved, bare specifiers (npm packages, which the
+ * sandbox can't install) as packages.
+ */
+export async function buildModuleGraph(
+  files: FileRecord[],
+  entry: string,
+  transpile: (source: string, path: string) => Promise<string> | string = transpileTypeScript
+): Promise<{ modules: Record<string, string>; unresolved: string[]; packages: string[] }> {
+  const byPath = new Map(files.map((f) => [f.path, f.content]));
+  const paths = new Set(byPath.keys());
+  const modules: Record<string, string> = {};
+  const unresolved: string[] = [];
+  const packages = new Set<string>();
+  const queue = [entry];
+  const seen = new Set(queue);
+
+  while (queue.length) {
+    const path = queue.shift()!;
+    const source = byPath.get(path) ?? "";
+    let code = /\.(ts|mts)$/.test(path) ? await transpile(source, path) : source;
+    for (const pattern of IMPORT_SPECIFIERS) {
+      code = code.replace(pattern, (whole, head: string, quote: string, specifier: string) => {
+        if (!specifier.startsWith(".")) {
+          if (!specifier.startsWith("cloudflare:") && !specifier.startsWith("node:")) packages.add(specifier);
+          return whole;
+        }
+        const target = resolveImport(paths, path, specifier);
+        if (!target || !SCRIPT.test(target)) {
+          unresolved.push(`${path}: ${specifier}`);
+          return whole;
+        }
+        if (!seen.has(target)) {
+          seen.add(target);
+          queue.push(target);
+        }
+        return `${head}${quote}${relativeSpecifier(moduleName(path), moduleName(target))}${quote}`;
+      });
+    }
+    modules[moduleName(path)] = code;
+  }
+  return { modules, unresolved, packages: [...packages] };
+}
+
+/* ------------------------ routes ------------------------ */
+
+const ROUTE_MENTION = /(?:\b(GET|POST|PUT|PATCH|DELETE)\s+)?(\/api\/[A-Za-z0-9_\-/:.]*[A-Za-z0-9_\-:])/g;
+
+/**
+ * `/` plus every route the plan knows about: rendered CRUD, form and
+ * admin routes, and `/api/...` routes named in the planned file
+ * descriptions (`:params` filled with a placeholder).
+ */
+export function sandboxRoutes(planned: PlannedProject): SandboxRoute[] {
+  const routes: SandboxRoute[] = [{ method: "GET", path: "/" }];
+  const add = (method: string, path: string) => {
+    const filled = path.replace(/:[A-Za-z_]+/g, "sandbox");
+    if (!routes.some((r) => r.method === method && r.path === filled)) routes.push({ method, path: filled });
+  };
+  for (const t of planned.schema?.tables || []) add("GET", `/api/${t.name}`);
+  const form = planned.contactForm;
+  if (form) {
+    add("POST", contactFormPath(form));
+    if (form.kind === "waitlist") add("GET", `${contactFormPath(form)}/count`);
+  }
+  if (adminSpecFor(planned)) add("GET", ADMIN_BASE_PATH);
+  for (const f of planned.targetFiles) {
+    for (const m of f.description.matchAll(ROUTE_MENTION)) add(m[1] || "GET", m[2]);
+  }
+  return routes.slice(0, MAX_ROUTES);
+}
+
+/* ------------------------ harness ------------------------ */
+
+/**
+ * Main module of the sandboxed Worker: builds the stand-in bindings,
+ * imports the entry lazily (so import errors are reported, not fatal)
+ * and marks thrown errors with the failure header.
+ */
+function renderHarness(entry: string, manifest: BindingManifest): string {
+  const bindings = {
+    kv: (manifest.kv || []).map((b) => b.binding),
+    d1: (manifest.d1 || []).map((b) => b.binding),
+    r2: (manifest.r2 || []).map((b) => b.binding),
+    queues: (manifest.queues || []).map((b) => b.binding),
+    vars: Object.fromEntries((manifest.vars || []).map((v) => [v.name, v.value])),
+    // Placeholders, so token-protected routes answer 401 instead of "secret not set"
+    secrets: (manifest.secrets || []).map((s) => s.name),
+  };
+  return `const BINDINGS = ${JSON.stringify(bindings)};
+const ENTRY = ${JSON.stringify(`./${moduleName(entry)}`)};
+
+function kvStub() {
+  const data = new Map();
+  const metadata = new Map();
+  return {
+    async get(key, opts) {
+      if (!data.has(key)) return null;
+      const type = typeof opts === "string" ? opts : opts && opts.type;
+      return type === "json" ? JSON.parse(data.get(key)) : data.get(key);
+    },
+    async getWithMetadata(key, opts) {
+      return { value: await this.get(key, opts), metadata: metadata.get(key) ?? null };
+    },
+    async put(key, value, opts) {
+      data.set(key, typeof value === "string" ? value : JSON.stringify(value));
+      if (opts && opts.metadata !== undefined) metadata.set(key, opts.metadata);
+      else metadata.delete(key);
+    },
+    async delete(key) {
+      data.delete(key);
+      metadata.delete(key);
+    },
+    async list(opts) {
+      const prefix = (opts && opts.prefix) || "";
+      const keys = [...data.keys()]
+        .filter((k) => k.startsWith(prefix))
+        .sort()
+        .map((name) => (metadata.has(name) ? { name, metadata: metadata.get(name) } : { name }));
+      return { keys, list_complete: true, cursor: "" };
+    },
+  };
+}
+
+// Answers like an empty database with no tables, which real queries can't
+// be judged against: a request that queries it is marked (D1_HEADER) and
+// left out of the verdict
+let d1Queried = false;
+function d1Stub() {
+  const result = { results: [], success: true, meta: { changes: 0, last_row_id: 0, duration: 0 } };
+  const statement = () => ({
+    bind: () => statement(),
+    first: async () => ((d1Queried = true), null),
+    all: async () => ((d1Queried = true), result),
+    run: async () => ((d1Queried = true), result),
+    raw: async () => ((d1Queried = true), []),
+  });
+  return {
+    prepare: () => statement(),
+    batch: async (statements) => ((d1Queried = true), statements.map(() => result)),
+    exec: async () => ((d1Queried = true), { count: 0, duration: 0 }),
+  };
+}
+
+function r2Stub() {
+  const data = new Map();
+  const object = (key, text) => ({
+    key,
+    size: text.length,
+    body: new Response(text).body,
+    text: async () => text,
+    json: async () => JSON.parse(text),
+    arrayBuffer: async () => new TextEncoder().encode(text).buffer,
+  });
+  return {
+    async get(key) {
+      return data.has(key) ? object(key, data.get(key)) : null;
+    },
+    async head(key) {
+      return data.has(key) ? object(key, data.get(key)) : null;
+    },
+    async put(key, value) {
+      data.set(key, typeof value === "string" ? value : await new Response(value).text());
+      return object(key, data.get(key));
+    },
+    async delete(key) {
+      data.delete(key);
+    },
+    async list() {
+      return { objects: [...data.keys()].map((key) => object(key, data.get(key))), truncated: false };
+    },
+  };
+}
+
+const env = { ...BINDINGS.vars };
+for (const name of BINDINGS.secrets) env[name] = "sandbox-" + name.toLowerCase();
+for (const name of BINDINGS.kv) env[name] = kvStub();
+for (const name of BINDINGS.d1) env[name] = d1Stub();
+for (const name of BINDINGS.r2) env[name] = r2Stub();
+for (const name of BINDINGS.queues) env[name] = { send: async () => {}, sendBatch: async () => {} };
+// Workers static assets ([assets] targets): no built files here, so nothing matches
+if (!env.ASSETS) env.ASSETS = { fetch: async () => new Response("Not found", { status: 404 }) };
+
+function failure(stage, err) {
+  const message = String((err && (err.stack || err.message)) || err);
+  return new Response(message, { status: 500, headers: { "${FAILURE_HEADER}": stage } });
+}
+
+function markD1(res) {
+  if (!d1Queried) return res;
+  const marked = new Response(res.body, res);
+  marked.headers.set("${D1_HEADER}", "1");
+  return marked;
+}
+
+export default {
+  async fetch(request, _env, ctx) {
+    d1Queried = false;
+    let worker;
+    try {
+      worker = (await import(ENTRY)).default;
+    } catch (err) {
+      return failure("load", err);
+    }
+    if (!worker || typeof worker.fetch !== "function") {
+      return failure("load", new Error(ENTRY + " has no default export with a fetch() method"));
+    }
+    try {
+      return markD1(await worker.fetch(request, env, ctx));
+    } catch (err) {
+      return markD1(failure("fetch", err));
+    }
+  },
+};
+`;
+}
+
+/* ------------------------ run ------------------------ */
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`no response within ${ms}ms`)), ms);
+    promise.then(
+      (v) => {
+        clearTimeout(timer);
+        resolve(v);
+      },
+      (e) => {
+        clearTimeout(timer);
+        reject(e);
+      }
+    );
+  });
+}
+
+async function digest(files: FileRecord[]): Promise<string> {
+  const data = new TextEncoder().encode(files.map((f) => `${f.path}\n${f.content}`).join("\n\0"));
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return Array.from(hash.slice(0, 8), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Human-readable summary of a report, for events and build errors. */
+export function formatSandboxReport(report: SandboxReport): string {
+  if (report.skipped) return `sandbox skipped: ${report.skipped}`;
+  if (report.unverified) return `not verified: ${report.unverified}`;
+  if (report.loadError) return `${report.entry} failed to load: ${report.loadError.split("\n")[0]}`;
+  const bad = report.results.filter(isFailure);
+  const unverified = report.results.filter((r) => r.unverified).length;
+  if (bad.length === 0) {
+    const checked = report.results.length - unverified;
+    return `${checked} route(s) answered without a server error` + (unverified ? `; ${unverified} not verified (D1)` : "");
+  }
+  return bad
+    .map((r) => `${r.method} ${r.path} → ${r.error ? r.error.split("\n")[0] : r.status}`)
+    .join("; ");
+}
+
+/** A result that counts against the verdict. */
+function isFailure(result: SandboxResult): boolean {
+  return !result.unverified && (!!result.error || (result.status ?? 0) >= 500);
+}
+
+/**
+ * Run the Worker from `files` in the sandbox and request every route.
+ * `ok` is false when the entry fails to load, a request throws or times
+ * out, or a route answers with a 5xx; requests that queried D1 don't
+ * count. A Worker that imports npm packages can't be loaded here and is
+ * reported as not verified (ok). Without a loader binding the report is
+ * skipped (and not ok).
+ */
+export async function runSandbox(
+  files: FileRecord[],
+  planned: PlannedProject,
+  opts: SandboxOptions
+): Promise<SandboxReport> {
+  const paths = new Set(files.map((f) => f.path));
+  const entry = ENTRY_CANDIDATES.find((p) => paths.has(p));
+  if (!opts.loader) return { ok: false, skipped: "no SANDBOX_LOADER (Worker Loader) binding", results: [] };
+  if (!entry) return { ok: false, skipped: "no Worker entry file", results: [] };
+
+  let graph: { modules: Record<string, string>; unresolved: string[]; packages: string[] };
+  try {
+    graph = await buildModuleGraph(files, entry, opts.transpile);
+  } catch (e: any) {
+    return { ok: false, entry, skipped: `could not transpile: ${e?.message || e}`, results: [] };
+  }
+  if (graph.unresolved.length > 0) {
+    return { ok: false, entry, loadError: `unresolved imports: ${graph.unresolved.join(", ")}`, results: [] };
+  }
+  if (graph.packages.length > 0) {
+    return { ok: true, entry, unverified: `imports npm packages the sandbox can't load (${graph.packages.join(", ")})`, results: [] };
+  }
+
+  const id = `${opts.id}:${await digest(files)}`;
+  const worker = opts.loader.get(id, () => ({
+    compatibilityDate: opts.compatibilityDate || "2024-11-06",
+    compatibilityFlags: ["nodejs_compat"],
+    mainModule: HARNESS_MODULE,
+    modules: { ...graph.modules, [HARNESS_MODULE]: renderHarness(entry, opts.manifest || {}) },
+    env: {},
+    globalOutbound: null,
+  }));
+  const entrypoint = worker.getEntrypoint();
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const results: SandboxResult[] = [];
+  for (const route of sandboxRoutes(planned)) {
+    const started = Date.now();
+    const hasBody = route.method !== "GET" && route.method !== "DELETE";
+    try {
+      const res = await withTimeout(
+        entrypoint.fetch(
+          new Request(`https://sandbox.invalid${route.path}`, {
+            method: route.method,
+            ...(hasBody ? { headers: { "Content-Type": "application/json" }, body: "{}" } : {}),
+          })
+        ),
+        timeoutMs
+      );
+      const failed = res.headers.get(FAILURE_HEADER);
+      if (failed === "load") return { ok: false, entry, loadError: await res.text(), results };
+      const error = failed ? await res.text() : undefined;
+      if (!failed) await res.body?.cancel();
+      const unverified = res.headers.get(D1_HEADER) ? "queried D1, which the sandbox only stubs" : undefined;
+      results.push({
+        ...route,
+        status: res.status,
+        durationMs: Date.now() - started,
+        ...(error ? { error } : {}),
+        ...(unverified ? { unverified } : {}),
+      });
+    } catch (e: any) {
+      results.push({ ...route, durationMs: Date.now() - started, error: String(e?.message || e) });
+    }
+  }
+  const ok = !results.some(isFailure);
+  return { ok, entry, results };
+}
@@ -1,5 +1,35 @@
 // lib/build/sanitizeGeneratedFiles.ts
 
+import { fixSecurityFindings, getScriptHosts, type SecurityFinding } from "./securityScan";
+import {
+  mergeSanitizerConfigs,
+  resolveRules,
+  runSanitizerRules,
+  type SanitizeChange,
+  type SanitizerConfig,
+  type SanitizerRule,
+  type SanitizerRuleContext,
+} from "./sanitizerRules";
+import {
+  normalizeWranglerConfig,
+  parseToml,
+  stringifyToml,
+  type RequiredBinding,
+  type TomlTable,
+} from "./wranglerToml";
+import { ENTRY_CANDIDATES } from "./verifyGeneratedFiles";
+import { ARCHETYPES, isArchetypeId } from "./archetypes";
+import { SMOKE_TEST_CONFIG_PATH, withSmokeTestScripts } from "./smokeTests";
+import {
+  DEFAULT_TARGET,
+  TARGETS,
+  assetsConfig,
+  isTargetConfigPath,
+  isTargetId,
+  withTargetPackage,
+  type OutputTarget,
+} from "./targets";
+
 export type FileInput = { path: string; content: string };
 export type FileOutput = { path: string; content: string };
 
@@ -11,7 +41,18 @@ type Meta = {
     CODEGEN_MIN_HTML_BYTES?: string;
     CODEGEN_MIN_CSS_BYTES?: string;
     CODEGEN_MIN_JS_BYTES?: string;
+    SECURITY_SCRIPT_HOSTS?: string; // extra trusted <script src> hosts, comma-separated
+    SANITIZER_RULES_JSON?: string; // {"*"|<archetype>: SanitizerConfig}
   };
+  // Picks the archetype's rule config (see archetypes.ts)
+  archetype?: string;
+  // Explicit config; applied after the archetype and env configs
+  rules?: SanitizerConfig;
+  // Bindings and [vars] wrangler.toml must declare (see bindings.ts)
+  bindings?: RequiredBinding[];
+  vars?: Record<string, string>;
+  // Output target (see targets.ts): config files, package.json, [assets], workflow
+  target?: string;
 };
 
 /**
@@ -23,10 +64,23 @@ function getDefaultCompatibilityDate(): string {
   return "2024-11-06";
 }
 
+/** The output target a sanitize run is for (plain Worker when unset or unknown). */
+function targetOf(id?: string): OutputTarget {
+  return TARGETS[isTargetId(id) ? id : DEFAULT_TARGET];
+}
+
+/** Smoke test and target additions for a package.json. */
+function withProjectScripts(pkg: Record<string, any>, withTests: boolean, target: OutputTarget): Record<string, any> {
+  const merged = withTargetPackage(pkg, target);
+  return withTests ? withSmokeTestScripts(merged) : merged;
+}
+
 /**
  * Canonical package.json so npm/yarn steps don't fail when a broken/empty file is generated.
+ * With the rendered smoke tests it also carries their test script and dev dependencies,
+ * and a target with a build step brings its scripts and dependencies.
  */
-function getCanonicalPackageJson(ideaId: string): string {
+function getCanonicalPackageJson(ideaId: string, withTests = false, target: OutputTarget = targetOf()): string {
   const name = `mvp-${(ideaId || "app").toLowerCase().replace(/[^a-z0-9-]/g, "-")}`;
   const pkg = {
     name,
@@ -35,31 +89,40 @@ function getCanonicalPackageJson(ideaId: string): string {
     type: "module",
     scripts: { build: "echo \"(no build)\"" }
   };
-  return JSON.stringify(pkg, null, 2) + "\n";
+  return JSON.stringify(withProjectScripts(pkg, withTests, target), null, 2) + "\n";
 }
 
 /**
  * Ensure a valid package.json exists; replace if empty/invalid.
+ * A valid one only gains the smoke test script/deps when tests ship,
+ * and the target's scripts/deps when it has any.
  */
-function upsertPackageJson(files: FileOutput[], ideaId: string): FileOutput[] {
-  const target = "package.json";
+function upsertPackageJson(
+  files: FileOutput[],
+  ideaId: string,
+  withTests = false,
+  target: OutputTarget = targetOf()
+): FileOutput[] {
+  const path = "package.json";
   let found = false;
 
   const next = files.map((f) => {
-    if (normPath(f.path) !== target) return f;
+    if (normPath(f.path) !== path) return f;
     found = true;
     const raw = (f.content || "").trim();
-    if (!raw) return { path: target, content: getCanonicalPackageJson(ideaId) };
+    if (!raw) return { path, content: getCanonicalPackageJson(ideaId, withTests, target) };
     try {
-      JSON.parse(raw);
-      return f; // valid JSON—keep as is
+      const pkg = JSON.parse(raw);
+      if (!pkg || typeof pkg !== "object" || Array.isArray(pkg)) return f; // valid JSON—keep as is
+      const merged = JSON.stringify(withProjectScripts(pkg, withTests, target), null, 2) + "\n";
+      return JSON.stringify(pkg) === JSON.stringify(JSON.parse(merged)) ? f : { path, content: merged };
     } catch {
-      return { path: target, content: getCanonicalPackageJson(ideaId) };
+      return { path, content: getCanonicalPackageJson(ideaId, withTests, target) };
     }
   });
 
   if (!found) {
-    next.push({ path: target, content: getCanonicalPackageJson(ideaId) });
+    next.push({ path, content: getCanonicalPackageJson(ideaId, withTests, target) });
   }
   return next;
 }
@@ -68,8 +131,55 @@ function upsertPackageJson(files: FileOutput[], ideaId: string): FileOutput[] {
  * Canonical deploy workflow that uses Node 20 + Wrangler v4 with `deploy`,
  * and reads CLOUDFLARE_API_TOKEN from repo secrets.
  * ✅ Install step is conditional so we don't fail when there's no lockfile.
+ * When the project ships the rendered smoke tests (vitest.config.ts) they
+ * must pass before anything touches the remote database or the Worker.
+ * With a D1 binding, pending migrations/ are applied before the deploy.
+ * Targets with dependencies always install them (npm install without a
+ * lockfile), and targets with a build step build before the tests.
  */
-function getCanonicalDeployWorkflowYml(): string {
+function getCanonicalDeployWorkflowYml(d1Binding?: string, target: OutputTarget = targetOf()): string {
+  const migrate = d1Binding
+    ? `
+      - name: Apply D1 migrations
+        if: \${{ hashFiles('migrations/*.sql') != '' }}
+        uses: cloudflare/wrangler-action@v3
+        with:
+          command: d1 migrations apply ${d1Binding} --remote
+          wranglerVersion: '4'
+        env:
+          CLOUDFLARE_API_TOKEN: \${{ secrets.CLOUDFLARE_API_TOKEN }}
+`
+    : "";
+  const install = target.workflow?.install
+    ? `
+      - name: Install deps
+        run: |
+          if [ -f package-lock.json ] || [ -f npm-shrinkwrap.json ]; then
+            npm ci --ignore-scripts
+          else
+            npm install --no-audit --no-fund --ignore-scripts
+          fi
+`
+    : `
+      - name: Install deps (if lockfile present)
+        run: |
+          if [ -f package-lock.json ] || [ -f npm-shrinkwrap.json ]; then
+            echo "Using npm ci"
+            npm ci --ignore-scripts
+          elif [ -f yarn.lock ]; then
+            echo "Using Yarn"
+            corepack enable
+            yarn install --immutable --ignore-scripts
+          else
+            echo "No lockfile found, skipping install."
+          fi
+`;
+  const build = target.workflow?.build
+    ? `
+      - name: Build ${target.label}
+        run: ${target.workflow.build}
+`
+    : "";
   return [
 `name: Deploy Worker
 
@@ -88,20 +198,15 @@ jobs:
         uses: actions/setup-node@v4
         with:
           node-version: '20'
-
-      - name: Install deps (if lockfile present)
+${install}${build}
+      - name: Run smoke tests
+        if: \${{ hashFiles('${SMOKE_TEST_CONFIG_PATH}') != '' }}
         run: |
-          if [ -f package-lock.json ] || [ -f npm-shrinkwrap.json ]; then
-            echo "Using npm ci"
-            npm ci --ignore-scripts
-          elif [ -f yarn.lock ]; then
-            echo "Using Yarn"
-            corepack enable
-            yarn install --immutable --ignore-scripts
-          else
-            echo "No lockfile found, skipping install."
+          if [ ! -d node_modules ]; then
+            npm install --no-audit --no-fund --ignore-scripts
           fi
-
+          npm test
+${migrate}
       - name: Deploy with Wrangler 4
         uses: cloudflare/wrangler-action@v3
         with:
@@ -134,9 +239,9 @@ function normalizeWorkflowPath(p: string): string {
  * Ensure the repo contains a single correct deploy workflow.
  * - Overwrites any existing `.github/workflows/deploy.yml` with the canonical one.
  */
-function upsertDeployWorkflow(files: FileOutput[]): FileOutput[] {
+function upsertDeployWorkflow(files: FileOutput[], d1Binding?: string, target?: OutputTarget): FileOutput[] {
   const targetPath = ".github/workflows/deploy.yml";
-  const canonical = getCanonicalDeployWorkflowYml();
+  const canonical = getCanonicalDeployWorkflowYml(d1Binding, target);
 
   let found = false;
   const next: FileOutput[] = files.map((f) => {
@@ -155,55 +260,54 @@ function upsertDeployWorkflow(files: FileOutput[]): FileOutput[] {
 }
 
 /**
- * Patch wrangler.toml:
- * - Ensure a real ISO date (no "today")
- * - Leave user bindings alone
+ * Parse wrangler.toml (creating it if missing), validate it against the
+ * generated project and write it back out deterministically. A file
+ * that doesn't parse is rebuilt from defaults; every fix is explained.
  */
-function patchWranglerToml(content: string): string {
-  let out = content;
-
-  // Replace compatibility_date = "today" (any quotes / spacing)
-  out = out.replace(
-    /compatibility_date\s*=\s*["']\s*today\s*["']/gi,
-    `compatibility_date = "${getDefaultCompatibilityDate()}"`
-  );
-
-  // If no compatibility_date present at all, add one near top.
-  if (!/^\s*compatibility_date\s*=.*/m.test(out)) {
-    // If file is basically empty or minimal, seed a basic header
-    if (!out.trim()) {
-      out = `name = "worker"\nmain = "dist/worker.js"\ncompatibility_date = "${getDefaultCompatibilityDate()}"\n`;
+function upsertWranglerToml(files: FileOutput[], ctx: SanitizerRuleContext): FileOutput[] {
+  const target = "wrangler.toml";
+  const existing = files.find((f) => normPath(f.path) === target);
+
+  let data: TomlTable = {};
+  if (!existing) {
+    ctx.explain(target, "created from defaults");
+  } else {
+    const parsed = parseToml(existing.content || "");
+    if (parsed.error) {
+      ctx.explain(target, `could not parse (line ${parsed.error.line}: ${parsed.error.message}); rebuilt from defaults`);
     } else {
-      out = `compatibility_date = "${getDefaultCompatibilityDate()}"\n` + out;
+      data = parsed.data!;
     }
   }
 
-  return out;
-}
-
-/**
- * Ensure wrangler.toml exists and is valid.
- */
-function upsertWranglerToml(files: FileOutput[]): FileOutput[] {
-  const target = "wrangler.toml";
-  let exists = false;
-
-  const next = files.map((f) => {
-    if (normPath(f.path) === target) {
-      exists = true;
-      return { path: target, content: patchWranglerToml(f.content || "") };
-    }
-    return f;
+  const { config, issues } = normalizeWranglerConfig(data, {
+    defaultName: `mvp-${ctx.ideaId || "app"}`,
+    compatibilityDate: getDefaultCompatibilityDate(),
+    paths: ctx.paths,
+    entryCandidates: ENTRY_CANDIDATES,
+    requiredBindings: ctx.bindings,
+    requiredVars: ctx.vars,
   });
-
-  if (!exists) {
-    next.push({
-      path: target,
-      content: patchWranglerToml(""),
-    });
+  for (const i of issues) ctx.explain(target, `${i.field} ${i.message}`);
+
+  // Targets with Workers static assets: [assets] replaces the KV-backed [site]
+  const assets = targetOf(ctx.target).assets;
+  if (assets) {
+    const wanted = assetsConfig(assets);
+    if (JSON.stringify(config.assets) !== JSON.stringify(wanted)) {
+      config.assets = wanted;
+      ctx.explain(target, `assets set to ${assets.directory}`);
+    }
+    if (config.site) {
+      delete config.site;
+      ctx.explain(target, "site dropped; static assets are served by [assets]");
+    }
   }
 
-  return next;
+  const content = stringifyToml(config);
+  return existing
+    ? files.map((f) => (f === existing ? { path: target, content } : f))
+    : [...files, { path: target, content }];
 }
 
 /**
@@ -250,15 +354,150 @@ function enforceSizeMinimums(file: FileOutput, meta: Meta): FileOutput {
  * - The workflow references \${{ secrets.CLOUDFLARE_API_TOKEN }}
  * - We do NOT write the token into repo files.
  * We *optionally* keep account_id if it was already present in env/meta and file wants it.
+ * It goes in as a top-level key (never inside a table); unparseable files are left alone.
  */
 function maybeInjectAccountIdIntoToml(content: string, accountId?: string): string {
   if (!accountId) return content;
+  const { data } = parseToml(content);
+  if (!data || data.account_id) return content;
+  return stringifyToml({ ...data, account_id: accountId });
+}
+
+/* ------------------------ rule registry ------------------------ */
+
+const WORKFLOWS_DIR = ".github/workflows/";
+const isWrangler = (p: string) => p === "wrangler.toml";
 
-  // If wrangler.toml has no account_id, insert it.
-  if (!/^\s*account_id\s*=.*/m.test(content)) {
-    return content.replace(/^(compatibility_date.*\n)?/m, (m) => m + `account_id = "${accountId}"\n`);
+/**
+ * Every sanitizer step as a named rule, in default order. Projects can
+ * disable, enable (opt-in rules) or reorder them per archetype.
+ */
+export const SANITIZER_RULES: SanitizerRule[] = [
+  {
+    id: "normalize-paths",
+    description: "Normalized the path (slashes, deploy.yaml → deploy.yml); duplicates dropped, first copy wins",
+    required: true,
+    match: () => true,
+    transform(files) {
+      const seen = new Set<string>();
+      const out: (FileOutput & { from: string })[] = [];
+      for (const f of files) {
+        const p = normPath(normalizeWorkflowPath(f.path));
+        if (!p || seen.has(p)) continue;
+        seen.add(p);
+        out.push({ path: p, content: f.content ?? "", from: f.path });
+      }
+      return out;
+    },
+  },
+  {
+    id: "single-workflow",
+    description: "Removed CI workflows other than the canonical deploy.yml",
+    match: (p) => p.startsWith(WORKFLOWS_DIR),
+    transform: (files) => files.filter((f) => f.path === `${WORKFLOWS_DIR}deploy.yml`),
+  },
+  {
+    id: "size-minimums",
+    description: "Padded a file below the minimum size (CODEGEN_MIN_*_BYTES)",
+    match: (p) => /\.(html|css|js)$/.test(p),
+    transform: (files, ctx) => files.map((f) => enforceSizeMinimums(f, { ideaId: ctx.ideaId, env: ctx.env })),
+  },
+  {
+    id: "wrangler-toml",
+    description: "Validated wrangler.toml (name, main, compatibility_date, bindings, vars, static assets) and rewrote it in canonical form",
+    match: isWrangler,
+    transform: (files, ctx) => upsertWranglerToml(files, ctx),
+  },
+  {
+    id: "account-id",
+    description: "Added account_id from CLOUDFLARE_ACCOUNT_ID",
+    match: isWrangler,
+    transform: (files, ctx) =>
+      files.map((f) => ({ ...f, content: maybeInjectAccountIdIntoToml(f.content, ctx.env.CLOUDFLARE_ACCOUNT_ID) })),
+  },
+  {
+    id: "package-json",
+    description: "Replaced a missing, empty or invalid package.json with the canonical one, or added the smoke test script and the target's scripts/dependencies",
+    match: (p) => p === "package.json",
+    transform: (files, ctx) =>
+      upsertPackageJson(files, ctx.ideaId, ctx.paths.includes(SMOKE_TEST_CONFIG_PATH), targetOf(ctx.target)),
+  },
+  {
+    id: "target-config",
+    description: "Wrote the output target's canonical config file (e.g. vite.config.ts, astro.config.mjs)",
+    match: (p) => Object.values(TARGETS).some((t) => isTargetConfigPath(t.id, p)),
+    transform(files, ctx) {
+      const target = targetOf(ctx.target);
+      const canonical = Object.entries(target.configFiles || {});
+      return [
+        ...files.filter((f) => !isTargetConfigPath(target.id, f.path)),
+        ...canonical.map(([path, content]) => ({ path, content })),
+      ];
+    },
+  },
+  {
+    id: "deploy-workflow",
+    description: "Replaced the deploy workflow with the canonical one (Node 20, target build, smoke tests, Wrangler 4, token from secrets, D1 migrations)",
+    match: (p) => p === `${WORKFLOWS_DIR}deploy.yml`,
+    transform: (files, ctx) => {
+      // Migrations run against the project's D1 database (DB unless it's named otherwise)
+      const d1 = ctx.bindings.filter((b) => b.type === "d1");
+      const hasMigrations = ctx.paths.some((p) => /^migrations\/.+\.sql$/.test(p));
+      const binding = hasMigrations ? (d1.find((b) => b.binding === "DB") || d1[0])?.binding : undefined;
+      return upsertDeployWorkflow(files, binding, targetOf(ctx.target));
+    },
+  },
+  {
+    id: "scrub-cloudflare-token",
+    description: "Replaced a literal CLOUDFLARE_API_TOKEN with the repo secret",
+    required: true,
+    match: () => true,
+    transform: (files) =>
+      files.map((f) => ({
+        ...f,
+        content: f.content.replace(
+          /CLOUDFLARE_API_TOKEN\s*=\s*["'][^"']+["']/g,
+          `CLOUDFLARE_API_TOKEN = "\${{ secrets.CLOUDFLARE_API_TOKEN }}"`
+        ),
+      })),
+  },
+  {
+    id: "security-fixes",
+    description: "Applied a safe rewrite for a security finding (see the security report)",
+    required: true,
+    match: () => true,
+    transform(files, ctx) {
+      const { files: fixed, findings } = fixSecurityFindings(files, {
+        scriptHosts: getScriptHosts(ctx.env.SECURITY_SCRIPT_HOSTS),
+      });
+      ctx.findings.push(...findings);
+      return fixed;
+    },
+  },
+];
+
+/**
+ * Rule config for a project: the archetype's defaults, then
+ * SANITIZER_RULES_JSON ("*" for all projects, or per archetype id),
+ * then an explicit `meta.rules`.
+ */
+export function getSanitizerConfig(meta: Meta): SanitizerConfig {
+  let fromEnv: Record<string, SanitizerConfig> = {};
+  const raw = meta.env?.SANITIZER_RULES_JSON;
+  if (raw && raw.trim()) {
+    try {
+      fromEnv = JSON.parse(raw);
+    } catch {
+      console.warn("SANITIZER_RULES_JSON is not valid JSON; ignored");
+    }
   }
-  return content;
+  const archetype = isArchetypeId(meta.archetype) ? ARCHETYPES[meta.archetype] : undefined;
+  return mergeSanitizerConfigs(
+    archetype?.sanitizer,
+    fromEnv["*"],
+    meta.archetype ? fromEnv[meta.archetype] : undefined,
+    meta.rules
+  );
 }
 
 /**
@@ -270,68 +509,31 @@ export function sanitizeGeneratedFiles(
   filesIn: FileInput[],
   meta: Meta
 ): FileOutput[] {
-  const seenPaths = new Set<string>();
-  const out: FileOutput[] = [];
-
-  // 0) Normalize/rename workflow variants *before* dedupe so sanitizer wins.
-  const pre = (filesIn || []).map((f) => {
-    const normalized = normalizeWorkflowPath(f.path);
-    return { path: normalized, content: f.content ?? "" };
-  });
-
-  // 1) Normalize list, drop dupes (first write wins)
-  for (const f of pre) {
-    const p = normPath(f.path);
-    if (!p || seenPaths.has(p)) continue;
-    seenPaths.add(p);
-    out.push({ path: p, content: f.content ?? "" });
-  }
-
-  // 1.5) Drop any other workflow files except the canonical deploy.yml
-  const workflowsDir = ".github/workflows/";
-  let filtered = out.filter((f) => {
-    const p = normPath(f.path);
-    if (p.startsWith(workflowsDir) && p !== `${workflowsDir}deploy.yml`) {
-      // remove conflicting workflows entirely
-      return false;
-    }
-    return true;
-  });
-
-  // 2) Size minimums (preserve previous behavior)
-  for (let i = 0; i < filtered.length; i++) {
-    filtered[i] = enforceSizeMinimums(filtered[i], meta);
-  }
-
-  // 3) Ensure/patch wrangler.toml (compatibility_date, optional account_id)
-  let staged = upsertWranglerToml(filtered).map((f) => {
-    if (normPath(f.path) === "wrangler.toml") {
-      const accId = meta.env?.CLOUDFLARE_ACCOUNT_ID; // avoid duplicate const names
-      const patched = maybeInjectAccountIdIntoToml(f.content, accId);
-      return { ...f, content: patched };
-    }
-    return f;
-  });
-
-  // 3.5) Ensure a valid package.json exists so npm/yarn steps don't explode.
-  staged = upsertPackageJson(staged, meta.ideaId);
-
-  // 4) Ensure canonical deploy workflow (Node 20 + Wrangler 4 + deploy + token via secrets)
-  staged = upsertDeployWorkflow(staged);
-
-  // 5) Final pass: never inline CLOUDFLARE_API_TOKEN anywhere
-  staged = staged.map((f) => {
-    if (/CLOUDFLARE_API_TOKEN\s*=\s*["'][^"']+["']/.test(f.content)) {
-      // Scrub any accidental literal tokens
-      f.content = f.content.replace(
-        /CLOUDFLARE_API_TOKEN\s*=\s*["'][^"']+["']/g,
-        `CLOUDFLARE_API_TOKEN = "\${{ secrets.CLOUDFLARE_API_TOKEN }}"`
-      );
-    }
-    return f;
-  });
-
-  return staged;
+  return sanitizeGeneratedFilesDetailed(filesIn, meta).files;
 }
 
-export default sanitizeGeneratedFiles;
\ No newline at end of file
+/**
+ * Same as sanitizeGeneratedFiles, plus what happened: the security scan
+ * findings (fixed ones rewritten in `files`, see securityScan.ts) and
+ * which rule changed, added or removed which file.
+ */
+export function sanitizeGeneratedFilesDetailed(
+  filesIn: FileInput[],
+  meta: Meta
+): { files: FileOutput[]; findings: SecurityFinding[]; changes: SanitizeChange[] } {
+  const rules = resolveRules(SANITIZER_RULES, getSanitizerConfig(meta));
+  const ctx = {
+    ideaId: meta.ideaId,
+    env: { ...(meta.env || {}) },
+    findings: [] as SecurityFinding[],
+    bindings: meta.bindings || [],
+    vars: meta.vars || {},
+    target: meta.target,
+  };
+  const { files, changes } = runSanitizerRules(
+    (filesIn || []).map((f) => ({ path: f.path, content: f.content ?? "" })),
+    rules,
+    ctx
+  );
+  return { files, findings: ctx.findings, changes };
+}
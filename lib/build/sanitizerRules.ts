@@ -0,0 +1,162 @@
+// lib/build/sanitizerRules.ts
+
+import type { SecurityFinding } from "./securityScan";
+import type { RequiredBinding } from "./wranglerToml";
+
+type FileRecord = { path: string; content: string };
+
+/**
+ * Small rule engine behind sanitizeGeneratedFiles. Each rule names the
+ * files it looks at (`match`) and rewrites that subset (`transform`);
+ * the engine diffs before/after to report which rule changed, added,
+ * renamed or removed which file. The rules themselves live in sanitizeGeneratedFiles.ts.
+ */
+
+export type SanitizerRuleContext = {
+  ideaId: string;
+  env: Record<string, string | undefined>;
+  // Security findings collected by the security rule
+  findings: SecurityFinding[];
+  // Bindings the project needs (ids once provisioned), and its plain-text vars
+  bindings: RequiredBinding[];
+  vars: Record<string, string>;
+  // Output target id (see targets.ts); unset means the plain Worker
+  target?: string;
+  // Every path in the file set when the rule runs (set by the engine)
+  paths: string[];
+  // Attach a detail line to this rule's change for `path`
+  explain: (path: string, message: string) => void;
+};
+
+export type SanitizerRule = {
+  id: string;
+  // Shown to the user next to each change, so phrase it as the reason
+  description: string;
+  // Files the rule reads/writes; an empty match still runs (upserts create files)
+  match: (path: string) => boolean;
+  // Return `from` on a file to report it as renamed from that path
+  transform: (files: FileRecord[], ctx: SanitizerRuleContext) => (FileRecord & { from?: string })[];
+  // Required rules run even when a config disables them
+  required?: boolean;
+  // Opt-in rules only run when a config enables them
+  optIn?: boolean;
+};
+
+/**
+ * Per-project rule selection. `order` lists rule ids to run first, in
+ * that order; the remaining default rules follow in registry order.
+ */
+export type SanitizerConfig = {
+  enable?: string[];
+  disable?: string[];
+  order?: string[];
+};
+
+export type SanitizeChange = {
+  rule: string;
+  path: string;
+  action: "added" | "modified" | "removed" | "renamed";
+  reason: string;
+  from?: string; // on "renamed"
+  // Rule-specific specifics, e.g. which wrangler fields were fixed
+  details?: string[];
+};
+
+/**
+ * The rules to run, in order, for a config. Unknown ids are ignored with
+ * a warning so a stale config can't break a build.
+ */
+export function resolveRules(registry: SanitizerRule[], config: SanitizerConfig = {}): SanitizerRule[] {
+  const byId = new Map(registry.map((r) => [r.id, r]));
+  for (const id of [...(config.enable || []), ...(config.disable || []), ...(config.order || [])]) {
+    if (!byId.has(id)) console.warn(`sanitizer: unknown rule "${id}" in config; ignored`);
+  }
+
+  const disabled = new Set(config.disable || []);
+  const enabled = new Set(config.enable || []);
+  const active = (r: SanitizerRule) =>
+    r.required || (!disabled.has(r.id) && (!r.optIn || enabled.has(r.id)));
+
+  const ordered: SanitizerRule[] = [];
+  const push = (r?: SanitizerRule) => {
+    if (r && active(r) && !ordered.includes(r)) ordered.push(r);
+  };
+  (config.order || []).forEach((id) => push(byId.get(id)));
+  registry.forEach(push);
+  return ordered;
+}
+
+/** Merge configs left to right (later ones win on order, lists accumulate). */
+export function mergeSanitizerConfigs(...configs: (SanitizerConfig | undefined)[]): SanitizerConfig {
+  const out: SanitizerConfig = {};
+  for (const c of configs) {
+    if (!c) continue;
+    if (c.enable) out.enable = [...(out.enable || []), ...c.enable];
+    if (c.disable) out.disable = [...(out.disable || []), ...c.disable];
+    if (c.order) out.order = c.order;
+  }
+  return out;
+}
+
+/**
+ * Run `rules` over `files`. Untouched files keep their position; files a
+ * rule adds are appended.
+ */
+export function runSanitizerRules(
+  files: FileRecord[],
+  rules: SanitizerRule[],
+  ctx: Omit<SanitizerRuleContext, "paths" | "explain">
+): { files: FileRecord[]; changes: SanitizeChange[] } {
+  let current = files;
+  const changes: SanitizeChange[] = [];
+
+  for (const rule of rules) {
+    const details = new Map<string, string[]>();
+    const matched = current.filter((f) => rule.match(f.path));
+    const out = rule.transform(matched.map((f) => ({ ...f })), {
+      ...ctx,
+      paths: current.map((f) => f.path),
+      explain: (path, message) => details.set(path, [...(details.get(path) || []), message]),
+    });
+    const note = (path: string, action: SanitizeChange["action"], from?: string) =>
+      changes.push({
+        rule: rule.id,
+        path,
+        action,
+        reason: rule.description,
+        ...(from ? { from } : {}),
+        ...(details.has(path) ? { details: details.get(path) } : {}),
+      });
+
+    // Pair outputs with inputs by path (first unused wins, which also catches duplicates)
+    const pending = [...out];
+    const next: FileRecord[] = [];
+    for (const f of current) {
+      if (!rule.match(f.path)) {
+        next.push(f);
+        continue;
+      }
+      const i = pending.findIndex((o) => (o.from ?? o.path) === f.path);
+      if (i < 0) {
+        note(f.path, "removed");
+        continue;
+      }
+      const [{ from: _from, ...replacement }] = pending.splice(i, 1);
+      if (replacement.path !== f.path) note(replacement.path, "renamed", f.path);
+      else if (replacement.content !== f.content) note(f.path, "modified");
+      next.push(replacement);
+    }
+    for (const { from: _from, ...f } of pending) {
+      note(f.path, "added");
+      next.push(f);
+    }
+    current = next;
+  }
+
+  return { files: current, changes };
+}
+
+export function formatSanitizeChange(c: SanitizeChange): string {
+  const what = c.action === "renamed" ? `${c.from} renamed to ${c.path}` : `${c.path} ${c.action}`;
+  return `${what} by ${c.rule}: ${c.reason}`;
+}
@@ -0,0 +1,156 @@
+// lib/build/scheduleBatches.ts
+
+import { chunkArray } from "./chunkArray";
+import { batchKey } from "./buildCheckpoints";
+
+export type ScheduledTarget = { path: string; description: string; dependsOn?: string[] };
+
+export type ScheduledBatch = {
+  key: string;
+  files: { path: string; description: string }[];
+  // Paths outside this batch that must be generated first
+  dependsOn: string[];
+};
+
+/**
+ * Keep only dependencies that point at other planned files.
+ * Unknown paths and self-references are dropped.
+ */
+function normalizeDeps(targets: ScheduledTarget[]): Map<string, string[]> {
+  const known = new Set(targets.map((t) => t.path));
+  const deps = new Map<string, string[]>();
+  for (const t of targets) {
+    const list = (t.dependsOn || []).filter((d) => d !== t.path && known.has(d));
+    deps.set(t.path, Array.from(new Set(list)));
+  }
+  return deps;
+}
+
+/**
+ * Group targets into dependency levels (Kahn's algorithm).
+ * Anything left in a cycle is emitted as one final level with the
+ * cyclic edges ignored, so a bad plan degrades to sequential-ish order
+ * rather than failing the build.
+ */
+function toLevels(targets: ScheduledTarget[], deps: Map<string, string[]>): string[][] {
+  const remaining = new Set(targets.map((t) => t.path));
+  const levels: string[][] = [];
+
+  while (remaining.size > 0) {
+    const level = targets
+      .map((t) => t.path)
+      .filter((p) => remaining.has(p) && deps.get(p)!.every((d) => !remaining.has(d)));
+
+    if (level.length === 0) {
+      const cyclic = targets.map((t) => t.path).filter((p) => remaining.has(p));
+      console.warn(`scheduleBatches: dependency cycle among [${cyclic.join(", ")}]`);
+      for (const p of cyclic) {
+        deps.set(p, deps.get(p)!.filter((d) => !remaining.has(d)));
+      }
+      levels.push(cyclic);
+      break;
+    }
+
+    for (const p of level) remaining.delete(p);
+    levels.push(level);
+  }
+  return levels;
+}
+
+/**
+ * Turn planned targets into batches of at most `batchSize` files.
+ * Files in the same batch never depend on each other; each batch
+ * records which outside files it needs as context.
+ */
+export function planBatches(targets: ScheduledTarget[], batchSize: number): ScheduledBatch[] {
+  const deps = normalizeDeps(targets);
+  const byPath = new Map(targets.map((t) => [t.path, t]));
+
+  const batches: ScheduledBatch[] = [];
+  for (const level of toLevels(targets, deps)) {
+    for (const chunk of chunkArray(level, batchSize)) {
+      const inBatch = new Set(chunk);
+      const needed = new Set<string>();
+      for (const p of chunk) {
+        for (const d of deps.get(p)!) if (!inBatch.has(d)) needed.add(d);
+      }
+      batches.push({
+        key: batchKey(chunk),
+        files: chunk.map((p) => ({ path: p, description: byPath.get(p)!.description })),
+        dependsOn: Array.from(needed),
+      });
+    }
+  }
+  return batches;
+}
+
+/**
+ * Run batches as soon as their dependencies are done, with at most
+ * `concurrency` in flight. `run` receives only the already-generated
+ * files the batch depends on. On the first failure no new batches are
+ * started; in-flight ones are allowed to settle before rethrowing.
+ */
+export async function runScheduledBatches(
+  batches: ScheduledBatch[],
+  opts: {
+    concurrency: number;
+    run: (
+      batch: ScheduledBatch,
+      context: { path: string; content: string }[]
+    ) => Promise<{ path: string; content: string }[]>;
+  }
+): Promise<{ path: string; content: string }[]> {
+  const concurrency = Math.max(1, Math.floor(opts.concurrency) || 1);
+  const done = new Map<string, { path: string; content: string }>();
+  const finished = new Set<string>();
+  const pending = [...batches];
+  const running = new Set<Promise<void>>();
+  let failure: unknown = null;
+
+  const isReady = (b: ScheduledBatch) => b.dependsOn.every((d) => finished.has(d));
+
+  while ((pending.length > 0 && !failure) || running.size > 0) {
+    while (!failure && running.size < concurrency) {
+      const idx = pending.findIndex(isReady);
+      if (idx === -1) break;
+      const [batch] = pending.splice(idx, 1);
+
+      const context = batch.dependsOn
+        .map((d) => done.get(d))
+        .filter((f): f is { path: string; content: string } => Boolean(f));
+      const task: Promise<void> = opts
+        .run(batch, context)
+        .then((out) => {
+          for (const f of out) done.set(f.path, f);
+          // A batch that didn't emit a planned file still unblocks its dependents
+          for (const f of batch.files) finished.add(f.path);
+        })
+        .catch((err) => {
+          if (!failure) failure = err;
+        })
+        .finally(() => {
+          running.delete(task);
+        });
+      running.add(task);
+    }
+
+    if (running.size === 0) {
+      if (pending.length > 0 && !failure) {
+        // Should be unreachable after planBatches breaks cycles
+        throw new Error(
+          `runScheduledBatches: unsatisfiable dependencies for [${pending.map((b) => b.key).join(", ")}]`
+        );
+      }
+      break;
+    }
+    await Promise.race(running);
+  }
+
+  if (failure) throw failure;
+
+  // Plan order first (stable output regardless of completion order), then extras
+  const ordered = batches.flatMap((b) => b.files.map((f) => done.get(f.path))).filter(Boolean);
+  const seen = new Set(ordered.map((f) => f!.path));
+  const extras = Array.from(done.values()).filter((f) => !seen.has(f.path));
+  return [...(ordered as { path: string; content: string }[]), ...extras];
+}
@@ -0,0 +1,269 @@
+// lib/build/securityScan.ts
+
+type FileLike = { path: string; content: string };
+
+/**
+ * Rule-based security scan over generated files. Every finding carries
+ * file, line, rule and severity. Critical findings block publishing;
+ * lower-severity ones are rewritten in place when a safe fix exists.
+ */
+
+export type SecuritySeverity = "critical" | "high" | "medium" | "low";
+
+export type SecurityRuleId =
+  | "secret-literal"
+  | "private-key"
+  | "dynamic-code"
+  | "untrusted-script"
+  | "insecure-script"
+  | "innerhtml-data"
+  | "wildcard-cors-write"
+  | "blank-target";
+
+export type SecurityFinding = {
+  path: string;
+  line: number; // 1-based
+  rule: SecurityRuleId;
+  severity: SecuritySeverity;
+  message: string;
+  // Set when the sanitizer rewrote the offending code
+  fixed?: boolean;
+};
+
+export type SecurityScanOptions = {
+  // Extra hosts allowed to serve <script src> (SECURITY_SCRIPT_HOSTS)
+  scriptHosts?: string[];
+};
+
+type Match = { index: number; message: string };
+
+type SecurityRule = {
+  id: SecurityRuleId;
+  severity: SecuritySeverity;
+  appliesTo: (path: string) => boolean;
+  find: (content: string, opts: SecurityScanOptions) => Match[];
+  // Safe rewrite; returns the content unchanged when nothing can be fixed
+  fix?: (content: string, opts: SecurityScanOptions) => string;
+};
+
+// CDNs generated sites commonly (and legitimately) load scripts from
+export const TRUSTED_SCRIPT_HOSTS = [
+  "cdn.jsdelivr.net",
+  "unpkg.com",
+  "cdnjs.cloudflare.com",
+  "cdn.tailwindcss.com",
+  "ajax.googleapis.com",
+  "static.cloudflareinsights.com",
+  "challenges.cloudflare.com",
+  "js.stripe.com",
+];
+
+const isCode = (p: string) => /\.(m?[jt]sx?|cjs)$/.test(p);
+const isHtml = (p: string) => /\.html?$/.test(p);
+const isServer = (p: string) => isCode(p) && /^(functions|worker|src|api)\//.test(p);
+const anyFile = () => true;
+
+function allMatches(re: RegExp, content: string, message: (m: RegExpExecArray) => string | null): Match[] {
+  const out: Match[] = [];
+  const g = new RegExp(re.source, re.flags.includes("g") ? re.flags : re.flags + "g");
+  let m: RegExpExecArray | null;
+  while ((m = g.exec(content))) {
+    const msg = message(m);
+    if (msg) out.push({ index: m.index, message: msg });
+    if (m[0].length === 0) g.lastIndex++;
+  }
+  return out;
+}
+
+/* ------------------------ secrets ------------------------ */
+
+// Well-known token formats; any hit is a real credential shape
+const SECRET_PATTERNS: { name: string; re: RegExp }[] = [
+  { name: "OpenAI API key", re: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/ },
+  { name: "GitHub token", re: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})/ },
+  { name: "AWS access key", re: /\bAKIA[0-9A-Z]{16}\b/ },
+  { name: "Stripe secret key", re: /\b[sr]k_live_[A-Za-z0-9]{16,}/ },
+  { name: "Slack token", re: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+  { name: "Google API key", re: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+];
+
+// `apiKey = "…"`-style assignments; the value must look random, not like a placeholder
+const SECRET_ASSIGNMENT =
+  /\b([A-Za-z_]*(?:api[_-]?key|secret|token|password|passwd)[A-Za-z_]*)["']?\s*[:=]\s*["'`]([^"'`\s]{20,})["'`]/i;
+
+function looksLikeSecretValue(value: string): boolean {
+  if (value.includes("${") || /^(process\.env|env\.)/.test(value)) return false;
+  if (/your|example|placeholder|changeme|xxxx|<|>/i.test(value)) return false;
+  return /[A-Za-z]/.test(value) && /[0-9]/.test(value);
+}
+
+/* ------------------------ rules ------------------------ */
+
+const RULES: SecurityRule[] = [
+  {
+    id: "secret-literal",
+    severity: "critical",
+    appliesTo: anyFile,
+    find: (content) => [
+      ...SECRET_PATTERNS.flatMap(({ name, re }) =>
+        allMatches(re, content, () => `${name} committed in source`)
+      ),
+      ...allMatches(SECRET_ASSIGNMENT, content, (m) =>
+        looksLikeSecretValue(m[2]) ? `Hard-coded credential in \`${m[1]}\`; read it from env instead` : null
+      ),
+    ],
+  },
+  {
+    id: "private-key",
+    severity: "critical",
+    appliesTo: anyFile,
+    find: (content) =>
+      allMatches(/-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/, content, () => "Private key committed in source"),
+  },
+  {
+    id: "dynamic-code",
+    severity: "critical",
+    appliesTo: (p) => isCode(p) || isHtml(p),
+    find: (content) =>
+      allMatches(/(?<![\w.$])(eval\s*\(|new\s+Function\s*\()/, content, (m) =>
+        `\`${m[1].replace(/\s+/g, " ").replace(/\($/, "")}\` executes arbitrary strings as code`
+      ),
+  },
+  {
+    id: "untrusted-script",
+    severity: "high",
+    appliesTo: isHtml,
+    find: (content, opts) =>
+      allMatches(/<script\b[^>]*\bsrc\s*=\s*["'](?:https?:)?\/\/([^/"']+)/i, content, (m) => {
+        const host = m[1].toLowerCase();
+        const trusted = [...TRUSTED_SCRIPT_HOSTS, ...(opts.scriptHosts || [])];
+        return trusted.includes(host) ? null : `Script loaded from unknown host ${host}`;
+      }),
+  },
+  {
+    id: "insecure-script",
+    severity: "medium",
+    appliesTo: isHtml,
+    find: (content) =>
+      allMatches(/<script\b[^>]*\bsrc\s*=\s*["']http:\/\//i, content, () => "Script loaded over plain http"),
+    fix: (content) => content.replace(/(<script\b[^>]*\bsrc\s*=\s*["'])http:\/\//gi, "$1https://"),
+  },
+  {
+    id: "innerhtml-data",
+    severity: "medium",
+    appliesTo: (p) => isCode(p) || isHtml(p),
+    find: (content) =>
+      allMatches(/\.innerHTML\s*(\+?=)\s*([^;\n]+)/, content, (m) =>
+        isStaticString(m[2]) ? null : "innerHTML assigned from dynamic data (XSS risk)"
+      ),
+    // Report only: whether the value is markup or text can't be told from
+    // the source, and moving markup to textContent breaks the page
+  },
+  {
+    id: "wildcard-cors-write",
+    severity: "high",
+    appliesTo: isServer,
+    find: (content) => {
+      const writes =
+        /\bonRequest(?:Post|Put|Patch|Delete)\b|method\s*={2,3}\s*["'](?:POST|PUT|PATCH|DELETE)["']|\.(?:put|delete)\s*\(|\b(?:INSERT|UPDATE|DELETE)\s+/i;
+      if (!writes.test(content)) return [];
+      return allMatches(/["']?Access-Control-Allow-Origin["']?\s*[:,]\s*["']\*["']/i, content, () =>
+        "Wildcard CORS on an endpoint that writes data; allow only the site's origin"
+      );
+    },
+  },
+  {
+    id: "blank-target",
+    severity: "low",
+    appliesTo: (p) => isHtml(p) || /\.[jt]sx$/.test(p),
+    find: (content) =>
+      allMatches(/<a\b[^>]*\btarget\s*=\s*["']_blank["'][^>]*>/i, content, (m) =>
+        /\brel\s*=/.test(m[0]) ? null : 'target="_blank" link without rel="noopener"'
+      ),
+    fix: (content) =>
+      content.replace(/<a\b[^>]*\btarget\s*=\s*["']_blank["'][^>]*>/gi, (tag) =>
+        /\brel\s*=/.test(tag) ? tag : tag.replace(/<a\b/i, '<a rel="noopener noreferrer"')
+      ),
+  },
+];
+
+function isStaticString(rhs: string): boolean {
+  const v = rhs.trim();
+  return /^(["'])(?:(?!\1)[^\\]|\\.)*\1$/.test(v) || (/^`[^`]*`$/.test(v) && !v.includes("${"));
+}
+
+function lineAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) if (content.charCodeAt(i) === 10) line++;
+  return line;
+}
+
+/* ------------------------ public API ------------------------ */
+
+/** Report every finding without changing anything. */
+export function scanFiles(files: FileLike[], opts: SecurityScanOptions = {}): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+  for (const file of files) {
+    const content = file.content || "";
+    for (const rule of RULES) {
+      if (!rule.appliesTo(file.path)) continue;
+      const lines = new Set<number>();
+      for (const m of rule.find(content, opts)) {
+        // One finding per rule and line (a key can match a pattern and an assignment)
+        const line = lineAt(content, m.index);
+        if (lines.has(line)) continue;
+        lines.add(line);
+        findings.push({
+          path: file.path,
+          line,
+          rule: rule.id,
+          severity: rule.severity,
+          message: m.message,
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * Apply the safe rewrites for non-critical rules, then rescan. Findings
+ * that went away are reported as `fixed`; the rest remain open.
+ */
+export function fixSecurityFindings(
+  files: FileLike[],
+  opts: SecurityScanOptions = {}
+): { files: FileLike[]; findings: SecurityFinding[] } {
+  const before = scanFiles(files, opts);
+  const fixable = new Set(before.filter((f) => f.severity !== "critical").map((f) => `${f.path}\0${f.rule}`));
+
+  const fixedFiles = files.map((file) => {
+    let content = file.content || "";
+    for (const rule of RULES) {
+      if (rule.fix && fixable.has(`${file.path}\0${rule.id}`)) content = rule.fix(content, opts);
+    }
+    return content === file.content ? file : { ...file, content };
+  });
+
+  const after = scanFiles(fixedFiles, opts);
+  // The rewrites never add or remove lines, so path+rule+line identifies a finding
+  const key = (f: SecurityFinding) => `${f.path}\0${f.rule}\0${f.line}`;
+  const stillOpen = new Set(after.map(key));
+  const fixed = before.filter((f) => !stillOpen.has(key(f))).map((f) => ({ ...f, fixed: true }));
+  return { files: fixedFiles, findings: [...fixed, ...after] };
+}
+
+export function isBlocking(finding: SecurityFinding): boolean {
+  return finding.severity === "critical" && !finding.fixed;
+}
+
+export function formatSecurityFinding(f: SecurityFinding): string {
+  return `${f.path}:${f.line} [${f.severity}/${f.rule}] ${f.message}${f.fixed ? " (fixed)" : ""}`;
+}
+
+export function getScriptHosts(raw?: string): string[] {
+  return (raw || "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+}
@@ -0,0 +1,399 @@
+// lib/build/smokeTests.ts
+
+/**
+ * Smoke tests shipped with every planned project. Like the schema files
+ * they are rendered from the plan, not generated: a Vitest config for the
+ * Workers pool (@cloudflare/vitest-pool-workers, so tests run in workerd
+ * against local KV/D1) and a few test files that call the entry's
+ * `fetch` export directly: every known route answers without a 5xx, form
+ * submissions and CRUD records round-trip through storage, and the
+ * static assets the plan lists exist. The deploy workflow runs them
+ * before `wrangler deploy`.
+ */
+
+import type { BindingManifest } from "./bindings";
+import type { PlannedProject } from "./planProjectFiles";
+import { MIGRATIONS_DIR, type ColumnSpec, type TableSpec } from "./d1Schema";
+import { ENTRY_CANDIDATES } from "./verifyGeneratedFiles";
+import {
+  FORM_TIMESTAMP_FIELD,
+  contactFormKeyPrefix,
+  contactFormPath,
+  type ContactFormSpec,
+  type FormFieldType,
+} from "../../worker/utils/templates/contactFormHandler";
+import { ADMIN_BASE_PATH, ADMIN_TOKEN_SECRET, adminSpecFor } from "../../worker/utils/templates/adminHandler";
+
+type FileRecord = { path: string; content: string };
+
+export const SMOKE_TEST_DIR = "test";
+export const SMOKE_TEST_CONFIG_PATH = "vitest.config.ts";
+
+// What package.json needs to run them (merged in by the sanitizer's package-json rule)
+export const SMOKE_TEST_SCRIPT = "vitest run";
+export const SMOKE_TEST_DEV_DEPENDENCIES: Record<string, string> = {
+  "@cloudflare/vitest-pool-workers": "^0.8.0",
+  vitest: "~3.2.0",
+};
+
+// Local stand-in for the admin secret, only ever set inside the test runtime
+const TEST_ADMIN_TOKEN = "smoke-admin-token";
+const COMPATIBILITY_DATE = "2024-11-06";
+const MIGRATIONS_PLACEHOLDER = "@@migrations@@";
+
+/** Rendered test files: the model never plans or writes these. */
+export function isSmokeTestPath(path: string): boolean {
+  return path === SMOKE_TEST_CONFIG_PATH || path.startsWith(`${SMOKE_TEST_DIR}/`);
+}
+
+/**
+ * Merge the test script and dev dependencies into a package.json. A test
+ * script that doesn't run Vitest (e.g. npm's "no test specified") is
+ * replaced; everything else is kept.
+ */
+export function withSmokeTestScripts(pkg: Record<string, any>): Record<string, any> {
+  const scripts = { ...(pkg.scripts || {}) };
+  if (!/\bvitest\b/.test(String(scripts.test || ""))) scripts.test = SMOKE_TEST_SCRIPT;
+  return {
+    ...pkg,
+    scripts,
+    devDependencies: { ...SMOKE_TEST_DEV_DEPENDENCIES, ...(pkg.devDependencies || {}) },
+  };
+}
+
+/** The Worker entry the tests import; the first planned entry candidate. */
+function entryOf(planned: PlannedProject): string | undefined {
+  const paths = new Set(planned.targetFiles.map((f) => f.path));
+  return ENTRY_CANDIDATES.find((p) => paths.has(p));
+}
+
+/* ------------------------ sample data ------------------------ */
+
+const FORM_SAMPLES: Record<FormFieldType, string> = {
+  text: "Smoke test",
+  email: "smoke@example.com",
+  url: "https://example.com",
+  phone: "+15555550100",
+};
+
+function formSample(form: ContactFormSpec): Record<string, string> {
+  return Object.fromEntries(form.fields.map((f) => [f.name, FORM_SAMPLES[f.type].slice(0, f.maxLength ?? 200)]));
+}
+
+function columnSample(c: ColumnSpec): unknown {
+  switch (c.type) {
+    case "integer":
+      return 1;
+    case "real":
+      return 1.5;
+    case "boolean":
+      return true;
+    case "datetime":
+      return "2024-01-01T00:00:00.000Z";
+    case "json":
+      return { smoke: true };
+    default:
+      return "Smoke test";
+  }
+}
+
+/** A valid record for a table, or undefined when it needs a parent row first. */
+function recordSample(table: TableSpec): Record<string, unknown> | undefined {
+  if (table.columns.some((c) => c.references && c.required)) return undefined;
+  return Object.fromEntries(table.columns.filter((c) => !c.references).map((c) => [c.name, columnSample(c)]));
+}
+
+/* ------------------------ rendered files ------------------------ */
+
+function renderConfig(manifest: BindingManifest, withMigrations: boolean): string {
+  const options: Record<string, unknown> = {
+    compatibilityDate: COMPATIBILITY_DATE,
+    compatibilityFlags: ["nodejs_compat"],
+    kvNamespaces: (manifest.kv || []).map((b) => b.binding),
+    d1Databases: (manifest.d1 || []).map((b) => b.binding),
+    r2Buckets: (manifest.r2 || []).map((b) => b.binding),
+    queueProducers: Object.fromEntries((manifest.queues || []).map((q) => [q.binding, q.queue || q.binding.toLowerCase()])),
+    bindings: {
+      ...Object.fromEntries((manifest.vars || []).map((v) => [v.name, v.value])),
+      ...(manifest.secrets?.some((s) => s.name === ADMIN_TOKEN_SECRET) ? { [ADMIN_TOKEN_SECRET]: TEST_ADMIN_TOKEN } : {}),
+      ...(withMigrations ? { TEST_MIGRATIONS: MIGRATIONS_PLACEHOLDER } : {}),
+    },
+  };
+  // Only what the project uses, so the config reads like a hand-written one
+  const miniflare = Object.fromEntries(
+    Object.entries(options).filter(([, v]) => (Array.isArray(v) ? v.length > 0 : Object.keys(v as object).length > 0 || typeof v === "string"))
+  );
+  const body = JSON.stringify(miniflare, null, 2)
+    .replace(/\n/g, "\n          ")
+    .replace(JSON.stringify(MIGRATIONS_PLACEHOLDER), "migrations");
+  return `// Rendered by the build; runs the smoke tests in workerd with local bindings.
+// Other secrets stay unset, so notifiers only log that a submission was stored.
+import { defineWorkersConfig${withMigrations ? ", readD1Migrations" : ""} } from "@cloudflare/vitest-pool-workers/config";
+
+export default defineWorkersConfig(async () => {
+${withMigrations ? `  const migrations = await readD1Migrations(${JSON.stringify(MIGRATIONS_DIR)});\n` : ""}  return {
+    test: {
+      include: ["${SMOKE_TEST_DIR}/**/*.test.ts"],
+${withMigrations ? `      setupFiles: ["./${SMOKE_TEST_DIR}/setup.ts"],\n` : ""}      poolOptions: {
+        workers: {
+          miniflare: ${body},
+        },
+      },
+    },
+  };
+});
+`;
+}
+
+const SETUP = `// Rendered by the build; applies migrations/ to the local D1 database before each test file.
+import { applyD1Migrations, env } from "cloudflare:test";
+
+const bindings = env as Record<string, any>;
+await applyD1Migrations(bindings.DB, bindings.TEST_MIGRATIONS);
+`;
+
+function renderHelpers(entry: string): string {
+  const importPath = `../${entry.replace(/\.(ts|js)$/, "")}`;
+  return `// Rendered by the build; shared by the smoke tests.
+import { createExecutionContext, env, waitOnExecutionContext } from "cloudflare:test";
+import worker from ${JSON.stringify(importPath)};
+
+export const bindings = env as Record<string, any>;
+export const ADMIN_AUTH = { Authorization: "Bearer ${TEST_ADMIN_TOKEN}" };
+
+/** Call the Worker's fetch export the way the runtime does. */
+export async function call(path: string, init: RequestInit = {}): Promise<Response> {
+  const ctx = createExecutionContext();
+  const res = await (worker as any).fetch(new Request("https://smoke.test" + path, init), env, ctx);
+  await waitOnExecutionContext(ctx);
+  return res;
+}
+
+export function postJson(path: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  return call(path, { method: "POST", headers: { "Content-Type": "application/json", ...headers }, body: JSON.stringify(body) });
+}
+`;
+}
+
+function renderRoutesTest(planned: PlannedProject): string {
+  const tables = planned.schema?.tables || [];
+  const form = planned.contactForm;
+  const admin = adminSpecFor(planned);
+  const cases = [
+    `  it("serves / without a server error", async () => {
+    const res = await call("/");
+    expect(res.status).toBeLessThan(500);
+  });`,
+    `  it("answers an unknown path without a server error", async () => {
+    const res = await call("/__smoke/missing");
+    expect(res.status).toBeLessThan(500);
+  });`,
+    ...tables.map(
+      (t) => `  it("lists /api/${t.name}", async () => {
+    const res = await call("/api/${t.name}"${t.publicRead ? "" : ", { headers: ADMIN_AUTH }"});
+    expect(res.status).toBe(200);
+    const body: any = await res.json();
+    expect(Array.isArray(body.items)).toBe(true);
+  });`
+    ),
+    ...tables.map(
+      (t) => `  it("keeps ${t.publicCreate ? "updates" : "writes"} to /api/${t.name} behind the admin token", async () => {
+    ${
+      t.publicCreate
+        ? `expect((await call("/api/${t.name}/1", { method: "DELETE" })).status).toBe(401);`
+        : `expect((await postJson("/api/${t.name}", {})).status).toBe(401);`
+    }${t.publicRead ? "" : `
+    expect((await call("/api/${t.name}")).status).toBe(401);`}
+  });`
+    ),
+    ...(form
+      ? [
+          `  it("rejects an empty post to ${contactFormPath(form)}", async () => {
+    const res = await postJson(${JSON.stringify(contactFormPath(form))}, {});
+    expect(res.status).toBe(400);
+  });`,
+        ]
+      : []),
+    ...(admin
+      ? [
+          `  it("keeps ${ADMIN_BASE_PATH} behind the admin token", async () => {
+    expect((await call(${JSON.stringify(ADMIN_BASE_PATH)})).status).toBe(401);
+    const res = await call(${JSON.stringify(ADMIN_BASE_PATH)}, { headers: ADMIN_AUTH });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/html");
+  });`,
+        ]
+      : []),
+  ];
+  return `// Rendered by the build; every known route answers, none with a 5xx.
+import { describe, expect, it } from "vitest";
+import { ${admin ? "ADMIN_AUTH, " : ""}call${form || tables.length ? ", postJson" : ""} } from "./helpers";
+
+describe("routes", () => {
+${cases.join("\n\n")}
+});
+`;
+}
+
+function renderFormTest(form: ContactFormSpec, withAdmin: boolean): string {
+  const path = JSON.stringify(contactFormPath(form));
+  const sample = JSON.stringify(formSample(form));
+  const honeypot = JSON.stringify(form.honeypotField || "website");
+  const waitlist = form.kind === "waitlist";
+  // How many submissions were stored: the waitlist's count route, else the KV namespace itself
+  const stored = waitlist
+    ? `async function stored(): Promise<number> {
+  const body: any = await (await call(${path} + "/count")).json();
+  return body.count;
+}`
+    : `async function stored(): Promise<number> {
+  const list = await bindings[${JSON.stringify(form.storage.binding)}].list({ prefix: ${JSON.stringify(contactFormKeyPrefix(form))} });
+  return list.keys.length;
+}`;
+  return `// Rendered by the build; posts to the ${form.name} form round-trip through storage.
+import { describe, expect, it } from "vitest";
+import { ${withAdmin ? "ADMIN_AUTH, " : ""}${waitlist ? "" : "bindings, "}call, postJson } from "./helpers";
+
+const SAMPLE = ${sample};
+// Shown a minute ago, so the too-fast check passes
+const fresh = () => ({ ...SAMPLE, ${FORM_TIMESTAMP_FIELD}: Date.now() - 60_000 });
+
+${stored}
+
+describe(${JSON.stringify(`${form.name} form`)}, () => {
+  it("stores a valid submission", async () => {
+    const res = await postJson(${path}, fresh());
+    expect(res.status).toBe(201);
+    expect(await stored()).toBe(1);
+  });
+
+  it("accepts form-encoded posts", async () => {
+    const res = await call(${path}, { method: "POST", body: new URLSearchParams({ ...SAMPLE, ${FORM_TIMESTAMP_FIELD}: String(Date.now() - 60_000) }) });
+    expect(res.status).toBe(201);
+  });
+
+  it("drops honeypot submissions without telling the sender", async () => {
+    const res = await postJson(${path}, { ...fresh(), [${honeypot}]: "https://spam.example" });
+    expect(res.status).toBe(201);
+    expect(await stored()).toBe(0);
+  });
+${
+  waitlist
+    ? `
+  it("keeps one signup per email", async () => {
+    await postJson(${path}, fresh());
+    const again = await postJson(${path}, fresh());
+    expect(again.status).toBe(200);
+    expect(await stored()).toBe(1);
+  });
+`
+    : ""
+}${
+  withAdmin
+    ? `
+  it("shows the submission in the admin view", async () => {
+    await postJson(${path}, fresh());
+    const res = await call(${JSON.stringify(`${ADMIN_BASE_PATH}/api/${form.name}`)}, { headers: ADMIN_AUTH });
+    expect(res.status).toBe(200);
+    const body: any = await res.json();
+    expect(body.total).toBe(1);
+  });
+`
+    : ""
+}});
+`;
+}
+
+function renderRecordsTest(tables: TableSpec[]): string {
+  const cases = tables.flatMap((t) => {
+    const sample = recordSample(t);
+    if (!sample) return [];
+    const path = JSON.stringify(`/api/${t.name}`);
+    const item = JSON.stringify(`/api/${t.name}/`);
+    return [
+      `  it("creates, reads back and deletes a record in ${t.name}", async () => {
+    const sample = ${JSON.stringify(sample)};
+    const created = await postJson(${path}, sample, ADMIN_AUTH);
+    expect(created.status).toBe(201);
+    const record: any = await created.json();
+    expect(record).toMatchObject(sample);
+
+    const res = await call(${item} + record.id, { headers: ADMIN_AUTH });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject(sample);
+
+    expect((await call(${item} + record.id, { method: "DELETE", headers: ADMIN_AUTH })).status).toBe(204);
+    expect((await call(${item} + record.id, { headers: ADMIN_AUTH })).status).toBe(404);
+  });`,
+    ];
+  });
+  if (cases.length === 0) return "";
+  return `// Rendered by the build; records round-trip through the CRUD routes and D1.
+import { describe, expect, it } from "vitest";
+import { ADMIN_AUTH, call, postJson } from "./helpers";
+
+describe("records", () => {
+${cases.join("\n\n")}
+});
+`;
+}
+
+function renderAssetsTest(assets: string[]): string {
+  return `// Rendered by the build; the static assets the plan lists exist and link to each other.
+import { describe, expect, it } from "vitest";
+
+// Bundled at test time by Vite, so this runs inside workerd without a filesystem
+const files = import.meta.glob("../public/**/*", { query: "?raw", import: "default", eager: true }) as Record<string, string>;
+const EXPECTED = ${JSON.stringify(assets)};
+
+describe("static assets", () => {
+  it.each(EXPECTED)("ships %s", (path) => {
+    const content = files["../" + path];
+    expect(content, path + " is missing").toBeDefined();
+    expect(content.trim().length).toBeGreaterThan(0);
+  });
+
+  it("only links local assets that exist", () => {
+    for (const [path, html] of Object.entries(files).filter(([p]) => p.endsWith(".html"))) {
+      for (const [, ref] of html.matchAll(/(?:href|src)="\\/([^"?#]+\\.(?:css|js|png|jpe?g|svg|ico|webp))"/g)) {
+        expect(files["../public/" + ref], path + " links /" + ref).toBeDefined();
+      }
+    }
+  });
+});
+`;
+}
+
+/**
+ * Vitest config and test files for a plan. Empty when the plan has no
+ * Worker entry to test. Routes, forms and records come from what the
+ * build renders (schema, form and admin templates), assets from the
+ * planned public/ files.
+ */
+export function renderSmokeTests(planned: PlannedProject): FileRecord[] {
+  const entry = entryOf(planned);
+  if (!entry) return [];
+  const schema = planned.schema;
+  const form = planned.contactForm;
+  const admin = !!adminSpecFor(planned);
+  const assets = planned.targetFiles.map((f) => f.path).filter((p) => p.startsWith("public/"));
+  const records = schema ? renderRecordsTest(schema.tables) : "";
+  const dir = SMOKE_TEST_DIR;
+  return [
+    { path: SMOKE_TEST_CONFIG_PATH, content: renderConfig(planned.manifest || {}, !!schema) },
+    ...(schema ? [{ path: `${dir}/setup.ts`, content: SETUP }] : []),
+    { path: `${dir}/helpers.ts`, content: renderHelpers(entry) },
+    { path: `${dir}/routes.test.ts`, content: renderRoutesTest(planned) },
+    ...(form ? [{ path: `${dir}/forms.test.ts`, content: renderFormTest(form, admin) }] : []),
+    ...(records ? [{ path: `${dir}/records.test.ts`, content: records }] : []),
+    ...(assets.length ? [{ path: `${dir}/assets.test.ts`, content: renderAssetsTest(assets) }] : []),
+  ];
+}
+
+/** One line for codegen prompts, so the entry keeps the shape the tests import. */
+export function describeSmokeTests(planned: PlannedProject): string | undefined {
+  const entry = entryOf(planned);
+  return entry
+    ? `Smoke tests in ${SMOKE_TEST_DIR}/ are rendered by the build and import the default export of ${entry} as a module Worker ({ fetch(request, env, ctx) }); keep that export shape.`
+    : undefined;
+}
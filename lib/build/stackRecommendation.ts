@@ -0,0 +1,486 @@
+// lib/build/stackRecommendation.ts
+
+/**
+ * Stack recommendation, the step between branding and planning. From the
+ * refined idea, its validation and its features we propose an output
+ * target, storage bindings, an auth approach and third-party integrations,
+ * each with a short rationale. The user accepts or edits it in chat, and
+ * planProjectFiles treats the accepted stack as hard constraints.
+ * The proposal comes from the planner provider; without one (or when its
+ * answer is rejected) it is derived from the archetype and keywords.
+ */
+
+import { StackRecommendationSchema, type StackRecommendation } from "./contracts";
+import { ARCHETYPES, classifyArchetype, isArchetypeId, type ArchetypeId } from "./archetypes";
+import { describeManifest, mergeManifests, type BindingManifest } from "./bindings";
+import { TARGETS, isTargetId, resolveTarget, type TargetId } from "./targets";
+import {
+  getPlannerProvider,
+  type PlannerCompletion,
+  type PlannerMessage,
+  type PlannerProvider,
+} from "./plannerProviders";
+import { ADMIN_BASE_PATH, ADMIN_TOKEN_SECRET, adminSpecFor } from "../../worker/utils/templates/adminHandler";
+
+export type { StackRecommendation };
+export type StackStorage = StackRecommendation["storage"][number];
+export type StackIntegration = StackRecommendation["integrations"][number];
+export type AuthApproach = StackRecommendation["auth"]["approach"];
+
+export type StackInput = {
+  // Refined idea (or the best summary we have)
+  idea: string;
+  validation?: string;
+  features?: string[];
+};
+
+/* ------------------------ catalog ------------------------ */
+
+type AuthSpec = {
+  label: string;
+  // Lowercase phrases that suggest this approach (word-boundary matched)
+  keywords: string[];
+  // What the generated code must do, for the planner and codegen
+  instructions: string;
+  // Resources the approach needs on top of the stack's storage
+  manifest?: BindingManifest;
+};
+
+const SESSIONS_KV = { binding: "SESSIONS_KV", purpose: "Sign-in tokens and sessions" };
+
+const AUTH: Record<AuthApproach, AuthSpec> = {
+  none: {
+    label: "No sign-in",
+    keywords: [],
+    instructions: `No user sign-in: pages and the API routes the code adds are public. Rendered /api/<table> routes still require the ${ADMIN_TOKEN_SECRET} secret except where a table opts into public reads or creates.`,
+  },
+  "admin-token": {
+    label: "Owner token",
+    keywords: ["admin", "moderate", "moderation", "back office", "owner only"],
+    instructions: `Only the owner signs in; visitors stay anonymous. The rendered /api/<table> routes and ${ADMIN_BASE_PATH} already require the ${ADMIN_TOKEN_SECRET} secret (Authorization: Bearer), except where a table opts into public reads or creates; any other write route the code adds must check it the same way.`,
+    manifest: { secrets: [{ name: ADMIN_TOKEN_SECRET, purpose: "Owner password for protected routes" }] },
+  },
+  "magic-link": {
+    label: "Email magic link",
+    keywords: ["login", "log in", "sign in", "sign-in", "signup", "sign up", "account", "accounts", "members", "member", "profile", "profiles"],
+    instructions:
+      "Email magic-link sign-in: POST /api/auth/login mails a one-time link via Resend, GET /api/auth/callback sets an HttpOnly session cookie; tokens and sessions live in SESSIONS_KV with a TTL.",
+    manifest: {
+      kv: [SESSIONS_KV],
+      secrets: [{ name: "RESEND_API_KEY", purpose: "Sends sign-in emails" }],
+    },
+  },
+  oauth: {
+    label: "OAuth (social sign-in)",
+    keywords: ["oauth", "social login", "google login", "github login", "sign in with google", "sign in with github", "sso"],
+    instructions:
+      "OAuth sign-in with one provider: /api/auth/login redirects to it, /api/auth/callback exchanges the code using OAUTH_CLIENT_ID and OAUTH_CLIENT_SECRET and sets an HttpOnly session cookie; sessions live in SESSIONS_KV.",
+    manifest: {
+      kv: [SESSIONS_KV],
+      secrets: [
+        { name: "OAUTH_CLIENT_ID", purpose: "OAuth app client id" },
+        { name: "OAUTH_CLIENT_SECRET", purpose: "OAuth app client secret" },
+      ],
+    },
+  },
+};
+
+export function isAuthApproach(value: unknown): value is AuthApproach {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(AUTH, value);
+}
+
+type IntegrationSpec = Omit<StackIntegration, "rationale"> & {
+  keywords: string[];
+  // Also matched against the validation (its revenue model), not just the idea and features
+  fromValidation?: boolean;
+};
+
+const INTEGRATIONS: IntegrationSpec[] = [
+  {
+    id: "stripe",
+    label: "Stripe",
+    keywords: ["payment", "payments", "pay", "subscription", "subscriptions", "checkout", "billing", "paid plan", "paid plans"],
+    purpose: "Checkout and subscription billing",
+    secrets: ["STRIPE_SECRET_KEY", "STRIPE_WEBHOOK_SECRET"],
+    fromValidation: true,
+  },
+  {
+    id: "resend",
+    label: "Resend",
+    keywords: ["email", "emails", "newsletter", "digest", "reminder", "reminders", "notify", "notifications"],
+    purpose: "Transactional email",
+    secrets: ["RESEND_API_KEY"],
+  },
+  {
+    id: "openai",
+    label: "OpenAI",
+    keywords: ["ai", "gpt", "chatbot", "llm", "assistant", "summarize", "summarise"],
+    purpose: "Text generation",
+    secrets: ["OPENAI_API_KEY"],
+  },
+  {
+    id: "twilio",
+    label: "Twilio",
+    keywords: ["sms", "text message", "text messages", "whatsapp"],
+    purpose: "SMS notifications",
+    secrets: ["TWILIO_ACCOUNT_SID", "TWILIO_AUTH_TOKEN", "TWILIO_FROM_NUMBER"],
+  },
+];
+
+// Targets worth proposing over the plain Worker, by what the idea talks about
+const TARGET_HINTS: { id: TargetId; keywords: string[]; rationale: string }[] = [
+  {
+    id: "worker-spa",
+    keywords: ["dashboard", "interactive", "real-time", "realtime", "drag", "editor", "react", "single page", "spa", "kanban", "calendar"],
+    rationale: "The app is mostly interactive screens, which a React single-page app handles better than hand-written scripts.",
+  },
+  {
+    id: "astro",
+    keywords: ["blog", "content", "docs", "documentation", "articles", "portfolio", "seo", "marketing site"],
+    rationale: "Mostly content pages: Astro renders them to static HTML that loads fast and indexes well.",
+  },
+];
+
+/* ------------------------ helpers ------------------------ */
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function matches(text: string, keywords: string[]): string[] {
+  return keywords.filter((kw) => new RegExp(`\\b${escapeRegex(kw)}\\b`).test(text));
+}
+
+function ideaText(input: StackInput): string {
+  return [input.idea, ...(input.features || [])].join("\n").toLowerCase();
+}
+
+function storageOf(manifest: BindingManifest, rationale: string): StackStorage[] {
+  const entry = (kind: StackStorage["kind"], binding: string, purpose?: string): StackStorage => ({
+    kind,
+    binding,
+    purpose: purpose || binding,
+    rationale,
+  });
+  return [
+    // ASSETS is part of the target, not something the user picks
+    ...(manifest.kv || []).filter((b) => b.binding !== "ASSETS").map((b) => entry("kv", b.binding, b.purpose)),
+    ...(manifest.d1 || []).map((b) => entry("d1", b.binding, b.purpose)),
+    ...(manifest.r2 || []).map((b) => entry("r2", b.binding, b.purpose)),
+    ...(manifest.queues || []).map((b) => entry("queue", b.binding, b.purpose)),
+  ];
+}
+
+/**
+ * Deterministic proposal: the classified archetype's storage, a target
+ * and auth approach picked by keywords, and the integrations the idea
+ * and features (or, for payments, the validated revenue model) call for.
+ */
+export function defaultStack(input: StackInput): StackRecommendation {
+  const text = ideaText(input);
+  const withValidation = [text, (input.validation || "").toLowerCase()].join("\n");
+  const choice = classifyArchetype({ ideaSummary: { description: text } });
+  const archetype = ARCHETYPES[choice.id];
+  const files = archetype.files("mvp");
+
+  const hint = TARGET_HINTS.map((h) => ({ ...h, hits: matches(text, h.keywords) }))
+    .filter((h) => h.hits.length > 0)
+    .sort((a, b) => b.hits.length - a.hits.length)
+    .find((h) => !resolveTarget({ target: h.id }, files).warning);
+  const target: StackRecommendation["target"] =
+    choice.id === "api-only"
+      ? { id: "hono", rationale: "An API without pages: Hono keeps the routing and middleware short." }
+      : hint
+      ? { id: hint.id, rationale: hint.rationale }
+      : { id: "worker", rationale: "A few pages and routes: a plain Worker is the smallest thing that works." };
+
+  const storage = storageOf(archetype.manifest, `Needed by the ${archetype.label} project type.`);
+  if (archetype.schema && !storage.some((s) => s.kind === "d1")) {
+    storage.push({ kind: "d1", binding: "DB", purpose: "Primary relational data", rationale: "Holds the project's tables." });
+  }
+  const uploads = matches(text, ["upload", "uploads", "photo", "photos", "image", "images", "video", "videos", "attachment", "attachments", "files"]);
+  if (uploads.length) {
+    storage.push({
+      kind: "r2",
+      binding: "FILES",
+      purpose: "Uploaded files",
+      rationale: `The idea mentions ${uploads.slice(0, 2).join(" and ")}, which belong in object storage, not KV.`,
+    });
+  }
+
+  const signIn = (["oauth", "magic-link"] as const).find((a) => matches(text, AUTH[a].keywords).length);
+  const auth: StackRecommendation["auth"] = signIn
+    ? {
+        approach: signIn,
+        rationale: `Users need their own accounts (${matches(text, AUTH[signIn].keywords).slice(0, 2).join(", ")}).`,
+      }
+    : adminSpecFor(archetype)
+    ? {
+        approach: "admin-token",
+        rationale: archetype.schema
+          ? `Changing the stored records needs your admin token: the /api routes and the ${ADMIN_BASE_PATH} view check it` +
+            (archetype.schema.tables.some((t) => t.publicRead) ? "; visitors can still read them." : ".")
+          : `Submissions are only visible in the ${ADMIN_BASE_PATH} view, which needs your admin token.`,
+      }
+    : { approach: "none", rationale: "Nothing in the idea needs visitors to sign in." };
+
+  const integrations: StackIntegration[] = INTEGRATIONS.flatMap(({ keywords, fromValidation, ...spec }) => {
+    const hits = matches(fromValidation ? withValidation : text, keywords);
+    // Magic links send email already; Resend then needs no separate entry
+    if (!hits.length || (spec.id === "resend" && auth.approach === "magic-link")) return [];
+    return [{ ...spec, rationale: `Mentioned: ${hits.slice(0, 3).join(", ")}.` }];
+  });
+
+  return {
+    target,
+    archetype: {
+      id: archetype.id,
+      rationale: choice.matched.length
+        ? `Matched ${choice.matched.slice(0, 3).join(", ")}.`
+        : "Nothing more specific matched, so the simplest project type.",
+    },
+    storage,
+    auth,
+    integrations,
+    source: "default",
+  };
+}
+
+/**
+ * Validate a stack from the model, the client or KV. Beyond the schema:
+ * binding names are unique, and a page-building target needs a project
+ * type with pages.
+ */
+export function parseStack(value: unknown): { stack?: StackRecommendation; problems: string[] } {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, ""));
+    } catch (e: any) {
+      return { problems: [`Output is not valid JSON: ${String(e?.message || e)}`] };
+    }
+  }
+  const parsed = StackRecommendationSchema.safeParse(raw);
+  if (parsed.success === false) {
+    return { problems: parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`) };
+  }
+  const stack = parsed.data;
+  const problems: string[] = [];
+  const names = stack.storage.map((s) => s.binding);
+  const dupes = names.filter((n, i) => names.indexOf(n) !== i);
+  if (dupes.length) problems.push(`storage: duplicate bindings ${[...new Set(dupes)].join(", ")}`);
+  if (stack.archetype) {
+    const { warning } = resolveTarget({ target: stack.target.id }, ARCHETYPES[stack.archetype.id].files("mvp"));
+    if (warning) problems.push(`target: ${warning}`);
+  }
+  return problems.length ? { problems } : { stack, problems };
+}
+
+/* ------------------------ model proposal ------------------------ */
+
+function stackPrompt(input: StackInput, fallback: StackRecommendation): PlannerMessage[] {
+  const sys =
+    "You are a pragmatic software architect choosing a stack for a Cloudflare Workers MVP. Prefer the fewest moving parts that cover the features. No markdown, no code fences.";
+  const user = [
+    "Idea:",
+    input.idea.slice(0, 1500),
+    ...(input.features?.length ? ["", "Features:", ...input.features.slice(0, 20).map((f) => `- ${f}`)] : []),
+    ...(input.validation ? ["", "Validation:", input.validation.slice(0, 1500)] : []),
+    "",
+    `Targets: ${Object.values(TARGETS).map((t) => `${t.id} (${t.label})`).join(", ")}.`,
+    `Project types: ${Object.values(ARCHETYPES).map((a) => `${a.id} (${a.label})`).join(", ")}.`,
+    `Auth approaches: ${Object.entries(AUTH).map(([id, a]) => `${id} (${a.label})`).join(", ")}.`,
+    `Storage kinds: kv, d1, r2, queue. Known integrations: ${INTEGRATIONS.map((i) => `${i.id} (secrets ${i.secrets.join(", ")})`).join("; ")}.`,
+    "",
+    "Keyword-based default (adjust it only where the idea calls for it; every rationale is one short sentence about this idea):",
+    JSON.stringify({ ...fallback, source: undefined }),
+    "",
+    "Return the same JSON shape: target, archetype, storage, auth, integrations. Only return valid JSON.",
+  ].join("\n");
+  return [
+    { role: "system", content: sys },
+    { role: "user", content: user },
+  ];
+}
+
+/**
+ * Ask the planner provider for a stack, falling back to defaultStack
+ * when there is no model or its answer doesn't validate.
+ */
+export async function recommendStack(
+  input: StackInput,
+  opts: {
+    env?: Record<string, any>;
+    provider?: PlannerProvider;
+    onUsage?: (completion: PlannerCompletion) => void;
+  } = {}
+): Promise<StackRecommendation> {
+  const fallback = defaultStack(input);
+  const provider = opts.provider || getPlannerProvider(opts.env);
+  try {
+    const completion = await provider.complete({ messages: stackPrompt(input, fallback), temperature: 0.2, maxTokens: 900 });
+    if (completion) opts.onUsage?.(completion);
+    if (!completion?.text) return fallback;
+    const { stack, problems } = parseStack(completion.text);
+    if (stack) return { ...stack, source: "model", accepted: undefined };
+    console.warn("DEBUG stack recommendation rejected:", problems);
+  } catch (e: any) {
+    console.warn(`DEBUG stack recommendation failed: ${String(e?.message || e).slice(0, 200)}`);
+  }
+  return fallback;
+}
+
+/* ------------------------ chat ------------------------ */
+
+/** Markdown for the chat, one line per choice with its rationale. */
+export function describeStack(stack: StackRecommendation): string {
+  const auth = AUTH[stack.auth.approach];
+  const authResources = describeManifest(auth.manifest || {});
+  return [
+    `**Target:** ${TARGETS[stack.target.id].label} — ${stack.target.rationale}`,
+    ...(stack.archetype
+      ? [`**Project type:** ${ARCHETYPES[stack.archetype.id].label} — ${stack.archetype.rationale}`]
+      : []),
+    "**Storage:**" + (stack.storage.length ? "" : " none"),
+    ...stack.storage.map((s) => `• ${s.kind.toUpperCase()} \`${s.binding}\` (${s.purpose}) — ${s.rationale}`),
+    `**Auth:** ${auth.label} — ${stack.auth.rationale}` + (authResources.length ? ` Uses ${authResources.join(", ")}.` : ""),
+    "**Integrations:**" + (stack.integrations.length ? "" : " none"),
+    ...stack.integrations.map(
+      (i) => `• ${i.label} (${i.purpose}; secrets ${i.secrets.join(", ") || "none"}) — ${i.rationale}`
+    ),
+  ].join("\n");
+}
+
+export const STACK_EDIT_HELP =
+  'Edit it with "/stack target <worker|worker-spa|hono|astro>", "/stack auth <none|admin-token|magic-link|oauth>", ' +
+  '"/stack add <kv|d1|r2|queue> <BINDING>", "/stack add <stripe|resend|openai|twilio>" or "/stack remove <BINDING|integration>".';
+
+const EDITED = "Chosen by you.";
+
+/**
+ * Apply one chat edit ("target hono", "auth oauth", "add r2 FILES",
+ * "add stripe", "remove FILES"). Any edit un-accepts the stack.
+ */
+export function editStack(stack: StackRecommendation, command: string): { stack: StackRecommendation; error?: string } {
+  const [verb = "", arg = "", name] = command.trim().split(/\s+/);
+  const value = arg.toLowerCase();
+  const next: StackRecommendation = { ...stack, source: "user", accepted: false };
+
+  if (verb === "target") {
+    if (!isTargetId(value)) return { stack, error: `Unknown target "${arg}". ${STACK_EDIT_HELP}` };
+    const checked = parseStack({ ...next, target: { id: value, rationale: EDITED } });
+    if (!checked.stack) return { stack, error: checked.problems.join("; ") };
+    return { stack: checked.stack };
+  }
+  if (verb === "auth") {
+    if (!isAuthApproach(value)) return { stack, error: `Unknown auth approach "${arg}". ${STACK_EDIT_HELP}` };
+    return { stack: { ...next, auth: { approach: value, rationale: EDITED } } };
+  }
+  if (verb === "add") {
+    const kinds: StackStorage["kind"][] = ["kv", "d1", "r2", "queue"];
+    if ((kinds as string[]).includes(value)) {
+      const binding = (name || (value === "d1" ? "DB" : `${value.toUpperCase()}_DATA`)).toUpperCase();
+      const checked = parseStack({
+        ...next,
+        storage: [...stack.storage, { kind: value, binding, purpose: "Added by you", rationale: EDITED }],
+      });
+      if (!checked.stack) return { stack, error: checked.problems.join("; ") };
+      return { stack: checked.stack };
+    }
+    const spec = INTEGRATIONS.find((i) => i.id === value);
+    if (!spec) return { stack, error: `Unknown storage kind or integration "${arg}". ${STACK_EDIT_HELP}` };
+    if (stack.integrations.some((i) => i.id === spec.id)) return { stack: next };
+    const { keywords: _keywords, fromValidation: _fromValidation, ...integration } = spec;
+    return { stack: { ...next, integrations: [...stack.integrations, { ...integration, rationale: EDITED }] } };
+  }
+  if (verb === "remove") {
+    const storage = stack.storage.filter((s) => s.binding.toLowerCase() !== value);
+    const integrations = stack.integrations.filter((i) => i.id !== value);
+    if (storage.length === stack.storage.length && integrations.length === stack.integrations.length) {
+      return { stack, error: `Nothing called "${arg}" in the stack.` };
+    }
+    return { stack: { ...next, storage, integrations } };
+  }
+  return { stack, error: STACK_EDIT_HELP };
+}
+
+/* ------------------------ planner constraints ------------------------ */
+
+export type StackConstraints = {
+  target: TargetId;
+  archetype?: ArchetypeId;
+  // Storage, auth resources and integration secrets the code may use
+  manifest: BindingManifest;
+  // Prompt and plan lines, one per choice
+  lines: string[];
+};
+
+/**
+ * What an accepted stack forces on the plan. Unaccepted or invalid
+ * stacks constrain nothing (the caller gets undefined and plans as usual).
+ */
+export function stackConstraints(value: unknown): StackConstraints | undefined {
+  if (!value) return undefined;
+  const { stack, problems } = parseStack(value);
+  if (!stack) {
+    console.warn("Ignoring an invalid stack:", problems);
+    return undefined;
+  }
+  if (!stack.accepted) {
+    console.warn("Ignoring a stack the user has not accepted");
+    return undefined;
+  }
+  const byKind = (kind: StackStorage["kind"]) =>
+    stack.storage.filter((s) => s.kind === kind).map((s) => ({ binding: s.binding, purpose: s.purpose }));
+  const auth = AUTH[stack.auth.approach];
+  const manifest = mergeManifests(
+    { kv: byKind("kv"), d1: byKind("d1"), r2: byKind("r2"), queues: byKind("queue") },
+    auth.manifest,
+    {
+      secrets: stack.integrations.flatMap((i) => i.secrets.map((name) => ({ name, purpose: `${i.label}: ${i.purpose}` }))),
+    }
+  );
+  return {
+    target: stack.target.id,
+    archetype: stack.archetype && isArchetypeId(stack.archetype.id) ? stack.archetype.id : undefined,
+    manifest,
+    lines: [
+      `Target: ${TARGETS[stack.target.id].label}.`,
+      `Storage: ${stack.storage.length ? stack.storage.map((s) => `${s.binding} (${s.kind}: ${s.purpose})`).join(", ") : "none beyond the project type's"}; declare no other KV, D1, R2 or queue bindings.`,
+      `Auth: ${auth.instructions}`,
+      stack.integrations.length
+        ? `Integrations: ${stack.integrations.map((i) => `${i.label} for ${i.purpose.toLowerCase()} (secrets ${i.secrets.join(", ")})`).join("; ")}; call their HTTP APIs with fetch, no SDKs.`
+        : "Integrations: none; do not call third-party APIs.",
+    ],
+  };
+}
+
+/**
+ * Storage the model declared outside the stack (the project type's own
+ * bindings are always allowed), as planner problems.
+ */
+export function stackViolations(
+  constraints: StackConstraints,
+  allowed: BindingManifest,
+  declared: BindingManifest | undefined
+): string[] {
+  const ok = new Set(
+    [constraints.manifest, allowed].flatMap((m) => [
+      ...(m.kv || []).map((b) => b.binding),
+      ...(m.d1 || []).map((b) => b.binding),
+      ...(m.r2 || []).map((b) => b.binding),
+      ...(m.queues || []).map((b) => b.binding),
+    ])
+  );
+  const extra = [
+    ...(declared?.kv || []),
+    ...(declared?.d1 || []),
+    ...(declared?.r2 || []),
+    ...(declared?.queues || []),
+  ]
+    .map((b) => b.binding)
+    .filter((b) => !ok.has(b));
+  return extra.length
+    ? [`bindings: not in the accepted stack: ${extra.join(", ")}; use only ${[...ok].join(", ") || "no storage"}`]
+    : [];
+}
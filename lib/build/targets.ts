@@ -0,0 +1,319 @@
+// lib/build/targets.ts
+
+/**
+ * Output targets: what the generated project is built with. Archetypes
+ * (archetypes.ts) decide *what* the MVP does; the target decides the
+ * shape of the code. Each target carries its planner instructions, how
+ * the archetype's page files map onto it, the canonical config files and
+ * package.json entries the sanitizer applies, how static assets are
+ * served, and what the deploy workflow must run before `wrangler deploy`.
+ * The Worker entry stays functions/index.ts everywhere, so the rendered
+ * schema, form and admin handlers work the same on every target.
+ */
+
+import type { PlannedFile } from "./planProjectFiles";
+import type { BindingManifest } from "./bindings";
+
+export type TargetId = "worker" | "worker-spa" | "hono" | "astro";
+
+export type TargetAssets = {
+  // Served by Workers static assets ([assets] in wrangler.toml) as env.ASSETS
+  directory: string;
+  notFoundHandling?: "single-page-application" | "404-page";
+  // Paths the Worker must see before the assets (e.g. SPA fallback would swallow them)
+  runWorkerFirst?: string[];
+};
+
+export type OutputTarget = {
+  id: TargetId;
+  label: string;
+  // Appended to the planner prompt in place of the plain-Worker default
+  instructions: string;
+  // Rewrite the archetype's file list for this target
+  files: (files: PlannedFile[], ideaId: string) => PlannedFile[];
+  // Without this the Worker serves public/ from the ASSETS KV namespace ([site])
+  assets?: TargetAssets;
+  // Merged into package.json by the sanitizer (target entries win for scripts)
+  packageJson?: {
+    scripts?: Record<string, string>;
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+  };
+  // Written verbatim by the sanitizer; the model never plans these
+  configFiles?: Record<string, string>;
+  // Deploy workflow: install even without a lockfile, and run the build first
+  workflow?: { install?: boolean; build?: string };
+};
+
+const ENTRY = "functions/index.ts";
+// The archetypes' KV asset serving, which Workers static assets replace
+const KV_ASSETS =
+  /serve (?:\/index\.html and other )?static files from KV \(ASSETS\)(?:\. Fallback to a plain text message if not found\.|[;.])?\s*/;
+
+/* ------------------------ shared rewrites ------------------------ */
+
+function describeAssets(assets: TargetAssets): string {
+  return (
+    `[assets] directory=${assets.directory} binding=ASSETS` +
+    (assets.notFoundHandling ? ` not_found_handling=${assets.notFoundHandling}` : "") +
+    (assets.runWorkerFirst?.length ? ` run_worker_first=${JSON.stringify(assets.runWorkerFirst)}` : "")
+  );
+}
+
+const ASSETS_FALLBACK =
+  "Static files are served by Workers static assets before the Worker runs; for any other path not handled here return env.ASSETS.fetch(request) when env.ASSETS is set, else a 404.";
+
+/**
+ * Entry and wrangler descriptions for a target that serves assets itself.
+ * `style` is inserted after "Cloudflare Worker" (e.g. "as a Hono app").
+ */
+function withAssets(files: PlannedFile[], ideaId: string, assets: TargetAssets, style = ""): PlannedFile[] {
+  return files.map((f) => {
+    if (f.path === ENTRY) {
+      const m = f.description.match(/^(Cloudflare Worker[^:]*):\s*([\s\S]*)$/);
+      const body = (m ? m[2] : f.description).replace(KV_ASSETS, "").trim();
+      return {
+        ...f,
+        description: `${m ? m[1] : "Cloudflare Worker"}${style ? ` ${style}` : ""}: ${body ? `${body} ` : ""}${ASSETS_FALLBACK}`,
+      };
+    }
+    if (f.path === "wrangler.toml") {
+      const bindings = f.description.match(/\. Bindings: .*$/)?.[0] || ".";
+      return {
+        ...f,
+        description: `Wrangler config: name=mvp-${ideaId}, main=${ENTRY}, compatibility_date=2024-11-06, ${describeAssets(assets)} (no [site], no ASSETS KV)${bindings}`,
+      };
+    }
+    return f;
+  });
+}
+
+function pageOf(files: PlannedFile[]): { page?: PlannedFile; script?: PlannedFile } {
+  return {
+    page: files.find((f) => f.path === "public/index.html"),
+    script: files.find((f) => f.path === "public/app.js"),
+  };
+}
+
+// "Link /styles.css and /app.js." only makes sense for hand-written pages
+const stripLinks = (s: string) => s.replace(/\s*Link \/styles\.css(?: and \/app\.js)?(?: if present)?\./, "").trim();
+
+/* ------------------------ targets ------------------------ */
+
+const WORKER: OutputTarget = {
+  id: "worker",
+  label: "Worker with static assets",
+  instructions: "Prefer Cloudflare Worker (functions/index.ts) + public assets.",
+  files: (files) => files,
+};
+
+const SPA_ASSETS: TargetAssets = {
+  directory: "./dist",
+  notFoundHandling: "single-page-application",
+  runWorkerFirst: ["/api/*", "/admin", "/admin/*"],
+};
+
+const WORKER_SPA: OutputTarget = {
+  id: "worker-spa",
+  label: "Worker + Vite/React SPA",
+  instructions:
+    "The frontend is a Vite + React single-page app: index.html at the repo root loads /src/main.tsx, components live in src/*.tsx, plain static files in public/. The Worker (functions/index.ts) only serves /api/* and /admin; Workers static assets serve the built dist/ with SPA fallback. Never plan vite.config.ts; package.json gets its scripts and React/Vite dependencies from the build.",
+  assets: SPA_ASSETS,
+  files(files, ideaId) {
+    const { page, script } = pageOf(files);
+    if (!page) return withAssets(files, ideaId, SPA_ASSETS);
+    const ui = [
+      {
+        path: "index.html",
+        description:
+          "Vite HTML entry: title, <link rel='stylesheet' href='/styles.css'>, <div id='root'></div>, <script type='module' src='/src/main.tsx'></script>.",
+      },
+      {
+        path: "src/main.tsx",
+        description: "React entry: createRoot(document.getElementById('root')!).render(<StrictMode><App /></StrictMode>) with App from ./App.",
+        dependsOn: ["src/App.tsx"],
+      },
+      {
+        path: "src/App.tsx",
+        description:
+          `React component (default export App, hooks only, fetch for API calls): ${stripLinks(page.description)}` +
+          (script ? ` Behaviour: ${script.description}` : ""),
+        dependsOn: [ENTRY],
+      },
+    ];
+    const rest = files.filter((f) => f !== page && f !== script);
+    return withAssets([...rest, ...ui], ideaId, SPA_ASSETS);
+  },
+  packageJson: {
+    scripts: { dev: "vite", build: "vite build", preview: "vite preview" },
+    dependencies: { react: "^18.3.1", "react-dom": "^18.3.1" },
+    devDependencies: { vite: "^5.4.0", "@vitejs/plugin-react": "^4.3.0" },
+  },
+  configFiles: {
+    "vite.config.ts": `// Rendered by the build; the SPA is built to dist/ and served by Workers static assets.
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+
+export default defineConfig({
+  plugins: [react()],
+  build: { outDir: "dist", emptyOutDir: true },
+});
+`,
+  },
+  workflow: { install: true, build: "npm run build" },
+};
+
+const PUBLIC_ASSETS: TargetAssets = { directory: "./public" };
+
+const HONO: OutputTarget = {
+  id: "hono",
+  label: "Hono API",
+  instructions:
+    "The Worker (functions/index.ts) is a Hono app: `const app = new Hono<{ Bindings: Record<string, any> }>()`, routes registered with app.get/app.post/app.all, `export default app`. Rendered handlers take (request, env), so mount them as `(c) => handler(c.req.raw, c.env)`. Workers static assets serve public/ before the Worker runs. package.json gets the hono dependency from the build.",
+  assets: PUBLIC_ASSETS,
+  files: (files, ideaId) =>
+    withAssets(
+      files,
+      ideaId,
+      PUBLIC_ASSETS,
+      "as a Hono app (import { Hono } from 'hono'; export default app; mount rendered handlers as (c) => handler(c.req.raw, c.env))"
+    ),
+  packageJson: { dependencies: { hono: "^4.6.0" } },
+  workflow: { install: true },
+};
+
+const ASTRO_ASSETS: TargetAssets = { directory: "./dist", notFoundHandling: "404-page" };
+
+const ASTRO: OutputTarget = {
+  id: "astro",
+  label: "Astro static site",
+  instructions:
+    "Pages are an Astro static site: src/pages/*.astro using a shared src/layouts/Layout.astro, plain static files (styles, client scripts) in public/ linked with absolute paths. `astro build` writes dist/, which Workers static assets serve; the Worker (functions/index.ts) only answers /api/* and /admin. Never plan astro.config.mjs; package.json gets its scripts and the astro dependency from the build.",
+  assets: ASTRO_ASSETS,
+  files(files, ideaId) {
+    const { page } = pageOf(files);
+    if (!page) return withAssets(files, ideaId, ASTRO_ASSETS);
+    const ui = [
+      {
+        path: "src/layouts/Layout.astro",
+        description:
+          "Astro layout: props { title }, <html> with head (charset, viewport, title, <link rel='stylesheet' href='/styles.css'>), <body><slot /></body>.",
+      },
+      {
+        path: "src/pages/index.astro",
+        description:
+          `Astro page wrapped in Layout from ../layouts/Layout.astro: ${stripLinks(page.description)}` +
+          (files.some((f) => f.path === "public/app.js") ? " Load the client script with <script is:inline src='/app.js'></script>." : ""),
+        dependsOn: ["src/layouts/Layout.astro", ENTRY],
+      },
+    ];
+    const rest = files
+      .filter((f) => f !== page)
+      .map((f) => (f.dependsOn?.includes(page.path) ? { ...f, dependsOn: f.dependsOn.map((d) => (d === page.path ? "src/pages/index.astro" : d)) } : f));
+    return withAssets([...rest, ...ui], ideaId, ASTRO_ASSETS);
+  },
+  packageJson: {
+    scripts: { dev: "astro dev", build: "astro build", preview: "astro preview" },
+    dependencies: { astro: "^4.16.0" },
+  },
+  configFiles: {
+    "astro.config.mjs": `// Rendered by the build; a static site in dist/, served by Workers static assets.
+import { defineConfig } from "astro/config";
+
+export default defineConfig({
+  output: "static",
+  outDir: "./dist",
+});
+`,
+  },
+  workflow: { install: true, build: "npm run build" },
+};
+
+export const TARGETS: Record<TargetId, OutputTarget> = {
+  worker: WORKER,
+  "worker-spa": WORKER_SPA,
+  hono: HONO,
+  astro: ASTRO,
+};
+
+export const DEFAULT_TARGET: TargetId = "worker";
+
+export function isTargetId(value: unknown): value is TargetId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(TARGETS, value);
+}
+
+/**
+ * The payload's `target`, or the plain Worker; unknown ids are ignored.
+ * Targets that build pages (SPA, Astro) need a project with a page to
+ * build: for page-less archetypes (e.g. api-only) the plain Worker is
+ * used instead, with a warning for the user.
+ */
+export function resolveTarget(
+  payload: { target?: unknown },
+  files: PlannedFile[]
+): { target: OutputTarget; warning?: string } {
+  const fallback = TARGETS[DEFAULT_TARGET];
+  if (!isTargetId(payload.target)) {
+    if (payload.target) console.warn(`Unknown output target "${String(payload.target)}"; using ${DEFAULT_TARGET}`);
+    return { target: fallback };
+  }
+  const target = TARGETS[payload.target];
+  if (target.workflow?.build && !files.some((f) => f.path === "public/index.html")) {
+    return {
+      target: fallback,
+      warning: `This project type has no pages to build, so the "${target.label}" target was replaced by "${fallback.label}".`,
+    };
+  }
+  return { target };
+}
+
+/* ------------------------ consumers ------------------------ */
+
+/** Config files the sanitizer writes for a target: the model never plans them. */
+export function isTargetConfigPath(target: TargetId | undefined, path: string): boolean {
+  return !!target && isTargetId(target) && Object.prototype.hasOwnProperty.call(TARGETS[target].configFiles || {}, path);
+}
+
+/**
+ * Targets with Workers static assets have no ASSETS KV namespace (the
+ * [assets] binding takes the name), so it is never provisioned.
+ */
+export function targetManifest(target: OutputTarget, manifest: BindingManifest): BindingManifest {
+  if (!target.assets || !manifest.kv) return manifest;
+  const kv = manifest.kv.filter((b) => b.binding !== "ASSETS");
+  const { kv: _kv, ...rest } = manifest;
+  return kv.length ? { ...rest, kv } : rest;
+}
+
+/**
+ * Merge the target's scripts and dependencies into a package.json.
+ * The target's scripts win (the workflow runs `build`); dependency
+ * versions already pinned by the project are kept.
+ */
+export function withTargetPackage(pkg: Record<string, any>, target: OutputTarget): Record<string, any> {
+  const extra = target.packageJson;
+  if (!extra) return pkg;
+  const merge = (key: "dependencies" | "devDependencies") =>
+    extra[key] ? { [key]: { ...extra[key], ...(pkg[key] || {}) } } : {};
+  return {
+    ...pkg,
+    scripts: { ...(pkg.scripts || {}), ...(extra.scripts || {}) },
+    ...merge("dependencies"),
+    ...merge("devDependencies"),
+  };
+}
+
+/** The [assets] table for wrangler.toml. */
+export function assetsConfig(assets: TargetAssets): Record<string, string | string[]> {
+  return {
+    directory: assets.directory,
+    binding: "ASSETS",
+    ...(assets.notFoundHandling ? { not_found_handling: assets.notFoundHandling } : {}),
+    ...(assets.runWorkerFirst?.length ? { run_worker_first: assets.runWorkerFirst } : {}),
+  };
+}
+
+/** One line for codegen prompts. */
+export function describeTarget(target: OutputTarget): string | undefined {
+  return target.id === DEFAULT_TARGET ? undefined : `Output target: ${target.label}. ${target.instructions}`;
+}
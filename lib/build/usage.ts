@@ -0,0 +1,265 @@
+// lib/build/usage.ts
+
+import type { KvLike } from "./buildCheckpoints";
+
+/**
+ * Token/cost accounting for every model call we make: the planner, code
+ * generation and repair (here), and validation, branding, logo, idea and
+ * assistant calls in the worker (worker/utils/usage.js). Totals are kept
+ * per build (`usage:build:<id>`) and per idea (`usage:idea:<id>`).
+ */
+
+export type UsageSource =
+  | "planner"
+  | "codegen"
+  | "repair"
+  | "validate"
+  | "brand"
+  | "logo"
+  | "idea"
+  | "assistant"
+  | "features"
+  | "stack";
+
+export type UsageRecord = {
+  source: UsageSource;
+  model?: string;
+  promptTokens: number;
+  completionTokens: number;
+  images?: number;
+  // True when the provider didn't report usage and we estimated from text length
+  estimated?: boolean;
+  costUsd: number;
+};
+
+export type UsageBucket = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export type UsageTotals = UsageBucket & {
+  bySource: Partial<Record<UsageSource, UsageBucket>>;
+  estimated?: boolean;
+};
+
+/* ------------------------ pricing ------------------------ */
+
+// USD per 1M tokens; images are per image. Override with MODEL_PRICES_JSON.
+export type ModelPrices = Record<string, { input?: number; output?: number; image?: number }>;
+
+const DEFAULT_PRICES: ModelPrices = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "dall-e-3": { image: 0.04 },
+  default: { input: 2.5, output: 10, image: 0.04 },
+};
+
+export function getModelPrices(runtimeEnv?: Record<string, any>): ModelPrices {
+  const raw = runtimeEnv?.MODEL_PRICES_JSON;
+  if (typeof raw !== "string" || !raw.trim()) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(raw) };
+  } catch {
+    console.warn("MODEL_PRICES_JSON is not valid JSON; using default prices");
+    return DEFAULT_PRICES;
+  }
+}
+
+function priceFor(model: string | undefined, prices: ModelPrices) {
+  if (model && prices[model]) return prices[model];
+  // Dated snapshots (gpt-4o-mini-2024-07-18) price like their base model; the longest
+  // base wins, so gpt-4o-mini-… isn't priced as gpt-4o
+  const base =
+    model &&
+    Object.keys(prices)
+      .filter((k) => k !== "default" && model.startsWith(k + "-"))
+      .sort((a, b) => b.length - a.length)[0];
+  return (base && prices[base]) || prices.default || {};
+}
+
+/* ------------------------ records ------------------------ */
+
+// Rough chars→tokens ratio for providers that don't report usage
+export function estimateTokens(text: string | undefined): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+/**
+ * Accepts the usage shapes we see in the wild: Chat Completions
+ * (prompt_tokens/completion_tokens), Responses (input_tokens/output_tokens)
+ * and camelCase from the agent.
+ */
+export function normalizeUsage(raw: any): { promptTokens: number; completionTokens: number } | null {
+  if (!raw || typeof raw !== "object") return null;
+  const num = (...vals: unknown[]) => {
+    const v = vals.find((x) => typeof x === "number" && Number.isFinite(x));
+    return (v as number) ?? 0;
+  };
+  const promptTokens = num(raw.prompt_tokens, raw.input_tokens, raw.promptTokens, raw.inputTokens);
+  const completionTokens = num(raw.completion_tokens, raw.output_tokens, raw.completionTokens, raw.outputTokens);
+  if (promptTokens === 0 && completionTokens === 0) return null;
+  return { promptTokens, completionTokens };
+}
+
+/**
+ * Build a priced record from a provider's raw usage. Pass `estimate`
+ * (request/response text) to fall back to a length-based estimate.
+ */
+export function makeUsageRecord(
+  source: UsageSource,
+  input: {
+    model?: string;
+    usage?: unknown;
+    images?: number;
+    estimate?: { prompt?: string; completion?: string };
+  },
+  prices: ModelPrices = DEFAULT_PRICES
+): UsageRecord {
+  let tokens = normalizeUsage(input.usage);
+  let estimated = false;
+  if (!tokens && input.estimate) {
+    tokens = {
+      promptTokens: estimateTokens(input.estimate.prompt),
+      completionTokens: estimateTokens(input.estimate.completion),
+    };
+    estimated = true;
+  }
+  const { promptTokens = 0, completionTokens = 0 } = tokens || {};
+  const price = priceFor(input.model, prices);
+  const costUsd =
+    (promptTokens * (price.input ?? 0) + completionTokens * (price.output ?? 0)) / 1_000_000 +
+    (input.images ?? 0) * (price.image ?? 0);
+
+  return {
+    source,
+    model: input.model,
+    promptTokens,
+    completionTokens,
+    ...(input.images ? { images: input.images } : {}),
+    ...(estimated ? { estimated } : {}),
+    costUsd,
+  };
+}
+
+/* ------------------------ totals ------------------------ */
+
+function emptyBucket(): UsageBucket {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+export function emptyTotals(): UsageTotals {
+  return { ...emptyBucket(), bySource: {} };
+}
+
+function addBucket(into: UsageBucket, from: UsageBucket) {
+  into.calls += from.calls;
+  into.promptTokens += from.promptTokens;
+  into.completionTokens += from.completionTokens;
+  into.totalTokens += from.totalTokens;
+  into.costUsd += from.costUsd;
+}
+
+/** Add one record to `totals` in place (and return it). */
+export function addUsage(totals: UsageTotals, rec: UsageRecord): UsageTotals {
+  const bucket: UsageBucket = {
+    calls: 1,
+    promptTokens: rec.promptTokens,
+    completionTokens: rec.completionTokens,
+    totalTokens: rec.promptTokens + rec.completionTokens,
+    costUsd: rec.costUsd,
+  };
+  addBucket(totals, bucket);
+  addBucket((totals.bySource[rec.source] ||= emptyBucket()), bucket);
+  if (rec.estimated) totals.estimated = true;
+  return totals;
+}
+
+/** Merge `from` into `into` in place (and return it). */
+export function mergeUsage(into: UsageTotals, from: UsageTotals): UsageTotals {
+  addBucket(into, from);
+  for (const [source, bucket] of Object.entries(from.bySource)) {
+    addBucket((into.bySource[source as UsageSource] ||= emptyBucket()), bucket!);
+  }
+  if (from.estimated) into.estimated = true;
+  return into;
+}
+
+export function formatUsd(n: number): string {
+  return n < 0.01 && n > 0 ? `$${n.toFixed(4)}` : `$${n.toFixed(2)}`;
+}
+
+/* ------------------------ budget ------------------------ */
+
+/**
+ * Per-idea spend cap in USD: IDEA_BUDGET_USD, or the value from the
+ * request when that is lower. A request can tighten the server's cap but
+ * never raise it; it sets the cap only when the server has none.
+ * Undefined means no cap.
+ */
+export function getBudgetUsd(runtimeEnv?: Record<string, any>, override?: unknown): number | undefined {
+  const [requested, serverCap] = [override, runtimeEnv?.IDEA_BUDGET_USD].map((v) => {
+    const n = typeof v === "number" ? v : parseFloat(String(v ?? ""));
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+  });
+  if (requested !== undefined && serverCap !== undefined) return Math.min(requested, serverCap);
+  return requested ?? serverCap;
+}
+
+/* ------------------------ storage ------------------------ */
+
+export type UsageStore = {
+  loadBuild(buildId: string): Promise<UsageTotals | null>;
+  saveBuild(buildId: string, totals: UsageTotals): Promise<void>;
+  loadIdea(ideaId: string): Promise<UsageTotals | null>;
+  // Read-modify-write; fine for the low write rate of a single user's idea
+  addToIdea(ideaId: string, delta: UsageTotals): Promise<UsageTotals>;
+};
+
+const BUILD_PREFIX = "usage:build:";
+const IDEA_PREFIX = "usage:idea:";
+
+export function createKvUsageStore(kv: KvLike): UsageStore {
+  const load = async (key: string) => {
+    try {
+      const raw = await kv.get(key);
+      return raw ? (JSON.parse(raw) as UsageTotals) : null;
+    } catch {
+      return null;
+    }
+  };
+  return {
+    loadBuild: (buildId) => load(BUILD_PREFIX + buildId),
+    async saveBuild(buildId, totals) {
+      await kv.put(BUILD_PREFIX + buildId, JSON.stringify(totals));
+    },
+    loadIdea: (ideaId) => load(IDEA_PREFIX + ideaId),
+    async addToIdea(ideaId, delta) {
+      const next = mergeUsage((await load(IDEA_PREFIX + ideaId)) || emptyTotals(), delta);
+      await kv.put(IDEA_PREFIX + ideaId, JSON.stringify(next));
+      return next;
+    },
+  };
+}
+
+// Same in-process fallback as the checkpoint store
+const memory = new Map<string, string>();
+
+export function getUsageStore(runtimeEnv?: Record<string, any>): UsageStore {
+  const kv: KvLike | undefined = runtimeEnv?.BUILD_KV || runtimeEnv?.KV;
+  if (kv && typeof kv.get === "function" && typeof kv.put === "function") {
+    return createKvUsageStore(kv);
+  }
+  return createKvUsageStore({
+    async get(key) {
+      return memory.get(key) ?? null;
+    },
+    async put(key, value) {
+      memory.set(key, value);
+    },
+  });
+}
@@ -0,0 +1,322 @@
+// lib/build/verifyGeneratedFiles.ts
+//
+// Static checks over a generated project, run between sanitize and publish.
+// Scripts go through sucrase's parser (Worker-safe, no typescript compiler)
+// and report its syntax error; CSS and HTML get light scanners that catch
+// the breakage we actually see from models (truncated files, unclosed
+// blocks) without trying to be full parsers.
+
+import { transform } from "sucrase";
+import { parseToml } from "./wranglerToml";
+
+type FileLike = { path: string; content: string };
+
+export type VerificationRule =
+  | "syntax"
+  | "unresolved-import"
+  | "missing-asset"
+  | "worker-entry";
+
+export type Diagnostic = {
+  path: string;
+  rule: VerificationRule;
+  message: string;
+  line?: number;
+};
+
+export type VerificationReport = {
+  ok: boolean;
+  diagnostics: Diagnostic[];
+  // Distinct paths with at least one diagnostic, in report order
+  failingPaths: string[];
+};
+
+const SCRIPT_EXT = /\.(m?[jt]s)$/i;
+const JSX_EXT = /\.[jt]sx$/i;
+const RESOLVE_EXTS = [".ts", ".tsx", ".js", ".mjs", ".jsx", ".json"];
+export const ENTRY_CANDIDATES = ["functions/index.ts", "src/index.ts", "worker/index.ts", "index.ts", "src/index.js"];
+
+function normPath(p: string): string {
+  return p.replace(/\\/g, "/").replace(/^\/+/, "");
+}
+
+function lineAt(src: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index && i < src.length; i++) if (src[i] === "\n") line++;
+  return line;
+}
+
+/* ------------------------ JS / TS ------------------------ */
+
+const SUCRASE_ERROR = /^Error transforming [^:]*: |\s*\(\d+:\d+\)$/g;
+
+/**
+ * Parse a script (TypeScript and JSX by extension) and return the
+ * parser's first syntax error. Sucrase stops at the first error and
+ * checks syntax only, not types or scopes.
+ */
+export function parseScript(src: string, path: string): { line: number; message: string } | null {
+  const transforms: ("typescript" | "jsx")[] = [];
+  if (/\.(m?ts|tsx)$/i.test(path)) transforms.push("typescript");
+  if (JSX_EXT.test(path)) transforms.push("jsx");
+  try {
+    transform(src, { transforms, filePath: path, disableESTransforms: true });
+    return null;
+  } catch (e: unknown) {
+    const err = e as { message?: string; pos?: number; loc?: { line: number; column: number } };
+    const message = String(err?.message || e).replace(SUCRASE_ERROR, "");
+    if (!err?.loc) return { line: 1, message };
+    // An error at the very end usually means the model stopped mid-file
+    const atEnd = typeof err.pos === "number" && err.pos >= src.trimEnd().length;
+    return {
+      line: err.loc.line,
+      message: `${message} at column ${err.loc.column}` + (atEnd ? " (file may be truncated)" : ""),
+    };
+  }
+}
+
+/* ------------------------ CSS ------------------------ */
+
+export function scanCss(src: string): { line: number; message: string } | null {
+  let depth = 0;
+  let lastOpen = 0;
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (c === "/" && src[i + 1] === "*") {
+      const end = src.indexOf("*/", i + 2);
+      if (end === -1) return { line: lineAt(src, i), message: "unterminated comment" };
+      i = end + 1;
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      const end = src.indexOf(c, i + 1);
+      if (end === -1) return { line: lineAt(src, i), message: "unterminated string" };
+      i = end;
+      continue;
+    }
+    if (c === "{") { depth++; lastOpen = i; }
+    if (c === "}") {
+      depth--;
+      if (depth < 0) return { line: lineAt(src, i), message: "unexpected '}'" };
+    }
+  }
+  if (depth > 0) return { line: lineAt(src, lastOpen), message: "unclosed '{' (file may be truncated)" };
+  return null;
+}
+
+/* ------------------------ HTML ------------------------ */
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+// Elements whose end tag may be omitted; we don't hold them to strict nesting
+const OPTIONAL_CLOSE = new Set(["p", "li", "dt", "dd", "tr", "td", "th", "thead", "tbody", "tfoot", "option", "html", "head", "body", "colgroup"]);
+
+export function scanHtml(src: string): { line: number; message: string } | null {
+  const stack: { tag: string; at: number }[] = [];
+  const tagRe = /<!--|<(\/?)([a-zA-Z][\w-]*)([^>]*)>/g;
+  let m: RegExpExecArray | null;
+
+  while ((m = tagRe.exec(src))) {
+    if (m[0] === "<!--") {
+      const end = src.indexOf("-->", m.index + 4);
+      if (end === -1) return { line: lineAt(src, m.index), message: "unterminated comment" };
+      tagRe.lastIndex = end + 3;
+      continue;
+    }
+    const closing = m[1] === "/";
+    const tag = m[2].toLowerCase();
+    const selfClosing = /\/\s*$/.test(m[3]);
+
+    if (!closing && (tag === "script" || tag === "style")) {
+      // Raw text: skip straight to the matching end tag
+      const end = src.toLowerCase().indexOf(`</${tag}`, tagRe.lastIndex);
+      if (end === -1) return { line: lineAt(src, m.index), message: `unclosed <${tag}>` };
+      tagRe.lastIndex = end;
+      stack.push({ tag, at: m.index });
+      continue;
+    }
+    if (VOID_TAGS.has(tag) || selfClosing) continue;
+
+    if (!closing) {
+      stack.push({ tag, at: m.index });
+      continue;
+    }
+
+    // Pop implicitly-closed optional elements until we find the match
+    let idx = stack.length - 1;
+    while (idx >= 0 && stack[idx].tag !== tag && OPTIONAL_CLOSE.has(stack[idx].tag)) idx--;
+    if (idx < 0 || stack[idx].tag !== tag) {
+      if (OPTIONAL_CLOSE.has(tag)) continue;
+      return { line: lineAt(src, m.index), message: `unexpected </${tag}>` };
+    }
+    stack.length = idx;
+  }
+
+  const unclosed = stack.filter((s) => !OPTIONAL_CLOSE.has(s.tag));
+  if (unclosed.length) {
+    const last = unclosed[unclosed.length - 1];
+    return { line: lineAt(src, last.at), message: `unclosed <${last.tag}> (file may be truncated)` };
+  }
+  return null;
+}
+
+/* ------------------------ cross-file checks ------------------------ */
+
+function dirname(p: string): string {
+  const i = p.lastIndexOf("/");
+  return i === -1 ? "" : p.slice(0, i);
+}
+
+function joinPath(base: string, rel: string): string {
+  const parts = (base ? base.split("/") : []).concat(rel.split("/"));
+  const out: string[] = [];
+  for (const part of parts) {
+    if (!part || part === ".") continue;
+    if (part === "..") out.pop();
+    else out.push(part);
+  }
+  return out.join("/");
+}
+
+function resolveModule(fromPath: string, spec: string, known: Set<string>): boolean {
+  const target = joinPath(dirname(fromPath), spec);
+  const candidates = [target];
+  // TS ESM convention: `./x.js` may refer to `./x.ts`
+  const stripped = target.replace(/\.(m?js|jsx)$/, "");
+  for (const ext of RESOLVE_EXTS) {
+    candidates.push(target + ext, stripped + ext, `${target}/index${ext}`);
+  }
+  return candidates.some((c) => known.has(c));
+}
+
+function findRelativeImports(src: string): { spec: string; index: number }[] {
+  const out: { spec: string; index: number }[] = [];
+  const patterns = [
+    /\b(?:import|export)\s[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]/g,
+    /\bimport\s*['"]([^'"]+)['"]/g,
+    /\bimport\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+    /\brequire\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  ];
+  for (const re of patterns) {
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(src))) {
+      if (m[1].startsWith("./") || m[1].startsWith("../")) out.push({ spec: m[1], index: m.index });
+    }
+  }
+  return out;
+}
+
+/**
+ * Local <script src>, <link href> and <img src> references from an HTML
+ * file. Absolute paths resolve against the static root (public/).
+ */
+function findAssetRefs(src: string): { ref: string; index: number }[] {
+  const out: { ref: string; index: number }[] = [];
+  const re = /<(script|link|img)\b[^>]*?\s(src|href)\s*=\s*["']([^"']+)["']/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(src))) {
+    const ref = m[3].trim();
+    if (!ref || /^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i.test(ref)) continue; // external, data:, anchors
+    if (m[1].toLowerCase() === "link" && !/\.\w+($|[?#])/.test(ref)) continue; // e.g. canonical links
+    out.push({ ref: ref.replace(/[?#].*$/, ""), index: m.index });
+  }
+  return out;
+}
+
+function findWorkerEntry(files: Map<string, string>): { path?: string; declared?: string } {
+  const toml = files.get("wrangler.toml");
+  const main = toml ? parseToml(toml).data?.main : undefined;
+  const declared = typeof main === "string" && main ? main : undefined;
+  if (declared) return { path: normPath(declared.replace(/^\.\//, "")), declared };
+  return { path: ENTRY_CANDIDATES.find((c) => files.has(c)) };
+}
+
+function checkWorkerEntry(src: string): string | null {
+  const m = src.match(/export\s+default\s+([\s\S]{0,40})/);
+  if (!m) return "Worker entry has no default export";
+  // `export default { ... }` must define fetch; identifiers (e.g. a Hono app) are trusted
+  if (m[1].trimStart().startsWith("{") && !/\bfetch\s*[(:]|\bfetch\s*,|\basync\s+fetch\b/.test(src)) {
+    return "Worker default export does not define fetch()";
+  }
+  return null;
+}
+
+/* ------------------------ main API ------------------------ */
+
+export function verifyGeneratedFiles(filesIn: FileLike[]): VerificationReport {
+  const files = new Map(filesIn.map((f) => [normPath(f.path), f.content ?? ""]));
+  const known = new Set(files.keys());
+  const diagnostics: Diagnostic[] = [];
+
+  for (const [path, src] of Array.from(files.entries())) {
+    let problem: { line: number; message: string } | null = null;
+
+    if (/\.json$/i.test(path)) {
+      try {
+        JSON.parse(src);
+      } catch (e: any) {
+        problem = { line: 1, message: `invalid JSON: ${String(e?.message || e)}` };
+      }
+    } else if (SCRIPT_EXT.test(path) || JSX_EXT.test(path)) {
+      problem = parseScript(src, path);
+    } else if (/\.css$/i.test(path)) {
+      problem = scanCss(src);
+    } else if (/\.html?$/i.test(path)) {
+      problem = scanHtml(src);
+    }
+    if (problem) diagnostics.push({ path, rule: "syntax", ...problem });
+
+    if (SCRIPT_EXT.test(path) || JSX_EXT.test(path)) {
+      for (const imp of findRelativeImports(src)) {
+        if (!resolveModule(path, imp.spec, known)) {
+          diagnostics.push({
+            path,
+            rule: "unresolved-import",
+            line: lineAt(src, imp.index),
+            message: `cannot resolve '${imp.spec}'`,
+          });
+        }
+      }
+    }
+
+    if (/\.html?$/i.test(path) && path.startsWith("public/")) {
+      for (const asset of findAssetRefs(src)) {
+        const target = asset.ref.startsWith("/")
+          ? joinPath("public", asset.ref)
+          : joinPath(dirname(path), asset.ref);
+        if (!known.has(target)) {
+          diagnostics.push({
+            path,
+            rule: "missing-asset",
+            line: lineAt(src, asset.index),
+            message: `references missing asset '${asset.ref}'`,
+          });
+        }
+      }
+    }
+  }
+
+  const entry = findWorkerEntry(files);
+  if (!entry.path) {
+    diagnostics.push({ path: "wrangler.toml", rule: "worker-entry", message: "no Worker entry file found" });
+  } else if (!files.has(entry.path)) {
+    diagnostics.push({
+      path: "wrangler.toml",
+      rule: "worker-entry",
+      message: `main points at missing file '${entry.declared ?? entry.path}'`,
+    });
+  } else {
+    const problem = checkWorkerEntry(files.get(entry.path)!);
+    if (problem) diagnostics.push({ path: entry.path, rule: "worker-entry", message: problem });
+  }
+
+  const failingPaths = Array.from(new Set(diagnostics.map((d) => d.path)));
+  return { ok: diagnostics.length === 0, diagnostics, failingPaths };
+}
+
+export function formatDiagnostic(d: Diagnostic): string {
+  return `${d.path}${d.line ? `:${d.line}` : ""} [${d.rule}] ${d.message}`;
+}
+
+export default verifyGeneratedFiles;
@@ -0,0 +1,628 @@
+// lib/build/wranglerToml.ts
+//
+// Parse, validate and deterministically re-serialize generated
+// wrangler.toml files. Dependency-free (Worker-safe like the rest of the
+// build): the parser covers the TOML that wrangler configs use — tables,
+// arrays of tables, dotted keys, strings, numbers, booleans, dates,
+// arrays and inline tables.
+
+export type TomlValue = string | number | boolean | TomlDate | TomlValue[] | TomlTable;
+export type TomlTable = { [key: string]: TomlValue };
+
+/**
+ * A date, time or date-time literal, kept as written so it serializes
+ * back unquoted (a string would come out as "2024-01-01").
+ */
+export class TomlDate {
+  constructor(readonly text: string) {}
+  toString(): string {
+    return this.text;
+  }
+  toJSON(): string {
+    return this.text;
+  }
+}
+
+export type KvNamespaceBinding = { binding: string; id?: string; preview_id?: string };
+export type D1DatabaseBinding = { binding: string; database_name?: string; database_id?: string };
+export type R2BucketBinding = { binding: string; bucket_name?: string };
+export type QueueProducerBinding = { binding: string; queue?: string };
+export type QueueConsumer = { queue: string; max_batch_size?: number };
+
+/** The parts of a wrangler config we check; anything else passes through untouched. */
+export type WranglerConfig = TomlTable & {
+  name?: string;
+  main?: string;
+  compatibility_date?: string;
+  compatibility_flags?: string[];
+  account_id?: string;
+  kv_namespaces?: KvNamespaceBinding[];
+  d1_databases?: D1DatabaseBinding[];
+  r2_buckets?: R2BucketBinding[];
+  queues?: { producers?: QueueProducerBinding[]; consumers?: QueueConsumer[] };
+  vars?: TomlTable;
+  site?: { bucket?: string };
+};
+
+export type TomlParseError = { line: number; message: string };
+
+/* ------------------------ parser ------------------------ */
+
+const BARE_KEY = /[A-Za-z0-9_-]/;
+// Offset/local date-times (T or space separated), local dates and local times
+const DATE_TIME =
+  /^(?:\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})?)?|\d{2}:\d{2}:\d{2}(?:\.\d+)?)(?=[\s,\]}#]|$)/;
+
+/**
+ * Parse TOML into plain objects. Never throws: a malformed file comes
+ * back as `{ error }` with the line it broke on.
+ */
+export function parseToml(src: string): { data?: TomlTable; error?: TomlParseError } {
+  let pos = 0;
+  let line = 1;
+  const root: TomlTable = {};
+  let current: TomlTable = root;
+  // Tables opened by a [header]; opening one twice is an error
+  const defined = new Set<TomlTable>();
+
+  const fail = (message: string): never => {
+    throw { line, message } as TomlParseError;
+  };
+  const peek = (n = 0) => src[pos + n];
+  const advance = () => {
+    if (src[pos] === "\n") line++;
+    pos++;
+  };
+  const skipInline = () => {
+    while (peek() === " " || peek() === "\t") advance();
+    if (peek() === "#") while (pos < src.length && peek() !== "\n") advance();
+  };
+  const skipAll = () => {
+    for (;;) {
+      skipInline();
+      if (peek() === "\n" || peek() === "\r") advance();
+      else break;
+    }
+  };
+  const endOfLine = () => {
+    skipInline();
+    if (peek() === "\r") advance();
+    if (pos < src.length && peek() !== "\n") fail(`unexpected '${peek()}' after value`);
+  };
+
+  const readBasicString = (): string => {
+    const multi = src.startsWith('"""', pos);
+    pos += multi ? 3 : 1;
+    if (multi && peek() === "\n") advance();
+    let out = "";
+    for (;;) {
+      if (pos >= src.length) fail("unterminated string");
+      const c = peek();
+      if (multi ? src.startsWith('"""', pos) : c === '"') {
+        pos += multi ? 3 : 1;
+        return out;
+      }
+      if (c === "\n" && !multi) fail("newline in string");
+      if (c === "\\") {
+        const e = peek(1);
+        const simple: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", '"': '"', "\\": "\\" };
+        if (e in simple) {
+          out += simple[e];
+          pos += 2;
+        } else if (e === "u" || e === "U") {
+          const len = e === "u" ? 4 : 8;
+          const hex = src.slice(pos + 2, pos + 2 + len);
+          if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== len) fail("bad unicode escape");
+          out += String.fromCodePoint(parseInt(hex, 16));
+          pos += 2 + len;
+        } else if (multi && (e === "\n" || e === " " || e === "\r")) {
+          // line-ending backslash: trim whitespace up to the next content
+          advance();
+          while (/\s/.test(peek() || "")) advance();
+        } else {
+          fail(`bad escape \\${e}`);
+        }
+        continue;
+      }
+      out += c;
+      advance();
+    }
+  };
+
+  const readLiteralString = (): string => {
+    const multi = src.startsWith("'''", pos);
+    pos += multi ? 3 : 1;
+    if (multi && peek() === "\n") advance();
+    const close = multi ? "'''" : "'";
+    const start = pos;
+    for (;;) {
+      if (pos >= src.length) fail("unterminated string");
+      if (src.startsWith(close, pos)) break;
+      if (!multi && peek() === "\n") fail("newline in string");
+      advance();
+    }
+    const out = src.slice(start, pos);
+    pos += close.length;
+    return out;
+  };
+
+  const readKey = (): string[] => {
+    const parts: string[] = [];
+    for (;;) {
+      skipInline();
+      const c = peek();
+      if (c === '"') parts.push(readBasicString());
+      else if (c === "'") parts.push(readLiteralString());
+      else {
+        const start = pos;
+        while (pos < src.length && BARE_KEY.test(peek())) pos++;
+        if (pos === start) fail(c === undefined || c === "\n" ? "expected a key" : `invalid key character '${c}'`);
+        parts.push(src.slice(start, pos));
+      }
+      skipInline();
+      if (peek() !== ".") return parts;
+      pos++;
+    }
+  };
+
+  const readValue = (): TomlValue => {
+    const c = peek();
+    if (c === '"') return readBasicString();
+    if (c === "'") return readLiteralString();
+    if (c === "[") {
+      advance();
+      const arr: TomlValue[] = [];
+      for (;;) {
+        skipAll();
+        if (peek() === "]") {
+          advance();
+          return arr;
+        }
+        arr.push(readValue());
+        skipAll();
+        if (peek() === ",") advance();
+        else if (peek() !== "]") fail("expected ',' or ']' in array");
+      }
+    }
+    if (c === "{") {
+      advance();
+      const table: TomlTable = {};
+      skipInline();
+      if (peek() === "}") {
+        advance();
+        return table;
+      }
+      for (;;) {
+        const key = readKey();
+        if (peek() !== "=") fail("expected '=' in inline table");
+        advance();
+        skipInline();
+        assign(table, key, readValue());
+        skipInline();
+        if (peek() === ",") advance();
+        else if (peek() === "}") {
+          advance();
+          return table;
+        } else fail("expected ',' or '}' in inline table");
+      }
+    }
+    const date = src.slice(pos).match(DATE_TIME);
+    if (date) {
+      pos += date[0].length;
+      return new TomlDate(date[0]);
+    }
+    const m = src.slice(pos).match(/^[^\s,\]}#]+/);
+    if (!m) fail("expected a value");
+    const raw = m![0];
+    pos += raw.length;
+    if (raw === "true") return true;
+    if (raw === "false") return false;
+    const num = raw.replace(/_/g, "");
+    if (/^[+-]?(0x[0-9a-fA-F]+|0o[0-7]+|0b[01]+)$/.test(num)) return Number(num.replace(/^\+/, ""));
+    if (/^[+-]?(\d+(\.\d+)?([eE][+-]?\d+)?|inf|nan)$/.test(num)) {
+      return /inf$/.test(num) ? (num.startsWith("-") ? -Infinity : Infinity) : /nan$/.test(num) ? NaN : Number(num);
+    }
+    return fail(`invalid value '${raw}'`);
+  };
+
+  const isTable = (v: unknown): v is TomlTable =>
+    !!v && typeof v === "object" && !Array.isArray(v) && !(v instanceof TomlDate);
+
+  // Walk/create intermediate tables; an array of tables resolves to its last element
+  const descend = (from: TomlTable, keys: string[]): TomlTable => {
+    let t = from;
+    for (const k of keys) {
+      let next = t[k];
+      if (next === undefined) {
+        next = t[k] = {};
+      } else if (Array.isArray(next)) {
+        next = next[next.length - 1];
+      }
+      if (!isTable(next)) fail(`key '${k}' is not a table`);
+      t = next as TomlTable;
+    }
+    return t;
+  };
+
+  function assign(table: TomlTable, key: string[], value: TomlValue) {
+    const parent = descend(table, key.slice(0, -1));
+    const last = key[key.length - 1];
+    if (last in parent) fail(`duplicate key '${key.join(".")}'`);
+    parent[last] = value;
+  }
+
+  try {
+    for (;;) {
+      skipAll();
+      if (pos >= src.length) break;
+      if (src.startsWith("[[", pos)) {
+        pos += 2;
+        const key = readKey();
+        if (!src.startsWith("]]", pos)) fail("expected ']]'");
+        pos += 2;
+        const parent = descend(root, key.slice(0, -1));
+        const last = key[key.length - 1];
+        const existing = parent[last];
+        if (existing !== undefined && !Array.isArray(existing)) fail(`'${key.join(".")}' is not an array of tables`);
+        const entry: TomlTable = {};
+        parent[last] = [...((existing as TomlValue[]) || []), entry];
+        current = entry;
+      } else if (peek() === "[") {
+        pos++;
+        const key = readKey();
+        if (peek() !== "]") fail("expected ']'");
+        pos++;
+        // [x] may not reopen an array of tables; [x.y] after [[x]] extends its last entry
+        const parent = descend(root, key.slice(0, -1));
+        if (Array.isArray(parent[key[key.length - 1]])) fail(`'${key.join(".")}' is an array of tables, not a table`);
+        const table = descend(parent, key.slice(-1));
+        if (defined.has(table)) fail(`table [${key.join(".")}] defined twice`);
+        defined.add(table);
+        current = table;
+      } else {
+        const key = readKey();
+        if (peek() !== "=") fail(`expected '=' after key '${key.join(".")}'`);
+        pos++;
+        skipInline();
+        assign(current, key, readValue());
+      }
+      endOfLine();
+    }
+    return { data: root };
+  } catch (e: unknown) {
+    const err = e as Partial<TomlParseError> | undefined;
+    if (typeof err?.line === "number") return { error: err as TomlParseError };
+    return { error: { line, message: String(err?.message || e) } };
+  }
+}
+
+/* ------------------------ serializer ------------------------ */
+
+// Well-known wrangler keys come first, in this order; everything else is alphabetical
+const KEY_ORDER = [
+  "name",
+  "main",
+  "compatibility_date",
+  "compatibility_flags",
+  "account_id",
+  "workers_dev",
+  "route",
+  "routes",
+  "binding",
+  "id",
+  "preview_id",
+  "database_name",
+  "database_id",
+  "bucket_name",
+  "queue",
+  "directory",
+  "bucket",
+  "vars",
+  "site",
+  "assets",
+  "kv_namespaces",
+  "d1_databases",
+  "r2_buckets",
+  "queues",
+];
+
+function compareKeys(a: string, b: string): number {
+  const ia = KEY_ORDER.indexOf(a);
+  const ib = KEY_ORDER.indexOf(b);
+  if (ia >= 0 || ib >= 0) return (ia < 0 ? Infinity : ia) - (ib < 0 ? Infinity : ib);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function formatKey(k: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(k) ? k : JSON.stringify(k);
+}
+
+function formatValue(v: TomlValue): string {
+  if (typeof v === "string") return JSON.stringify(v);
+  if (typeof v === "number") return Number.isFinite(v) ? String(v) : Number.isNaN(v) ? "nan" : v > 0 ? "inf" : "-inf";
+  if (typeof v === "boolean") return String(v);
+  if (v instanceof TomlDate) return v.text;
+  if (Array.isArray(v)) return `[${v.map(formatValue).join(", ")}]`;
+  const keys = Object.keys(v).sort(compareKeys);
+  return `{ ${keys.map((k) => `${formatKey(k)} = ${formatValue(v[k])}`).join(", ")} }`;
+}
+
+const isTableValue = (v: TomlValue): v is TomlTable =>
+  typeof v === "object" && !Array.isArray(v) && !(v instanceof TomlDate);
+const isTableArray = (v: TomlValue): v is TomlTable[] =>
+  Array.isArray(v) && v.length > 0 && v.every(isTableValue);
+
+function emitTable(table: TomlTable, path: string[], out: string[]) {
+  const keys = Object.keys(table).sort(compareKeys);
+  const plain = keys.filter((k) => !isTableValue(table[k]) && !isTableArray(table[k]));
+  for (const k of plain) out.push(`${formatKey(k)} = ${formatValue(table[k])}`);
+
+  for (const k of keys.filter((k) => isTableValue(table[k]))) {
+    const sub = [...path, k];
+    const child = table[k] as TomlTable;
+    // A table holding only sub-tables needs no header of its own ([env] before [env.production])
+    const onlyTables =
+      Object.keys(child).length > 0 &&
+      Object.values(child).every((v) => isTableValue(v) || isTableArray(v));
+    if (!onlyTables) {
+      if (out.length > 0) out.push("");
+      out.push(`[${sub.map(formatKey).join(".")}]`);
+    }
+    emitTable(child, sub, out);
+  }
+  for (const k of keys.filter((k) => isTableArray(table[k]))) {
+    const sub = [...path, k];
+    for (const entry of table[k] as TomlTable[]) {
+      if (out.length > 0) out.push("");
+      out.push(`[[${sub.map(formatKey).join(".")}]]`);
+      emitTable(entry, sub, out);
+    }
+  }
+}
+
+/** Deterministic TOML: same data in, same bytes out, whatever order it was written in. */
+export function stringifyToml(data: TomlTable): string {
+  const out: string[] = [];
+  emitTable(data, [], out);
+  return out.join("\n") + "\n";
+}
+
+/* ------------------------ wrangler checks ------------------------ */
+
+export type WranglerIssue = {
+  field: string;
+  message: string;
+  // True when normalizeWranglerConfig fixed it
+  fixed: boolean;
+};
+
+/**
+ * A binding the project's code uses (see bindings.ts). KV namespaces and
+ * D1 databases need an `id` before wrangler accepts them; R2 buckets and
+ * queues are referenced by `name`.
+ */
+export type RequiredBinding = {
+  type: "kv" | "d1" | "r2" | "queue";
+  binding: string;
+  id?: string;
+  // D1 database_name, R2 bucket_name or queue name
+  name?: string;
+  // Queues only: this Worker also consumes the queue
+  consume?: boolean;
+};
+
+const WORKER_NAME = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const BINDING_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Workers names: lowercase letters, digits and dashes, 1–63 chars, no leading/trailing dash. */
+export function toWorkerName(raw: string): string {
+  const slug = raw
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 63)
+    .replace(/-+$/, "");
+  return slug || "worker";
+}
+
+export function isValidWorkerName(name: unknown): boolean {
+  return typeof name === "string" && WORKER_NAME.test(name);
+}
+
+// Deep copy that keeps TomlDate values (and NaN/inf, which JSON would lose)
+function cloneToml<T extends TomlValue>(value: T): T {
+  if (Array.isArray(value)) return value.map(cloneToml) as T;
+  if (typeof value !== "object" || value instanceof TomlDate) return value;
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, cloneToml(v)])) as T;
+}
+
+/**
+ * Validate a parsed wrangler config against the generated project and
+ * fix what can be fixed safely: the Worker name, a missing/invalid
+ * compatibility_date, `main` pointing at a file that wasn't generated,
+ * malformed or duplicate bindings, and required bindings or vars that
+ * are missing.
+ */
+export function normalizeWranglerConfig(
+  input: TomlTable,
+  opts: {
+    defaultName: string;
+    compatibilityDate: string;
+    // Every generated path, to check `main`
+    paths: string[];
+    entryCandidates: string[];
+    requiredBindings?: RequiredBinding[];
+    // Plain-text [vars] with their default values
+    requiredVars?: Record<string, string>;
+  }
+): { config: WranglerConfig; issues: WranglerIssue[] } {
+  const config = cloneToml(input) as WranglerConfig;
+  const issues: WranglerIssue[] = [];
+  const issue = (field: string, message: string, fixed = true) => issues.push({ field, message, fixed });
+
+  // name
+  if (typeof config.name !== "string" || !config.name.trim()) {
+    config.name = toWorkerName(opts.defaultName);
+    issue("name", `missing; set to "${config.name}"`);
+  } else if (!isValidWorkerName(config.name)) {
+    const fixedName = toWorkerName(config.name);
+    issue("name", `"${config.name}" is not a valid Worker name; renamed to "${fixedName}"`);
+    config.name = fixedName;
+  }
+
+  // compatibility_date: wrangler wants a string, not a TOML date
+  const compatibilityDate: unknown = config.compatibility_date;
+  if (compatibilityDate instanceof TomlDate && DATE.test(compatibilityDate.text)) {
+    config.compatibility_date = compatibilityDate.text;
+    issue("compatibility_date", "written as a TOML date; quoted");
+  } else if (typeof config.compatibility_date !== "string" || !DATE.test(config.compatibility_date)) {
+    issue(
+      "compatibility_date",
+      config.compatibility_date === undefined
+        ? `missing; set to ${opts.compatibilityDate}`
+        : `${JSON.stringify(config.compatibility_date)} is not a YYYY-MM-DD date; set to ${opts.compatibilityDate}`
+    );
+    config.compatibility_date = opts.compatibilityDate;
+  }
+
+  // main must point at a generated file
+  const paths = new Set(opts.paths);
+  const main = typeof config.main === "string" ? config.main.replace(/^\.\//, "") : undefined;
+  if (!main || !paths.has(main)) {
+    const entry = opts.entryCandidates.find((c) => paths.has(c));
+    if (entry) {
+      issue("main", main ? `points at "${main}", which was not generated; set to "${entry}"` : `missing; set to "${entry}"`);
+      config.main = entry;
+    } else {
+      issue("main", main ? `points at "${main}", which was not generated` : "missing and no Worker entry file was generated", false);
+    }
+  }
+
+  // bindings: well-formed names, no duplicates across kinds
+  if (config.vars !== undefined && (typeof config.vars !== "object" || Array.isArray(config.vars))) {
+    issue("vars", "must be a table; dropped");
+    delete config.vars;
+  }
+  const seen = new Set<string>(Object.keys(config.vars || {}));
+  const cleanBindings = <T extends { binding?: unknown }>(field: string, raw: unknown): T[] => {
+    if (raw === undefined) return [];
+    if (!Array.isArray(raw)) {
+      issue(field, "must be an array of tables; dropped");
+      return [];
+    }
+    const out: T[] = [];
+    raw.forEach((b: unknown, i: number) => {
+      const name = (b as { binding?: unknown } | null)?.binding;
+      if (!b || typeof b !== "object" || typeof name !== "string" || !BINDING_NAME.test(name)) {
+        issue(`${field}[${i}]`, `binding ${JSON.stringify(name ?? null)} is not a valid identifier; dropped`);
+      } else if (seen.has(name)) {
+        issue(`${field}[${i}]`, `binding "${name}" is declared twice; dropped the duplicate`);
+      } else {
+        seen.add(name);
+        out.push(b as T);
+      }
+    });
+    return out;
+  };
+  const queuesRaw = config.queues as unknown;
+  if (queuesRaw !== undefined && (typeof queuesRaw !== "object" || Array.isArray(queuesRaw))) {
+    issue("queues", "must be a table; dropped");
+    delete config.queues;
+  }
+  const lists: Record<RequiredBinding["type"], { binding: string; [k: string]: unknown }[]> = {
+    kv: cleanBindings<KvNamespaceBinding>("kv_namespaces", config.kv_namespaces),
+    d1: cleanBindings<D1DatabaseBinding>("d1_databases", config.d1_databases),
+    r2: cleanBindings<R2BucketBinding>("r2_buckets", config.r2_buckets),
+    queue: cleanBindings<QueueProducerBinding>("queues.producers", config.queues?.producers),
+  };
+  const FIELDS: Record<RequiredBinding["type"], string> = {
+    kv: "kv_namespaces",
+    d1: "d1_databases",
+    r2: "r2_buckets",
+    queue: "queues.producers",
+  };
+
+  for (const req of opts.requiredBindings || []) {
+    const list = lists[req.type];
+    const field = FIELDS[req.type];
+    let entry = list.find((b) => b.binding === req.binding);
+    if (!entry) {
+      if (seen.has(req.binding)) {
+        issue(field, `required binding "${req.binding}" clashes with another binding`, false);
+        continue;
+      }
+      // An entry without an id (or bucket/queue name) fails `wrangler deploy`; wait for provisioning
+      const ready = req.type === "kv" || req.type === "d1" ? req.id : req.name;
+      if (!ready) {
+        issue(field, `required binding "${req.binding}" is missing; it is added once provisioned`, false);
+        continue;
+      }
+      entry = { binding: req.binding };
+      list.push(entry);
+      seen.add(req.binding);
+      issue(field, `added required binding "${req.binding}"`);
+    }
+    // Known ids/names (from provisioning) always win over whatever the model wrote
+    if (req.type === "kv" && req.id && entry.id !== req.id) entry.id = req.id;
+    if (req.type === "d1") {
+      if (req.id && entry.database_id !== req.id) entry.database_id = req.id;
+      if (req.name && !entry.database_name) entry.database_name = req.name;
+    }
+    if (req.type === "r2" && req.name && entry.bucket_name !== req.name) entry.bucket_name = req.name;
+    if (req.type === "queue" && req.name && entry.queue !== req.name) entry.queue = req.name;
+  }
+
+  // vars: add the declared defaults the model left out (its own values stay)
+  for (const [name, value] of Object.entries(opts.requiredVars || {})) {
+    if (config.vars && name in config.vars) continue;
+    if (seen.has(name)) {
+      issue("vars", `required var "${name}" clashes with a binding`, false);
+      continue;
+    }
+    config.vars = { ...(config.vars || {}), [name]: value };
+    seen.add(name);
+    issue("vars", `added required var "${name}"`);
+  }
+
+  for (const b of lists.kv) {
+    if (typeof b.id !== "string" || !b.id) {
+      issue("kv_namespaces", `"${b.binding}" has no namespace id yet; it must be provisioned before deploy`, false);
+    }
+  }
+  for (const b of lists.d1) {
+    if (typeof b.database_id !== "string" || !b.database_id) {
+      issue("d1_databases", `"${b.binding}" has no database_id yet; it must be provisioned before deploy`, false);
+    }
+  }
+  for (const b of lists.r2) {
+    if (typeof b.bucket_name !== "string" || !b.bucket_name) {
+      issue("r2_buckets", `"${b.binding}" has no bucket_name`, false);
+    }
+  }
+  for (const b of lists.queue) {
+    if (typeof b.queue !== "string" || !b.queue) {
+      issue("queues.producers", `"${b.binding}" has no queue name`, false);
+    }
+  }
+
+  if (lists.kv.length) config.kv_namespaces = lists.kv as KvNamespaceBinding[];
+  else delete config.kv_namespaces;
+  if (lists.d1.length) config.d1_databases = lists.d1 as D1DatabaseBinding[];
+  else delete config.d1_databases;
+  if (lists.r2.length) config.r2_buckets = lists.r2 as R2BucketBinding[];
+  else delete config.r2_buckets;
+  if (lists.queue.length) config.queues = { ...(config.queues || {}), producers: lists.queue as QueueProducerBinding[] };
+  else if (config.queues) delete config.queues.producers;
+  const consumers = (opts.requiredBindings || []).filter((r) => r.type === "queue" && r.consume && r.name);
+  for (const req of consumers) {
+    const list = Array.isArray(config.queues?.consumers) ? config.queues!.consumers : [];
+    if (list.some((c) => c?.queue === req.name)) continue;
+    config.queues = { ...(config.queues || {}), consumers: [...list, { queue: req.name! }] };
+    issue("queues.consumers", `added consumer for "${req.name}"`);
+  }
+  if (config.queues && Object.keys(config.queues).length === 0) delete config.queues;
+
+  return { config, issues };
+}
@@ -34,16 +34,14 @@ export async function createKvNamespace({ token, accountId, title }: CreateArgs)
 }
 
 /**
- * Reuse an existing KV namespace named "<projectName>-ASSETS" if present,
- * otherwise create it. Returns the namespace id.
+ * Reuse an existing KV namespace with this title if present, otherwise
+ * create it. Returns the namespace id.
  */
-export async function ensureAssetsKv(
-  projectName: string,
+export async function ensureKvNamespace(
+  title: string,
   accountId: string,
   token: string
 ): Promise<string> {
-  const title = `${projectName}-ASSETS`;
-
   // Try to find an existing namespace first
   try {
     const listRes = await fetch(
@@ -63,12 +61,24 @@ export async function ensureAssetsKv(
     } else {
       // non-fatal: we’ll try to create
       const text = await listRes.text().catch(() => "");
-      console.warn(`ensureAssetsKv: list namespaces failed: ${listRes.status} ${text}`);
+      console.warn(`ensureKvNamespace: list namespaces failed: ${listRes.status} ${text}`);
     }
   } catch (e) {
-    console.warn(`ensureAssetsKv: list namespaces error: ${String(e)}`);
+    console.warn(`ensureKvNamespace: list namespaces error: ${String(e)}`);
   }
 
   // Create if missing
   return await createKvNamespace({ token, accountId, title });
-}
\ No newline at end of file
+}
+
+/**
+ * Reuse an existing KV namespace named "<projectName>-ASSETS" if present,
+ * otherwise create it. Returns the namespace id.
+ */
+export async function ensureAssetsKv(
+  projectName: string,
+  accountId: string,
+  token: string
+): Promise<string> {
+  return ensureKvNamespace(`${projectName}-ASSETS`, accountId, token);
+}
@@ -0,0 +1,139 @@
+// lib/cloudflare/ensureResources.ts
+
+/**
+ * Find-or-create helpers for the account resources a generated Worker
+ * binds to, alongside ensureKvNamespace in createKvNamespace.ts. Each
+ * one is idempotent: a resource with the same name is reused.
+ */
+
+type Creds = { accountId: string; token: string };
+
+async function cfRequest(
+  { accountId, token }: Creds,
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<{ ok: boolean; status: number; data: any; text: string }> {
+  const resp = await fetch(`https://api.cloudflare.com/client/v4/accounts/${accountId}${path}`, {
+    method: init.method || "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+  const text = await resp.text().catch(() => "");
+  let data: any = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    // non-JSON error page; callers report `text`
+  }
+  return { ok: resp.ok, status: resp.status, data, text };
+}
+
+/**
+ * Reuse a D1 database with this name if present, otherwise create it.
+ * Returns the database id (uuid).
+ */
+export async function ensureD1Database(name: string, accountId: string, token: string): Promise<string> {
+  const creds = { accountId, token };
+  const list = await cfRequest(creds, `/d1/database?name=${encodeURIComponent(name)}`).catch((e) => {
+    console.warn(`ensureD1Database: list databases error: ${String(e)}`);
+    return null;
+  });
+  if (list?.ok) {
+    const found = (list.data?.result || []).find((db: any) => db?.name === name);
+    if (found?.uuid) return found.uuid;
+  } else if (list) {
+    // non-fatal: we’ll try to create
+    console.warn(`ensureD1Database: list databases failed: ${list.status} ${list.text}`);
+  }
+
+  const created = await cfRequest(creds, "/d1/database", { method: "POST", body: { name } });
+  if (!created.ok) throw new Error(`ensureD1Database failed: ${created.status} ${created.text}`);
+  const id = created.data?.result?.uuid;
+  if (!id) throw new Error(`ensureD1Database: no uuid in response`);
+  return id;
+}
+
+/**
+ * Reuse an R2 bucket with this name if present, otherwise create it.
+ * Buckets are addressed by name, so that is what comes back.
+ */
+export async function ensureR2Bucket(name: string, accountId: string, token: string): Promise<string> {
+  const creds = { accountId, token };
+  const existing = await cfRequest(creds, `/r2/buckets/${encodeURIComponent(name)}`).catch(() => null);
+  if (existing?.ok) return name;
+
+  const created = await cfRequest(creds, "/r2/buckets", { method: "POST", body: { name } });
+  if (!created.ok) throw new Error(`ensureR2Bucket failed: ${created.status} ${created.text}`);
+  return name;
+}
+
+/**
+ * Reuse a queue with this name if present, otherwise create it.
+ * Returns the queue id.
+ */
+export async function ensureQueue(name: string, accountId: string, token: string): Promise<string> {
+  const creds = { accountId, token };
+  const list = await cfRequest(creds, "/queues?per_page=100").catch((e) => {
+    console.warn(`ensureQueue: list queues error: ${String(e)}`);
+    return null;
+  });
+  if (list?.ok) {
+    const found = (list.data?.result || []).find((q: any) => q?.queue_name === name);
+    if (found?.queue_id) return found.queue_id;
+  } else if (list) {
+    console.warn(`ensureQueue: list queues failed: ${list.status} ${list.text}`);
+  }
+
+  const created = await cfRequest(creds, "/queues", { method: "POST", body: { queue_name: name } });
+  if (!created.ok) throw new Error(`ensureQueue failed: ${created.status} ${created.text}`);
+  const id = created.data?.result?.queue_id;
+  if (!id) throw new Error(`ensureQueue: no queue_id in response`);
+  return id;
+}
+
+// Served until the first real deploy replaces it
+const PLACEHOLDER_WORKER = `export default {
+  fetch() {
+    return new Response("Deploying…", { status: 503 });
+  },
+};
+`;
+
+/**
+ * Set a secret on a Worker. A Worker that hasn't been deployed yet gets
+ * a placeholder script first (as `wrangler secret put` does); secrets
+ * survive the deploy that replaces it.
+ */
+export async function putWorkerSecret(
+  script: string,
+  name: string,
+  value: string,
+  accountId: string,
+  token: string
+): Promise<void> {
+  const creds = { accountId, token };
+  const path = `/workers/scripts/${encodeURIComponent(script)}/secrets`;
+  const body = { name, text: value, type: "secret_text" };
+  let put = await cfRequest(creds, path, { method: "PUT", body });
+  if (put.status === 404 || (put.data?.errors || []).some((e: any) => e?.code === 10007)) {
+    const form = new FormData();
+    form.append(
+      "metadata",
+      new Blob([JSON.stringify({ main_module: "index.js", compatibility_date: "2024-09-23" })], { type: "application/json" })
+    );
+    form.append("index.js", new Blob([PLACEHOLDER_WORKER], { type: "application/javascript+module" }), "index.js");
+    const upload = await fetch(
+      `https://api.cloudflare.com/client/v4/accounts/${accountId}/workers/scripts/${encodeURIComponent(script)}`,
+      { method: "PUT", headers: { Authorization: `Bearer ${token}` }, body: form }
+    );
+    if (!upload.ok) {
+      const text = await upload.text().catch(() => "");
+      throw new Error(`putWorkerSecret: placeholder upload failed: ${upload.status} ${text}`);
+    }
+    put = await cfRequest(creds, path, { method: "PUT", body });
+  }
+  if (!put.ok) throw new Error(`putWorkerSecret failed: ${put.status} ${put.text}`);
+}
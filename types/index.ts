@@ -1,7 +1,12 @@
+import type { StackRecommendation } from "../lib/build/stackRecommendation";
+import type { Feature } from "../lib/build/features";
+
 export type VentureStage =
   | "ideation"
   | "validation"
   | "branding"
+  | "features"
+  | "stack"
   | "mvp"
   | "generatePlan";
 
@@ -26,11 +31,33 @@ export interface Idea {
     refinedIdea?: string;
     validationSummary?: string;
     branding?: BrandingDetails;
+    // What the MVP must do, as edited in chat (see lib/build/features.ts)
+    features?: Feature[];
+    // Recommended stack; sent with the build once accepted (see lib/build/stackRecommendation.ts)
+    stack?: StackRecommendation;
     finalPlan?: string;
   };
   locked?: boolean;
   repoUrl?: string;
   pagesUrl?: string;
   deployed?: boolean;
+  // Last build id, used to resume a failed build
+  buildId?: string;
+  // Project archetype chosen by the user; unset = classify from the chat
+  archetype?: string;
+  // Spend cap in USD for this idea's builds; unset = server default (IDEA_BUDGET_USD)
+  budgetUsd?: number;
+  // Latest token/cost totals reported by a build (see lib/build/usage.ts)
+  usage?: IdeaUsage;
+}
+
+export interface IdeaUsage {
+  buildTokens: number;
+  buildCostUsd: number;
+  ideaTokens?: number;
+  ideaCostUsd?: number;
+  budgetUsd?: number;
+  // Some calls had no reported usage and were estimated
+  estimated?: boolean;
 }
 
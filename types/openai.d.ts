@@ -1,5 +0,0 @@
-// types/openai.d.ts
-declare module "openai" {
-  const OpenAI: any;
-  export default OpenAI;
-}
\ No newline at end of file
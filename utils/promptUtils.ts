@@ -79,6 +79,30 @@ Then ask: "Ready to proceed with building your MVP?"
 `;
 
 
+    case "features":
+      return `
+${baseInstructions}
+The MVP's feature list has been drafted from the conversation: each feature has a name, description, priority (must, should, could) and acceptance criteria.
+Help the user sharpen it: cut anything the first version doesn't need and make acceptance criteria checkable in the running app.
+Changes are made with commands: "/feature add <name>: <description>", "/feature remove <n>", "/feature priority <n> <must|should|could>", "/feature accept <n>: <criterion>".
+
+
+Then ask: "Shall I lock in these features?"
+`;
+
+
+    case "stack":
+      return `
+${baseInstructions}
+A stack has been recommended for the MVP: output target, storage, auth approach and integrations.
+Answer questions about it in plain language and recommend a change only when the idea needs it.
+Changes are made with commands: "/stack target <worker|worker-spa|hono|astro>", "/stack auth <none|admin-token|magic-link|oauth>", "/stack add <kv|d1|r2|queue> <BINDING>", "/stack add <stripe|resend|openai|twilio>", "/stack remove <name>".
+
+
+Then ask: "Shall I lock in this stack?"
+`;
+
+
     case "mvp":
       return `
 ${baseInstructions}
@@ -0,0 +1,20 @@
+// vitest.config.mts
+import { existsSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  plugins: [
+    {
+      // The Worker's JS imports lib/ TypeScript by its .js name, which
+      // wrangler's bundler resolves; resolve it the same way in tests
+      name: "worker-ts-imports",
+      enforce: "pre",
+      resolveId(source, importer) {
+        if (!importer || !source.startsWith(".") || !source.endsWith(".js")) return null;
+        const ts = resolve(dirname(importer), source.replace(/\.js$/, ".ts"));
+        return existsSync(ts) ? ts : null;
+      },
+    },
+  ],
+});
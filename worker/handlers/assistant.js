@@ -7,6 +7,7 @@
 
 import { jsonResponse, safeJson } from '../utils/response.js';
 import { openaiChat } from '../utils/openai.js';
+import { recordUsage } from '../utils/usage.js';
 
 export async function assistantHandler(request, env) {
   const body = await safeJson(request);
@@ -20,6 +21,8 @@ export async function assistantHandler(request, env) {
 At the end, include a concise summary of the business idea using the exact label 'Refined Idea:' on its own line, followed by the summary on the next line.`,
   };
   const result = await openaiChat(env.OPENAI_API_KEY, [system, ...body.messages]);
+  // Attributed to the idea when the client sends its id
+  await recordUsage(env, body.ideaId, 'assistant', result);
   const content = result.choices?.[0]?.message?.content || '';
   // Extract the refined idea section
   const match = content.match(/Refined Idea:\s*\n+([\s\S]*)$/i);
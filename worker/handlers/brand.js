@@ -7,6 +7,7 @@
 
 import { jsonResponse, safeJson } from '../utils/response.js';
 import { openaiChat } from '../utils/openai.js';
+import { recordUsage } from '../utils/usage.js';
 
 export async function brandHandler(request, env) {
   const body = await safeJson(request);
@@ -20,6 +21,7 @@ export async function brandHandler(request, env) {
     { role: 'system', content: 'Return JSON: name, tagline, colors[], logoDesc' },
     { role: 'user', content: `Create branding for: ${idea}` },
   ]);
+  await recordUsage(env, ideaId, 'brand', res);
   const raw = res.choices?.[0]?.message?.content || '{}';
   let parsed;
   try {
@@ -41,6 +43,7 @@ export async function brandHandler(request, env) {
         body: JSON.stringify({ model: 'dall-e-3', prompt: parsed.logoDesc, n: 1, size: '1024x1024' }),
       });
       const imgJson = await imgRes.json();
+      if (imgRes.ok) await recordUsage(env, ideaId, 'logo', { model: 'dall-e-3', images: 1 });
       if (imgJson?.data?.[0]?.url) {
         logoUrl = imgJson.data[0].url;
         parsed.logoUrl = logoUrl;
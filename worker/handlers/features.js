@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+// Handler for the `/features` endpoint.  Extracts the MVP's feature list
+// (name, description, priority, acceptance criteria) from the chat and
+// stores it in KV keyed by idea.  Posting a `features` array instead
+// saves the list as the user edited it; /stack and /mvp read it from
+// there when the client doesn't send it.
+
+import { jsonResponse, safeJson } from '../utils/response.js';
+import { recordUsage } from '../utils/usage.js';
+import {
+  describeFeatures,
+  extractFeatures,
+  normalizeFeatures,
+} from '../../lib/build/features.js';
+
+async function saveFeatures(env, ideaId, features) {
+  if (!ideaId) return;
+  try {
+    await env.KV.put(`features:${ideaId}`, JSON.stringify(features));
+  } catch (_) {
+    // KV is optional; the client sends the list with /mvp anyway
+  }
+}
+
+export async function featuresHandler(request, env) {
+  const body = await safeJson(request);
+  const ideaId = body?.ideaId;
+
+  // Save the list as edited in chat
+  if (Array.isArray(body?.features)) {
+    const features = normalizeFeatures(body.features);
+    await saveFeatures(env, ideaId, features);
+    return jsonResponse({ features, text: describeFeatures(features), ideaId });
+  }
+
+  if (!Array.isArray(body?.messages) || body.messages.length === 0) {
+    return jsonResponse({ error: 'Missing messages' }, 400);
+  }
+  let completion;
+  const features = await extractFeatures(body.messages, {
+    env,
+    onUsage: (c) => { completion = c; },
+  });
+  if (completion) await recordUsage(env, ideaId, 'features', completion);
+  await saveFeatures(env, ideaId, features);
+  return jsonResponse({ features, text: describeFeatures(features), ideaId });
+}
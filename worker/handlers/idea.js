@@ -7,6 +7,7 @@
 
 import { jsonResponse, safeJson } from '../utils/response.js';
 import { openaiChat } from '../utils/openai.js';
+import { recordUsage } from '../utils/usage.js';
 
 export async function ideaHandler(request, env) {
   const body = await safeJson(request);
@@ -19,6 +20,7 @@ export async function ideaHandler(request, env) {
     { role: 'system', content: 'You are VenturePilot, an AI startup co‑pilot.' },
     { role: 'user', content: `Generate 5 AI‑enabled micro‑business ideas based on: ${body.prompt}` },
   ], 'gpt-4o-mini');
+  await recordUsage(env, ideaId, 'idea', microIdeasRes);
   // Next, request a structured canvas.  We ask the model to return
   // valid JSON so that it can be parsed reliably.  If parsing fails we
   // fall back to a minimal canvas containing just the summary.
@@ -26,6 +28,7 @@ export async function ideaHandler(request, env) {
     { role: 'system', content: 'You are VenturePilot, an AI startup co‑pilot.' },
     { role: 'user', content: `Return JSON with summary (string), requirements (string[]), questions (string[]) for: ${body.prompt}` },
   ]);
+  await recordUsage(env, ideaId, 'idea', canvasRes);
   let canvas = {};
   try {
     canvas = JSON.parse(canvasRes.choices?.[0]?.message?.content || '{}');
@@ -1,7 +1,9 @@
 // workers/api/mvp.js (your file)
-import { buildAndDeployApp } from '../../lib/build/buildService.js';
+import { buildAndDeployApp, resumeBuild } from '../../lib/build/buildService.js';
+import { buildEventStream } from '../utils/buildStream.js';
 
-export async function mvpHandler(request, env) {
+// `defaults` fills payload fields the body leaves out (see handlers/generate.js)
+export async function mvpHandler(request, env, defaults = {}) {
   // 🔊 Debug: prove handler invoked + env var present
   console.log("MVP handler invoked. AGENT_BASE_URL =", env?.AGENT_BASE_URL);
 
@@ -56,62 +58,72 @@ export async function mvpHandler(request, env) {
     });
   }
 
-  const encoder = new TextEncoder();
-  const stream = new ReadableStream({
-    async start(controller) {
-      const send = (obj) =>
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(obj)}\n\n`));
-
+  // Every build gets an id so a failed run can be resumed from its checkpoint
+  const buildId = body.buildId || crypto.randomUUID();
+
+  return buildEventStream(async (send) => {
+    if (body.resume && body.buildId) {
+      // resend with { buildId, resume: true } to continue from the last checkpoint
+      await resumeBuild(buildId, env, { onEvent: send });
+      return;
+    }
+
+    const ideaId = body.ideaId || Math.random().toString(36).substring(2, 8);
+    const ideaSummary = {
+      name: (body.branding && body.branding.name) || 'AI MVP',
+      description: requirements,
+    };
+    const branding = body.branding || {};
+    const messages = body.messages || [];
+    // The stack accepted in chat (see handlers/stack.js); the planner ignores unaccepted ones
+    let stack = body.stack;
+    if (!stack && body.ideaId) {
       try {
-        const ideaId = body.ideaId || Math.random().toString(36).substring(2, 8);
-        const ideaSummary = {
-          name: (body.branding && body.branding.name) || 'AI MVP',
-          description: requirements,
-        };
-        const branding = body.branding || {};
-        const messages = body.messages || [];
-
-        // Stages
-        send({ type: 'status', message: '🧠 Planning…' });
-        send({ type: 'status', message: '🛠️ Generating files…' });
-
-        const result = await buildAndDeployApp(
-          { ideaId, ideaSummary, branding, messages },
-          env
-        );
-
-        send({ type: 'status', message: '📤 Publishing to GitHub…' });
-
-        // buildAndDeployApp now performs the publish and returns repoUrl
-        if (result?.repoUrl) {
-          send({ type: 'repoUrl', url: result.repoUrl });
-        }
-
-        send({
-          type: 'status',
-          message:
-            '🚀 Deployment will kick off via GitHub Actions automatically (usually 1–3 min)…',
-        });
-
-        // Optionally echo minimal file list or plan
-        if (result?.plan) send({ type: 'plan', plan: result.plan });
-
-        send({ type: 'status', message: '✅ Done' });
-      } catch (err) {
-        console.error("MVP handler error:", err?.message || err); // 🔊 Debug
-        send({ type: 'error', message: 'Build error', details: String(err?.message || err) });
-      } finally {
-        controller.close();
+        const saved = await env.KV.get(`stack:${body.ideaId}`);
+        stack = saved ? JSON.parse(saved) : undefined;
+      } catch (_) {
+        // No KV or no stored stack: plan without one
       }
-    },
-  });
-
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Access-Control-Allow-Origin': '*',
-      'Cache-Control': 'no-cache',
-      Connection: 'keep-alive',
-    },
-  });
-}
\ No newline at end of file
+    }
+    // Feature list edited in chat (see handlers/features.js); without one the planner reads the messages
+    let features = Array.isArray(body.features) ? body.features : undefined;
+    if (!features && body.ideaId) {
+      try {
+        const saved = await env.KV.get(`features:${body.ideaId}`);
+        features = saved ? JSON.parse(saved) : undefined;
+      } catch (_) {
+        // No KV or no stored list
+      }
+    }
+
+    await buildAndDeployApp(
+      // archetype: optional user override of the project type (lib/build/archetypes.ts)
+      // bypassCache: generate every file fresh instead of reusing cached output
+      // budgetUsd: per-idea spend cap; can only lower IDEA_BUDGET_USD. The build stops once the idea exceeds it
+      // target: worker | worker-spa | hono | astro — how the project is built (lib/build/targets.ts)
+      // sandbox: off | run | require — run the Worker before publishing (defaults to BUILD_SANDBOX)
+      // stack: accepted stack recommendation; its target and bindings are hard constraints for the plan
+      // features: feature list; the plan maps each feature to files and the result reports coverage
+      // planStrategy: files | components — how the planner decomposes the idea (lib/build/componentPlan.ts)
+      {
+        ideaId,
+        ideaSummary,
+        branding,
+        messages,
+        buildId,
+        archetype: body.archetype,
+        target: body.target,
+        bypassCache: Boolean(body.bypassCache),
+        budgetUsd: typeof body.budgetUsd === 'number' ? body.budgetUsd : undefined,
+        sandbox: ['off', 'run', 'require'].includes(body.sandbox) ? body.sandbox : undefined,
+        stack,
+        features,
+        planStrategy: ['files', 'components'].includes(body.planStrategy)
+          ? body.planStrategy
+          : defaults.planStrategy,
+      },
+      env,
+      { onEvent: send }
+    );
+  }, buildId);
+}
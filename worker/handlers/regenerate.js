@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: MIT
+// Handler for the /regenerate endpoint.  Regenerates named files of a
+// finished build (or adds new ones) and commits only the diff.  Progress
+// streams back as build events, exactly like /mvp.
+
+import { regenerateFiles } from '../../lib/build/buildService.js';
+import { jsonResponse, safeJson } from '../utils/response.js';
+import { buildEventStream } from '../utils/buildStream.js';
+
+/**
+ * Expected body:
+ *   {
+ *     buildId: string,
+ *     paths?: string[],                                   // files to regenerate
+ *     add?: { path: string, description: string }[],     // files to create
+ *     instruction?: string,                               // change request
+ *     schema?: { tables: [...] }                          // new D1 schema (adds a migration)
+ *   }
+ *
+ * @param {Request} request
+ * @param {Object} env
+ * @returns {Promise<Response>}
+ */
+export async function regenerateHandler(request, env) {
+  if (request.method.toUpperCase() !== 'POST') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+
+  let body;
+  try {
+    body = await safeJson(request);
+  } catch (err) {
+    return jsonResponse({ error: err.message }, 400);
+  }
+
+  const buildId = typeof body.buildId === 'string' ? body.buildId : '';
+  const paths = Array.isArray(body.paths) ? body.paths.filter((p) => typeof p === 'string') : [];
+  const add = Array.isArray(body.add)
+    ? body.add.filter((f) => f && typeof f.path === 'string' && typeof f.description === 'string')
+    : [];
+
+  if (!buildId) {
+    return jsonResponse({ error: 'buildId is required' }, 400);
+  }
+  const schema = body.schema && Array.isArray(body.schema.tables) ? body.schema : undefined;
+  if (paths.length === 0 && add.length === 0 && !schema) {
+    return jsonResponse({ error: 'Pass at least one path to regenerate, file to add or a schema' }, 400);
+  }
+
+  return buildEventStream(
+    (send) =>
+      regenerateFiles(
+        {
+          buildId,
+          paths,
+          add,
+          instruction: typeof body.instruction === 'string' ? body.instruction : undefined,
+          schema,
+          budgetUsd: typeof body.budgetUsd === 'number' ? body.budgetUsd : undefined,
+          sandbox: ['off', 'run', 'require'].includes(body.sandbox) ? body.sandbox : undefined,
+        },
+        env,
+        { onEvent: send }
+      ),
+    buildId
+  );
+}
@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: MIT
+// Handler for the `/stack` endpoint.  Recommends a stack for an idea
+// before the MVP is planned: output target, storage bindings, auth
+// approach and integrations, each with a rationale.  The refined idea
+// comes from the request; validation and features are read from the
+// request or, failing that, from what /validate, /features and /idea
+// stored in KV.
+// Posting a `stack` back (possibly edited in chat) with `accept: true`
+// stores it as accepted, and /mvp then plans against it.
+
+import { jsonResponse, safeJson } from '../utils/response.js';
+import { recordUsage } from '../utils/usage.js';
+import {
+  describeStack,
+  parseStack,
+  recommendStack,
+} from '../../lib/build/stackRecommendation.js';
+
+async function readJson(env, key) {
+  try {
+    const raw = await env.KV.get(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch (_) {
+    return undefined;
+  }
+}
+
+export async function stackHandler(request, env) {
+  const body = await safeJson(request);
+  const ideaId = body?.ideaId;
+
+  // Accept (or re-save) a stack the user reviewed in chat
+  if (body?.stack) {
+    const { stack, problems } = parseStack(body.stack);
+    if (!stack) {
+      return jsonResponse({ error: 'Invalid stack', problems }, 400);
+    }
+    const saved = { ...stack, accepted: Boolean(body.accept) };
+    if (ideaId) {
+      try {
+        await env.KV.put(`stack:${ideaId}`, JSON.stringify(saved));
+      } catch (_) {
+        // KV is optional; the client sends the stack with /mvp anyway
+      }
+    }
+    return jsonResponse({ stack: saved, text: describeStack(saved), ideaId });
+  }
+
+  if (!body?.idea) {
+    return jsonResponse({ error: 'Missing idea' }, 400);
+  }
+  let validation = typeof body.validation === 'string' ? body.validation : undefined;
+  let features = Array.isArray(body.features) ? body.features.filter((f) => typeof f === 'string') : undefined;
+  if (ideaId && !validation) {
+    validation = (await env.KV.get(`validate:${ideaId}`).catch(() => null)) || undefined;
+  }
+  if (ideaId && !features) {
+    // The feature list from /features, else the requirements of the /idea canvas
+    const list = await readJson(env, `features:${ideaId}`);
+    const stored = Array.isArray(list) ? undefined : await readJson(env, `idea:${ideaId}`);
+    features = Array.isArray(list)
+      ? list.map((f) => (f.description ? `${f.name}: ${f.description}` : f.name))
+      : Array.isArray(stored?.canvas?.requirements)
+      ? stored.canvas.requirements
+      : undefined;
+  }
+
+  let completion;
+  const stack = await recommendStack(
+    { idea: body.idea, validation, features },
+    { env, onUsage: (c) => { completion = c; } },
+  );
+  if (completion) await recordUsage(env, ideaId, 'stack', completion);
+  if (ideaId) {
+    try {
+      await env.KV.put(`stack:${ideaId}`, JSON.stringify(stack));
+    } catch (_) {
+      // KV is optional; ignore if not bound
+    }
+  }
+  return jsonResponse({ stack, text: describeStack(stack), ideaId });
+}
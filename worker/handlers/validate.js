@@ -7,6 +7,7 @@
 
 import { jsonResponse, safeJson } from '../utils/response.js';
 import { openaiChat } from '../utils/openai.js';
+import { recordUsage } from '../utils/usage.js';
 
 export async function validateHandler(request, env) {
   // Parse the incoming JSON body
@@ -28,6 +29,7 @@ export async function validateHandler(request, env) {
   ];
   // Call OpenAI; errors will propagate to the caller
   const validation = await openaiChat(env.OPENAI_API_KEY, messages);
+  await recordUsage(env, ideaId, 'validate', validation);
   const output = validation.choices?.[0]?.message?.content || '';
   // Persist to KV for 24h (86400 seconds)
   await env.KV.put(cacheKey, output, { expirationTtl: 86400 });
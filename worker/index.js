@@ -4,9 +4,12 @@
 import { ideaHandler }      from './handlers/idea.js';
 import { validateHandler }  from './handlers/validate.js';
 import { brandHandler }     from './handlers/brand.js';
+import { featuresHandler }  from './handlers/features.js';
+import { stackHandler }     from './handlers/stack.js';
 import { assistantHandler } from './handlers/assistant.js';
 import { mvpHandler }       from './handlers/mvp.js';
 import { generateHandler }  from './handlers/generate.js';
+import { regenerateHandler } from './handlers/regenerate.js';
 
 export default {
   async fetch(request, env, ctx) {
@@ -49,12 +52,18 @@ export default {
         return validateHandler(request, env);
       case 'brand':
         return brandHandler(request, env);
+      case 'features':
+        return featuresHandler(request, env);
+      case 'stack':
+        return stackHandler(request, env);
       case 'assistant':
         return assistantHandler(request, env);
       case 'mvp':
         return mvpHandler(request, env);
       case 'generate':
         return generateHandler(request, env);
+      case 'regenerate':
+        return regenerateHandler(request, env);
       default:
         return new Response(JSON.stringify({ error: 'Not found' }), {
           status: 404,
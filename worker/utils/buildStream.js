@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+// Server-Sent Events plumbing shared by the build endpoints (/mvp,
+// /regenerate).  Build events (lib/build/buildEvents.ts) go out verbatim
+// as `data:` lines; the client parses them with BuildEventSchema.
+
+import { corsHeaders } from './response.js';
+
+/**
+ * Run `run(send)` and stream every event it sends.  buildService reports
+ * its own failures with a terminal `error` event; anything thrown before
+ * one was sent is reported here so the client is never left hanging.
+ *
+ * @param {(send: (event: Object) => void) => Promise<void>} run
+ * @param {string} [buildId] – attached to the fallback error event
+ * @returns {Response}
+ */
+export function buildEventStream(run, buildId) {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      let terminal = false;
+      const send = (event) => {
+        if (event.type === 'result' || event.type === 'error') terminal = true;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        await run(send);
+      } catch (err) {
+        console.error('Build stream error:', err?.message || err); // 🔊 Debug
+        if (!terminal) {
+          send({ type: 'error', buildId, message: String(err?.message || err) });
+        }
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
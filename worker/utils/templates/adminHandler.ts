@@ -0,0 +1,421 @@
+// SPDX-License-Identifier: MIT
+//
+// Admin view template.  renderAdminHandler() instantiates it for the data a
+// generated app stores: each source is a KV prefix (form submissions, KV
+// CRUD records) or a D1 table.  The output is a self-contained TypeScript
+// module serving an admin page plus JSON and CSV endpoints to list, search
+// and export those records.  Everything sits behind HTTP Basic auth (any
+// user name, the ADMIN_TOKEN secret as password) or an
+// `Authorization: Bearer <ADMIN_TOKEN>` header, and is disabled until the
+// secret is set.
+
+import type { DataSchema } from '../../../lib/build/d1Schema';
+import { contactFormKeyPrefix, type ContactFormSpec } from './contactFormHandler';
+import { crudSpecFromTable, type CrudResourceSpec } from './crudHandler';
+import { ADMIN_TOKEN_SECRET, TOKEN_AUTH_RUNTIME } from './tokenAuth';
+
+export type AdminSource =
+  | { name: string; label?: string; kind: 'kv'; binding: string; prefix: string; columns: string[] }
+  | { name: string; label?: string; kind: 'd1'; binding: string; table: string; columns: string[] };
+
+export type AdminSpec = {
+  sources: AdminSource[];
+  title?: string;
+  basePath?: string; // default /admin
+  tokenSecret?: string; // default ADMIN_TOKEN
+};
+
+export { ADMIN_TOKEN_SECRET };
+export const ADMIN_BASE_PATH = '/admin';
+// Where the build renders the module (next to the functions/index.ts entry)
+export const ADMIN_MODULE_PATH = 'functions/admin.ts';
+
+const SOURCE_NAME = /^[A-Za-z][A-Za-z0-9_-]{0,62}$/;
+const COLUMN_NAME = /^[A-Za-z_][A-Za-z0-9_]{0,62}$/;
+const SECRET_NAME = /^[A-Z][A-Z0-9_]*$/;
+
+/** Submissions stored by a form rendered from the contact form template. */
+export function adminSourceForContactForm(spec: ContactFormSpec): AdminSource {
+  return {
+    name: spec.name,
+    label: spec.kind === 'waitlist' ? `${spec.name} signups` : `${spec.name} submissions`,
+    kind: 'kv',
+    binding: spec.storage.binding,
+    prefix: contactFormKeyPrefix(spec),
+    columns: [...spec.fields.map((f) => f.name), 'submittedAt'],
+  };
+}
+
+/** Records of a resource rendered from the CRUD template. */
+export function adminSourceForCrud(spec: CrudResourceSpec): AdminSource {
+  const columns = ['id', ...spec.fields.map((f) => f.name), 'created_at', 'updated_at'];
+  return spec.storage.kind === 'kv'
+    ? { name: spec.resource, kind: 'kv', binding: spec.storage.binding, prefix: `${spec.resource}:`, columns }
+    : { name: spec.resource, kind: 'd1', binding: spec.storage.binding, table: spec.storage.table, columns };
+}
+
+/**
+ * The admin view for a planned project: its form submissions and schema
+ * tables. Undefined when the project stores nothing worth browsing.
+ */
+export function adminSpecFor(project: { contactForm?: ContactFormSpec; schema?: DataSchema }): AdminSpec | undefined {
+  const sources = [
+    ...(project.contactForm ? [adminSourceForContactForm(project.contactForm)] : []),
+    ...(project.schema?.tables || []).map((t) => adminSourceForCrud(crudSpecFromTable(t))),
+  ];
+  return sources.length ? { sources } : undefined;
+}
+
+/** Problems that would make the rendered module wrong; empty when the spec is usable. */
+export function validateAdminSpec(spec: AdminSpec): string[] {
+  const problems: string[] = [];
+  if (!Array.isArray(spec?.sources) || spec.sources.length === 0) problems.push('at least one source is required');
+  const seen = new Set<string>();
+  for (const s of spec?.sources || []) {
+    if (!SOURCE_NAME.test(s?.name || '')) problems.push(`source "${s?.name}" must be letters, digits, - or _`);
+    else if (seen.has(s.name)) problems.push(`source "${s.name}" is declared twice`);
+    seen.add(s?.name);
+    if (!SECRET_NAME.test(s?.binding || '')) problems.push(`source "${s?.name}": binding must be UPPER_SNAKE_CASE`);
+    if (s?.kind === 'd1' && !/^[a-z][a-z0-9_]{0,62}$/.test(s.table || '')) problems.push(`source "${s.name}": table must be snake_case`);
+    if (s?.kind === 'kv' && !s.prefix) problems.push(`source "${s.name}": a KV source needs a key prefix`);
+    if (s?.kind !== 'kv' && s?.kind !== 'd1') problems.push(`source "${(s as AdminSource)?.name}": kind must be kv or d1`);
+    const bad = (s?.columns || []).filter((c) => !COLUMN_NAME.test(c));
+    if (!s?.columns?.length || bad.length) problems.push(`source "${s?.name}": columns must be identifiers`);
+  }
+  if (spec?.basePath !== undefined && !/^\/[A-Za-z0-9_\-/]*[A-Za-z0-9_-]$/.test(spec.basePath)) problems.push(`basePath "${spec.basePath}" must be a plain path`);
+  if (spec?.tokenSecret !== undefined && !SECRET_NAME.test(spec.tokenSecret)) problems.push('tokenSecret must be UPPER_SNAKE_CASE');
+  return problems;
+}
+
+/** A random admin token; the build sets it as the ADMIN_TOKEN secret and shows it to the founder once. */
+export function generateAdminToken(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** The admin contract, for prompts and deploy notes. */
+export function describeAdmin(spec: AdminSpec): string {
+  const base = spec.basePath || ADMIN_BASE_PATH;
+  return (
+    `${base} (admin page) and ${base}/api/<source>[.csv]?q=&limit=&offset= for ${spec.sources.map((s) => s.name).join(', ')}; ` +
+    `Basic auth or Bearer with the ${spec.tokenSecret || ADMIN_TOKEN_SECRET} secret`
+  );
+}
+
+/* ------------------------ rendered module ------------------------ */
+
+// The page only talks to the JSON/CSV endpoints below; values are rendered with textContent
+const PAGE_SCRIPT = `
+var base = document.body.getAttribute("data-base");
+var sources = [];
+var state = { source: null, q: "", offset: 0, limit: 50 };
+var $ = function (id) { return document.getElementById(id); };
+
+function load() {
+  var s = state.source;
+  var qs = "?q=" + encodeURIComponent(state.q) + "&limit=" + state.limit + "&offset=" + state.offset;
+  $("export").href = base + "/api/" + encodeURIComponent(s.name) + ".csv?q=" + encodeURIComponent(state.q);
+  $("status").textContent = "Loading...";
+  fetch(base + "/api/" + encodeURIComponent(s.name) + qs, { credentials: "same-origin" })
+    .then(function (r) { return r.json().then(function (body) { return { ok: r.ok, body: body }; }); })
+    .then(function (res) {
+      if (!res.ok) throw new Error(res.body.error || "Request failed");
+      render(s, res.body);
+    })
+    .catch(function (e) { $("status").textContent = e.message; });
+}
+
+function render(s, page) {
+  var head = $("head"), rows = $("rows");
+  head.textContent = "";
+  rows.textContent = "";
+  var tr = document.createElement("tr");
+  s.columns.forEach(function (c) {
+    var th = document.createElement("th");
+    th.textContent = c;
+    tr.appendChild(th);
+  });
+  head.appendChild(tr);
+  page.items.forEach(function (item) {
+    var row = document.createElement("tr");
+    s.columns.forEach(function (c) {
+      var td = document.createElement("td");
+      var v = item[c];
+      td.textContent = v === null || v === undefined ? "" : typeof v === "object" ? JSON.stringify(v) : String(v);
+      row.appendChild(td);
+    });
+    rows.appendChild(row);
+  });
+  var end = page.offset + page.items.length;
+  $("status").textContent = page.total ? (page.offset + 1) + "-" + end + " of " + page.total : "No records";
+  $("prev").disabled = page.offset === 0;
+  $("next").disabled = page.nextOffset === null;
+}
+
+function select(s) {
+  state.source = s;
+  state.offset = 0;
+  Array.prototype.forEach.call($("tabs").children, function (b) { b.setAttribute("aria-pressed", String(b.textContent === (s.label || s.name))); });
+  load();
+}
+
+$("search").addEventListener("submit", function (e) {
+  e.preventDefault();
+  state.q = $("q").value;
+  state.offset = 0;
+  load();
+});
+$("prev").addEventListener("click", function () { state.offset = Math.max(0, state.offset - state.limit); load(); });
+$("next").addEventListener("click", function () { state.offset += state.limit; load(); });
+
+fetch(base + "/api/sources", { credentials: "same-origin" })
+  .then(function (r) { return r.json(); })
+  .then(function (body) {
+    sources = body.sources || [];
+    sources.forEach(function (s) {
+      var b = document.createElement("button");
+      b.type = "button";
+      b.textContent = s.label || s.name;
+      b.addEventListener("click", function () { select(s); });
+      $("tabs").appendChild(b);
+    });
+    if (sources.length) select(sources[0]);
+  });
+`;
+
+function renderPage(title: string, basePath: string): string {
+  const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${esc(title)}</title>
+<style>
+body{font-family:system-ui,sans-serif;margin:0;padding:1.5rem;color:#111827;background:#f8fafc}
+h1{font-size:1.25rem;margin:0 0 1rem}
+#tabs button,#pager button{margin:0 .25rem .5rem 0;padding:.4rem .8rem;border:1px solid #cbd5e1;border-radius:6px;background:#fff;cursor:pointer}
+#tabs button[aria-pressed=true]{background:#1e293b;color:#fff}
+form{display:flex;gap:.5rem;margin:.5rem 0}
+input{flex:1;padding:.4rem;border:1px solid #cbd5e1;border-radius:6px}
+table{width:100%;border-collapse:collapse;background:#fff;font-size:.875rem}
+th,td{border-bottom:1px solid #e2e8f0;padding:.4rem;text-align:left;vertical-align:top;max-width:24rem;overflow-wrap:anywhere}
+th{background:#f1f5f9}
+#bar{display:flex;justify-content:space-between;align-items:center;margin:.5rem 0}
+</style>
+</head>
+<body data-base="${esc(basePath)}">
+<h1>${esc(title)}</h1>
+<div id="tabs"></div>
+<form id="search"><input id="q" type="search" placeholder="Search"><button type="submit">Search</button><a id="export" href="#">Export CSV</a></form>
+<div id="bar"><span id="status"></span><span id="pager"><button id="prev" type="button">Prev</button><button id="next" type="button">Next</button></span></div>
+<table><thead id="head"></thead><tbody id="rows"></tbody></table>
+<script>${PAGE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+const RUNTIME = `
+type Row = Record<string, unknown>;
+type Env = Record<string, unknown>;
+
+interface KVNamespace {
+  get(key: string): Promise<string | null>;
+  list(opts?: { prefix?: string; cursor?: string }): Promise<{ keys: { name: string; metadata?: unknown }[]; list_complete: boolean; cursor?: string }>;
+}
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  first<T = Row>(): Promise<T | null>;
+  all<T = Row>(): Promise<{ results?: T[] }>;
+}
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+// KV sources are read whole for search and export; past this many records, only the newest are
+// seen (one get per record, kept under the 1000 KV operations a Worker invocation may make)
+const KV_SCAN_LIMIT = 900;
+const EXPORT_LIMIT = 10000;
+const HEADERS = { "Cache-Control": "no-store", "X-Robots-Tag": "noindex" };
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...HEADERS, ...headers },
+  });
+}
+
+function errorResponse(status: number, code: string, message: string, headers?: Record<string, string>): Response {
+  return json({ error: message, code }, status, headers);
+}
+
+${TOKEN_AUTH_RUNTIME.trim()}
+
+export function isAdminRequest(req: Request, env: Env): boolean {
+  return hasToken(req, env[TOKEN_SECRET]);
+}
+
+function quote(ident: string): string {
+  return '"' + ident + '"';
+}
+
+function matches(row: Row, q: string): boolean {
+  return !q || JSON.stringify(row).toLowerCase().includes(q.toLowerCase());
+}
+
+// Form submissions carry their write time as { t } metadata
+function storedAt(metadata: unknown): number | undefined {
+  const t = (metadata as { t?: unknown } | null | undefined)?.t;
+  return typeof t === "number" && Number.isFinite(t) ? t : undefined;
+}
+
+async function kvRows(kv: KVNamespace, prefix: string): Promise<Row[]> {
+  const keys: { name: string; t?: number }[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix, cursor });
+    keys.push(...page.keys.map((k) => ({ name: k.name, t: storedAt(k.metadata) })));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  // Newest first: by stored time when every key has one (waitlist keys are emails),
+  // otherwise by key, which generated CRUD and contact stores make time-ordered
+  keys.reverse();
+  if (keys.every((k) => k.t !== undefined)) keys.sort((a, b) => (b.t as number) - (a.t as number));
+  const newest = keys.slice(0, KV_SCAN_LIMIT).map((k) => k.name);
+  const rows = await Promise.all(
+    newest.map(async (key) => {
+      const raw = await kv.get(key);
+      if (!raw) return null;
+      try {
+        const value = JSON.parse(raw);
+        return { id: key.slice(prefix.length), ...(value && typeof value === "object" ? value : { value }) } as Row;
+      } catch {
+        return { id: key.slice(prefix.length), value: raw } as Row;
+      }
+    })
+  );
+  return rows.filter((r): r is Row => r !== null);
+}
+
+async function query(source: Source, env: Env, q: string, limit: number, offset: number): Promise<{ items: Row[]; total: number }> {
+  const binding = env[source.binding];
+  if (!binding) throw new Error("Storage binding " + source.binding + " is not configured");
+  if (source.kind === "kv") {
+    const rows = (await kvRows(binding as KVNamespace, source.prefix)).filter((r) => matches(r, q));
+    return { items: rows.slice(offset, offset + limit), total: rows.length };
+  }
+  const db = binding as D1Database;
+  const table = quote(source.table);
+  const like = "%" + q.replace(/[!%_]/g, (c) => "!" + c) + "%";
+  const where = q ? " WHERE " + source.columns.map((c) => "CAST(" + quote(c) + " AS TEXT) LIKE ? ESCAPE '!'").join(" OR ") : "";
+  const params = q ? source.columns.map(() => like) : [];
+  const count = await db.prepare("SELECT COUNT(*) AS n FROM " + table + where).bind(...params).first<{ n: number }>();
+  const { results } = await db
+    .prepare("SELECT * FROM " + table + where + " ORDER BY id DESC LIMIT ? OFFSET ?")
+    .bind(...params, limit, offset)
+    .all();
+  return { items: results || [], total: Number(count?.n || 0) };
+}
+
+// Cells that spreadsheet apps would run as formulas get a leading quote
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (/^[=+\\-@\\t\\r]/.test(text)) text = "'" + text;
+  return /[",\\r\\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+}
+
+function toCsv(columns: string[], rows: Row[]): string {
+  return [columns.map(csvCell).join(","), ...rows.map((r) => columns.map((c) => csvCell(r[c])).join(","))].join("\\r\\n") + "\\r\\n";
+}
+`;
+
+function renderHandler(): string {
+  return `
+/**
+ * GET BASE_PATH                         admin page
+ * GET BASE_PATH/api/sources             what can be browsed
+ * GET BASE_PATH/api/:source             {items,total,limit,offset,nextOffset} (?q=&limit=&offset=)
+ * GET BASE_PATH/api/:source.csv         CSV export of every match (?q=)
+ */
+export async function adminHandler(req: Request, env: Env = {}): Promise<Response> {
+  const url = new URL(req.url);
+  if (url.pathname !== BASE_PATH && !url.pathname.startsWith(BASE_PATH + "/")) {
+    return errorResponse(404, "not_found", "No route for " + url.pathname);
+  }
+  if (!env[TOKEN_SECRET]) {
+    return errorResponse(503, "admin_disabled", "Admin is disabled until the " + TOKEN_SECRET + " secret is set");
+  }
+  if (!isAdminRequest(req, env)) {
+    return errorResponse(401, "unauthorized", "Admin credentials required", { "WWW-Authenticate": 'Basic realm="admin", charset="UTF-8"' });
+  }
+  if (req.method !== "GET") return errorResponse(405, "method_not_allowed", "Method not allowed", { Allow: "GET" });
+
+  const rest = url.pathname.slice(BASE_PATH.length).replace(/^\\/+|\\/+$/g, "");
+  if (!rest) return new Response(ADMIN_HTML, { headers: { "Content-Type": "text/html; charset=utf-8", ...HEADERS } });
+  if (rest === "api/sources") {
+    return json({ sources: SOURCES.map((s) => ({ name: s.name, label: s.label, columns: s.columns })) });
+  }
+  const m = /^api\\/([A-Za-z0-9_-]+)(\\.csv)?$/.exec(rest);
+  const source = m ? SOURCES.find((s) => s.name === m[1]) : undefined;
+  if (!m || !source) return errorResponse(404, "not_found", "No route for " + url.pathname);
+
+  const q = (url.searchParams.get("q") || "").slice(0, 200);
+  try {
+    if (m[2]) {
+      const { items } = await query(source, env, q, EXPORT_LIMIT, 0);
+      return new Response(toCsv(source.columns, items), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="' + source.name + '.csv"',
+          ...HEADERS,
+        },
+      });
+    }
+    const limit = Math.min(Math.max(Math.floor(Number(url.searchParams.get("limit")) || 50), 1), 200);
+    const offset = Math.max(Math.floor(Number(url.searchParams.get("offset")) || 0), 0);
+    const { items, total } = await query(source, env, q, limit, offset);
+    const next = offset + items.length;
+    return json({ items, total, limit, offset, nextOffset: next < total ? next : null });
+  } catch (err) {
+    console.error("admin query failed:", String((err as { message?: string })?.message || err));
+    return errorResponse(500, "internal_error", String((err as { message?: string })?.message || "Query failed"));
+  }
+}
+`;
+}
+
+/**
+ * Instantiate the template. Throws on an invalid spec (see
+ * validateAdminSpec) rather than rendering a broken module.
+ */
+export function renderAdminHandler(spec: AdminSpec): string {
+  const problems = validateAdminSpec(spec);
+  if (problems.length > 0) throw new Error(`renderAdminHandler: ${problems.join('; ')}`);
+
+  const basePath = spec.basePath || ADMIN_BASE_PATH;
+  const sources = spec.sources.map((s) => `  ${JSON.stringify(s)},`);
+
+  return [
+    '// Generated from the admin template. Set the admin password with:',
+    `//   wrangler secret put ${spec.tokenSecret || ADMIN_TOKEN_SECRET}`,
+    '',
+    `const BASE_PATH = ${JSON.stringify(basePath)};`,
+    `const TOKEN_SECRET = ${JSON.stringify(spec.tokenSecret || ADMIN_TOKEN_SECRET)};`,
+    '',
+    'type Source =',
+    '  | { name: string; label?: string; kind: "kv"; binding: string; prefix: string; columns: string[] }',
+    '  | { name: string; label?: string; kind: "d1"; binding: string; table: string; columns: string[] };',
+    '',
+    'const SOURCES: Source[] = [',
+    ...sources,
+    '];',
+    '',
+    `const ADMIN_HTML = ${JSON.stringify(renderPage(spec.title || 'Admin', basePath))};`,
+    RUNTIME,
+    renderHandler().trim(),
+    '',
+  ].join('\n');
+}
@@ -1,23 +1,412 @@
 // SPDX-License-Identifier: MIT
 //
-// Contact form submission handler template.  This stub handles a simple
-// contact form by parsing JSON input and returning a success response.  A
-// code generator can extend this file to send emails, store messages in
-// a database, or trigger other downstream workflows.
+// Contact / waitlist form template.  renderContactFormHandler() instantiates
+// it for one form: the fields, the KV namespace submissions are stored in,
+// the spam checks and the notification adapter are parameters, and the
+// output is a self-contained TypeScript module for the generated Worker.
+// Every submission is validated, checked against a honeypot field and a
+// minimum fill-in time, rate limited per client IP (hashed, in KV) and
+// stored before anyone is notified.  Errors use the same JSON shape as the
+// CRUD template: { "error": "<message>", "code": "<code>", "details"?: {...} }.
 
-export async function contactFormHandler(req: Request): Promise<Response> {
-  if (req.method !== 'POST') {
-    return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: { 'Content-Type': 'application/json' } });
+export type FormFieldType = 'text' | 'email' | 'url' | 'phone';
+
+export type FormField = {
+  name: string;
+  type: FormFieldType;
+  required?: boolean;
+  maxLength?: number; // default 200, or 5000 for a field named "message"
+};
+
+export type FormNotifier =
+  | { kind: 'none' }
+  // POSTs { form, kind, submission } as JSON to the URL in this secret
+  | { kind: 'webhook'; urlSecret: string }
+  // Sends through Resend's HTTP API; recipient address comes from a secret
+  | { kind: 'email'; provider: 'resend'; apiKeySecret: string; toSecret: string; from?: string };
+
+export type ContactFormSpec = {
+  // Route segment and handler prefix, e.g. "waitlist" → /api/waitlist, waitlistHandler
+  name: string;
+  // A waitlist keeps one signup per email address and answers GET <path>/count
+  kind: 'contact' | 'waitlist';
+  fields: FormField[];
+  // KV namespace for submissions and rate-limit counters
+  storage: { binding: string };
+  notify?: FormNotifier;
+  honeypotField?: string; // default "website"
+  minSubmitSeconds?: number; // default 3
+  rateLimit?: { max: number; windowSeconds: number }; // default 5 per 10 minutes
+  basePath?: string; // default /api/<name>
+  handlerName?: string; // default <name in camelCase>Handler
+};
+
+// Hidden field the page fills with Date.now() when the form is shown
+export const FORM_TIMESTAMP_FIELD = '_ts';
+
+const NAME = /^[a-z][a-z0-9_-]{0,62}$/;
+const FIELD_NAME = /^[A-Za-z][A-Za-z0-9_]{0,62}$/;
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const SECRET_NAME = /^[A-Z][A-Z0-9_]*$/;
+const FIELD_TYPES: FormFieldType[] = ['text', 'email', 'url', 'phone'];
+
+export function contactFormHandlerName(spec: Pick<ContactFormSpec, 'name' | 'handlerName'>): string {
+  if (spec.handlerName) return spec.handlerName;
+  return `${spec.name.replace(/[-_]+([a-z0-9])/g, (_, c: string) => c.toUpperCase())}Handler`;
+}
+
+export function contactFormPath(spec: Pick<ContactFormSpec, 'basePath' | 'name'>): string {
+  return (spec.basePath || `/api/${spec.name}`).replace(/\/+$/, '') || '/';
+}
+
+/** Where the build renders the handler module. */
+export function contactFormModulePath(spec: Pick<ContactFormSpec, 'name'>): string {
+  return `functions/api/${spec.name}.ts`;
+}
+
+/** KV key prefix the handler stores submissions under. */
+export function contactFormKeyPrefix(spec: Pick<ContactFormSpec, 'name' | 'kind'>): string {
+  return spec.kind === 'waitlist' ? `${spec.name}:signup:` : `${spec.name}:submission:`;
+}
+
+function honeypot(spec: ContactFormSpec): string {
+  return spec.honeypotField || 'website';
+}
+
+/** Problems that would make the rendered module wrong; empty when the spec is usable. */
+export function validateContactFormSpec(spec: ContactFormSpec): string[] {
+  const problems: string[] = [];
+  if (!NAME.test(spec?.name || '')) problems.push(`name "${spec?.name}" must be lowercase letters, digits, - or _`);
+  else if (!IDENTIFIER.test(contactFormHandlerName(spec))) problems.push(`handler name "${contactFormHandlerName(spec)}" is not a valid identifier`);
+  if (spec?.kind !== 'contact' && spec?.kind !== 'waitlist') problems.push('kind must be contact or waitlist');
+  if (spec?.basePath !== undefined && !/^\/[A-Za-z0-9_\-/]*$/.test(spec.basePath)) problems.push(`basePath "${spec.basePath}" must be a plain path`);
+  if (!Array.isArray(spec?.fields) || spec.fields.length === 0) problems.push('at least one field is required');
+  const seen = new Set<string>();
+  for (const f of spec?.fields || []) {
+    if (!FIELD_NAME.test(f?.name || '')) problems.push(`field "${f?.name}" must be letters, digits or _`);
+    else if (seen.has(f.name)) problems.push(`field "${f.name}" is declared twice`);
+    seen.add(f?.name);
+    if (!FIELD_TYPES.includes(f?.type)) problems.push(`field "${f?.name}" has unknown type "${f?.type}"`);
+  }
+  if (spec && seen.has(honeypot(spec))) problems.push(`honeypot "${honeypot(spec)}" must not be a real field`);
+  if (spec?.kind === 'waitlist' && !(spec.fields || []).some((f) => f?.type === 'email' && f.required)) {
+    problems.push('a waitlist needs a required email field');
+  }
+  if (!SECRET_NAME.test(spec?.storage?.binding || '')) problems.push(`binding "${spec?.storage?.binding}" must be UPPER_SNAKE_CASE`);
+  const notify = spec?.notify;
+  if (notify?.kind === 'webhook' && !SECRET_NAME.test(notify.urlSecret || '')) problems.push('webhook urlSecret must be UPPER_SNAKE_CASE');
+  if (notify?.kind === 'email' && (!SECRET_NAME.test(notify.apiKeySecret || '') || !SECRET_NAME.test(notify.toSecret || ''))) {
+    problems.push('email apiKeySecret and toSecret must be UPPER_SNAKE_CASE');
   }
+  const limit = spec?.rateLimit;
+  if (limit && !(limit.max >= 1 && limit.windowSeconds >= 1)) problems.push('rateLimit needs max and windowSeconds of at least 1');
+  return problems;
+}
+
+/** Secrets the rendered handler reads; declare them on the binding manifest. */
+export function contactFormSecrets(spec: ContactFormSpec): string[] {
+  const notify = spec.notify;
+  if (notify?.kind === 'webhook') return [notify.urlSecret];
+  if (notify?.kind === 'email') return [notify.apiKeySecret, notify.toSecret];
+  return [];
+}
+
+/** The request/response contract, for whoever writes the page that posts to it. */
+export function describeContactForm(spec: ContactFormSpec): string {
+  const path = contactFormPath(spec);
+  const fields = spec.fields.map((f) => `${f.name}${f.required ? '' : '?'}`).join(', ');
+  return (
+    `POST ${path} with JSON or form data {${fields}, ${honeypot(spec)}: "" (honeypot: a visually hidden input that must stay empty), ` +
+    `${FORM_TIMESTAMP_FIELD}: Date.now() taken when the form is shown} → 201 {ok:true}` +
+    (spec.kind === 'waitlist' ? ' (200 {ok:true,duplicate:true} for an address already on the list)' : '') +
+    `; 400 {error,code,details} on invalid fields; 429 {error,code:"rate_limited"} when sending too often` +
+    (spec.kind === 'waitlist' ? `. GET ${path}/count → {count}` : '')
+  );
+}
+
+/* ------------------------ rendered module ------------------------ */
+
+const RUNTIME = `
+type FieldType = "text" | "email" | "url" | "phone";
+type FieldRule = { type: FieldType; required?: boolean; maxLength: number };
+type Submission = Record<string, string>;
+type Env = Record<string, unknown>;
+
+interface KVNamespace {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, opts?: { expirationTtl?: number; metadata?: unknown }): Promise<void>;
+  list(opts?: { prefix?: string; cursor?: string }): Promise<{ keys: { name: string }[]; list_complete: boolean; cursor?: string }>;
+}
+
+const TIMESTAMP_FIELD = ${JSON.stringify(FORM_TIMESTAMP_FIELD)};
+const MAX_BODY_BYTES = 16 * 1024;
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function errorResponse(status: number, code: string, message: string, details?: Record<string, string>, headers?: Record<string, string>): Response {
+  return json({ error: message, code, ...(details ? { details } : {}) }, status, headers);
+}
+
+// JSON from fetch() or urlencoded/multipart from a plain <form> post
+async function readBody(req: Request): Promise<Record<string, unknown> | null> {
+  if (Number(req.headers.get("Content-Length") || 0) > MAX_BODY_BYTES) return null;
+  const type = req.headers.get("Content-Type") || "";
   try {
-    const data = await req.json();
-    const { name, email, message } = data;
-    if (!name || !email || !message) {
-      return new Response(JSON.stringify({ error: 'Missing name, email or message' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+    if (type.includes("application/x-www-form-urlencoded") || type.includes("multipart/form-data")) {
+      const form = await req.formData();
+      const out: Record<string, unknown> = {};
+      form.forEach((value, key) => {
+        if (typeof value === "string") out[key] = value;
+      });
+      return out;
     }
-    // TODO: send an email or persist the message
-    return new Response(JSON.stringify({ success: true }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    const text = await req.text();
+    if (text.length > MAX_BODY_BYTES) return null;
+    const body = JSON.parse(text);
+    return body && typeof body === "object" && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+const PATTERNS: Record<FieldType, RegExp> = {
+  text: /[\\s\\S]*/,
+  email: /^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/,
+  url: /^https?:\\/\\/[^\\s]+$/i,
+  phone: /^\\+?[0-9 ().-]{6,20}$/,
+};
+
+function validate(body: Record<string, unknown>): { value: Submission; errors?: Record<string, string> } {
+  const value: Submission = {};
+  const errors: Record<string, string> = {};
+  for (const [name, rule] of Object.entries(FIELDS)) {
+    const raw = body[name];
+    const text = typeof raw === "string" ? raw.trim() : raw === undefined || raw === null ? "" : null;
+    if (text === null) errors[name] = "must be a string";
+    else if (!text) {
+      if (rule.required) errors[name] = "is required";
+    } else if (text.length > rule.maxLength) errors[name] = "must be at most " + rule.maxLength + " characters";
+    else if (!PATTERNS[rule.type].test(text)) errors[name] = "must be a valid " + rule.type;
+    else value[name] = rule.type === "email" ? text.toLowerCase() : text;
+  }
+  return Object.keys(errors).length ? { value, errors } : { value };
+}
+
+// Filled honeypot, or sent faster than a person could type
+function looksAutomated(body: Record<string, unknown>): boolean {
+  if (typeof body[HONEYPOT] === "string" && (body[HONEYPOT] as string).trim() !== "") return true;
+  const shownAt = Number(body[TIMESTAMP_FIELD]);
+  return Number.isFinite(shownAt) && Date.now() - shownAt < MIN_SUBMIT_MS;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Fixed-window counter per hashed client IP; KV is eventually consistent, so this is a soft limit
+async function rateLimited(kv: KVNamespace, req: Request): Promise<boolean> {
+  const ip = req.headers.get("CF-Connecting-IP") || req.headers.get("X-Forwarded-For") || "unknown";
+  const windowIndex = Math.floor(Date.now() / 1000 / RATE_LIMIT.windowSeconds);
+  const key = "ratelimit:" + FORM + ":" + (await sha256(ip)).slice(0, 32) + ":" + windowIndex;
+  const count = Number((await kv.get(key)) || 0);
+  if (count >= RATE_LIMIT.max) return true;
+  await kv.put(key, String(count + 1), { expirationTtl: Math.max(60, RATE_LIMIT.windowSeconds) });
+  return false;
+}
+
+async function countKeys(kv: KVNamespace, prefix: string): Promise<number> {
+  let count = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix, cursor });
+    count += page.keys.length;
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return count;
+}
+`;
+
+const NOTIFY_RUNTIME = `
+export type Notification = { form: string; kind: string; submission: Submission & { submittedAt: string } };
+export type Notifier = (notification: Notification, env: Env) => Promise<void>;
+
+// Test stub: records notifications instead of sending them. Only used when
+// a test installs it with setNotifier(stubNotifier) and empties the outbox.
+export const outbox: Notification[] = [];
+export const stubNotifier: Notifier = async (notification) => {
+  outbox.push(notification);
+};
+
+// No adapter configured (or its secrets aren't set): the submission is
+// already stored in KV, so only note that one arrived, never its contents
+const storedOnlyNotifier: Notifier = async (notification) => {
+  console.log("[" + notification.form + "] " + notification.kind + " submission stored; no notifier configured");
+};
+
+let notifierOverride: Notifier | null = null;
+/** Replace the notifier (e.g. with stubNotifier in tests); null restores the default. */
+export function setNotifier(notifier: Notifier | null): void {
+  notifierOverride = notifier;
+}
+`;
+
+function renderAdapter(notify: FormNotifier): string {
+  if (notify.kind === 'webhook') {
+    return `
+const webhookNotifier: Notifier = async (notification, env) => {
+  const res = await fetch(String(env[${JSON.stringify(notify.urlSecret)}]), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(notification),
+  });
+  if (!res.ok) throw new Error("webhook answered " + res.status);
+};
+
+function pickNotifier(env: Env): Notifier {
+  if (notifierOverride) return notifierOverride;
+  return env[${JSON.stringify(notify.urlSecret)}] ? webhookNotifier : storedOnlyNotifier;
+}
+`;
+  }
+  if (notify.kind === 'email') {
+    return `
+const EMAIL_FROM = ${JSON.stringify(notify.from || 'onboarding@resend.dev')};
+
+const emailNotifier: Notifier = async (notification, env) => {
+  const lines = Object.entries(notification.submission).map(([k, v]) => k + ": " + v);
+  const res = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: "Bearer " + String(env[${JSON.stringify(notify.apiKeySecret)}]),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: EMAIL_FROM,
+      to: String(env[${JSON.stringify(notify.toSecret)}]),
+      subject: "New " + notification.form + " submission",
+      text: lines.join("\\n"),
+      ...(notification.submission.email ? { reply_to: notification.submission.email } : {}),
+    }),
+  });
+  if (!res.ok) throw new Error("email provider answered " + res.status);
+};
+
+function pickNotifier(env: Env): Notifier {
+  if (notifierOverride) return notifierOverride;
+  return env[${JSON.stringify(notify.apiKeySecret)}] && env[${JSON.stringify(notify.toSecret)}] ? emailNotifier : storedOnlyNotifier;
+}
+`;
+  }
+  return `
+function pickNotifier(_env: Env): Notifier {
+  return notifierOverride || storedOnlyNotifier;
+}
+`;
+}
+
+function renderHandler(spec: ContactFormSpec): string {
+  const waitlist = spec.kind === 'waitlist';
+  const emailField = spec.fields.find((f) => f.type === 'email' && f.required)?.name;
+  return `
+/**
+ * POST BASE_PATH            submit (JSON or form data)${waitlist ? '\n * GET  BASE_PATH/count      number of signups' : ''}
+ */
+export async function ${contactFormHandlerName(spec)}(req: Request, env: Env = {}): Promise<Response> {
+  const url = new URL(req.url);
+  const kv = env[BINDING] as KVNamespace | undefined;
+  if (!kv) return errorResponse(500, "storage_unavailable", "Storage binding " + BINDING + " is not configured");
+${
+  waitlist
+    ? `
+  if (url.pathname === BASE_PATH + "/count") {
+    if (req.method !== "GET") return errorResponse(405, "method_not_allowed", "Method not allowed", undefined, { Allow: "GET" });
+    return json({ count: await countKeys(kv, KEY_PREFIX) });
+  }`
+    : ''
+}
+  if (url.pathname !== BASE_PATH) return errorResponse(404, "not_found", "No route for " + url.pathname);
+  if (req.method !== "POST") return errorResponse(405, "method_not_allowed", "Method not allowed", undefined, { Allow: "POST" });
+
+  try {
+    if (await rateLimited(kv, req)) {
+      return errorResponse(429, "rate_limited", "Too many submissions; please try again later", undefined, {
+        "Retry-After": String(RATE_LIMIT.windowSeconds),
+      });
+    }
+    const body = await readBody(req);
+    if (!body) return errorResponse(400, "invalid_body", "Send the form as JSON or form data");
+    // Bots get the same answer as people, so they don't learn to adapt
+    if (looksAutomated(body)) return json({ ok: true }, 201);
+    if (!Number.isFinite(Number(body[TIMESTAMP_FIELD]))) {
+      return errorResponse(400, "invalid_form", "The form is missing its " + TIMESTAMP_FIELD + " field; reload the page and try again");
+    }
+    const { value, errors } = validate(body);
+    if (errors) return errorResponse(400, "validation_failed", "Please check the highlighted fields", errors);
+
+    const submission = { ...value, submittedAt: new Date().toISOString() };
+${
+  waitlist
+    ? `    const key = KEY_PREFIX + value[${JSON.stringify(emailField)}];
+    if ((await kv.get(key)) !== null) return json({ ok: true, duplicate: true });`
+    : `    const key = KEY_PREFIX + Date.now().toString(36).padStart(9, "0") + crypto.randomUUID().replace(/-/g, "").slice(0, 8);`
+}
+    // The admin view sorts on the stored time: waitlist keys are emails, not time-ordered
+    await kv.put(key, JSON.stringify(submission), { metadata: { t: Date.now() } });
+
+    // Stored first: a failing notification never loses a submission
+    try {
+      await pickNotifier(env)({ form: FORM, kind: KIND, submission }, env);
+    } catch (err) {
+      console.error("[" + FORM + "] notification failed:", String((err as { message?: string })?.message || err));
+    }
+    return json({ ok: true }, 201);
   } catch (err) {
-    return new Response(JSON.stringify({ error: 'Invalid JSON payload' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+    console.error("[" + FORM + "] submission failed:", String((err as { message?: string })?.message || err));
+    return errorResponse(500, "internal_error", "Something went wrong; please try again");
   }
 }
+`;
+}
+
+/**
+ * Instantiate the template for one form. Throws on an invalid spec
+ * (see validateContactFormSpec) rather than rendering a broken module.
+ */
+export function renderContactFormHandler(spec: ContactFormSpec): string {
+  const problems = validateContactFormSpec(spec);
+  if (problems.length > 0) throw new Error(`renderContactFormHandler: ${problems.join('; ')}`);
+
+  const limit = spec.rateLimit || { max: 5, windowSeconds: 600 };
+  const fields = spec.fields.map((f) => {
+    const maxLength = f.maxLength || (f.name === 'message' ? 5000 : 200);
+    return `  ${JSON.stringify(f.name)}: ${JSON.stringify({ type: f.type, ...(f.required ? { required: true } : {}), maxLength })},`;
+  });
+
+  return [
+    `// Generated from the contact form template: ${spec.name} (${spec.kind}).`,
+    '// Edit the settings and field rules below rather than the request handling.',
+    '',
+    `const FORM = ${JSON.stringify(spec.name)};`,
+    `const KIND = ${JSON.stringify(spec.kind)};`,
+    `const BASE_PATH = ${JSON.stringify(contactFormPath(spec))};`,
+    `const BINDING = ${JSON.stringify(spec.storage.binding)};`,
+    `const KEY_PREFIX = ${JSON.stringify(contactFormKeyPrefix(spec))};`,
+    `const HONEYPOT = ${JSON.stringify(honeypot(spec))};`,
+    `const MIN_SUBMIT_MS = ${Math.round((spec.minSubmitSeconds ?? 3) * 1000)};`,
+    `const RATE_LIMIT = { max: ${Math.floor(limit.max)}, windowSeconds: ${Math.floor(limit.windowSeconds)} };`,
+    '',
+    'const FIELDS: Record<string, FieldRule> = {',
+    ...fields,
+    '};',
+    RUNTIME,
+    NOTIFY_RUNTIME.trim(),
+    renderAdapter(spec.notify || { kind: 'none' }),
+    renderHandler(spec).trimStart(),
+  ].join('\n');
+}
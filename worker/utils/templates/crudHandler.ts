@@ -1,32 +1,538 @@
 // SPDX-License-Identifier: MIT
 //
-// Generic CRUD endpoint template.  This stub demonstrates how a typical
-// Cloudflare Pages Function might handle Create, Read, Update and Delete
-// operations over a resource.  Code generators can clone this file and
-// customise the storage mechanism and data model as needed.
+// Generic CRUD endpoint template.  renderCrudHandler() instantiates it for
+// one resource: the field schema, the storage adapter (KV or D1) and the
+// route are parameters, and the output is a self-contained TypeScript
+// module for the generated Worker.  The rendered handler lists with
+// pagination, gets, creates, updates and deletes records, validates every
+// write against the field schema and answers every error with the same
+// JSON shape: { "error": "<message>", "code": "<code>", "details"?: {...} }.
+// Every route needs the ADMIN_TOKEN secret as a Bearer token unless the
+// spec makes reads or creates public (e.g. a table visitors post to).
+// Code generators instantiate this instead of asking the model for CRUD.
 
-export async function crudHandler(req: Request): Promise<Response> {
-  const url = new URL(req.url);
-  const id = url.searchParams.get('id');
-  switch (req.method) {
-    case 'GET': {
-      // TODO: fetch and return a record by ID
-      return new Response(JSON.stringify({ message: 'Read stub', id }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+import type { ColumnType, TableSpec } from '../../../lib/build/d1Schema';
+import { ADMIN_TOKEN_SECRET, TOKEN_AUTH_RUNTIME } from './tokenAuth';
+
+export type CrudFieldType = ColumnType;
+
+export type CrudField = {
+  name: string;
+  type: CrudFieldType;
+  required?: boolean;
+  // Applied by the database on create (D1 only); a required field with a default may be omitted
+  default?: string | number | boolean;
+  maxLength?: number; // text, default 10000
+  min?: number; // integer/real
+  max?: number;
+  enum?: string[]; // text
+};
+
+export type CrudStorage =
+  | { kind: 'kv'; binding: string }
+  // The table must have the id/created_at/updated_at columns d1Schema.ts adds
+  | { kind: 'd1'; binding: string; table: string };
+
+export type CrudResourceSpec = {
+  // Collection name, also the last path segment of the route (e.g. "items")
+  resource: string;
+  fields: CrudField[];
+  storage: CrudStorage;
+  // Defaults to /api/<resource>; /<id> below it addresses one record
+  basePath?: string;
+  // Defaults to <resource in camelCase>Handler
+  handlerName?: string;
+  // GET without the token (list and read)
+  publicRead?: boolean;
+  // POST to the collection without the token; updates and deletes always need it
+  publicCreate?: boolean;
+  // Defaults to ADMIN_TOKEN, the secret the admin view uses
+  tokenSecret?: string;
+};
+
+const RESOURCE_NAME = /^[A-Za-z][A-Za-z0-9_-]{0,62}$/;
+const FIELD_NAME = /^[A-Za-z][A-Za-z0-9_]{0,62}$/;
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const BINDING_NAME = /^[A-Z][A-Z0-9_]*$/;
+const FIELD_TYPES: CrudFieldType[] = ['text', 'integer', 'real', 'boolean', 'datetime', 'json'];
+const AUTO_FIELDS = ['id', 'created_at', 'updated_at'];
+
+export function crudHandlerName(spec: Pick<CrudResourceSpec, 'resource' | 'handlerName'>): string {
+  if (spec.handlerName) return spec.handlerName;
+  const camel = spec.resource.replace(/[-_]+([A-Za-z0-9])/g, (_, c: string) => c.toUpperCase());
+  return `${camel.charAt(0).toLowerCase()}${camel.slice(1)}Handler`;
+}
+
+/** Problems that would make the rendered module wrong; empty when the spec is usable. */
+export function validateCrudSpec(spec: CrudResourceSpec): string[] {
+  const problems: string[] = [];
+  if (!RESOURCE_NAME.test(spec?.resource || '')) problems.push(`resource "${spec?.resource}" must be letters, digits, - or _`);
+  else if (!IDENTIFIER.test(crudHandlerName(spec))) problems.push(`handler name "${crudHandlerName(spec)}" is not a valid identifier`);
+  if (spec?.basePath !== undefined && !/^\/[A-Za-z0-9_\-/]*$/.test(spec.basePath)) problems.push(`basePath "${spec.basePath}" must be a plain path`);
+  if (!Array.isArray(spec?.fields) || spec.fields.length === 0) problems.push('at least one field is required');
+  const seen = new Set<string>();
+  for (const f of spec?.fields || []) {
+    if (!FIELD_NAME.test(f?.name || '')) problems.push(`field "${f?.name}" must be letters, digits or _`);
+    else if (AUTO_FIELDS.includes(f.name)) problems.push(`field "${f.name}" is managed by the storage adapter`);
+    else if (seen.has(f.name)) problems.push(`field "${f.name}" is declared twice`);
+    seen.add(f?.name);
+    if (!FIELD_TYPES.includes(f?.type)) problems.push(`field "${f?.name}" has unknown type "${f?.type}"`);
+  }
+  const storage = spec?.storage;
+  if (!storage || (storage.kind !== 'kv' && storage.kind !== 'd1')) problems.push('storage must be kv or d1');
+  else {
+    if (!BINDING_NAME.test(storage.binding || '')) problems.push(`binding "${storage.binding}" must be UPPER_SNAKE_CASE`);
+    if (storage.kind === 'd1' && !/^[a-z][a-z0-9_]{0,62}$/.test(storage.table || '')) problems.push(`table "${storage.table}" must be snake_case`);
+  }
+  if (spec?.tokenSecret !== undefined && !BINDING_NAME.test(spec.tokenSecret)) problems.push('tokenSecret must be UPPER_SNAKE_CASE');
+  return problems;
+}
+
+/** A spec for a table rendered by d1Schema.ts; foreign keys are integer ids. */
+export function crudSpecFromTable(table: TableSpec, binding = 'DB'): CrudResourceSpec {
+  return {
+    resource: table.name,
+    fields: table.columns.map((c) => ({
+      name: c.name,
+      type: c.references ? 'integer' : c.type,
+      ...(c.required ? { required: true } : {}),
+      ...(c.default !== undefined ? { default: c.default } : {}),
+    })),
+    storage: { kind: 'd1', binding, table: table.name },
+    ...(table.publicRead ? { publicRead: true } : {}),
+    ...(table.publicCreate ? { publicCreate: true } : {}),
+  };
+}
+
+/* ------------------------ rendered module ------------------------ */
+
+// Shared by both adapters: responses, validation and routing helpers
+const RUNTIME = `
+type FieldType = "text" | "integer" | "real" | "boolean" | "datetime" | "json";
+type FieldRule = {
+  type: FieldType;
+  required?: boolean;
+  hasDefault?: boolean;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  enum?: string[];
+};
+type Row = Record<string, unknown>;
+type Env = Record<string, unknown>;
+type WriteMode = "create" | "replace" | "patch";
+
+export interface CrudStore {
+  list(page: { limit: number; offset: number }): Promise<{ items: Row[]; total: number }>;
+  get(id: string): Promise<Row | null>;
+  create(input: Row): Promise<Row>;
+  update(id: string, patch: Row): Promise<Row | null>;
+  remove(id: string): Promise<boolean>;
+}
+
+const AUTO_FIELDS = ["id", "created_at", "updated_at"];
+const MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+// Every error has this shape
+function errorResponse(status: number, code: string, message: string, details?: Record<string, string>, headers?: Record<string, string>): Response {
+  return json({ error: message, code, ...(details ? { details } : {}) }, status, headers);
+}
+
+function coerce(rule: FieldRule, value: unknown): { value?: unknown; error?: string } {
+  if (value === null || value === "") return rule.required ? { error: "is required" } : { value: null };
+  switch (rule.type) {
+    case "text": {
+      if (typeof value !== "string") return { error: "must be a string" };
+      if (value.length > (rule.maxLength ?? 10000)) return { error: "must be at most " + (rule.maxLength ?? 10000) + " characters" };
+      if (rule.enum && !rule.enum.includes(value)) return { error: "must be one of: " + rule.enum.join(", ") };
+      return { value };
     }
-    case 'POST': {
-      // TODO: create a new record from the request body
-      return new Response(JSON.stringify({ message: 'Create stub' }), { status: 201, headers: { 'Content-Type': 'application/json' } });
+    case "integer":
+    case "real": {
+      const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof n !== "number" || !Number.isFinite(n)) return { error: "must be a number" };
+      if (rule.type === "integer" && !Number.isInteger(n)) return { error: "must be a whole number" };
+      if (rule.min !== undefined && n < rule.min) return { error: "must be at least " + rule.min };
+      if (rule.max !== undefined && n > rule.max) return { error: "must be at most " + rule.max };
+      return { value: n };
     }
-    case 'PUT':
-    case 'PATCH': {
-      // TODO: update an existing record
-      return new Response(JSON.stringify({ message: 'Update stub', id }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    case "boolean": {
+      if (value === true || value === "true" || value === 1 || value === "1" || value === "on") return { value: true };
+      if (value === false || value === "false" || value === 0 || value === "0" || value === "off") return { value: false };
+      return { error: "must be true or false" };
     }
-    case 'DELETE': {
-      // TODO: delete a record
-      return new Response(JSON.stringify({ message: 'Delete stub', id }), { status: 204, headers: { 'Content-Type': 'application/json' } });
+    case "datetime": {
+      const t = typeof value === "string" ? Date.parse(value) : NaN;
+      if (Number.isNaN(t)) return { error: "must be an ISO-8601 date" };
+      return { value: new Date(t).toISOString() };
     }
     default:
-      return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: { 'Content-Type': 'application/json' } });
+      return { value };
+  }
+}
+
+/**
+ * Check a request body against FIELDS. create: required fields must be
+ * present; replace (PUT): like create, and absent optional fields are
+ * cleared; patch: only the fields sent are checked.
+ */
+function validate(body: unknown, mode: WriteMode): { value: Row; errors?: Record<string, string> } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { value: {}, errors: { body: "must be a JSON object" } };
+  }
+  const input = body as Row;
+  const value: Row = {};
+  const errors: Record<string, string> = {};
+  for (const key of Object.keys(input)) {
+    if (!(key in FIELDS) && !AUTO_FIELDS.includes(key)) errors[key] = "is not a known field";
+  }
+  for (const [name, rule] of Object.entries(FIELDS)) {
+    if (input[name] === undefined) {
+      if (mode === "patch" || rule.hasDefault) continue;
+      if (rule.required) errors[name] = "is required";
+      else if (mode === "replace") value[name] = null;
+      continue;
+    }
+    const out = coerce(rule, input[name]);
+    if (out.error) errors[name] = out.error;
+    else value[name] = out.value;
+  }
+  return Object.keys(errors).length ? { value, errors } : { value };
+}
+
+async function readJson(req: Request): Promise<{ body?: unknown; error?: Response }> {
+  if (Number(req.headers.get("Content-Length") || 0) > MAX_BODY_BYTES) {
+    return { error: errorResponse(413, "payload_too_large", "Request body is too large") };
+  }
+  const text = await req.text();
+  if (text.length > MAX_BODY_BYTES) return { error: errorResponse(413, "payload_too_large", "Request body is too large") };
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { error: errorResponse(400, "invalid_json", "Request body must be valid JSON") };
+  }
+}
+
+function pageParams(url: URL): { limit: number; offset: number } | null {
+  const limit = url.searchParams.has("limit") ? Number(url.searchParams.get("limit")) : DEFAULT_LIMIT;
+  const offset = url.searchParams.has("offset") ? Number(url.searchParams.get("offset")) : 0;
+  if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(offset) || offset < 0) return null;
+  return { limit: Math.min(limit, MAX_LIMIT), offset };
+}
+
+${TOKEN_AUTH_RUNTIME.trim()}
+
+// The token is required unless this request is one the spec made public
+function authorize(req: Request, env: Env, open: boolean): Response | null {
+  if (open) return null;
+  if (!env[TOKEN_SECRET]) {
+    return errorResponse(503, "auth_unconfigured", RESOURCE + " is disabled until the " + TOKEN_SECRET + " secret is set");
+  }
+  if (!hasToken(req, env[TOKEN_SECRET])) {
+    return errorResponse(401, "unauthorized", "Authorization: Bearer <" + TOKEN_SECRET + "> required", undefined, {
+      "WWW-Authenticate": 'Bearer realm="' + RESOURCE + '"',
+    });
+  }
+  return null;
+}
+
+function storeError(err: unknown): Response {
+  const message = String((err as { message?: string })?.message || err);
+  if (/UNIQUE constraint/i.test(message)) {
+    return errorResponse(409, "conflict", "A record with these values already exists");
+  }
+  if (/FOREIGN KEY constraint/i.test(message)) {
+    return errorResponse(400, "invalid_reference", "A referenced record does not exist");
+  }
+  console.error(RESOURCE + " storage error:", message);
+  return errorResponse(500, "internal_error", "Something went wrong; please try again");
+}
+`;
+
+const KV_ADAPTER = `
+interface KVNamespace {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(opts?: { prefix?: string; cursor?: string }): Promise<{ keys: { name: string }[]; list_complete: boolean; cursor?: string }>;
+}
+
+const KEY_PREFIX = RESOURCE + ":";
+
+function validId(id: string): boolean {
+  return /^[A-Za-z0-9_-]{1,64}$/.test(id);
+}
+
+// Time-ordered ids, so key order is creation order
+function newId(): string {
+  return Date.now().toString(36).padStart(9, "0") + crypto.randomUUID().replace(/-/g, "").slice(0, 8);
+}
+
+export function kvStore(kv: KVNamespace): CrudStore {
+  async function keys(): Promise<string[]> {
+    const out: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await kv.list({ prefix: KEY_PREFIX, cursor });
+      out.push(...page.keys.map((k) => k.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return out;
+  }
+  async function read(key: string): Promise<Row | null> {
+    const raw = await kv.get(key);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as Row;
+    } catch {
+      return null;
+    }
+  }
+  return {
+    async list({ limit, offset }) {
+      // Newest first
+      const all = (await keys()).reverse();
+      const rows = await Promise.all(all.slice(offset, offset + limit).map(read));
+      return { items: rows.filter((r): r is Row => r !== null), total: all.length };
+    },
+    get: (id) => read(KEY_PREFIX + id),
+    async create(input) {
+      const now = new Date().toISOString();
+      const row: Row = { ...input, id: newId(), created_at: now, updated_at: now };
+      await kv.put(KEY_PREFIX + row.id, JSON.stringify(row));
+      return row;
+    },
+    async update(id, patch) {
+      const current = await read(KEY_PREFIX + id);
+      if (!current) return null;
+      const row: Row = { ...current, ...patch, id: current.id, created_at: current.created_at, updated_at: new Date().toISOString() };
+      await kv.put(KEY_PREFIX + id, JSON.stringify(row));
+      return row;
+    },
+    async remove(id) {
+      if ((await kv.get(KEY_PREFIX + id)) === null) return false;
+      await kv.delete(KEY_PREFIX + id);
+      return true;
+    },
+  };
+}
+
+function openStore(env: Env): CrudStore | null {
+  const kv = env[BINDING] as KVNamespace | undefined;
+  return kv ? kvStore(kv) : null;
+}
+`;
+
+const D1_ADAPTER = `
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  first<T = Record<string, unknown>>(): Promise<T | null>;
+  all<T = Record<string, unknown>>(): Promise<{ results?: T[] }>;
+  run(): Promise<{ meta?: { changes?: number } }>;
+}
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+// Auto-increment ids
+function validId(id: string): boolean {
+  return /^[1-9][0-9]{0,15}$/.test(id);
+}
+
+function quote(ident: string): string {
+  return '"' + ident + '"';
+}
+
+function encode(name: string, value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  const rule = FIELDS[name];
+  if (rule?.type === "boolean") return value ? 1 : 0;
+  if (rule?.type === "json") return JSON.stringify(value);
+  return value;
+}
+
+function decode(row: Row | null): Row | null {
+  if (!row) return null;
+  const out: Row = { ...row };
+  for (const [name, rule] of Object.entries(FIELDS)) {
+    const v = row[name];
+    if (v === null || v === undefined) continue;
+    if (rule.type === "boolean") out[name] = v === 1 || v === true || v === "1";
+    if (rule.type === "json" && typeof v === "string") {
+      try {
+        out[name] = JSON.parse(v);
+      } catch {
+        out[name] = v;
+      }
+    }
   }
+  return out;
+}
+
+export function d1Store(db: D1Database): CrudStore {
+  const table = quote(TABLE);
+  return {
+    async list({ limit, offset }) {
+      const count = await db.prepare("SELECT COUNT(*) AS n FROM " + table).first<{ n: number }>();
+      const { results } = await db.prepare("SELECT * FROM " + table + " ORDER BY id DESC LIMIT ? OFFSET ?").bind(limit, offset).all();
+      return { items: (results || []).map((r) => decode(r) as Row), total: Number(count?.n || 0) };
+    },
+    async get(id) {
+      return decode(await db.prepare("SELECT * FROM " + table + " WHERE id = ?").bind(Number(id)).first());
+    },
+    async create(input) {
+      const names = Object.keys(input).filter((k) => k in FIELDS);
+      const sql = names.length
+        ? "INSERT INTO " + table + " (" + names.map(quote).join(", ") + ") VALUES (" + names.map(() => "?").join(", ") + ") RETURNING *"
+        : "INSERT INTO " + table + " DEFAULT VALUES RETURNING *";
+      const row = await db.prepare(sql).bind(...names.map((k) => encode(k, input[k]))).first();
+      return decode(row) as Row;
+    },
+    async update(id, patch) {
+      const names = Object.keys(patch).filter((k) => k in FIELDS);
+      if (names.length === 0) return this.get(id);
+      const sql =
+        "UPDATE " + table + " SET " + names.map((k) => quote(k) + " = ?").join(", ") +
+        ", updated_at = datetime('now') WHERE id = ? RETURNING *";
+      const row = await db.prepare(sql).bind(...names.map((k) => encode(k, patch[k])), Number(id)).first();
+      return decode(row);
+    },
+    async remove(id) {
+      const res = await db.prepare("DELETE FROM " + table + " WHERE id = ?").bind(Number(id)).run();
+      return Number(res.meta?.changes || 0) > 0;
+    },
+  };
+}
+
+function openStore(env: Env): CrudStore | null {
+  const db = env[BINDING] as D1Database | undefined;
+  return db ? d1Store(db) : null;
+}
+`;
+
+function renderHandler(name: string): string {
+  return `
+/**
+ * GET    BASE_PATH          list, newest first (?limit=1-100&offset=n)
+ * POST   BASE_PATH          create
+ * GET    BASE_PATH/:id      read
+ * PUT    BASE_PATH/:id      replace (absent optional fields are cleared)
+ * PATCH  BASE_PATH/:id      update the fields sent
+ * DELETE BASE_PATH/:id      delete
+ * An ?id= query parameter works in place of the /:id segment.
+ * Needs Authorization: Bearer <TOKEN_SECRET> except for GET when
+ * PUBLIC_READ is set and collection POST when PUBLIC_CREATE is set.
+ */
+export async function ${name}(req: Request, env: Env = {}): Promise<Response> {
+  const url = new URL(req.url);
+  if (url.pathname !== BASE_PATH && !url.pathname.startsWith(BASE_PATH + "/")) {
+    return errorResponse(404, "not_found", "No route for " + url.pathname);
+  }
+  const segment = url.pathname.slice(BASE_PATH.length).replace(/^\\/+|\\/+$/g, "");
+  if (segment.includes("/")) return errorResponse(404, "not_found", "No route for " + url.pathname);
+  const id = segment ? decodeURIComponent(segment) : url.searchParams.get("id");
+
+  const denied = authorize(req, env, req.method === "GET" ? PUBLIC_READ : req.method === "POST" && !id ? PUBLIC_CREATE : false);
+  if (denied) return denied;
+
+  const store = openStore(env);
+  if (!store) return errorResponse(500, "storage_unavailable", "Storage binding " + BINDING + " is not configured");
+
+  try {
+    if (!id) {
+      if (req.method === "GET") {
+        const page = pageParams(url);
+        if (!page) return errorResponse(400, "invalid_query", "limit must be 1-" + MAX_LIMIT + " and offset a non-negative integer");
+        const { items, total } = await store.list(page);
+        const next = page.offset + items.length;
+        return json({ items, total, limit: page.limit, offset: page.offset, nextOffset: next < total ? next : null });
+      }
+      if (req.method === "POST") {
+        const { body, error } = await readJson(req);
+        if (error) return error;
+        const { value, errors } = validate(body, "create");
+        if (errors) return errorResponse(400, "validation_failed", "Invalid " + RESOURCE + " record", errors);
+        const row = await store.create(value);
+        return json(row, 201, { Location: BASE_PATH + "/" + row.id });
+      }
+      return errorResponse(405, "method_not_allowed", "Method not allowed", undefined, { Allow: "GET, POST" });
+    }
+
+    if (!validId(id)) return errorResponse(400, "invalid_id", "Invalid " + RESOURCE + " id");
+    if (req.method === "GET") {
+      const row = await store.get(id);
+      return row ? json(row) : errorResponse(404, "not_found", RESOURCE + " " + id + " not found");
+    }
+    if (req.method === "PUT" || req.method === "PATCH") {
+      const { body, error } = await readJson(req);
+      if (error) return error;
+      const { value, errors } = validate(body, req.method === "PUT" ? "replace" : "patch");
+      if (errors) return errorResponse(400, "validation_failed", "Invalid " + RESOURCE + " record", errors);
+      const row = await store.update(id, value);
+      return row ? json(row) : errorResponse(404, "not_found", RESOURCE + " " + id + " not found");
+    }
+    if (req.method === "DELETE") {
+      const removed = await store.remove(id);
+      return removed ? new Response(null, { status: 204 }) : errorResponse(404, "not_found", RESOURCE + " " + id + " not found");
+    }
+    return errorResponse(405, "method_not_allowed", "Method not allowed", undefined, { Allow: "GET, PUT, PATCH, DELETE" });
+  } catch (err) {
+    return storeError(err);
+  }
+}
+`;
+}
+
+function fieldRule(f: CrudField): Record<string, unknown> {
+  return {
+    type: f.type,
+    ...(f.required ? { required: true } : {}),
+    ...(f.default !== undefined ? { hasDefault: true } : {}),
+    ...(f.maxLength !== undefined ? { maxLength: f.maxLength } : {}),
+    ...(f.min !== undefined ? { min: f.min } : {}),
+    ...(f.max !== undefined ? { max: f.max } : {}),
+    ...(f.enum?.length ? { enum: f.enum } : {}),
+  };
+}
+
+/**
+ * Instantiate the template for one resource. Throws on an invalid spec
+ * (see validateCrudSpec) rather than rendering a broken module.
+ */
+export function renderCrudHandler(spec: CrudResourceSpec): string {
+  const problems = validateCrudSpec(spec);
+  if (problems.length > 0) throw new Error(`renderCrudHandler: ${problems.join('; ')}`);
+
+  const { storage } = spec;
+  const basePath = (spec.basePath || `/api/${spec.resource}`).replace(/\/+$/, '') || '/';
+  const fields = spec.fields.map((f) => `  ${JSON.stringify(f.name)}: ${JSON.stringify(fieldRule(f))},`);
+
+  return [
+    `// Generated from the CRUD template: ${spec.resource} (${storage.kind === 'kv' ? 'KV' : 'D1'} storage).`,
+    '// Edit the field rules below rather than the request handling.',
+    '',
+    `const RESOURCE = ${JSON.stringify(spec.resource)};`,
+    `const BASE_PATH = ${JSON.stringify(basePath)};`,
+    `const BINDING = ${JSON.stringify(storage.binding)};`,
+    ...(storage.kind === 'd1' ? [`const TABLE = ${JSON.stringify(storage.table)};`] : []),
+    `const TOKEN_SECRET = ${JSON.stringify(spec.tokenSecret || ADMIN_TOKEN_SECRET)};`,
+    `const PUBLIC_READ = ${!!spec.publicRead};`,
+    `const PUBLIC_CREATE = ${!!spec.publicCreate};`,
+    '',
+    'const FIELDS: Record<string, FieldRule> = {',
+    ...fields,
+    '};',
+    RUNTIME,
+    (storage.kind === 'kv' ? KV_ADAPTER : D1_ADAPTER).trim(),
+    renderHandler(crudHandlerName(spec)),
+  ].join('\n');
 }
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+//
+// Token check shared by the rendered admin view and CRUD handlers.  Both
+// templates inline this source, so each rendered module stays
+// self-contained and checks the secret the same way: constant-time
+// comparison, `Authorization: Bearer <token>` or HTTP Basic auth with the
+// token as password (any user name).
+
+// Secret the founder sets with `wrangler secret put ADMIN_TOKEN`
+export const ADMIN_TOKEN_SECRET = 'ADMIN_TOKEN';
+
+export const TOKEN_AUTH_RUNTIME = `
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/** Bearer <token>, or Basic auth with the token as password (any user name). */
+function hasToken(req: Request, token: unknown): boolean {
+  if (typeof token !== "string" || !token) return false;
+  const auth = req.headers.get("Authorization") || "";
+  if (auth.startsWith("Bearer ")) return safeEqual(auth.slice(7).trim(), token);
+  if (auth.startsWith("Basic ")) {
+    try {
+      const decoded = atob(auth.slice(6).trim());
+      return safeEqual(decoded.slice(decoded.indexOf(":") + 1), token);
+    } catch {
+      return false;
+    }
+  }
+  return false;
+}
+`;
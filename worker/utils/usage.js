@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+// Token/cost accounting for the model calls made directly by handlers
+// (validate, brand, logo, idea, assistant, features, stack).  Build calls
+// are tracked by buildService; both add to the same per‑idea totals
+// (lib/build/usage.ts).
+
+import { addUsage, emptyTotals, getModelPrices, getUsageStore, makeUsageRecord } from '../../lib/build/usage.js';
+
+/**
+ * Add one model call to the idea's usage totals.  Without an idea id
+ * there is nothing to attribute the call to, so it is dropped.
+ * Never throws: accounting must not fail the request.
+ *
+ * @param {Object} env – Worker env (KV bindings, MODEL_PRICES_JSON)
+ * @param {string|undefined} ideaId
+ * @param {string} source – validate | brand | logo | idea | assistant | features | stack
+ * @param {{ model?: string, usage?: Object, images?: number }} call – e.g. an OpenAI response
+ */
+export async function recordUsage(env, ideaId, source, call = {}) {
+  try {
+    const rec = makeUsageRecord(
+      source,
+      { model: call.model, usage: call.usage, images: call.images },
+      getModelPrices(env),
+    );
+    if (!ideaId) return;
+    await getUsageStore(env).addToIdea(ideaId, addUsage(emptyTotals(), rec));
+  } catch (err) {
+    console.warn('⚠️ Failed to record usage:', err);
+  }
+}